@@ -10,20 +10,33 @@ import CodingGame from './components/student/CodingGame';
 import VideoGenerator from './components/teacher/VideoGenerator';
 import PdfExplainer from './components/student/PdfExplainer';
 import AdminConsole from './components/admin/AdminConsole';
+import AdminSetup from './components/admin/AdminSetup';
+import AccountSecurity from './components/AccountSecurity';
 import type { User, AppView, VideoDraft, Course, CourseModule } from './types';
 import { LumoLogo } from './components/Icons';
 import { fetchCourses, createCourse as apiCreateCourse, addLecture as apiAddLecture, deleteLecture as apiDeleteLecture, updateModuleTopics as apiUpdateModuleTopics } from './services/coursesService';
-import { listMyEnrollments, enroll as apiEnroll, withdraw as apiWithdraw } from './services/enrollmentsService';
+import { listMyEnrollments, enroll as apiEnroll, withdraw as apiWithdraw, joinCourse as apiJoinCourse } from './services/enrollmentsService';
+import { logout as apiLogout, onSessionExpired, me as apiMe, getToken } from './services/authService';
+
+// Views that depend on in-memory context (the open lecture, the generation target) are not restored
+const NON_RESTORABLE_VIEWS: AppView[] = ['lecture_viewer', 'video_generator'];
 
 const App: React.FC = () => {
     const [user, setUser] = useState<User | null>(null);
     const [currentView, setCurrentView] = useState<AppView>('student_dashboard');
     const [courses, setCourses] = useState<Course[]>([]);
     const [selectedLecture, setSelectedLecture] = useState<VideoDraft | null>(null);
+    const [selectedSlideIndex, setSelectedSlideIndex] = useState<number | undefined>(undefined);
     const [generationContext, setGenerationContext] = useState<{course: Course, module: CourseModule, topic?: string} | null>(null);
     const [showSplash, setShowSplash] = useState(true);
-    const [showAdminConsole, setShowAdminConsole] = useState(false);
+    const [showAdminSetup, setShowAdminSetup] = useState(false);
     const [enrolledCourseIds, setEnrolledCourseIds] = useState<string[]>([]);
+    // Courses where the student's request is waiting for the teacher
+    const [pendingCourseIds, setPendingCourseIds] = useState<string[]>([]);
+    // Course invite links open the app with ?join=<token>; it is redeemed once a student is signed in
+    const [joinInvite, setJoinInvite] = useState(() => new URLSearchParams(window.location.search).get('join'));
+    // True while a stored token is being validated on startup
+    const [restoring, setRestoring] = useState(() => !!getToken());
 
     // Local storage helpers for enrollment persistence per user
     const enrollKey = (uid: string) => `enrollments:${uid}`;
@@ -34,11 +47,38 @@ const App: React.FC = () => {
         try { localStorage.setItem(enrollKey(uid), JSON.stringify(ids)); } catch {}
     };
 
+    // Last view per user, restored after a reload
+    const viewKey = (uid: string) => `lastView:${uid}`;
+    const loadLastView = (uid: string): AppView | undefined => {
+        try { return (localStorage.getItem(viewKey(uid)) as AppView) || undefined; } catch { return undefined; }
+    };
+
     useEffect(() => {
         const t = setTimeout(() => setShowSplash(false), 2000);
         return () => clearTimeout(t);
     }, []);
 
+    // Restore the session from a stored token; the splash stays up until this settles
+    useEffect(() => {
+        if (!getToken()) return;
+        (async () => {
+            try {
+                const { user: restored } = await apiMe();
+                handleLogin(restored, loadLastView(restored.id));
+            } catch {
+                // An invalid session was already cleared by authService; otherwise show the login screen
+            } finally {
+                setRestoring(false);
+            }
+        })();
+    }, []);
+
+    useEffect(() => {
+        if (user && !NON_RESTORABLE_VIEWS.includes(currentView)) {
+            try { localStorage.setItem(viewKey(user.id), currentView); } catch {}
+        }
+    }, [user?.id, currentView]);
+
     // Ensure courses are fetched whenever a user session exists
     useEffect(() => {
         (async () => {
@@ -68,9 +108,15 @@ const App: React.FC = () => {
         }
     }, [user?.id, user?.role, enrolledCourseIds]);
 
-    const handleLogin = (loggedInUser: User) => {
+    const handleLogin = (loggedInUser: User, restoredView?: AppView) => {
         setUser(loggedInUser);
-        if (loggedInUser.role === 'teacher') {
+        if (loggedInUser.mustChangePassword) {
+            setCurrentView('account_security');
+        } else if (restoredView) {
+            setCurrentView(restoredView);
+        } else if (loggedInUser.role === 'admin') {
+            setCurrentView('admin_console');
+        } else if (loggedInUser.role === 'teacher') {
             setCurrentView('teacher_dashboard');
         } else {
             setCurrentView('student_dashboard');
@@ -81,6 +127,7 @@ const App: React.FC = () => {
                 try {
                     const e = await listMyEnrollments();
                     setEnrolledCourseIds(e.courseIds || []);
+                    setPendingCourseIds(e.pendingCourseIds || []);
                 } catch {
                     setEnrolledCourseIds(loadEnrollments(loggedInUser.id));
                 }
@@ -97,13 +144,29 @@ const App: React.FC = () => {
         })();
     };
 
-    const handleLogout = () => {
+    const clearSessionState = () => {
         setUser(null);
-        setCourses([]); 
+        setCourses([]);
+        setEnrolledCourseIds([]);
+        setPendingCourseIds([]);
     };
 
-    const handleSelectLecture = (lecture: VideoDraft) => {
+    // A session that can no longer be refreshed sends the user back to the login screen
+    useEffect(() => onSessionExpired(clearSessionState), []);
+
+    const handleLogout = async (allDevices = false) => {
+        try {
+            await apiLogout(allDevices);
+        } catch (e) {
+            // Tokens are cleared locally either way
+            console.error('Logout failed:', e);
+        }
+        clearSessionState();
+    };
+
+    const handleSelectLecture = (lecture: VideoDraft, slideIndex?: number) => {
         setSelectedLecture(lecture);
+        setSelectedSlideIndex(slideIndex);
         setCurrentView('lecture_viewer');
     };
     
@@ -164,21 +227,48 @@ const App: React.FC = () => {
         }
     };
 
-    const handleEnrollCourse = async (courseId: string) => {
+    // The course's enrollment policy decides on the server whether this enrolls or files a request
+    const handleEnrollCourse = async (courseId: string, sectionId?: string) => {
         try {
-            await apiEnroll(courseId);
-            setEnrolledCourseIds(prev => prev.includes(courseId) ? prev : [...prev, courseId]);
-        } catch {
-            setEnrolledCourseIds(prev => prev.includes(courseId) ? prev : [...prev, courseId]);
+            const { status } = await apiEnroll(courseId, { sectionId });
+            if (status === 'pending') {
+                setPendingCourseIds(prev => prev.includes(courseId) ? prev : [...prev, courseId]);
+            } else {
+                setEnrolledCourseIds(prev => prev.includes(courseId) ? prev : [...prev, courseId]);
+                // Picks up the student's section for the course
+                if (sectionId) await refreshCourses();
+            }
+        } catch (e: any) {
+            alert(e?.message || 'Failed to enroll');
         }
     };
 
+    // Resolves with the joined course's title; invite-only courses only appear after a refresh
+    const handleJoinCourse = async (params: { code: string } | { invite: string }) => {
+        const { courseId, title } = await apiJoinCourse(params);
+        setEnrolledCourseIds(prev => prev.includes(courseId) ? prev : [...prev, courseId]);
+        setPendingCourseIds(prev => prev.filter(id => id !== courseId));
+        await refreshCourses();
+        return title;
+    };
+
+    useEffect(() => {
+        if (!joinInvite || user?.role !== 'student') return;
+        setJoinInvite(null);
+        window.history.replaceState(null, '', window.location.pathname);
+        handleJoinCourse({ invite: joinInvite })
+            .then(() => setCurrentView('student_dashboard'))
+            .catch((e: any) => alert(e?.message || 'Failed to join course'));
+    }, [user, joinInvite]);
+
     const handleWithdrawCourse = async (courseId: string) => {
         try {
             await apiWithdraw(courseId);
             setEnrolledCourseIds(prev => prev.filter(id => id !== courseId));
+            setPendingCourseIds(prev => prev.filter(id => id !== courseId));
         } catch {
             setEnrolledCourseIds(prev => prev.filter(id => id !== courseId));
+            setPendingCourseIds(prev => prev.filter(id => id !== courseId));
         }
     };
 
@@ -202,7 +292,9 @@ const App: React.FC = () => {
     const handleBackToDashboard = () => {
         setSelectedLecture(null);
         setGenerationContext(null);
-        if (user?.role === 'teacher') {
+        if (user?.role === 'admin') {
+            setCurrentView('admin_console');
+        } else if (user?.role === 'teacher') {
             setCurrentView('teacher_dashboard');
         } else {
             setCurrentView('student_dashboard');
@@ -212,9 +304,18 @@ const App: React.FC = () => {
     const renderView = () => {
         if (!user) return null;
 
+        if (currentView === 'account_security') {
+            return <AccountSecurity user={user} onUserChange={setUser} />;
+        }
+
+        // Admins only have the console; the learning views are for students and teachers
+        if (user.role === 'admin') {
+            return <AdminConsole courses={courses} />;
+        }
+
         if (currentView === 'lecture_viewer') {
             if (selectedLecture) {
-                return <LectureViewer lecture={selectedLecture} onBack={handleBackToDashboard} />;
+                return <LectureViewer key={`${selectedLecture.id}:${selectedSlideIndex ?? 0}`} lecture={selectedLecture} initialSlideIndex={selectedSlideIndex} onBack={handleBackToDashboard} />;
             }
             handleBackToDashboard();
             return null;
@@ -224,8 +325,10 @@ const App: React.FC = () => {
             case 'student_dashboard':
             case 'student_courses':
             case 'student_videos':
+            case 'student_progress':
             case 'teacher_dashboard':
             case 'teacher_course_mgmt':
+            case 'teacher_gradebook':
                 return <Dashboard 
                             user={user} 
                             courses={courses} 
@@ -236,12 +339,14 @@ const App: React.FC = () => {
                             onDeleteLecture={handleDeleteLecture}
                             enrolledCourseIds={enrolledCourseIds}
                             onEnrollCourse={handleEnrollCourse}
+                            pendingCourseIds={pendingCourseIds}
+                            onJoinCourse={(code) => handleJoinCourse({ code })}
                             onWithdrawCourse={handleWithdrawCourse}
                             onUpdateModuleTopics={handleUpdateModuleTopics}
                             onRefreshCourses={refreshCourses}
                         />;
             case 'chatbot':
-                return <Chatbot userName={user.name} />;
+                return <Chatbot user={user} courses={courses} enrolledCourseIds={enrolledCourseIds} />;
             case 'study_tools':
                 return <StudyTools courses={courses} enrolledCourseIds={enrolledCourseIds} />;
             case 'coding_game':
@@ -267,7 +372,7 @@ const App: React.FC = () => {
         }
     };
 
-    if (showSplash) {
+    if (showSplash || restoring) {
         return (
             <div className="flex h-screen items-center justify-center bg-background text-foreground">
                 <div className="flex flex-col items-center gap-4">
@@ -279,10 +384,10 @@ const App: React.FC = () => {
     }
 
     if (!user) {
-        if (showAdminConsole) {
-            return <AdminConsole onClose={() => setShowAdminConsole(false)} />;
+        if (showAdminSetup) {
+            return <AdminSetup onClose={() => setShowAdminSetup(false)} />;
         }
-        return <Auth onLogin={handleLogin} onShowAdminConsole={() => setShowAdminConsole(true)} />;
+        return <Auth onLogin={handleLogin} onShowAdminSetup={() => setShowAdminSetup(true)} />;
     }
 
     return (
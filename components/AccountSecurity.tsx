@@ -0,0 +1,181 @@
+import React, { useState } from 'react';
+import type { User } from '../types';
+import Button from './common/Button';
+import TwoFactorSetup from './common/TwoFactorSetup';
+import { disableTwoFactor, regenerateRecoveryCodes, changePassword } from '../services/authService';
+
+interface AccountSecurityProps {
+    user: User;
+    onUserChange: (user: User) => void;
+}
+
+// Self-service account settings: password, two-factor authentication and recovery codes.
+const AccountSecurity: React.FC<AccountSecurityProps> = ({ user, onUserChange }) => {
+    const [settingUp, setSettingUp] = useState(false);
+    const [password, setPassword] = useState('');
+    const [code, setCode] = useState('');
+    const [newCodes, setNewCodes] = useState<string[] | null>(null);
+    const [busy, setBusy] = useState<'disable' | 'codes' | null>(null);
+    const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+    const [passwords, setPasswords] = useState({ current: '', next: '', confirm: '' });
+    const [passwordBusy, setPasswordBusy] = useState(false);
+    const [passwordMessage, setPasswordMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+    const handleChangePassword = async () => {
+        if (passwords.next !== passwords.confirm) {
+            setPasswordMessage({ type: 'error', text: 'The new passwords do not match.' });
+            return;
+        }
+        setPasswordBusy(true);
+        setPasswordMessage(null);
+        try {
+            await changePassword({ oldPassword: passwords.current, newPassword: passwords.next });
+            setPasswords({ current: '', next: '', confirm: '' });
+            setPasswordMessage({ type: 'success', text: 'Password changed.' });
+            if (user.mustChangePassword) onUserChange({ ...user, mustChangePassword: false });
+        } catch (e: any) {
+            setPasswordMessage({ type: 'error', text: e?.message || 'Failed to change password.' });
+        } finally {
+            setPasswordBusy(false);
+        }
+    };
+
+    const handleDisable = async () => {
+        setBusy('disable');
+        setMessage(null);
+        try {
+            await disableTwoFactor({ password, code });
+            onUserChange({ ...user, twoFactorEnabled: false });
+            setPassword('');
+            setCode('');
+            setNewCodes(null);
+            setMessage({ type: 'success', text: 'Two-factor authentication is off.' });
+        } catch (e: any) {
+            setMessage({ type: 'error', text: e?.message || 'Failed to disable two-factor authentication.' });
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleRegenerate = async () => {
+        setBusy('codes');
+        setMessage(null);
+        try {
+            const { recoveryCodes } = await regenerateRecoveryCodes(code);
+            setNewCodes(recoveryCodes);
+            setCode('');
+        } catch (e: any) {
+            setMessage({ type: 'error', text: e?.message || 'Failed to regenerate recovery codes.' });
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    return (
+        <div className="p-4 md:p-8 space-y-6 max-w-2xl">
+            <h2 className="text-3xl font-bold">Account Security</h2>
+
+            <section className="bg-card border border-border rounded-lg p-6 space-y-3">
+                <h3 className="text-lg font-semibold">Password</h3>
+                {user.mustChangePassword && (
+                    <div className="px-4 py-3 rounded-md text-sm bg-amber-50 text-amber-800 border border-amber-200">
+                        You signed in with a one-time password. Choose your own password now.
+                    </div>
+                )}
+                <input
+                    type="password"
+                    autoComplete="current-password"
+                    placeholder={user.mustChangePassword ? 'One-time password' : 'Current password'}
+                    value={passwords.current}
+                    onChange={(e) => setPasswords(p => ({ ...p, current: e.target.value }))}
+                    className="w-full px-3 py-2 bg-background border border-border rounded"
+                />
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="New password (at least 8 characters)"
+                    value={passwords.next}
+                    onChange={(e) => setPasswords(p => ({ ...p, next: e.target.value }))}
+                    className="w-full px-3 py-2 bg-background border border-border rounded"
+                />
+                <input
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="Confirm new password"
+                    value={passwords.confirm}
+                    onChange={(e) => setPasswords(p => ({ ...p, confirm: e.target.value }))}
+                    className="w-full px-3 py-2 bg-background border border-border rounded"
+                />
+                <Button onClick={handleChangePassword} disabled={passwordBusy || !passwords.current || passwords.next.length < 8 || !passwords.confirm}>
+                    {passwordBusy ? 'Saving…' : 'Change password'}
+                </Button>
+                {passwordMessage && (
+                    <p className={`text-sm ${passwordMessage.type === 'success' ? 'text-emerald-600' : 'text-red-500'}`}>{passwordMessage.text}</p>
+                )}
+            </section>
+
+            <section className="bg-card border border-border rounded-lg p-6 space-y-4">
+                <div>
+                    <h3 className="text-lg font-semibold">Two-factor authentication</h3>
+                    <p className="text-sm text-muted-foreground">
+                        {user.twoFactorEnabled
+                            ? 'On. Signing in asks for a code from your authenticator app.'
+                            : 'Off. Add a code from an authenticator app to every sign-in.'}
+                    </p>
+                </div>
+
+                {!user.twoFactorEnabled && (settingUp ? (
+                    <TwoFactorSetup
+                        onDone={(updated) => { setSettingUp(false); onUserChange({ ...user, ...updated }); }}
+                        onCancel={() => setSettingUp(false)}
+                    />
+                ) : (
+                    <Button onClick={() => setSettingUp(true)}>Set up two-factor authentication</Button>
+                ))}
+
+                {user.twoFactorEnabled && (
+                    <div className="space-y-3">
+                        <input
+                            type="text"
+                            inputMode="numeric"
+                            autoComplete="one-time-code"
+                            placeholder="Current 6-digit code"
+                            value={code}
+                            onChange={(e) => setCode(e.target.value)}
+                            className="w-full px-3 py-2 bg-background border border-border rounded"
+                        />
+                        <div className="flex flex-wrap gap-2">
+                            <Button variant="secondary" onClick={handleRegenerate} disabled={busy !== null || code.trim().length < 6}>
+                                {busy === 'codes' ? 'Generating…' : 'New recovery codes'}
+                            </Button>
+                        </div>
+                        {newCodes && (
+                            <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-background border border-border rounded-md p-3">
+                                {newCodes.map(c => <li key={c} className="select-all">{c}</li>)}
+                            </ul>
+                        )}
+                        <div className="border-t border-border pt-3 space-y-2">
+                            <p className="text-sm font-medium">Turn off</p>
+                            <input
+                                type="password"
+                                placeholder="Password"
+                                value={password}
+                                onChange={(e) => setPassword(e.target.value)}
+                                className="w-full px-3 py-2 bg-background border border-border rounded"
+                            />
+                            <Button variant="danger" onClick={handleDisable} disabled={busy !== null || !password || code.trim().length < 6}>
+                                {busy === 'disable' ? 'Turning off…' : 'Turn off two-factor authentication'}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {message && (
+                    <p className={`text-sm ${message.type === 'success' ? 'text-emerald-600' : 'text-red-500'}`}>{message.text}</p>
+                )}
+            </section>
+        </div>
+    );
+};
+
+export default AccountSecurity;
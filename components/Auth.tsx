@@ -1,34 +1,120 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { User, Role } from '../types';
-import { register as apiRegister, login as apiLogin } from '../services/authService';
+import { register as apiRegister, login as apiLogin, acceptInvite, verifyLoginCode, requestPasswordReset, resetPasswordWithToken, getSsoConfig, ssoLoginUrl, exchangeSsoCode } from '../services/authService';
+import type { AuthSession, LoginChallenge } from '../services/authService';
+import { getAdminStatus } from '../services/adminService';
 import Button from './common/Button';
+import TwoFactorSetup from './common/TwoFactorSetup';
 import { LumoLogo } from './Icons';
 
 interface AuthProps {
     onLogin: (user: User) => void;
-    onShowAdminConsole: () => void;
+    onShowAdminSetup: () => void;
 }
 
-const Auth: React.FC<AuthProps> = ({ onLogin, onShowAdminConsole }) => {
-    const [mode, setMode] = useState<'login' | 'register'>('login');
+type AuthMode = 'login' | 'register' | 'invite' | 'forgot' | 'reset';
+
+const SUBMIT_LABELS: Record<AuthMode, string> = {
+    login: 'Login',
+    register: 'Create account',
+    invite: 'Activate account',
+    forgot: 'Send reset link',
+    reset: 'Set new password',
+};
+
+const Auth: React.FC<AuthProps> = ({ onLogin, onShowAdminSetup }) => {
+    // Bulk-imported users arrive with ?invite=<token>, password reset emails link to ?reset=<token>
+    const [inviteToken] = useState(() => new URLSearchParams(window.location.search).get('invite'));
+    const [resetToken] = useState(() => new URLSearchParams(window.location.search).get('reset'));
+    // The SSO callback lands on ?sso=<one-time code>, or ?sso_error=<message> when it failed
+    const [ssoCode] = useState(() => new URLSearchParams(window.location.search).get('sso'));
+    const [mode, setMode] = useState<AuthMode>(inviteToken ? 'invite' : resetToken ? 'reset' : 'login');
+    const [notice, setNotice] = useState<string | null>(null);
     const [name, setName] = useState('');
     const [email, setEmail] = useState('');
     const [password, setPassword] = useState('');
     const [showPassword, setShowPassword] = useState(false);
     const [remember, setRemember] = useState(true);
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(() => new URLSearchParams(window.location.search).get('sso_error'));
+    // Second login step after a correct password: enter a code, or enroll when the role requires 2FA
+    const [challenge, setChallenge] = useState<{ kind: 'verify' | 'setup'; mfaToken: string } | null>(null);
+    const [mfaCode, setMfaCode] = useState('');
+    // Offer first-admin setup only until an admin account exists
+    const [needsAdminSetup, setNeedsAdminSetup] = useState(false);
+    const [sso, setSso] = useState<{ enabled: boolean; name: string }>({ enabled: false, name: '' });
+    // The SSO code is single-use, so exchange it once even if the effect runs twice
+    const ssoExchanged = useRef(false);
+
+    useEffect(() => {
+        getAdminStatus()
+            .then(s => setNeedsAdminSetup(!s.bootstrapped && s.secretConfigured))
+            .catch(() => setNeedsAdminSetup(false));
+        getSsoConfig()
+            .then(setSso)
+            .catch(() => setSso({ enabled: false, name: '' }));
+    }, []);
+
+    const handleLoginResult = (result: (AuthSession & { user: User }) | LoginChallenge) => {
+        if ('token' in result) {
+            onLogin(result.user);
+        } else {
+            setMfaCode('');
+            setChallenge({ kind: 'mfaRequired' in result ? 'verify' : 'setup', mfaToken: result.mfaToken });
+        }
+    };
+
+    useEffect(() => {
+        const params = new URLSearchParams(window.location.search);
+        if (params.has('sso') || params.has('sso_error')) window.history.replaceState(null, '', window.location.pathname);
+        if (!ssoCode || ssoExchanged.current) return;
+        ssoExchanged.current = true;
+        setLoading(true);
+        exchangeSsoCode(ssoCode)
+            .then(handleLoginResult)
+            .catch((e: any) => setError(e?.message || 'Single sign-on failed'))
+            .finally(() => setLoading(false));
+    }, [ssoCode]);
+
+    const switchMode = (next: AuthMode) => {
+        setMode(next);
+        setError(null);
+        setNotice(null);
+    };
+
+    const canSubmit = {
+        login: !!email && !!password,
+        register: !!name && !!email && !!password,
+        invite: password.length >= 8,
+        forgot: !!email,
+        reset: password.length >= 8,
+    }[mode];
 
     const handleSubmit = async () => {
         setError(null);
+        setNotice(null);
         setLoading(true);
         try {
-            if (mode === 'register') {
+            if (mode === 'forgot') {
+                await requestPasswordReset(email);
+                setNotice('If an account exists for that email, a reset link is on its way.');
+            } else if (mode === 'reset' && resetToken) {
+                await resetPasswordWithToken({ token: resetToken, password });
+                window.history.replaceState(null, '', window.location.pathname);
+                setPassword('');
+                setMode('login');
+                setNotice('Password updated. Log in with your new password.');
+            } else if (mode === 'invite' && inviteToken) {
+                const result = await acceptInvite({ token: inviteToken, password });
+                window.history.replaceState(null, '', window.location.pathname);
+                // The invite is used up; backing out of a 2FA challenge lands on the normal login
+                setMode('login');
+                handleLoginResult(result);
+            } else if (mode === 'register') {
                 const { user } = await apiRegister({ name, email, password, role: Role.Student });
                 onLogin(user);
             } else {
-                const { user } = await apiLogin({ email, password });
-                onLogin(user);
+                handleLoginResult(await apiLogin({ email, password }));
             }
         } catch (e: any) {
             setError(e?.message || 'Authentication failed');
@@ -37,6 +123,55 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowAdminConsole }) => {
         }
     };
 
+    const handleVerifyCode = async () => {
+        if (!challenge) return;
+        setError(null);
+        setLoading(true);
+        try {
+            const { user } = await verifyLoginCode({ mfaToken: challenge.mfaToken, code: mfaCode });
+            onLogin(user);
+        } catch (e: any) {
+            setError(e?.message || 'Invalid authentication code');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const cancelChallenge = () => {
+        setChallenge(null);
+        setPassword('');
+        setError(null);
+    };
+
+    const renderChallenge = () => challenge?.kind === 'setup' ? (
+        <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">Your role requires two-factor authentication. Set it up to finish signing in.</p>
+            <TwoFactorSetup mfaToken={challenge.mfaToken} onDone={onLogin} onCancel={cancelChallenge} />
+        </div>
+    ) : (
+        <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Two-factor authentication</h3>
+            <p className="text-sm text-muted-foreground">Enter the 6-digit code from your authenticator app, or one of your recovery codes.</p>
+            <input
+                type="text"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={mfaCode}
+                onChange={(e) => setMfaCode(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && mfaCode.trim()) handleVerifyCode(); }}
+                className="w-full px-3 py-2 bg-background border border-border rounded tracking-widest text-center"
+                autoFocus
+            />
+            {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+            <Button onClick={handleVerifyCode} className="w-full h-11" disabled={loading || !mfaCode.trim()}>
+                {loading ? 'Please wait...' : 'Verify'}
+            </Button>
+            <button type="button" onClick={cancelChallenge} className="w-full text-xs text-center text-foreground/80 hover:underline">
+                Back to login
+            </button>
+        </div>
+    );
+
     // Matrix rain canvas background (stable, no reloads)
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     useEffect(() => {
@@ -111,22 +246,38 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowAdminConsole }) => {
                             <LumoLogo className="w-8 h-8 text-foreground" />
                             <h2 className="text-2xl font-bold">LumoAI</h2>
                         </div>
-                        <div className="inline-flex bg-background border border-border rounded-full overflow-hidden">
-                            <button onClick={() => setMode('login')} className={`px-4 py-2 text-sm ${mode==='login' ? 'bg-foreground text-background' : ''}`}>Login</button>
-                            <button onClick={() => setMode('register')} className={`px-4 py-2 text-sm ${mode==='register' ? 'bg-foreground text-background' : ''}`}>Register</button>
-                        </div>
+                        {!challenge && (
+                            <div className="inline-flex bg-background border border-border rounded-full overflow-hidden">
+                                <button onClick={() => switchMode('login')} className={`px-4 py-2 text-sm ${mode==='login' ? 'bg-foreground text-background' : ''}`}>Login</button>
+                                <button onClick={() => switchMode('register')} className={`px-4 py-2 text-sm ${mode==='register' ? 'bg-foreground text-background' : ''}`}>Register</button>
+                            </div>
+                        )}
                     </div>
 
                     {/* Form */}
+                    {challenge ? renderChallenge() : (
                     <div className="space-y-4">
                         {mode === 'register' && (
                             <input type="text" placeholder="Full name" value={name} onChange={(e)=>setName(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded" />
                         )}
-                        <input type="email" placeholder="Email" value={email} onChange={(e)=>setEmail(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded" />
-                        <div className="relative">
-                            <input type={showPassword? 'text':'password'} placeholder="Password" value={password} onChange={(e)=>setPassword(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded pr-20" />
-                            <button type="button" onClick={()=>setShowPassword(s=>!s)} className="absolute right-2 top-1/2 -translate-y-1/2 text-xs px-2 py-1 border border-border rounded bg-background">{showPassword? 'Hide':'Show'}</button>
-                        </div>
+                        {mode === 'invite' && (
+                            <p className="text-sm text-muted-foreground">You have been invited to LumoAI. Choose a password (at least 8 characters) to activate your account.</p>
+                        )}
+                        {mode === 'reset' && (
+                            <p className="text-sm text-muted-foreground">Choose a new password (at least 8 characters). You will be signed out on every device.</p>
+                        )}
+                        {mode === 'forgot' && (
+                            <p className="text-sm text-muted-foreground">Enter your account email and we will send you a link to reset your password.</p>
+                        )}
+                        {mode !== 'invite' && mode !== 'reset' && (
+                            <input type="email" placeholder="Email" value={email} onChange={(e)=>setEmail(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded" />
+                        )}
+                        {mode !== 'forgot' && (
+                            <div className="relative">
+                                <input type={showPassword? 'text':'password'} placeholder={mode === 'reset' ? 'New password' : 'Password'} value={password} onChange={(e)=>setPassword(e.target.value)} className="w-full px-3 py-2 bg-background border border-border rounded pr-20" />
+                                <button type="button" onClick={()=>setShowPassword(s=>!s)} className="absolute right-2 top-1/2 -translate-y-1/2 text-xs px-2 py-1 border border-border rounded bg-background">{showPassword? 'Hide':'Show'}</button>
+                            </div>
+                        )}
 
                         {mode === 'register' && (
                             <div className="text-xs text-muted-foreground">
@@ -137,24 +288,46 @@ const Auth: React.FC<AuthProps> = ({ onLogin, onShowAdminConsole }) => {
                         {mode === 'login' && (
                             <div className="flex items-center justify-between text-sm">
                                 <label className="flex items-center gap-2"><input type="checkbox" checked={remember} onChange={(e)=>setRemember(e.target.checked)} /> Remember me</label>
+                                <button type="button" onClick={() => switchMode('forgot')} className="text-xs text-foreground/80 hover:underline">Forgot password?</button>
                             </div>
                         )}
 
                         {error && <p className="text-red-500 text-sm text-center">{error}</p>}
+                        {notice && <p className="text-emerald-600 text-sm text-center">{notice}</p>}
 
-                        <Button onClick={handleSubmit} className="w-full h-11" disabled={loading || (mode==='register' && (!name||!email||!password)) || (mode==='login' && (!email||!password))}>
-                            {loading ? 'Please wait...' : mode==='register' ? 'Create account' : 'Login'}
+                        <Button onClick={handleSubmit} className="w-full h-11" disabled={loading || !canSubmit}>
+                            {loading ? 'Please wait...' : SUBMIT_LABELS[mode]}
                         </Button>
 
+                        {mode === 'login' && sso.enabled && (
+                            <>
+                                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                                    <span className="flex-1 border-t border-border" />or<span className="flex-1 border-t border-border" />
+                                </div>
+                                <Button variant="secondary" className="w-full h-11" disabled={loading} onClick={() => { window.location.href = ssoLoginUrl(); }}>
+                                    Sign in with {sso.name}
+                                </Button>
+                            </>
+                        )}
+
+                        {(mode === 'forgot' || mode === 'reset') && (
+                            <button type="button" onClick={() => switchMode('login')} className="w-full text-xs text-center text-foreground/80 hover:underline">
+                                Back to login
+                            </button>
+                        )}
+
                         <p className="text-xs text-muted-foreground text-center">By continuing, you agree to the Terms and Privacy Policy.</p>
-                        <button
-                            type="button"
-                            onClick={onShowAdminConsole}
-                            className="w-full text-xs text-center text-foreground/80 hover:underline"
-                        >
-                            Admin console
-                        </button>
+                        {needsAdminSetup && (
+                            <button
+                                type="button"
+                                onClick={onShowAdminSetup}
+                                className="w-full text-xs text-center text-foreground/80 hover:underline"
+                            >
+                                Set up the first admin account
+                            </button>
+                        )}
                     </div>
+                    )}
                 </div>
             </div>
             </div>
@@ -1,11 +1,24 @@
 import React, { useEffect, useMemo, useState } from 'react';
-import type { User, Course, CourseModule, VideoDraft, AppView } from '../types';
+import type { User, Course, CourseModule, VideoDraft, AppView, PublicQuizQuestion, QuizAnswer, QuizReviewItem, QuizSource, QuizMode, AdaptivePlan } from '../types';
 import { Role } from '../types';
 import Button from './common/Button';
 import { DeleteIcon, SparklesIcon, QuestionIcon } from './Icons';
 import Loader from './common/Loader';
+import QuizEditor from './teacher/QuizEditor';
+import QuestionBank from './teacher/QuestionBank';
+import { exportQtiPackage } from '../services/qti';
+import { downloadBlob } from '../services/gradebookExport';
+import AnalyticsOverview from './teacher/AnalyticsOverview';
+import Gradebook from './teacher/Gradebook';
+import EnrollmentRequests from './teacher/EnrollmentRequests';
+import EnrollmentSettings from './teacher/EnrollmentSettings';
+import CourseSections from './teacher/CourseSections';
+import UserImport from './common/UserImport';
+import QuizQuestionInput from './common/QuizQuestionInput';
+import QuizReview from './common/QuizReview';
+import ProgressView from './student/ProgressView';
 import { generateCourseModules } from '../services/geminiService';
-import { deleteCourse as apiDeleteCourse } from '../services/coursesService';
+import { deleteCourse as apiDeleteCourse, updateModuleQuizSettings } from '../services/coursesService';
 import { uploadMaterial, listMaterials } from '../services/materialsService';
 import { generateQuiz, submitQuiz, getAttemptsSummary, getLastAttempt } from '../services/quizService';
 
@@ -13,20 +26,34 @@ interface DashboardProps {
     user: User;
     courses: Course[];
     currentView?: AppView;
-    onSelectLecture: (lecture: VideoDraft) => void;
+    onSelectLecture: (lecture: VideoDraft, slideIndex?: number) => void;
     onCreateCourse: (subject: string, modules: CourseModule[]) => void;
     onGenerateLectureClick: (course: Course, module: CourseModule, topic?: string) => void;
     onDeleteLecture: (courseId: string, moduleId: string, lectureId: string) => void;
     enrolledCourseIds: string[];
-    onEnrollCourse: (courseId: string) => void;
+    onEnrollCourse: (courseId: string, sectionId?: string) => void;
+    // Courses the student asked to join that still await approval
+    pendingCourseIds?: string[];
+    // Redeems a join code; resolves with the course title
+    onJoinCourse?: (code: string) => Promise<string>;
     onWithdrawCourse?: (courseId: string) => void;
     onUpdateModuleTopics: (courseId: string, moduleId: string, topics: string[]) => void;
     onRefreshCourses?: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSelectLecture, onCreateCourse, onGenerateLectureClick, onDeleteLecture, enrolledCourseIds, onEnrollCourse, onWithdrawCourse, onUpdateModuleTopics, onRefreshCourses }) => {
+// <input type="datetime-local"> works in local time without a zone
+const toLocalDateTime = (iso?: string | null) => {
+    if (!iso) return '';
+    const d = new Date(iso);
+    return new Date(d.getTime() - d.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+type QuizSettingsInput = { durationMinutes: string; maxAttempts: string; dueAt: string };
+
+const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSelectLecture, onCreateCourse, onGenerateLectureClick, onDeleteLecture, enrolledCourseIds, onEnrollCourse, pendingCourseIds = [], onJoinCourse, onWithdrawCourse, onUpdateModuleTopics, onRefreshCourses }) => {
     const [expandedModules, setExpandedModules] = useState<Record<string, boolean>>({});
     const [isCreatingCourse, setIsCreatingCourse] = useState(false);
+    const [showImport, setShowImport] = useState(false);
     const [newCourseSubject, setNewCourseSubject] = useState('');
     const [isLoadingModules, setIsLoadingModules] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -36,9 +63,26 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
     const [materialsByModule, setMaterialsByModule] = useState<Record<string, Array<{ id: string; title: string; size: number; mime: string; indexed: boolean; createdAt: string }>>>({});
     const [draftCourse, setDraftCourse] = useState<{ subject: string; modules: CourseModule[] } | null>(null);
     const [catalogQuery, setCatalogQuery] = useState('');
+    const [joinCode, setJoinCode] = useState('');
+    const [joinStatus, setJoinStatus] = useState<{ ok: boolean; text: string } | null>(null);
+    const [isJoining, setIsJoining] = useState(false);
+    const [openEnrollment, setOpenEnrollment] = useState<Record<string, boolean>>({});
+    const [openSections, setOpenSections] = useState<Record<string, boolean>>({});
+    // Section a student picked in the catalog before enrolling, per course
+    const [catalogSections, setCatalogSections] = useState<Record<string, string>>({});
     const [attemptsByCourse, setAttemptsByCourse] = useState<Record<string, number>>({});
     const [lastByModule, setLastByModule] = useState<Record<string, { score: number; total: number; createdAt: string }>>({});
-    const [activeQuiz, setActiveQuiz] = useState<{ courseId: string; moduleId: string; quizId: string; questions: Array<{ question: string; options: string[]; correctAnswer: string }>; answers: Array<number|null>; submitting: boolean; endAt: number; left: number; error?: string } | null>(null);
+    const [activeQuiz, setActiveQuiz] = useState<{ courseId: string; moduleId: string; quizId: string; questions: PublicQuizQuestion[]; answers: Array<QuizAnswer|null>; submitting: boolean; endAt: number; left: number; attempts?: { used: number; max: number | null }; adaptive?: AdaptivePlan; error?: string } | null>(null);
+    const [quizReview, setQuizReview] = useState<{ courseId: string; moduleId: string; score: number; total: number; late?: boolean; items: QuizReviewItem[] } | null>(null);
+    // Keyed by "<moduleId>:<sectionId>", with an empty section id for the module's own settings
+    const [quizSettingsInputs, setQuizSettingsInputs] = useState<Record<string, QuizSettingsInput>>({});
+    // Section whose quiz settings override is being edited, per module ('' for the module itself)
+    const [quizSettingsSections, setQuizSettingsSections] = useState<Record<string, string>>({});
+    const [savingQuizSettings, setSavingQuizSettings] = useState<Record<string, boolean>>({});
+    const [openQuizEditors, setOpenQuizEditors] = useState<Record<string, boolean>>({});
+    const [openQuestionBanks, setOpenQuestionBanks] = useState<Record<string, boolean>>({});
+    // Bumped when a bank assembles a new draft so an open editor reloads it
+    const [quizEditorVersions, setQuizEditorVersions] = useState<Record<string, number>>({});
     // Videos view state (must be top-level to satisfy Hooks rules)
     const myCourses = useMemo(() => courses.filter(c => enrolledCourseIds.includes(c.id)), [courses, enrolledCourseIds]);
     const [selCourseId, setSelCourseId] = useState<string>('');
@@ -81,17 +125,19 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
         })();
     }, [user.role]);
 
-    const startQuiz = async (courseId: string, moduleId: string) => {
+    const startQuiz = async (courseId: string, moduleId: string, mode: QuizMode = 'standard') => {
+        setQuizReview(null);
         try {
-            const q = await generateQuiz(courseId, moduleId);
-            const endAt = Date.now() + 5 * 60 * 1000; // 5 minutes
-            setActiveQuiz({ courseId, moduleId, quizId: q.id, questions: q.questions, answers: new Array(q.questions.length).fill(null), submitting: false, endAt, left: 5*60 });
+            const q = await generateQuiz(courseId, moduleId, mode);
+            // Server owns the deadline; mirror its duration locally for the countdown
+            const endAt = Date.now() + q.durationSeconds * 1000;
+            setActiveQuiz({ courseId, moduleId, quizId: q.id, questions: q.questions, answers: new Array(q.questions.length).fill(null), submitting: false, endAt, left: q.durationSeconds, attempts: q.attempts, adaptive: q.adaptive });
         } catch (e:any) {
             setActiveQuiz({ courseId, moduleId, quizId: '', questions: [], answers: [], submitting: false, endAt: 0, left: 0, error: String(e?.message || 'Failed to generate quiz') });
         }
     };
 
-    const setAnswer = (idx: number, val: number) => {
+    const setAnswer = (idx: number, val: QuizAnswer) => {
         setActiveQuiz(prev => prev ? { ...prev, answers: prev.answers.map((a, i) => i === idx ? val : a) } : prev);
     };
 
@@ -100,14 +146,42 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
         const a = activeQuiz;
         try {
             setActiveQuiz({ ...a, submitting: true });
-            const result = await submitQuiz({ courseId: a.courseId, moduleId: a.moduleId, quizId: a.quizId, questions: a.questions, answers: a.answers.map(x => (typeof x === 'number' ? x : -1)) });
-            alert(`Score: ${result.score}/${result.total}`);
+            const result = await submitQuiz({ quizId: a.quizId, answers: a.answers.map(x => x ?? '') });
+            setQuizReview({ courseId: a.courseId, moduleId: a.moduleId, score: result.score, total: result.total, late: result.late, items: result.review || [] });
             try { setAttemptsByCourse(await getAttemptsSummary()); } catch {}
             try { const last = await getLastAttempt(a.courseId, a.moduleId); if (last) setLastByModule(prev => ({ ...prev, [a.moduleId]: last })); } catch {}
-        } catch {}
+        } catch (e: any) {
+            alert(e?.message || 'Failed to submit quiz');
+        }
         setActiveQuiz(null);
     };
 
+    // Resolve a review source pointer against the course tree so students can jump back to the slide
+    const findSourceLecture = (courseId: string, source: QuizSource) => {
+        const course = courses.find(c => c.id === courseId);
+        if (!course || !source.lectureId) return null;
+        for (const m of course.modules) {
+            const lecture = m.lectures.find(l => l.id === source.lectureId);
+            if (lecture) return lecture;
+        }
+        return null;
+    };
+
+    const getReviewSourceLabel = (courseId: string, moduleId: string) => (source: QuizSource) => {
+        if (source.materialId) {
+            const material = (materialsByModule[moduleId] || []).find(m => m.id === source.materialId);
+            return material ? `material "${material.title}"` : 'module material';
+        }
+        const lecture = findSourceLecture(courseId, source);
+        if (!lecture || source.slideIndex === undefined) return null;
+        return `slide ${source.slideIndex + 1} of "${lecture.title}"`;
+    };
+
+    const openReviewSource = (courseId: string) => (source: QuizSource) => {
+        const lecture = findSourceLecture(courseId, source);
+        if (lecture) onSelectLecture(lecture, source.slideIndex);
+    };
+
     // countdown effect for quiz timer
     useEffect(() => {
         if (!activeQuiz || !activeQuiz.endAt) return;
@@ -164,6 +238,51 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
         onUpdateModuleTopics(courseId, module.id, next);
     };
 
+    // A section override shows only the values it sets; blank fields inherit the module's
+    const getQuizSettingsInput = (module: CourseModule): QuizSettingsInput => {
+        const sectionId = quizSettingsSections[module.id] || '';
+        const edited = quizSettingsInputs[`${module.id}:${sectionId}`];
+        if (edited) return edited;
+        if (sectionId) {
+            const override = module.quizSettings?.sectionOverrides?.[sectionId] || {};
+            return {
+                durationMinutes: override.durationMinutes != null ? String(override.durationMinutes) : '',
+                maxAttempts: override.maxAttempts != null ? String(override.maxAttempts) : '',
+                dueAt: toLocalDateTime(override.dueAt),
+            };
+        }
+        return {
+            durationMinutes: String(module.quizSettings?.durationMinutes ?? 5),
+            maxAttempts: module.quizSettings?.maxAttempts ? String(module.quizSettings.maxAttempts) : '',
+            dueAt: toLocalDateTime(module.quizSettings?.dueAt),
+        };
+    };
+
+    const setQuizSettingsInput = (module: CourseModule, patch: Partial<QuizSettingsInput>) => {
+        const key = `${module.id}:${quizSettingsSections[module.id] || ''}`;
+        setQuizSettingsInputs(prev => ({ ...prev, [key]: { ...getQuizSettingsInput(module), ...patch } }));
+    };
+
+    const saveQuizSettings = async (courseId: string, module: CourseModule) => {
+        const input = getQuizSettingsInput(module);
+        const sectionId = quizSettingsSections[module.id] || '';
+        setSavingQuizSettings(prev => ({ ...prev, [module.id]: true }));
+        try {
+            await updateModuleQuizSettings(courseId, module.id, {
+                durationMinutes: input.durationMinutes ? Number(input.durationMinutes) : null,
+                maxAttempts: input.maxAttempts ? Number(input.maxAttempts) : sectionId ? null : 0,
+                dueAt: input.dueAt ? new Date(input.dueAt).toISOString() : null,
+                sectionId: sectionId || undefined,
+            });
+            setQuizSettingsInputs(prev => { const next = { ...prev }; delete next[`${module.id}:${sectionId}`]; return next; });
+            onRefreshCourses?.();
+        } catch (e: any) {
+            alert(e?.message || 'Failed to save quiz settings');
+        } finally {
+            setSavingQuizSettings(prev => ({ ...prev, [module.id]: false }));
+        }
+    };
+
     const loadMaterials = async (courseId: string, moduleId: string) => {
         try {
             const res = await listMaterials(courseId, moduleId);
@@ -187,26 +306,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
     };
 
     const teacherCourses = useMemo(() => courses.filter(c => !c.creatorId || c.creatorId === user.id), [courses, user.id]);
+    // Analytics and the gradebook also cover courses where the teacher is a section TA
+    const staffCourses = useMemo(() => courses.filter(c => !c.creatorId || c.creatorId === user.id || !!c.teachingSectionIds?.length), [courses, user.id]);
 
-    // Teacher Overview: count + names only
+    // Teacher Overview: quiz analytics across the teacher's courses
     const renderTeacherOverview = () => (
         <>
             <h2 className="text-3xl font-bold mb-4">Overview</h2>
-            <div className="bg-card border border-border rounded-lg p-6 mb-6">
-                <p className="text-lg">Total courses created: <span className="font-semibold">{teacherCourses.length}</span></p>
-            </div>
-            <div className="bg-card border border-border rounded-lg p-6">
-                <h3 className="text-xl font-semibold mb-3">Your Courses</h3>
-                {teacherCourses.length ? (
-                    <ul className="list-disc list-inside text-sm text-foreground space-y-1">
-                        {teacherCourses.map(c => (
-                            <li key={c.id}>{c.title}</li>
-                        ))}
-                    </ul>
-                ) : (
-                    <p className="text-sm text-muted-foreground">No courses created yet.</p>
-                )}
-            </div>
+            <p className="text-sm text-muted-foreground mb-4">Total courses created: <span className="font-semibold text-foreground">{teacherCourses.length}</span></p>
+            <EnrollmentRequests courses={teacherCourses} />
+            <AnalyticsOverview courses={staffCourses} />
         </>
     );
 
@@ -217,10 +326,20 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                 <div className="bg-card border border-border rounded-lg p-6 mb-8">
                     <h2 className="text-2xl font-semibold mb-2">Manage Your Courses</h2>
                     <p className="text-muted-foreground mb-4">Create new subjects, let AI generate a curriculum, and then build video lectures for each module.</p>
-                    <Button onClick={() => setIsCreatingCourse(true)}>
-                        <SparklesIcon className="w-5 h-5 mr-2" />
-                        Create New Course
-                    </Button>
+                    <div className="flex flex-wrap gap-2">
+                        <Button onClick={() => setIsCreatingCourse(true)}>
+                            <SparklesIcon className="w-5 h-5 mr-2" />
+                            Create New Course
+                        </Button>
+                        <Button variant="secondary" onClick={() => setShowImport(v => !v)}>
+                            {showImport ? 'Hide Student Import' : 'Import Students (CSV)'}
+                        </Button>
+                    </div>
+                </div>
+            )}
+            {showImport && (
+                <div className="bg-card border border-border rounded-lg p-6 mb-8">
+                    <UserImport courses={teacherCourses} />
                 </div>
             )}
             {isCreatingCourse && (
@@ -277,8 +396,26 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                         <div key={course.id} className="bg-card border border-border rounded-lg p-6">
                             <div className="flex items-start justify-between mb-4">
                                 <h3 className="text-2xl font-semibold">{course.title}</h3>
-                                <Button variant="danger" size="sm" onClick={() => handleDeleteCourse(course.id)}>Delete</Button>
+                                <div className="flex gap-2">
+                                    <Button variant="secondary" size="sm" onClick={() => setOpenSections(prev => ({ ...prev, [course.id]: !prev[course.id] }))}>
+                                        {openSections[course.id] ? 'Close Sections' : `Sections${course.sections?.length ? ` (${course.sections.length})` : ''}`}
+                                    </Button>
+                                    <Button variant="secondary" size="sm" onClick={() => setOpenEnrollment(prev => ({ ...prev, [course.id]: !prev[course.id] }))}>
+                                        {openEnrollment[course.id] ? 'Close Enrollment' : 'Enrollment'}
+                                    </Button>
+                                    <Button variant="danger" size="sm" onClick={() => handleDeleteCourse(course.id)}>Delete</Button>
+                                </div>
                             </div>
+                            {openSections[course.id] && (
+                                <div className="mb-4 p-4 bg-background border border-border rounded-md">
+                                    <CourseSections course={course} onChanged={onRefreshCourses} />
+                                </div>
+                            )}
+                            {openEnrollment[course.id] && (
+                                <div className="mb-4 p-4 bg-background border border-border rounded-md">
+                                    <EnrollmentSettings course={course} onPolicyChanged={onRefreshCourses} />
+                                </div>
+                            )}
                             <div className="space-y-4">
                                 {course.modules.map(module => (
                                     <div key={module.id} className="border-t border-border pt-4">
@@ -319,12 +456,105 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                                                     </div>
                                                 </div>
 
+                                                <div>
+                                                    <p className="text-sm font-medium mb-2">Quiz settings</p>
+                                                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                                                        {(course.sections || []).length > 0 && (
+                                                            <select
+                                                                value={quizSettingsSections[module.id] || ''}
+                                                                onChange={(e) => setQuizSettingsSections(prev => ({ ...prev, [module.id]: e.target.value }))}
+                                                                className="p-2 bg-background border border-border rounded-md"
+                                                                aria-label="Settings for"
+                                                            >
+                                                                <option value="">All sections</option>
+                                                                {(course.sections || []).map(sec => (
+                                                                    <option key={sec.id} value={sec.id}>
+                                                                        {sec.name}{module.quizSettings?.sectionOverrides?.[sec.id] ? ' (overridden)' : ''}
+                                                                    </option>
+                                                                ))}
+                                                            </select>
+                                                        )}
+                                                        <label className="flex items-center gap-2">
+                                                            Time limit (min)
+                                                            <input
+                                                                type="number"
+                                                                min={1}
+                                                                max={180}
+                                                                value={getQuizSettingsInput(module).durationMinutes}
+                                                                onChange={(e) => setQuizSettingsInput(module, { durationMinutes: e.target.value })}
+                                                                placeholder={quizSettingsSections[module.id] ? String(module.quizSettings?.durationMinutes ?? 5) : undefined}
+                                                                className="w-20 p-2 bg-background border border-border rounded-md"
+                                                            />
+                                                        </label>
+                                                        <label className="flex items-center gap-2">
+                                                            Max attempts
+                                                            <input
+                                                                type="number"
+                                                                min={0}
+                                                                value={getQuizSettingsInput(module).maxAttempts}
+                                                                onChange={(e) => setQuizSettingsInput(module, { maxAttempts: e.target.value })}
+                                                                placeholder={quizSettingsSections[module.id] && module.quizSettings?.maxAttempts ? String(module.quizSettings.maxAttempts) : 'Unlimited'}
+                                                                className="w-24 p-2 bg-background border border-border rounded-md"
+                                                            />
+                                                        </label>
+                                                        <label className="flex items-center gap-2">
+                                                            Deadline
+                                                            <input
+                                                                type="datetime-local"
+                                                                value={getQuizSettingsInput(module).dueAt}
+                                                                onChange={(e) => setQuizSettingsInput(module, { dueAt: e.target.value })}
+                                                                className="p-2 bg-background border border-border rounded-md"
+                                                            />
+                                                        </label>
+                                                        <Button size="sm" onClick={() => saveQuizSettings(course.id, module)} disabled={savingQuizSettings[module.id]}>
+                                                            {savingQuizSettings[module.id] ? 'Saving...' : 'Save'}
+                                                        </Button>
+                                                    </div>
+                                                    {quizSettingsSections[module.id] && (
+                                                        <p className="text-xs text-muted-foreground mt-1">Blank fields use the settings for all sections. Clear every field to remove the override.</p>
+                                                    )}
+                                                </div>
+
+                                                <div>
+                                                    <div className="flex items-center justify-between mb-2">
+                                                        <p className="text-sm font-medium">Module quiz</p>
+                                                        <div className="flex gap-2">
+                                                            <Button size="sm" variant="secondary" onClick={() => setOpenQuestionBanks(prev => ({ ...prev, [module.id]: !prev[module.id] }))}>
+                                                                {openQuestionBanks[module.id] ? 'Close Bank' : 'Question Bank'}
+                                                            </Button>
+                                                            <Button size="sm" variant="secondary" onClick={() => setOpenQuizEditors(prev => ({ ...prev, [module.id]: !prev[module.id] }))}>
+                                                                {openQuizEditors[module.id] ? 'Close Editor' : 'Review & Edit Quiz'}
+                                                            </Button>
+                                                        </div>
+                                                    </div>
+                                                    {openQuestionBanks[module.id] && (
+                                                        <div className="mb-3">
+                                                            <QuestionBank
+                                                                courseId={course.id}
+                                                                moduleId={module.id}
+                                                                topics={module.topics || []}
+                                                                title={module.title}
+                                                                onAssembled={() => {
+                                                                    setQuizEditorVersions(prev => ({ ...prev, [module.id]: (prev[module.id] || 0) + 1 }));
+                                                                    setOpenQuizEditors(prev => ({ ...prev, [module.id]: true }));
+                                                                }}
+                                                            />
+                                                        </div>
+                                                    )}
+                                                    {openQuizEditors[module.id] && <QuizEditor key={quizEditorVersions[module.id] || 0} courseId={course.id} moduleId={module.id} topics={module.topics} title={module.title} />}
+                                                </div>
+
                                                 {module.lectures.length > 0 ? (
                                                     module.lectures.map(lecture => (
                                                         <div key={lecture.id} className="flex justify-between items-center p-2 rounded-md hover:bg-background">
                                                             <span>{lecture.title}</span>
                                                             <div className="flex items-center gap-2">
                                                                 <Button variant="secondary" size="sm" onClick={() => onSelectLecture(lecture)}>View</Button>
+                                                                {lecture.quiz.length > 0 && (
+                                                                    <Button variant="secondary" size="sm" onClick={() => downloadBlob(exportQtiPackage(lecture.quiz, lecture.title), `${lecture.title.replace(/[^\w-]+/g, '_')}_qti.zip`)} title="Export the lecture quiz as QTI 2.1">
+                                                                        QTI
+                                                                    </Button>
+                                                                )}
                                                                 <Button variant="danger" size="sm" onClick={() => onDeleteLecture(course.id, module.id, lecture.id)}><DeleteIcon className="w-4 h-4"/></Button>
                                                             </div>
                                                         </div>
@@ -488,7 +718,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                             <div key={course.id} className="bg-card border border-border rounded-lg p-6">
                                 <div className="flex items-start justify-between mb-4">
                                     <h3 className="text-2xl font-semibold">{course.title}</h3>
-                                    <span className="text-xs px-2 py-1 rounded bg-foreground text-background">Enrolled</span>
+                                    <span className="text-xs px-2 py-1 rounded bg-foreground text-background">
+                                        {course.sections?.find(s => s.id === course.mySectionId)?.name || 'Enrolled'}
+                                    </span>
                                 </div>
                                 {attemptsByCourse[course.id] ? (
                                     <p className="text-xs text-muted-foreground mb-2">Attempts: {attemptsByCourse[course.id]}</p>
@@ -521,7 +753,18 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
 
                                                     <div className="pt-2">
                                                         <p className="text-sm font-medium mb-2">Practice</p>
-                                                        <Button size="sm" variant="secondary" onClick={() => startQuiz(course.id, module.id)}>Generate Quiz</Button>
+                                                        <div className="flex gap-2">
+                                                            <Button size="sm" variant="secondary" onClick={() => startQuiz(course.id, module.id)}>Generate Quiz</Button>
+                                                            {(module.topics || []).length > 0 && (
+                                                                <Button size="sm" variant="secondary" onClick={() => startQuiz(course.id, module.id, 'adaptive')} title="Targets topics you missed and adjusts difficulty to your recent scores">
+                                                                    Adaptive Quiz
+                                                                </Button>
+                                                            )}
+                                                        </div>
+                                                        <p className="text-xs text-muted-foreground mt-1">
+                                                            Time limit: {module.quizSettings?.durationMinutes ?? 5} min{module.quizSettings?.maxAttempts ? ` • Max attempts: ${module.quizSettings.maxAttempts}` : ''}
+                                                            {module.quizSettings?.dueAt ? ` • Due ${new Date(module.quizSettings.dueAt).toLocaleString()}` : ''}
+                                                        </p>
                                                         {activeQuiz && activeQuiz.courseId === course.id && activeQuiz.moduleId === module.id && (
                                                             <div className="mt-3 p-3 border border-border rounded-md bg-background">
                                                                 {activeQuiz.error ? (
@@ -529,20 +772,23 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                                                                 ) : null}
                                                                 {!activeQuiz.error && (
                                                                 <div className="flex justify-between items-center mb-2">
-                                                                    <span className="text-xs text-muted-foreground">Time left</span>
+                                                                    <span className="text-xs text-muted-foreground">
+                                                                        Time left{activeQuiz.attempts?.max ? ` • Attempt ${activeQuiz.attempts.used}/${activeQuiz.attempts.max}` : ''}
+                                                                    </span>
                                                                     <span className="text-sm font-semibold">{String(Math.floor((activeQuiz.left||0)/60)).padStart(2,'0')}:{String((activeQuiz.left||0)%60).padStart(2,'0')}</span>
                                                                 </div>
                                                                 )}
+                                                                {activeQuiz.adaptive && (
+                                                                    <p className="text-xs text-muted-foreground mb-2">
+                                                                        Adaptive • Difficulty: {activeQuiz.adaptive.difficulty}
+                                                                        {activeQuiz.adaptive.focusTopics.length ? ` • Focus: ${activeQuiz.adaptive.focusTopics.slice(0, 3).join(', ')}` : ''}
+                                                                    </p>
+                                                                )}
                                                                 {activeQuiz.questions.map((q, i) => (
                                                                     <div key={i} className="mb-3">
                                                                         <p className="text-sm font-medium">Q{i+1}. {q.question}</p>
-                                                                        <div className="mt-1 space-y-1">
-                                                                            {q.options.map((opt, oi) => (
-                                                                                <label key={oi} className="flex items-center gap-2 text-sm">
-                                                                                    <input type="radio" name={`q${i}`} checked={activeQuiz.answers[i]===oi} onChange={() => setAnswer(i, oi)} />
-                                                                                    <span>{opt}</span>
-                                                                                </label>
-                                                                            ))}
+                                                                        <div className="mt-1">
+                                                                            <QuizQuestionInput question={q} value={activeQuiz.answers[i]} onChange={(val) => setAnswer(i, val)} name={`q${i}`} />
                                                                         </div>
                                                                     </div>
                                                                 ))}
@@ -552,6 +798,23 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                                                                 </div>
                                                             </div>
                                                         )}
+                                                        {quizReview && quizReview.courseId === course.id && quizReview.moduleId === module.id && (
+                                                            <div className="mt-3 p-3 border border-border rounded-md bg-background">
+                                                                <div className="flex justify-between items-center mb-3">
+                                                                    <p className="text-sm font-semibold">
+                                                                        Score: {quizReview.score}/{quizReview.total}{quizReview.late ? ' (late)' : ''}
+                                                                    </p>
+                                                                    <Button size="sm" variant="secondary" onClick={() => setQuizReview(null)}>Close</Button>
+                                                                </div>
+                                                                <div className="text-sm">
+                                                                    <QuizReview
+                                                                        items={quizReview.items}
+                                                                        getSourceLabel={getReviewSourceLabel(course.id, module.id)}
+                                                                        onOpenSource={openReviewSource(course.id)}
+                                                                    />
+                                                                </div>
+                                                            </div>
+                                                        )}
                                                         {lastByModule[module.id] && (
                                                             <p className="text-xs text-muted-foreground mt-2">Last score: {lastByModule[module.id].score}/{lastByModule[module.id].total}</p>
                                                         )}
@@ -573,15 +836,77 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
         );
     };
 
-    // Student: Catalog (browse and enroll), minimal info
+    const submitJoinCode = async () => {
+        if (!onJoinCourse || !joinCode.trim()) return;
+        setIsJoining(true);
+        setJoinStatus(null);
+        try {
+            const title = await onJoinCourse(joinCode.trim());
+            setJoinCode('');
+            setJoinStatus({ ok: true, text: `You joined ${title}.` });
+        } catch (e: any) {
+            setJoinStatus({ ok: false, text: e?.message || 'Failed to join course' });
+        } finally {
+            setIsJoining(false);
+        }
+    };
+
+    // Catalog action for a course the student is not in yet, by enrollment policy
+    const renderCatalogAction = (course: Course) => {
+        if (enrolledCourseIds.includes(course.id)) {
+            return <Button size="sm" variant="secondary" onClick={() => onWithdrawCourse?.(course.id)}>Withdraw</Button>;
+        }
+        if (pendingCourseIds.includes(course.id)) {
+            return (
+                <div className="flex items-center gap-2">
+                    <span className="text-xs px-2 py-1 rounded border border-border">Awaiting approval</span>
+                    <Button size="sm" variant="secondary" onClick={() => onWithdrawCourse?.(course.id)}>Cancel request</Button>
+                </div>
+            );
+        }
+        const sections = course.sections || [];
+        const sectionPicker = sections.length > 0 && (
+            <select
+                value={catalogSections[course.id] || ''}
+                onChange={(e) => setCatalogSections(prev => ({ ...prev, [course.id]: e.target.value }))}
+                className="p-1.5 bg-background border border-border rounded-md text-sm"
+                aria-label="Section"
+            >
+                <option value="">Choose a section</option>
+                {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+            </select>
+        );
+        // Students pick a section up front when the course has any
+        const enrollButton = (label: string) => (
+            <div className="flex items-center gap-2">
+                {sectionPicker}
+                <Button size="sm" onClick={() => onEnrollCourse(course.id, catalogSections[course.id] || undefined)} disabled={sections.length > 0 && !catalogSections[course.id]}>
+                    {label}
+                </Button>
+            </div>
+        );
+        switch (course.enrollmentPolicy) {
+            case 'approval':
+                return enrollButton('Request to join');
+            case 'code':
+                return <span className="text-xs text-muted-foreground">Join code required</span>;
+            case 'invite':
+                return <span className="text-xs text-muted-foreground">Invite only</span>;
+            default:
+                return enrollButton('Enroll');
+        }
+    };
+
+    // Student: Catalog (browse and enroll), minimal info. Invite-only courses are listed once joined.
     const renderStudentCoursesCatalog = () => {
         const q = catalogQuery.trim().toLowerCase();
+        const listed = courses.filter(c => c.enrollmentPolicy !== 'invite' || enrolledCourseIds.includes(c.id));
         const visible = q
-            ? courses.filter(c =>
+            ? listed.filter(c =>
                 c.title.toLowerCase().includes(q) ||
                 (c.description || '').toLowerCase().includes(q) ||
                 c.modules.some(m => m.title.toLowerCase().includes(q)))
-            : courses;
+            : listed;
         return (
         <>
             <div className="flex items-center justify-between mb-6">
@@ -599,17 +924,32 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
                     )}
                 </div>
             </div>
+            {onJoinCourse && (
+                <div className="bg-card border border-border rounded-lg p-4 mb-6">
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">Have a join code?</span>
+                        <input
+                            type="text"
+                            value={joinCode}
+                            onChange={(e) => setJoinCode(e.target.value)}
+                            onKeyDown={(e) => { if (e.key === 'Enter') submitJoinCode(); }}
+                            placeholder="ABCD-2345"
+                            className="w-40 p-2 bg-background border border-border rounded-md font-mono uppercase"
+                        />
+                        <Button size="sm" onClick={submitJoinCode} disabled={isJoining || !joinCode.trim()}>
+                            {isJoining ? 'Joining...' : 'Join'}
+                        </Button>
+                    </div>
+                    {joinStatus && <p className={`text-sm mt-2 ${joinStatus.ok ? 'text-emerald-600' : 'text-red-500'}`}>{joinStatus.text}</p>}
+                </div>
+            )}
             {visible.length > 0 ? (
                 <div className="space-y-6">
                     {visible.map(course => (
                         <div key={course.id} className="bg-card border border-border rounded-lg p-6">
                             <div className="flex items-start justify-between mb-2">
                                 <h3 className="text-2xl font-semibold">{course.title}</h3>
-                                {enrolledCourseIds.includes(course.id) ? (
-                                    <Button size="sm" variant="secondary" onClick={() => onWithdrawCourse?.(course.id)}>Withdraw</Button>
-                                ) : (
-                                    <Button size="sm" onClick={() => onEnrollCourse(course.id)}>Enroll</Button>
-                                )}
+                                {renderCatalogAction(course)}
                             </div>
                             <p className="text-sm text-muted-foreground mb-1">{course.description || `${course.modules.length} modules`}</p>
                             <p className="text-xs text-muted-foreground">{course.modules.length} modules{course.modules[0] ? ` • First: ${course.modules[0].title}` : ''}</p>
@@ -627,23 +967,30 @@ const Dashboard: React.FC<DashboardProps> = ({ user, courses, currentView, onSel
 
     const isVideosView = currentView === 'student_videos' && user.role === Role.Student;
     const isCoursesView = currentView === 'student_courses' && user.role === Role.Student;
+    const isProgressView = currentView === 'student_progress' && user.role === Role.Student;
 
     return (
         <div className="p-4 md:p-8">
             <h1 className="text-4xl font-bold mb-2">Welcome back, {user.name}!</h1>
             <p className="text-muted-foreground mb-8">
                 {user.role === Role.Student 
-                    ? (isVideosView ? 'Your personal video space' : isCoursesView ? 'Browse and enroll in courses' : "Ready for another study session? Let's dive in.")
+                    ? (isVideosView ? 'Your personal video space' : isCoursesView ? 'Browse and enroll in courses' : isProgressView ? 'Your quiz scores over time' : "Ready for another study session? Let's dive in.")
                     : "Manage your courses and create new AI-powered lectures."}
             </p>
 
             {user.role === Role.Teacher
-                ? (currentView === 'teacher_course_mgmt' ? renderTeacherCourseMgmt() : renderTeacherOverview())
+                ? (currentView === 'teacher_course_mgmt'
+                    ? renderTeacherCourseMgmt()
+                    : currentView === 'teacher_gradebook'
+                        ? <Gradebook courses={staffCourses} />
+                        : renderTeacherOverview())
                 : isVideosView
                     ? renderStudentVideos()
                     : isCoursesView
                         ? renderStudentCoursesCatalog()
-                        : renderStudentMyCourses()}
+                        : isProgressView
+                            ? <ProgressView courses={myCourses} />
+                            : renderStudentMyCourses()}
         </div>
     );
 };
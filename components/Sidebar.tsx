@@ -1,13 +1,13 @@
 import React, { useEffect, useState } from 'react';
 import type { User, AppView } from '../types';
 import { Role } from '../types';
-import { DashboardIcon, VideoIcon, ChatIcon, GameIcon, TimerIcon, LogoutIcon, SparklesIcon, LumoLogo, PdfExplainerIcon } from './Icons';
+import { DashboardIcon, VideoIcon, ChatIcon, GameIcon, TimerIcon, LogoutIcon, ShieldIcon, SparklesIcon, LumoLogo, PdfExplainerIcon, ReportIcon } from './Icons';
 
 interface SidebarProps {
   user: User;
   currentView: AppView;
   setView: (view: AppView) => void;
-  onLogout: () => void;
+  onLogout: (allDevices?: boolean) => void;
 }
 
 const NavItem: React.FC<{ icon: React.ReactNode; label: string; isActive: boolean; onClick: () => void; }> = ({ icon, label, isActive, onClick }) => (
@@ -21,6 +21,7 @@ const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, onLogout
   const studentNav = [
     { view: 'student_dashboard' as AppView, label: 'Dashboard', icon: <DashboardIcon className="w-5 h-5" /> },
     { view: 'lecture_viewer' as AppView, label: 'Lectures', icon: <VideoIcon className="w-5 h-5" /> },
+    { view: 'student_progress' as AppView, label: 'Progress', icon: <ReportIcon className="w-5 h-5" /> },
     { view: 'pdf_explainer' as AppView, label: 'PDF Explainer', icon: <PdfExplainerIcon className="w-5 h-5" /> },
     { view: 'chatbot' as AppView, label: 'Live Q&A Chatbot', icon: <ChatIcon className="w-5 h-5" /> },
     { view: 'study_tools' as AppView, label: 'Study Tools', icon: <TimerIcon className="w-5 h-5" /> },
@@ -30,9 +31,15 @@ const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, onLogout
   const teacherNav = [
     { view: 'teacher_dashboard' as AppView, label: 'Dashboard', icon: <DashboardIcon className="w-5 h-5" /> },
     { view: 'teacher_course_mgmt' as AppView, label: 'Course Management', icon: <SparklesIcon className="w-5 h-5" /> },
+    { view: 'teacher_gradebook' as AppView, label: 'Gradebook', icon: <ReportIcon className="w-5 h-5" /> },
+    { view: 'chatbot' as AppView, label: 'Class Chat', icon: <ChatIcon className="w-5 h-5" /> },
   ];
 
-  const navItems = user.role === Role.Student ? studentNav : teacherNav;
+  const adminNav = [
+    { view: 'admin_console' as AppView, label: 'Admin Console', icon: <DashboardIcon className="w-5 h-5" /> },
+  ];
+
+  const navItems = user.role === Role.Admin ? adminNav : user.role === Role.Student ? studentNav : teacherNav;
 
   const [pomo, setPomo] = useState<{left:number; phase:string} | null>(null);
   useEffect(() => {
@@ -86,12 +93,24 @@ const Sidebar: React.FC<SidebarProps> = ({ user, currentView, setView, onLogout
             <p className="font-semibold">{user.name}</p>
             <p className="text-muted capitalize">{user.role}</p>
         </div>
+        <NavItem
+            label="Account Security"
+            icon={<ShieldIcon className="w-5 h-5" />}
+            isActive={currentView === 'account_security'}
+            onClick={() => setView('account_security')}
+        />
          <NavItem
             label="Logout"
             icon={<LogoutIcon className="w-5 h-5" />}
             isActive={false}
-            onClick={onLogout}
+            onClick={() => onLogout()}
         />
+        <button
+            onClick={() => { if (window.confirm('Sign out on every device where you are logged in?')) onLogout(true); }}
+            className="w-full px-3 py-1 text-left text-xs text-muted-foreground hover:underline"
+        >
+            Log out of all devices
+        </button>
       </div>
     </aside>
   );
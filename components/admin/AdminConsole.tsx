@@ -1,15 +1,44 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import Button from '../common/Button';
-import { createTeacher, resetPassword } from '../../services/adminService';
+import type { AuditEntry, Course, Role } from '../../types';
+import { createTeacher, resetPassword, getAuditLog, getSecuritySettings, updateSecuritySettings } from '../../services/adminService';
+import UserManagement from './UserManagement';
+import UserImport from '../common/UserImport';
+
+type ActionStatus = { type: 'success' | 'error'; message: string } | null;
+
+const ACTION_LABELS: Record<string, string> = {
+    'admin.bootstrap': 'Created first admin',
+    'user.create': 'Created user',
+    'user.reset_password': 'Reset password',
+    'user.suspend': 'Suspended user',
+    'user.unsuspend': 'Reinstated user',
+    'user.change_role': 'Changed role',
+    'user.delete': 'Deleted user',
+    'user.reset_2fa': 'Reset 2FA',
+    'user.import': 'Imported users',
+    'settings.security': 'Changed 2FA requirement',
+};
+
+const describeTarget = (entry: AuditEntry) => {
+    if (entry.action === 'settings.security') {
+        const { to } = entry.details as { to?: string[] };
+        return to?.length ? `2FA required for ${to.join(', ')}` : '2FA optional for everyone';
+    }
+    if (entry.action === 'user.import') {
+        const { created, enrollments } = entry.details as { created?: number; enrollments?: number };
+        return `${created ?? 0} created, ${enrollments ?? 0} enrollments`;
+    }
+    return entry.target?.email || entry.target?.userId || '—';
+};
 
 interface AdminConsoleProps {
-    onClose: () => void;
+    // Every course, for the import's course ID reference
+    courses: Course[];
 }
 
-type ActionStatus = { type: 'success' | 'error'; message: string } | null;
-
-const AdminConsole: React.FC<AdminConsoleProps> = ({ onClose }) => {
-    const [secret, setSecret] = useState('');
+// Signed-in admin's workspace: account management plus the audit trail of admin actions.
+const AdminConsole: React.FC<AdminConsoleProps> = ({ courses }) => {
     const [teacherName, setTeacherName] = useState('');
     const [teacherEmail, setTeacherEmail] = useState('');
     const [teacherPassword, setTeacherPassword] = useState('');
@@ -17,16 +46,54 @@ const AdminConsole: React.FC<AdminConsoleProps> = ({ onClose }) => {
     const [resetPasswordValue, setResetPasswordValue] = useState('');
     const [loading, setLoading] = useState<'create' | 'reset' | null>(null);
     const [status, setStatus] = useState<ActionStatus>(null);
+    const [audit, setAudit] = useState<AuditEntry[]>([]);
+    const [auditHasMore, setAuditHasMore] = useState(false);
+    const [auditError, setAuditError] = useState<string | null>(null);
+    const [twoFactorRoles, setTwoFactorRoles] = useState<Role[]>([]);
+    const [requiredRoles, setRequiredRoles] = useState<Role[]>([]);
+    const [securityError, setSecurityError] = useState<string | null>(null);
+
+    const loadAudit = useCallback(async (before?: string) => {
+        setAuditError(null);
+        try {
+            const { entries, hasMore } = await getAuditLog(before);
+            setAudit(prev => before ? [...prev, ...entries] : entries);
+            setAuditHasMore(hasMore);
+        } catch (err: any) {
+            setAuditError(err?.message || 'Failed to load audit log.');
+        }
+    }, []);
+
+    useEffect(() => { loadAudit(); }, [loadAudit]);
+
+    useEffect(() => {
+        getSecuritySettings()
+            .then(({ settings, roles }) => { setRequiredRoles(settings.require2faRoles); setTwoFactorRoles(roles); })
+            .catch((err: any) => setSecurityError(err?.message || 'Failed to load security settings.'));
+    }, []);
+
+    const toggleRequiredRole = async (role: Role) => {
+        const next = requiredRoles.includes(role) ? requiredRoles.filter(r => r !== role) : [...requiredRoles, role];
+        setSecurityError(null);
+        try {
+            const { settings } = await updateSecuritySettings({ require2faRoles: next });
+            setRequiredRoles(settings.require2faRoles);
+            loadAudit();
+        } catch (err: any) {
+            setSecurityError(err?.message || 'Failed to save security settings.');
+        }
+    };
 
     const handleCreateTeacher = async () => {
         setStatus(null);
         setLoading('create');
         try {
-            await createTeacher({ name: teacherName, email: teacherEmail, password: teacherPassword }, secret);
+            await createTeacher({ name: teacherName, email: teacherEmail, password: teacherPassword });
             setStatus({ type: 'success', message: `Teacher ${teacherEmail} created.` });
             setTeacherName('');
             setTeacherEmail('');
             setTeacherPassword('');
+            loadAudit();
         } catch (err: any) {
             setStatus({ type: 'error', message: err?.message || 'Failed to create teacher.' });
         } finally {
@@ -38,10 +105,11 @@ const AdminConsole: React.FC<AdminConsoleProps> = ({ onClose }) => {
         setStatus(null);
         setLoading('reset');
         try {
-            await resetPassword({ email: resetEmail, newPassword: resetPasswordValue }, secret);
-            setStatus({ type: 'success', message: `Password reset for ${resetEmail}.` });
+            await resetPassword({ email: resetEmail, newPassword: resetPasswordValue });
+            setStatus({ type: 'success', message: `Password reset for ${resetEmail}. They have been signed out everywhere.` });
             setResetEmail('');
             setResetPasswordValue('');
+            loadAudit();
         } catch (err: any) {
             setStatus({ type: 'error', message: err?.message || 'Failed to reset password.' });
         } finally {
@@ -49,104 +117,142 @@ const AdminConsole: React.FC<AdminConsoleProps> = ({ onClose }) => {
         }
     };
 
-    const disabledCreate = !teacherName || !teacherEmail || !teacherPassword || !secret;
-    const disabledReset = !resetEmail || !resetPasswordValue || !secret;
+    const disabledCreate = !teacherName || !teacherEmail || !teacherPassword;
+    const disabledReset = !resetEmail || !resetPasswordValue;
 
     return (
-        <div className="min-h-screen bg-background flex items-center justify-center p-6">
-            <div className="w-full max-w-3xl bg-card border border-border rounded-xl shadow-sm p-8 space-y-8">
-                <div className="flex items-center justify-between">
-                    <h1 className="text-2xl font-bold">Admin Console</h1>
-                    <Button variant="secondary" onClick={onClose}>Back to Login</Button>
-                </div>
+        <div className="p-4 md:p-8 space-y-8">
+            <div>
+                <h2 className="text-3xl font-bold">Admin Console</h2>
                 <p className="text-sm text-muted-foreground">
-                    Enter the admin secret to create teacher logins or issue a new temporary password in seconds.
+                    Manage accounts, create teacher logins or issue a new temporary password. Every action is recorded in the audit log.
                 </p>
+            </div>
 
-                <div className="space-y-2">
-                    <label className="text-sm font-medium">Admin Secret</label>
+            <div className="grid md:grid-cols-2 gap-6">
+                <section className="space-y-4 bg-card border border-border rounded-lg p-6">
+                    <div>
+                        <h3 className="text-lg font-semibold">Create Teacher</h3>
+                        <p className="text-xs text-muted-foreground">Add a teacher account with a temp password to share.</p>
+                    </div>
                     <input
-                        type="password"
-                        value={secret}
-                        onChange={(e) => setSecret(e.target.value)}
-                        placeholder="Enter the same ADMIN_SECRET used on the server"
+                        type="text"
+                        placeholder="Teacher name"
+                        value={teacherName}
+                        onChange={(e) => setTeacherName(e.target.value)}
                         className="w-full px-3 py-2 border border-border rounded bg-background"
                     />
+                    <input
+                        type="email"
+                        placeholder="Teacher email"
+                        value={teacherEmail}
+                        onChange={(e) => setTeacherEmail(e.target.value)}
+                        className="w-full px-3 py-2 border border-border rounded bg-background"
+                    />
+                    <input
+                        type="text"
+                        placeholder="Temporary password"
+                        value={teacherPassword}
+                        onChange={(e) => setTeacherPassword(e.target.value)}
+                        className="w-full px-3 py-2 border border-border rounded bg-background"
+                    />
+                    <Button onClick={handleCreateTeacher} disabled={disabledCreate || loading === 'create'}>
+                        {loading === 'create' ? 'Creating…' : 'Create teacher'}
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                        Tip: Temporary passwords must be at least 8 characters.
+                    </p>
+                </section>
+
+                <section className="space-y-4 bg-card border border-border rounded-lg p-6">
+                    <div>
+                        <h3 className="text-lg font-semibold">Reset Password</h3>
+                        <p className="text-xs text-muted-foreground">Replace an existing password with a new temp code.</p>
+                    </div>
+                    <input
+                        type="email"
+                        placeholder="User email"
+                        value={resetEmail}
+                        onChange={(e) => setResetEmail(e.target.value)}
+                        className="w-full px-3 py-2 border border-border rounded bg-background"
+                    />
+                    <input
+                        type="text"
+                        placeholder="New temporary password"
+                        value={resetPasswordValue}
+                        onChange={(e) => setResetPasswordValue(e.target.value)}
+                        className="w-full px-3 py-2 border border-border rounded bg-background"
+                    />
+                    <Button variant="outline" onClick={handleResetPassword} disabled={disabledReset || loading === 'reset'}>
+                        {loading === 'reset' ? 'Resetting…' : 'Reset password'}
+                    </Button>
+                    <p className="text-xs text-muted-foreground">
+                        Share the new temp password securely with the user.
+                    </p>
+                </section>
+            </div>
+
+            {status && (
+                <div className={`px-4 py-3 rounded-md text-sm ${status.type === 'success' ? 'bg-emerald-50 text-emerald-700 border border-emerald-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
+                    {status.message}
                 </div>
+            )}
 
-                <div className="grid md:grid-cols-2 gap-6">
-                    <section className="space-y-4">
-                        <div>
-                            <h2 className="text-lg font-semibold">Create Teacher</h2>
-                            <p className="text-xs text-muted-foreground">Add a teacher account with a temp password to share.</p>
-                        </div>
-                        <input
-                            type="text"
-                            placeholder="Teacher name"
-                            value={teacherName}
-                            onChange={(e) => setTeacherName(e.target.value)}
-                            className="w-full px-3 py-2 border border-border rounded bg-background"
-                        />
-                        <input
-                            type="email"
-                            placeholder="Teacher email"
-                            value={teacherEmail}
-                            onChange={(e) => setTeacherEmail(e.target.value)}
-                            className="w-full px-3 py-2 border border-border rounded bg-background"
-                        />
-                        <input
-                            type="text"
-                            placeholder="Temporary password"
-                            value={teacherPassword}
-                            onChange={(e) => setTeacherPassword(e.target.value)}
-                            className="w-full px-3 py-2 border border-border rounded bg-background"
-                        />
-                        <Button onClick={handleCreateTeacher} disabled={disabledCreate || loading === 'create'}>
-                            {loading === 'create' ? 'Creating…' : 'Create teacher'}
-                        </Button>
-                        <p className="text-xs text-muted-foreground">
-                            Tip: Temporary passwords must be at least 8 characters.
-                        </p>
-                    </section>
-
-                    <section className="space-y-4">
-                        <div>
-                            <h2 className="text-lg font-semibold">Reset Password</h2>
-                            <p className="text-xs text-muted-foreground">Replace an existing teacher password with a new temp code.</p>
-                        </div>
-                        <input
-                            type="email"
-                            placeholder="Teacher email"
-                            value={resetEmail}
-                            onChange={(e) => setResetEmail(e.target.value)}
-                            className="w-full px-3 py-2 border border-border rounded bg-background"
-                        />
-                        <input
-                            type="text"
-                            placeholder="New temporary password"
-                            value={resetPasswordValue}
-                            onChange={(e) => setResetPasswordValue(e.target.value)}
-                            className="w-full px-3 py-2 border border-border rounded bg-background"
-                        />
-                        <Button variant="outline" onClick={handleResetPassword} disabled={disabledReset || loading === 'reset'}>
-                            {loading === 'reset' ? 'Resetting…' : 'Reset password'}
-                        </Button>
-                        <p className="text-xs text-muted-foreground">
-                            Share the new temp password securely with the teacher.
-                        </p>
-                    </section>
+            <section className="space-y-2 bg-card border border-border rounded-lg p-6">
+                <h3 className="text-lg font-semibold">Two-Factor Authentication</h3>
+                <p className="text-xs text-muted-foreground">
+                    Required roles must enter an authenticator code at every login. Users without 2FA set it up at their next login.
+                </p>
+                <div className="flex flex-wrap gap-4">
+                    {twoFactorRoles.map(role => (
+                        <label key={role} className="flex items-center gap-2 text-sm capitalize">
+                            <input type="checkbox" checked={requiredRoles.includes(role)} onChange={() => toggleRequiredRole(role)} />
+                            Require for {role}s
+                        </label>
+                    ))}
                 </div>
+                {securityError && <p className="text-sm text-red-500">{securityError}</p>}
+            </section>
+
+            <UserManagement onChanged={() => loadAudit()} />
 
-                {status && (
-                    <div className={`px-4 py-3 rounded-md text-sm ${status.type === 'success' ? 'bg-emerald-50 text-emerald-700 border border-emerald-200' : 'bg-red-50 text-red-700 border border-red-200'}`}>
-                        {status.message}
+            <UserImport courses={courses} allowTeachers />
+
+            <section className="space-y-3">
+                <h3 className="text-lg font-semibold">Audit Log</h3>
+                {auditError && <p className="text-sm text-red-500">{auditError}</p>}
+                {audit.length === 0 && !auditError ? (
+                    <p className="text-sm text-muted-foreground italic">No admin actions recorded yet.</p>
+                ) : (
+                    <div className="overflow-x-auto bg-card border border-border rounded-lg">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="p-2">When</th>
+                                    <th className="p-2">Admin</th>
+                                    <th className="p-2">Action</th>
+                                    <th className="p-2">Target</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {audit.map(entry => (
+                                    <tr key={entry.id} className="border-t border-border">
+                                        <td className="p-2 whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</td>
+                                        <td className="p-2">{entry.actorEmail || 'Setup secret'}</td>
+                                        <td className="p-2">{ACTION_LABELS[entry.action] || entry.action}</td>
+                                        <td className="p-2">{describeTarget(entry)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
                     </div>
                 )}
-
-                <div className="text-xs text-muted-foreground">
-                    Need a refresher? Create or reset, then log in as that teacher to demo their dashboard.
-                </div>
-            </div>
+                {auditHasMore && (
+                    <Button size="sm" variant="secondary" onClick={() => loadAudit(audit[audit.length - 1]?.createdAt)}>
+                        Load older entries
+                    </Button>
+                )}
+            </section>
         </div>
     );
 };
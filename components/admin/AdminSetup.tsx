@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import Button from '../common/Button';
+import { bootstrapAdmin } from '../../services/adminService';
+
+interface AdminSetupProps {
+    onClose: () => void;
+}
+
+// First-run screen: trades the server's ADMIN_SECRET for the first admin account.
+// Afterwards admins sign in through the normal login form.
+const AdminSetup: React.FC<AdminSetupProps> = ({ onClose }) => {
+    const [secret, setSecret] = useState('');
+    const [name, setName] = useState('');
+    const [email, setEmail] = useState('');
+    const [password, setPassword] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [created, setCreated] = useState<string | null>(null);
+
+    const handleSubmit = async () => {
+        setError(null);
+        setLoading(true);
+        try {
+            const { user } = await bootstrapAdmin({ name, email, password }, secret);
+            setCreated(user.email);
+        } catch (err: any) {
+            setError(err?.message || 'Failed to create the admin account.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const disabled = !secret || !name || !email || password.length < 8 || loading;
+
+    return (
+        <div className="min-h-screen bg-background flex items-center justify-center p-6">
+            <div className="w-full max-w-md bg-card border border-border rounded-xl shadow-sm p-8 space-y-6">
+                <div className="flex items-center justify-between">
+                    <h1 className="text-2xl font-bold">Admin Setup</h1>
+                    <Button variant="secondary" onClick={onClose}>Back to Login</Button>
+                </div>
+
+                {created ? (
+                    <div className="space-y-4">
+                        <div className="px-4 py-3 rounded-md text-sm bg-emerald-50 text-emerald-700 border border-emerald-200">
+                            Admin account {created} created. Sign in with it to open the admin console.
+                        </div>
+                        <Button className="w-full" onClick={onClose}>Go to login</Button>
+                    </div>
+                ) : (
+                    <div className="space-y-4">
+                        <p className="text-sm text-muted-foreground">
+                            Create the first admin account with the ADMIN_SECRET configured on the server. The secret stops working once an admin exists.
+                        </p>
+                        <input
+                            type="password"
+                            placeholder="Admin secret"
+                            value={secret}
+                            onChange={(e) => setSecret(e.target.value)}
+                            className="w-full px-3 py-2 border border-border rounded bg-background"
+                        />
+                        <input
+                            type="text"
+                            placeholder="Your name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            className="w-full px-3 py-2 border border-border rounded bg-background"
+                        />
+                        <input
+                            type="email"
+                            placeholder="Email"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="w-full px-3 py-2 border border-border rounded bg-background"
+                        />
+                        <input
+                            type="password"
+                            placeholder="Password (at least 8 characters)"
+                            value={password}
+                            onChange={(e) => setPassword(e.target.value)}
+                            className="w-full px-3 py-2 border border-border rounded bg-background"
+                        />
+                        {error && <p className="text-sm text-red-500">{error}</p>}
+                        <Button className="w-full" onClick={handleSubmit} disabled={disabled}>
+                            {loading ? 'Creating…' : 'Create admin account'}
+                        </Button>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default AdminSetup;
@@ -0,0 +1,236 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from '../common/Button';
+import { Role } from '../../types';
+import type { AdminUser, UserDeletionReport } from '../../types';
+import { listUsers, setUserSuspended, changeUserRole, deleteUser, resetUserTwoFactor } from '../../services/adminService';
+
+interface UserManagementProps {
+    // Called after any change so the console can refresh the audit log
+    onChanged: () => void;
+}
+
+const PAGE_SIZE = 20;
+
+const COUNT_LABELS: Record<string, string> = {
+    sessions: 'Sessions',
+    enrollments: 'Enrollments',
+    enrollment_requests: 'Enrollment requests',
+    enrollment_codes: 'Join codes and invite links',
+    quiz_attempts: 'Quiz attempts',
+    quizzes: 'Issued quizzes',
+    flashcards: 'Flashcards',
+    flashcard_reviews: 'Flashcard reviews',
+    module_quizzes: 'Module quizzes',
+    question_bank: 'Question bank items',
+    materials: 'Materials',
+    embeddings: 'Material chunks',
+    courses: 'Courses',
+};
+
+// Paginated user directory with suspend, role change and delete (previewed with a dry run first).
+const UserManagement: React.FC<UserManagementProps> = ({ onChanged }) => {
+    const [query, setQuery] = useState('');
+    const [search, setSearch] = useState('');
+    const [roleFilter, setRoleFilter] = useState('');
+    const [statusFilter, setStatusFilter] = useState<'' | 'active' | 'suspended'>('');
+    const [page, setPage] = useState(1);
+    const [users, setUsers] = useState<AdminUser[]>([]);
+    const [total, setTotal] = useState(0);
+    const [loading, setLoading] = useState(false);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [pendingDelete, setPendingDelete] = useState<UserDeletionReport | null>(null);
+
+    const load = useCallback(async () => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await listUsers({ q: search, role: roleFilter, status: statusFilter || undefined, page, pageSize: PAGE_SIZE });
+            setUsers(res.users);
+            setTotal(res.total);
+        } catch (err: any) {
+            setError(err?.message || 'Failed to load users.');
+        } finally {
+            setLoading(false);
+        }
+    }, [search, roleFilter, statusFilter, page]);
+
+    useEffect(() => { load(); }, [load]);
+
+    const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    const runAction = async (userId: string, action: () => Promise<unknown>) => {
+        setBusy(userId);
+        setError(null);
+        try {
+            await action();
+            await load();
+            onChanged();
+        } catch (err: any) {
+            setError(err?.message || 'Action failed.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const handleSearch = () => {
+        setPage(1);
+        setSearch(query.trim());
+    };
+
+    const toggleSuspended = (u: AdminUser) => {
+        if (!u.suspended && !window.confirm(`Suspend ${u.email}? They will be signed out everywhere and cannot log in until reinstated.`)) return;
+        runAction(u.id, () => setUserSuspended(u.id, !u.suspended));
+    };
+
+    const resetTwoFactor = (u: AdminUser) => {
+        if (!window.confirm(`Remove two-factor authentication from ${u.email}? They will be signed out and can sign in with their password alone.`)) return;
+        runAction(u.id, () => resetUserTwoFactor(u.id));
+    };
+
+    const previewDelete = async (u: AdminUser) => {
+        setBusy(u.id);
+        setError(null);
+        try {
+            setPendingDelete(await deleteUser(u.id, true));
+        } catch (err: any) {
+            setError(err?.message || 'Failed to preview deletion.');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const confirmDelete = async () => {
+        if (!pendingDelete) return;
+        const { user } = pendingDelete;
+        await runAction(user.id, () => deleteUser(user.id));
+        setPendingDelete(null);
+    };
+
+    return (
+        <section className="space-y-3">
+            <h3 className="text-lg font-semibold">Users</h3>
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="search"
+                    placeholder="Search name or email"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleSearch(); }}
+                    className="flex-1 min-w-[12rem] px-3 py-2 border border-border rounded bg-background text-sm"
+                />
+                <select value={roleFilter} onChange={(e) => { setPage(1); setRoleFilter(e.target.value); }} className="p-2 bg-background border border-border rounded-md text-sm">
+                    <option value="">All roles</option>
+                    <option value={Role.Student}>Students</option>
+                    <option value={Role.Teacher}>Teachers</option>
+                    <option value={Role.Admin}>Admins</option>
+                </select>
+                <select value={statusFilter} onChange={(e) => { setPage(1); setStatusFilter(e.target.value as '' | 'active' | 'suspended'); }} className="p-2 bg-background border border-border rounded-md text-sm">
+                    <option value="">Any status</option>
+                    <option value="active">Active</option>
+                    <option value="suspended">Suspended</option>
+                </select>
+                <Button size="sm" variant="secondary" onClick={handleSearch}>Search</Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {pendingDelete && (
+                <div className="px-4 py-3 rounded-md text-sm bg-red-50 text-red-700 border border-red-200 space-y-2">
+                    <p className="font-medium">Delete {pendingDelete.user.email}? This cannot be undone and removes:</p>
+                    <ul className="list-disc pl-5">
+                        {(Object.entries(pendingDelete.counts) as Array<[string, number]>).filter(([name, n]) => n > 0 && name !== 'users').map(([name, n]) => (
+                            <li key={name}>{COUNT_LABELS[name] || name}: {n}</li>
+                        ))}
+                    </ul>
+                    {pendingDelete.courses.length > 0 && (
+                        <p>Owned courses deleted with all their data: {pendingDelete.courses.map(c => c.title).join(', ')}</p>
+                    )}
+                    <div className="flex gap-2">
+                        <Button size="sm" variant="danger" onClick={confirmDelete} disabled={busy === pendingDelete.user.id}>
+                            {busy === pendingDelete.user.id ? 'Deleting…' : 'Delete permanently'}
+                        </Button>
+                        <Button size="sm" variant="secondary" onClick={() => setPendingDelete(null)}>Cancel</Button>
+                    </div>
+                </div>
+            )}
+
+            <div className="overflow-x-auto bg-card border border-border rounded-lg">
+                <table className="min-w-full text-sm">
+                    <thead>
+                        <tr className="text-left text-muted-foreground">
+                            <th className="p-2">User</th>
+                            <th className="p-2">Role</th>
+                            <th className="p-2">Status</th>
+                            <th className="p-2">Joined</th>
+                            <th className="p-2"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {users.map(u => (
+                            <tr key={u.id} className="border-t border-border">
+                                <td className="p-2">
+                                    <p className="font-medium">{u.name}</p>
+                                    <p className="text-xs text-muted-foreground">{u.email}</p>
+                                </td>
+                                <td className="p-2">
+                                    {u.role === Role.Admin ? 'admin' : (
+                                        <select
+                                            value={u.role}
+                                            onChange={(e) => runAction(u.id, () => changeUserRole(u.id, e.target.value as Role))}
+                                            disabled={busy === u.id}
+                                            className="p-1.5 bg-background border border-border rounded-md text-sm"
+                                            aria-label={`Role for ${u.email}`}
+                                        >
+                                            <option value={Role.Student}>student</option>
+                                            <option value={Role.Teacher}>teacher</option>
+                                        </select>
+                                    )}
+                                </td>
+                                <td className="p-2">
+                                    {u.suspended ? <span className="text-red-500">Suspended</span> : <span className="text-muted-foreground">Active</span>}
+                                    {u.lockedUntil && (
+                                        <span className="block text-xs text-red-500" title="Too many failed logins; a password reset unlocks it">
+                                            Locked until {new Date(u.lockedUntil).toLocaleTimeString()}
+                                        </span>
+                                    )}
+                                    {u.twoFactorEnabled && <span className="block text-xs text-muted-foreground">2FA on</span>}
+                                </td>
+                                <td className="p-2 whitespace-nowrap">{u.createdAt ? new Date(u.createdAt).toLocaleDateString() : '—'}</td>
+                                <td className="p-2">
+                                    <div className="flex justify-end gap-2">
+                                        <Button size="sm" variant="secondary" onClick={() => toggleSuspended(u)} disabled={busy === u.id}>
+                                            {u.suspended ? 'Reinstate' : 'Suspend'}
+                                        </Button>
+                                        {u.twoFactorEnabled && (
+                                            <Button size="sm" variant="secondary" onClick={() => resetTwoFactor(u)} disabled={busy === u.id}>
+                                                Reset 2FA
+                                            </Button>
+                                        )}
+                                        <Button size="sm" variant="danger" onClick={() => previewDelete(u)} disabled={busy === u.id}>
+                                            Delete
+                                        </Button>
+                                    </div>
+                                </td>
+                            </tr>
+                        ))}
+                        {!users.length && !loading && (
+                            <tr><td colSpan={5} className="p-2 text-muted-foreground italic">No users match.</td></tr>
+                        )}
+                    </tbody>
+                </table>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <span>{loading ? 'Loading…' : `${total} user${total === 1 ? '' : 's'}`}</span>
+                <div className="flex items-center gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => setPage(p => p - 1)} disabled={page <= 1 || loading}>Previous</Button>
+                    <span>Page {page} of {pageCount}</span>
+                    <Button size="sm" variant="secondary" onClick={() => setPage(p => p + 1)} disabled={page >= pageCount || loading}>Next</Button>
+                </div>
+            </div>
+        </section>
+    );
+};
+
+export default UserManagement;
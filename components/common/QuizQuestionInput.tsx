@@ -0,0 +1,107 @@
+import React from 'react';
+import type { PublicQuizQuestion, QuizAnswer } from '../../types';
+import Button from './Button';
+import { questionType, usesOptions } from '../../services/quizGrading';
+
+interface QuizQuestionInputProps {
+    question: PublicQuizQuestion;
+    value: QuizAnswer | null | undefined;
+    onChange: (value: QuizAnswer) => void;
+    // Unique per question on the page, used to group radio inputs
+    name: string;
+    // 'buttons' renders options as large toggle buttons (lecture view); 'list' as radios/checkboxes
+    layout?: 'buttons' | 'list';
+}
+
+// Renders the answer control for any quiz question type.
+const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, value, onChange, name, layout = 'list' }) => {
+    const type = questionType(question);
+    const selected = Array.isArray(value) ? value : value ? [value] : [];
+
+    const toggle = (option: string) => {
+        if (type !== 'multi_select') {
+            onChange(option);
+            return;
+        }
+        onChange(selected.includes(option) ? selected.filter(o => o !== option) : [...selected, option]);
+    };
+
+    const code = type === 'code_output' && question.code ? (
+        <pre className="mb-3 p-3 rounded-md bg-background border border-border text-sm overflow-x-auto">
+            <code>{question.code}</code>
+        </pre>
+    ) : null;
+
+    if (!usesOptions(question)) {
+        const isNumeric = type === 'numeric';
+        const text = typeof value === 'string' ? value : '';
+        return (
+            <div>
+                {code}
+                {type === 'code_output' ? (
+                    <textarea
+                        value={text}
+                        onChange={(e) => onChange(e.target.value)}
+                        rows={3}
+                        placeholder="Type the exact output"
+                        className="w-full p-2 bg-background border border-border rounded-md font-mono text-sm"
+                    />
+                ) : (
+                    <input
+                        type={isNumeric ? 'number' : 'text'}
+                        step="any"
+                        value={text}
+                        onChange={(e) => onChange(e.target.value)}
+                        placeholder={isNumeric ? 'Enter a number' : 'Type your answer'}
+                        className="w-full p-2 bg-background border border-border rounded-md text-sm"
+                    />
+                )}
+            </div>
+        );
+    }
+
+    const hint = type === 'multi_select' ? <p className="text-xs text-muted-foreground mb-1">Select all that apply.</p> : null;
+
+    if (layout === 'buttons') {
+        return (
+            <div>
+                {code}
+                {hint}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {question.options.map(option => (
+                        <Button
+                            key={option}
+                            variant={selected.includes(option) ? 'primary' : 'secondary'}
+                            onClick={() => toggle(option)}
+                            className="text-left justify-start"
+                        >
+                            {option}
+                        </Button>
+                    ))}
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div>
+            {code}
+            {hint}
+            <div className="space-y-1">
+                {question.options.map(option => (
+                    <label key={option} className="flex items-center gap-2 text-sm">
+                        <input
+                            type={type === 'multi_select' ? 'checkbox' : 'radio'}
+                            name={name}
+                            checked={selected.includes(option)}
+                            onChange={() => toggle(option)}
+                        />
+                        <span>{option}</span>
+                    </label>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default QuizQuestionInput;
@@ -0,0 +1,55 @@
+import React from 'react';
+import type { QuizReviewItem, QuizSource } from '../../types';
+import { CheckCircleIcon, XCircleIcon } from '../Icons';
+import { describeAnswer } from '../../services/quizGrading';
+
+interface QuizReviewProps {
+    items: QuizReviewItem[];
+    // Resolves a source pointer to a short label (e.g. "Slide 4 of Intro to Trees"); null hides the link
+    getSourceLabel?: (source: QuizSource) => string | null;
+    // Called for slide sources; material sources are shown as plain text
+    onOpenSource?: (source: QuizSource) => void;
+}
+
+// Question-by-question breakdown shown after a quiz: answer, key, explanation and a link to the source.
+const QuizReview: React.FC<QuizReviewProps> = ({ items, getSourceLabel, onOpenSource }) => (
+    <div className="space-y-6 text-left">
+        {items.map((item, i) => {
+            const correct = item.credit >= 1;
+            const sourceLabel = item.source && getSourceLabel ? getSourceLabel(item.source) : null;
+            return (
+                <div key={i}>
+                    <p className="font-semibold">{i + 1}. {item.question.question}</p>
+                    {item.question.code && (
+                        <pre className="mt-1 p-2 rounded-md bg-background border border-border text-xs overflow-x-auto"><code>{item.question.code}</code></pre>
+                    )}
+                    <p className={`flex items-center gap-2 mt-1 ${correct ? 'text-green-400' : 'text-red-400'}`}>
+                        {correct ? <CheckCircleIcon className="w-5 h-5"/> : <XCircleIcon className="w-5 h-5"/>}
+                        Your answer: {describeAnswer(item.answer) || 'No answer'}
+                        {item.credit > 0 && item.credit < 1 ? ` (partial credit: ${Math.round(item.credit * 100)}%)` : ''}
+                    </p>
+                    {!correct && (
+                        <p className="text-green-400 ml-7">Correct answer: {item.correctAnswer}</p>
+                    )}
+                    {item.explanation && (
+                        <p className="text-sm text-muted-foreground ml-7 mt-1">{item.explanation}</p>
+                    )}
+                    {item.sourceExcerpt && (
+                        <blockquote className="text-xs text-muted-foreground ml-7 mt-1 pl-2 border-l-2 border-border italic">{item.sourceExcerpt}</blockquote>
+                    )}
+                    {sourceLabel && item.source && (
+                        onOpenSource && item.source.slideIndex !== undefined ? (
+                            <button onClick={() => onOpenSource(item.source!)} className="text-xs ml-7 mt-1 underline text-foreground/80 hover:text-foreground">
+                                Review {sourceLabel}
+                            </button>
+                        ) : (
+                            <p className="text-xs ml-7 mt-1 text-muted-foreground">Source: {sourceLabel}</p>
+                        )
+                    )}
+                </div>
+            );
+        })}
+    </div>
+);
+
+export default QuizReview;
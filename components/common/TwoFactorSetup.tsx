@@ -0,0 +1,97 @@
+import React, { useEffect, useState } from 'react';
+import Button from './Button';
+import type { TotpSetup, User } from '../../types';
+import { startTwoFactorSetup, enableTwoFactor } from '../../services/authService';
+import { downloadBlob } from '../../services/gradebookExport';
+
+interface TwoFactorSetupProps {
+    // Set when enrolling during login (the role requires 2FA); otherwise the signed-in session is used
+    mfaToken?: string;
+    // Called once the user has confirmed they saved their recovery codes
+    onDone: (user: User) => void;
+    onCancel?: () => void;
+}
+
+// QR enrollment for an authenticator app, then a one-time display of the recovery codes.
+const TwoFactorSetup: React.FC<TwoFactorSetupProps> = ({ mfaToken, onDone, onCancel }) => {
+    const [setup, setSetup] = useState<TotpSetup | null>(null);
+    const [code, setCode] = useState('');
+    const [result, setResult] = useState<{ recoveryCodes: string[]; user: User } | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        startTwoFactorSetup(mfaToken)
+            .then(setSetup)
+            .catch((e: any) => setError(e?.message || 'Failed to start two-factor setup'));
+    }, [mfaToken]);
+
+    const confirm = async () => {
+        setBusy(true);
+        setError(null);
+        try {
+            const { recoveryCodes, user } = await enableTwoFactor({ code, mfaToken });
+            setResult({ recoveryCodes, user });
+        } catch (e: any) {
+            setError(e?.message || 'Invalid authentication code');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const downloadCodes = () => {
+        if (!result) return;
+        downloadBlob(new Blob([result.recoveryCodes.join('\n') + '\n'], { type: 'text/plain' }), 'lumoai-recovery-codes.txt');
+    };
+
+    if (result) {
+        return (
+            <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Save your recovery codes</h3>
+                <p className="text-sm text-muted-foreground">
+                    Each code signs you in once if you lose your authenticator. They will not be shown again.
+                </p>
+                <ul className="grid grid-cols-2 gap-2 font-mono text-sm bg-background border border-border rounded-md p-3">
+                    {result.recoveryCodes.map(c => <li key={c} className="select-all">{c}</li>)}
+                </ul>
+                <div className="flex gap-2">
+                    <Button variant="secondary" onClick={downloadCodes}>Download</Button>
+                    <Button onClick={() => onDone(result.user)}>I have saved them</Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="space-y-4">
+            <h3 className="text-lg font-semibold">Set up two-factor authentication</h3>
+            <p className="text-sm text-muted-foreground">
+                Scan the code with an authenticator app (Google Authenticator, 1Password, Authy…), then enter the 6-digit code it shows.
+            </p>
+            {setup ? (
+                <div className="flex flex-col items-center gap-2">
+                    <img src={setup.qrDataUrl} alt="Authenticator QR code" className="w-48 h-48 bg-white p-2 rounded-md" />
+                    <p className="text-xs text-muted-foreground">Or enter this key manually:</p>
+                    <code className="text-xs break-all select-all">{setup.secret}</code>
+                </div>
+            ) : !error && <p className="text-sm text-muted-foreground">Preparing…</p>}
+            <input
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && code.trim().length >= 6) confirm(); }}
+                className="w-full px-3 py-2 bg-background border border-border rounded tracking-widest text-center"
+            />
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            <div className="flex gap-2">
+                <Button onClick={confirm} disabled={!setup || busy || code.trim().length < 6}>{busy ? 'Verifying…' : 'Enable'}</Button>
+                {onCancel && <Button variant="secondary" onClick={onCancel}>Cancel</Button>}
+            </div>
+        </div>
+    );
+};
+
+export default TwoFactorSetup;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import Button from './Button';
+import type { Course, ImportCredentials, UserImportReport } from '../../types';
+import { importUsers, inviteLink } from '../../services/importService';
+import { toCsv, downloadBlob } from '../../services/gradebookExport';
+
+interface UserImportProps {
+    // Courses the current user may enroll into, listed so their IDs can be copied into the CSV
+    courses: Course[];
+    // Admins can also create teachers
+    allowTeachers?: boolean;
+}
+
+const STATUS_CLASSES: Record<string, string> = {
+    created: 'text-emerald-600',
+    existing: 'text-muted-foreground',
+    error: 'text-red-500',
+};
+
+// Bulk onboarding from a CSV with a dry-run preview and a per-row report.
+const UserImport: React.FC<UserImportProps> = ({ courses, allowTeachers = false }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [credentials, setCredentials] = useState<ImportCredentials>('password');
+    const [report, setReport] = useState<UserImportReport | null>(null);
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const run = async (dryRun: boolean) => {
+        if (!file) return;
+        setBusy(true);
+        setError(null);
+        try {
+            setReport(await importUsers(file, { dryRun, credentials }));
+        } catch (err: any) {
+            setError(err?.message || 'Import failed.');
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    // The report is the only place one-time passwords and invite links appear, so offer it as a file
+    const downloadReport = () => {
+        if (!report) return;
+        const rows = [
+            ['row', 'name', 'email', 'status', 'enrolled', 'oneTimePassword', 'inviteLink', 'error'],
+            ...report.rows.map(r => [
+                r.row, r.name, r.email, r.status, (r.enrolled || []).join(';'),
+                r.oneTimePassword || '', r.inviteToken ? inviteLink(r.inviteToken) : '', r.error || '',
+            ]),
+        ];
+        downloadBlob(new Blob(['\uFEFF' + toCsv(rows)], { type: 'text/csv;charset=utf-8' }), 'user_import_report.csv');
+    };
+
+    const hasCredentials = report?.rows.some(r => r.oneTimePassword || r.inviteToken);
+
+    return (
+        <section className="space-y-3">
+            <div>
+                <h3 className="text-lg font-semibold">Bulk Import</h3>
+                <p className="text-xs text-muted-foreground">
+                    CSV columns: name, email, role ({allowTeachers ? 'student or teacher' : 'student'}), courseIds (separate several with ;).
+                    Courses with sections need one: write courseId:section, or add a sectionId column for the whole row (section ID or name).
+                    Existing accounts are matched by email and only enrolled.
+                </p>
+            </div>
+            {courses.length > 0 && (
+                <details className="text-xs text-muted-foreground">
+                    <summary className="cursor-pointer">Course IDs</summary>
+                    <ul className="mt-1 space-y-0.5">
+                        {courses.map(c => (
+                            <li key={c.id}>
+                                <code className="select-all">{c.id}</code> — {c.title}
+                                {c.sections?.length ? ` (sections: ${c.sections.map(sec => sec.name).join(', ')})` : ''}
+                            </li>
+                        ))}
+                    </ul>
+                </details>
+            )}
+            <div className="flex flex-wrap items-center gap-3">
+                <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => { setFile(e.target.files?.[0] || null); setReport(null); }}
+                    className="text-sm"
+                />
+                <select value={credentials} onChange={(e) => setCredentials(e.target.value as ImportCredentials)} className="p-2 bg-background border border-border rounded-md text-sm">
+                    <option value="password">New users get a one-time password</option>
+                    <option value="invite">New users get an invite link</option>
+                </select>
+                <Button size="sm" variant="secondary" onClick={() => run(true)} disabled={!file || busy}>Dry run</Button>
+                <Button size="sm" onClick={() => run(false)} disabled={!file || busy}>{busy ? 'Importing…' : 'Import'}</Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {report && (
+                <div className="space-y-2">
+                    <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                        <p>
+                            {report.dryRun ? 'Dry run: ' : ''}
+                            {report.summary.created} {report.dryRun ? 'to create' : 'created'} • {report.summary.existing} existing •{' '}
+                            {report.summary.enrollments} {report.dryRun ? 'enrollments to add' : 'enrollments added'} • {report.summary.errors} error{report.summary.errors === 1 ? '' : 's'}
+                        </p>
+                        <Button size="sm" variant="secondary" onClick={downloadReport}>Download report</Button>
+                    </div>
+                    {hasCredentials && (
+                        <p className="text-xs text-muted-foreground">Passwords and invite links are shown only once. Download the report before leaving this page.</p>
+                    )}
+                    <div className="overflow-x-auto bg-card border border-border rounded-lg max-h-96">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="p-2">Row</th>
+                                    <th className="p-2">User</th>
+                                    <th className="p-2">Status</th>
+                                    <th className="p-2">Enrolled</th>
+                                    <th className="p-2">Credentials / error</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.rows.map(r => (
+                                    <tr key={r.row} className="border-t border-border">
+                                        <td className="p-2">{r.row}</td>
+                                        <td className="p-2">
+                                            <p className="font-medium">{r.name || '—'}</p>
+                                            <p className="text-xs text-muted-foreground">{r.email}</p>
+                                        </td>
+                                        <td className={`p-2 ${STATUS_CLASSES[r.status]}`}>{r.status}</td>
+                                        <td className="p-2">
+                                            {(r.enrolled || []).length || '—'}
+                                            {(r.alreadyEnrolled || []).length > 0 && <span className="text-xs text-muted-foreground"> (+{r.alreadyEnrolled!.length} already)</span>}
+                                        </td>
+                                        <td className="p-2 text-xs">
+                                            {r.error ? <span className="text-red-500">{r.error}</span>
+                                                : r.oneTimePassword ? <code className="select-all">{r.oneTimePassword}</code>
+                                                : r.inviteToken ? <code className="select-all break-all">{inviteLink(r.inviteToken)}</code>
+                                                : ''}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
+
+export default UserImport;
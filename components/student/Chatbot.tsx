@@ -2,19 +2,41 @@ import React, { useState, useEffect, useRef } from 'react';
 import { ChatIcon, SendIcon, MicrophoneIcon, LumoLogo } from '../Icons';
 import Button from '../common/Button';
 import { sendMessageToChatbot, startChat } from '../../services/geminiService';
+import { getToken } from '../../services/authService';
+import { Role } from '../../types';
+import type { Course, User } from '../../types';
 
 interface Message {
     text: string;
     sender: 'user' | 'bot';
 }
 
-const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
+interface ChatbotProps {
+    user: User;
+    courses: Course[];
+    enrolledCourseIds: string[];
+}
+
+const Chatbot: React.FC<ChatbotProps> = ({ user, courses, enrolledCourseIds }) => {
+    const isStudent = user.role === Role.Student;
+    const userName = user.name;
     const [messages, setMessages] = useState<Message[]>([]);
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
-    const [tab, setTab] = useState<'ai'|'class'>('ai');
+    // Teachers come here for class chat
+    const [tab, setTab] = useState<'ai'|'class'>(isStudent ? 'ai' : 'class');
     const [recording, setRecording] = useState(false);
-    const [classMsgs, setClassMsgs] = useState<Array<{text:string; sender:string; mentions:string[]; time:number}>>([]);
+    const [classMsgs, setClassMsgs] = useState<Array<{text:string; sender:string; senderId?:string; role?:string; mentions:string[]; time:number}>>([]);
+    // Class chat runs per course section: students join their own, staff pick one
+    const chatCourses = courses.filter(c => isStudent
+        ? enrolledCourseIds.includes(c.id)
+        : !c.creatorId || c.creatorId === user.id || !!c.teachingSectionIds?.length);
+    const [chatCourseId, setChatCourseId] = useState(chatCourses[0]?.id || '');
+    const [chatSectionId, setChatSectionId] = useState('');
+    const [chatRoom, setChatRoom] = useState<{ courseId: string; sectionName: string | null } | null>(null);
+    const [chatError, setChatError] = useState<string | null>(null);
+    const chatCourse = chatCourses.find(c => c.id === chatCourseId);
+    const chatSections = isStudent ? [] : (chatCourse?.sections || []).filter(s => !chatCourse?.teachingSectionIds || chatCourse.teachingSectionIds.includes(s.id));
     const wsRef = useRef<WebSocket | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
 
@@ -25,10 +47,17 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
         ]);
     }, []);
 
-    // Open/close WebSocket for Class Chat
     useEffect(() => {
-        if (tab !== 'class') { return; }
+        if (!chatCourseId && chatCourses.length) setChatCourseId(chatCourses[0].id);
+    }, [chatCourses.length, chatCourseId]);
+
+    // Open/close WebSocket for Class Chat; reconnects when the course or section changes
+    useEffect(() => {
+        if (tab !== 'class' || !chatCourseId) { return; }
         let closed = false;
+        setClassMsgs([]);
+        setChatRoom(null);
+        setChatError(null);
         const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
         const host = window.location.hostname;
         const candidatePorts = [8765, 8766, 8767, 8768, 8769];
@@ -40,12 +69,21 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
             current = ws;
             wsRef.current = ws;
             let triedNext = false;
-            ws.onopen = () => { /* connected */ };
+            // Once the server has answered, a close means it refused or dropped us, not a wrong port
+            let reached = false;
+            ws.onopen = () => {
+                ws.send(JSON.stringify({ type: 'join', token: getToken(), courseId: chatCourseId, sectionId: chatSectionId || undefined }));
+            };
             ws.onmessage = (ev) => {
+                reached = true;
                 try {
                     const msg = JSON.parse(ev.data);
-                    if (msg?.type === 'class_message') {
-                        setClassMsgs(prev => [...prev, { text: msg.text, sender: msg.sender, mentions: msg.mentions||[], time: msg.time||Date.now() }]);
+                    if (msg?.type === 'joined') {
+                        setChatRoom({ courseId: msg.courseId, sectionName: msg.sectionName || null });
+                    } else if (msg?.type === 'error') {
+                        setChatError(msg.error || 'Class chat is unavailable');
+                    } else if (msg?.type === 'class_message') {
+                        setClassMsgs(prev => [...prev, { text: msg.text, sender: msg.sender, senderId: msg.senderId, role: msg.role, mentions: msg.mentions||[], time: msg.time||Date.now() }]);
                     }
                 } catch {}
             };
@@ -54,13 +92,21 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
                 if (!triedNext) { triedNext = true; tryConnect(idx + 1); }
             };
             ws.onclose = () => {
-                if (!triedNext) { triedNext = true; tryConnect(idx + 1); }
-                if (wsRef.current === ws) wsRef.current = null;
+                if (!triedNext && !reached) { triedNext = true; tryConnect(idx + 1); }
+                if (wsRef.current === ws) { wsRef.current = null; setChatRoom(null); }
             };
         };
         tryConnect(0);
         return () => { closed = true; try { current?.close(); } catch {} };
-    }, [tab]);
+    }, [tab, chatCourseId, chatSectionId]);
+
+    const sendClassMessage = () => {
+        const ws = wsRef.current;
+        if (ws && ws.readyState === 1 && chatRoom && input.trim()) {
+            ws.send(JSON.stringify({ text: input.trim() }));
+            setInput('');
+        }
+    };
 
     useEffect(() => {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -173,6 +219,30 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
             <div className="flex items-center gap-2 mb-3">
                 <button onClick={() => setTab('ai')} className={`px-3 h-9 rounded-full border text-sm ${tab==='ai'?'bg-foreground text-background':'bg-background'}`}>Ask AI</button>
                 <button onClick={() => setTab('class')} className={`px-3 h-9 rounded-full border text-sm ${tab==='class'?'bg-foreground text-background':'bg-background'}`}>Class Chat</button>
+                {tab === 'class' && chatCourses.length > 0 && (
+                    <>
+                        <select
+                            value={chatCourseId}
+                            onChange={(e) => { setChatCourseId(e.target.value); setChatSectionId(''); }}
+                            className="h-9 px-2 bg-background border border-border rounded-md text-sm"
+                            aria-label="Course"
+                        >
+                            {chatCourses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                        </select>
+                        {chatSections.length > 0 && (
+                            <select
+                                value={chatSectionId}
+                                onChange={(e) => setChatSectionId(e.target.value)}
+                                className="h-9 px-2 bg-background border border-border rounded-md text-sm"
+                                aria-label="Section"
+                            >
+                                {/* TAs land in their first section when none is picked */}
+                                <option value="">{chatCourse?.teachingSectionIds ? 'My first section' : 'Students without a section'}</option>
+                                {chatSections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                            </select>
+                        )}
+                    </>
+                )}
                 <div className="ml-auto flex items-center gap-2">
                     <Button onClick={downloadPdf} variant="secondary">Download chat</Button>
                 </div>
@@ -192,19 +262,27 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
                         </div>
                     )) : (
                         <div className="space-y-3">
+                            {chatError && <div className="text-sm text-red-500">{chatError}</div>}
+                            {!chatCourses.length && <div className="text-sm text-muted-foreground">Enroll in a course to chat with your classmates.</div>}
+                            {chatRoom && (
+                                <div className="text-xs text-muted-foreground">
+                                    Chatting with {chatRoom.sectionName ? `section ${chatRoom.sectionName}` : 'the class'} of {chatCourse?.title}
+                                </div>
+                            )}
                             {classMsgs.map((m,i)=>{
                                 const me = (userName || 'Student');
+                                const mine = m.senderId === user.id;
                                 const mentioned = (m.mentions||[]).some(x => x.toLowerCase()===me.toLowerCase());
                                 return (
-                                    <div key={i} className={`flex items-start gap-3 ${m.sender===me?'justify-end':'justify-start'}`}>
-                                        <div className={`max-w-lg px-4 py-2 rounded-lg ${m.sender===me?'bg-foreground text-background':'bg-background'} ${mentioned && m.sender!==me ? 'ring-2 ring-amber-400' : ''}`}>
-                                            <p className="text-xs font-medium mb-1">{m.sender}</p>
+                                    <div key={i} className={`flex items-start gap-3 ${mine?'justify-end':'justify-start'}`}>
+                                        <div className={`max-w-lg px-4 py-2 rounded-lg ${mine?'bg-foreground text-background':'bg-background'} ${mentioned && !mine ? 'ring-2 ring-amber-400' : ''}`}>
+                                            <p className="text-xs font-medium mb-1">{m.sender}{m.role === 'teacher' ? ' (staff)' : ''}</p>
                                             <div className="text-sm break-words">{renderMessage(m.text)}</div>
                                         </div>
                                     </div>
                                 );
                             })}
-                            {classMsgs.length===0 && <div className="text-sm text-muted-foreground">No messages yet. Start the conversation!</div>}
+                            {chatRoom && classMsgs.length===0 && <div className="text-sm text-muted-foreground">No messages yet. Start the conversation!</div>}
                         </div>
                     )}
                     {isLoading && (
@@ -230,14 +308,7 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
                             onKeyDown={(e) => {
                                 if (e.key === 'Enter' && !isLoading) {
                                     if (tab==='ai') { handleSend(); }
-                                    else {
-                                        const ws = wsRef.current;
-                                        if (ws && ws.readyState===1 && input.trim()) {
-                                            const me = (userName || 'Student');
-                                            ws.send(JSON.stringify({ text: input.trim(), sender: me }));
-                                            setInput('');
-                                        }
-                                    }
+                                    else { sendClassMessage(); }
                                 }
                             }}
                             placeholder="Ask a question about your studies..."
@@ -252,7 +323,7 @@ const Chatbot: React.FC<{ userName?: string }> = ({ userName }) => {
                                 <SendIcon className="w-5 h-5" />
                             </Button>
                         ) : (
-                            <Button onClick={() => { const ws = wsRef.current; const me = (userName || 'Student'); if (ws && ws.readyState===1 && input.trim()) { ws.send(JSON.stringify({ text: input.trim(), sender: me })); setInput(''); } }} disabled={!input.trim()}>
+                            <Button onClick={sendClassMessage} disabled={!input.trim() || !chatRoom}>
                                 <SendIcon className="w-5 h-5" />
                             </Button>
                         )}
@@ -0,0 +1,150 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import Button from '../common/Button';
+import type { Course, Flashcard } from '../../types';
+import { generateLectureFlashcards, getDueFlashcards, reviewFlashcard } from '../../services/flashcardsService';
+
+interface Props {
+  courses?: Course[];
+  enrolledCourseIds?: string[];
+}
+
+// SM-2 grades behind the four answer buttons
+const GRADES = [
+  { grade: 1, label: 'Again' },
+  { grade: 3, label: 'Hard' },
+  { grade: 4, label: 'Good' },
+  { grade: 5, label: 'Easy' },
+];
+
+// Spaced-repetition review of cards built from lecture slides and quiz items.
+const Flashcards: React.FC<Props> = ({ courses = [], enrolledCourseIds = [] }) => {
+  const myCourses = useMemo(() => courses.filter(c => enrolledCourseIds.includes(c.id)), [courses, enrolledCourseIds]);
+  const [courseId, setCourseId] = useState<string>(myCourses[0]?.id || '');
+  const [queue, setQueue] = useState<Flashcard[]>([]);
+  const [counts, setCounts] = useState({ due: 0, total: 0, reviewedToday: 0 });
+  const [showBack, setShowBack] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!courseId && myCourses.length) setCourseId(myCourses[0].id);
+  }, [myCourses, courseId]);
+
+  const loadDue = useCallback(async () => {
+    if (!courseId) return;
+    try {
+      const res = await getDueFlashcards(courseId);
+      setQueue(res.cards);
+      setCounts({ due: res.due, total: res.total, reviewedToday: res.reviewedToday });
+      setShowBack(false);
+    } catch (e: any) {
+      setMessage(e?.message || 'Failed to load flashcards');
+    }
+  }, [courseId]);
+
+  useEffect(() => { loadDue(); }, [loadDue]);
+
+  const course = myCourses.find(c => c.id === courseId);
+  const current = queue[0];
+
+  const makeCards = async (moduleId: string, lectureId: string) => {
+    setBusy(lectureId);
+    setMessage(null);
+    try {
+      const { created, total } = await generateLectureFlashcards(courseId, moduleId, lectureId);
+      setMessage(created ? `Added ${created} new card${created === 1 ? '' : 's'}.` : `All ${total} cards from this lecture are already in your deck.`);
+      await loadDue();
+    } catch (e: any) {
+      setMessage(e?.message || 'Failed to create flashcards');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const answer = async (grade: number) => {
+    if (!current) return;
+    setBusy(current.id);
+    try {
+      await reviewFlashcard(current.id, grade);
+      setShowBack(false);
+      setCounts(c => ({ ...c, due: Math.max(0, c.due - 1), reviewedToday: c.reviewedToday + 1 }));
+      const rest = queue.slice(1);
+      setQueue(rest);
+      // Pull the next batch once this one is done
+      if (!rest.length) await loadDue();
+    } catch (e: any) {
+      setMessage(e?.message || 'Failed to record review');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  if (!myCourses.length) {
+    return (
+      <div className="w-full p-4 md:p-6 border border-border rounded-lg bg-card">
+        <h2 className="text-xl font-semibold mb-2">Flashcards</h2>
+        <p className="text-sm text-muted-foreground">Enroll in a course to build flashcards from its lectures.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full p-4 md:p-6 border border-border rounded-lg bg-card space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h2 className="text-xl font-semibold">Flashcards</h2>
+        <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className="p-2 bg-background border border-border rounded-md text-sm">
+          {myCourses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+        </select>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {counts.due} due • {counts.total} in deck • {counts.reviewedToday} reviewed today
+      </p>
+
+      {current ? (
+        <div className="border border-border rounded-lg p-6 bg-background">
+          <p className="text-xs text-muted-foreground mb-2">{current.lectureTitle}</p>
+          <p className="text-lg font-semibold whitespace-pre-line">{current.front}</p>
+          {showBack ? (
+            <>
+              <p className="mt-4 pt-4 border-t border-border text-sm whitespace-pre-line">{current.back}</p>
+              <div className="flex flex-wrap gap-2 mt-4">
+                {GRADES.map(g => (
+                  <Button key={g.grade} size="sm" variant={g.grade < 3 ? 'danger' : 'secondary'} onClick={() => answer(g.grade)} disabled={!!busy}>
+                    {g.label}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <Button size="sm" className="mt-4" onClick={() => setShowBack(true)}>Show answer</Button>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground italic">
+          {counts.total ? 'Nothing due right now. Come back later.' : 'Your deck is empty. Add cards from a lecture below.'}
+        </p>
+      )}
+
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      <div>
+        <p className="text-sm font-medium mb-2">Add cards from lectures</p>
+        <div className="space-y-1">
+          {course?.modules.flatMap(m => m.lectures.map(l => (
+            <div key={l.id} className="flex items-center justify-between gap-2 text-sm">
+              <span className="truncate">{m.title} — {l.title}</span>
+              <Button size="sm" variant="secondary" onClick={() => makeCards(m.id, l.id)} disabled={!!busy}>
+                {busy === l.id ? 'Adding...' : 'Make cards'}
+              </Button>
+            </div>
+          )))}
+          {!course?.modules.some(m => m.lectures.length) && (
+            <p className="text-xs text-muted-foreground italic">This course has no lectures yet.</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Flashcards;
@@ -1,18 +1,23 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { VideoDraft, QuizQuestion } from '../../types';
+import { VideoDraft, QuizQuestion, QuizAnswer, QuizReviewItem } from '../../types';
 import Button from '../common/Button';
-import { CheckCircleIcon, XCircleIcon, PlayIcon, PauseIcon, VideoIcon } from '../Icons';
+import QuizQuestionInput from '../common/QuizQuestionInput';
+import QuizReview from '../common/QuizReview';
+import { gradeQuestion, isAnswered, describeCorrectAnswer } from '../../services/quizGrading';
+import { PlayIcon, PauseIcon, VideoIcon } from '../Icons';
 
 interface LectureViewerProps {
     lecture: VideoDraft;
     onBack: () => void;
+    // Open the lecture on a specific slide (0-based), e.g. when following a quiz review link
+    initialSlideIndex?: number;
 }
 
-const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
+const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack, initialSlideIndex }) => {
     const [view, setView] = useState<'lecture' | 'quiz' | 'results'>('lecture');
-    const [userAnswers, setUserAnswers] = useState<string[]>([]);
+    const [userAnswers, setUserAnswers] = useState<Array<QuizAnswer | undefined>>([]);
     const [score, setScore] = useState(0);
-    const [currentSlideIndex, setCurrentSlideIndex] = useState(0);
+    const [currentSlideIndex, setCurrentSlideIndex] = useState(() => Math.min(Math.max(0, initialSlideIndex || 0), Math.max(0, lecture.slides.length - 1)));
     const [isPlaying, setIsPlaying] = useState(false);
     const audioRef = useRef<HTMLAudioElement>(null);
 
@@ -27,7 +32,7 @@ const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
         }
     }, [isPlaying, currentSlideIndex]);
 
-    const handleSelectAnswer = (questionIndex: number, answer: string) => {
+    const handleSelectAnswer = (questionIndex: number, answer: QuizAnswer) => {
         setUserAnswers(prev => {
             const newAnswers = [...prev];
             newAnswers[questionIndex] = answer;
@@ -36,16 +41,27 @@ const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
     };
 
     const handleSubmitQuiz = () => {
-        let correctCount = 0;
-        lecture.quiz.forEach((q, index) => {
-            if (userAnswers[index] === q.correctAnswer) {
-                correctCount++;
-            }
-        });
-        setScore(correctCount);
+        const total = lecture.quiz.reduce((sum, q, index) => sum + gradeQuestion(q, userAnswers[index]), 0);
+        setScore(Math.round(total * 100) / 100);
         setView('results');
     };
     
+    // Jump from a quiz review back to the slide a question was based on
+    const openSlide = (slideIndex: number) => {
+        setIsPlaying(false);
+        setCurrentSlideIndex(Math.min(slideIndex, lecture.slides.length - 1));
+        setView('lecture');
+    };
+
+    const reviewItems: QuizReviewItem[] = lecture.quiz.map((q, i) => ({
+        question: q,
+        answer: userAnswers[i] ?? null,
+        credit: gradeQuestion(q, userAnswers[i]),
+        correctAnswer: describeCorrectAnswer(q),
+        explanation: q.explanation,
+        source: q.source,
+    }));
+
     const handlePlayPause = () => {
         setIsPlaying(prev => !prev);
     };
@@ -140,18 +156,13 @@ const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
     const renderQuizQuestion = (q: QuizQuestion, index: number) => (
         <div key={index} className="bg-card border border-border rounded-lg p-6 mb-6">
             <h3 className="text-xl font-semibold mb-4">{index + 1}. {q.question}</h3>
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {q.options.map(option => (
-                    <Button 
-                        key={option} 
-                        variant={userAnswers[index] === option ? 'primary' : 'secondary'}
-                        onClick={() => handleSelectAnswer(index, option)}
-                        className="text-left justify-start"
-                    >
-                        {option}
-                    </Button>
-                ))}
-            </div>
+            <QuizQuestionInput
+                question={q}
+                value={userAnswers[index]}
+                onChange={(answer) => handleSelectAnswer(index, answer)}
+                name={`lecture-q${index}`}
+                layout="buttons"
+            />
         </div>
     );
     
@@ -160,19 +171,14 @@ const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
             <h2 className="text-3xl font-bold mb-4">Quiz Completed!</h2>
             <p className="text-5xl font-bold mb-4">{lecture.quiz.length > 0 ? Math.round((score / lecture.quiz.length) * 100) : 0}%</p>
             <p className="text-muted-foreground mb-8">You answered {score} out of {lecture.quiz.length} questions correctly.</p>
-            <div className="space-y-6 text-left max-w-2xl mx-auto">
-                {lecture.quiz.map((q, i) => (
-                    <div key={i}>
-                        <p className="font-semibold">{q.question}</p>
-                        <p className={`flex items-center gap-2 mt-1 ${userAnswers[i] === q.correctAnswer ? 'text-green-400' : 'text-red-400'}`}>
-                           {userAnswers[i] === q.correctAnswer ? <CheckCircleIcon className="w-5 h-5"/> : <XCircleIcon className="w-5 h-5"/>}
-                           Your answer: {userAnswers[i] || "No answer"}
-                        </p>
-                        {userAnswers[i] !== q.correctAnswer && (
-                            <p className="text-green-400 ml-7">Correct answer: {q.correctAnswer}</p>
-                        )}
-                    </div>
-                ))}
+            <div className="max-w-2xl mx-auto">
+                <QuizReview
+                    items={reviewItems}
+                    getSourceLabel={(source) => source.slideIndex !== undefined && source.slideIndex < lecture.slides.length
+                        ? `slide ${source.slideIndex + 1}${lecture.slides[source.slideIndex].heading ? `: ${lecture.slides[source.slideIndex].heading}` : ''}`
+                        : null}
+                    onOpenSource={(source) => openSlide(source.slideIndex!)}
+                />
             </div>
             <Button onClick={() => { setUserAnswers([]); setView('quiz'); }} className="mt-8 mr-4">Retake Quiz</Button>
             <Button onClick={onBack} variant="secondary" className="mt-8">Back to Dashboard</Button>
@@ -193,7 +199,7 @@ const LectureViewer: React.FC<LectureViewerProps> = ({ lecture, onBack }) => {
                     {view === 'quiz' && (
                         <div>
                             {lecture.quiz.map(renderQuizQuestion)}
-                            <Button onClick={handleSubmitQuiz} disabled={userAnswers.filter(Boolean).length !== lecture.quiz.length} className="w-full">Submit Quiz</Button>
+                            <Button onClick={handleSubmitQuiz} disabled={lecture.quiz.some((_, i) => !isAnswered(userAnswers[i]))} className="w-full">Submit Quiz</Button>
                         </div>
                     )}
                     {view === 'results' && renderResults()}
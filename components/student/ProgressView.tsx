@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from 'react';
+import type { Course, QuizAttempt } from '../../types';
+import { getAttemptHistory } from '../../services/quizService';
+import { CheckCircleIcon, XCircleIcon } from '../Icons';
+
+interface ProgressViewProps {
+    // Courses the student is enrolled in
+    courses: Course[];
+}
+
+const percent = (a: QuizAttempt) => (a.total > 0 ? Math.round((a.score / a.total) * 100) : 0);
+
+// Small SVG line chart of score percentage per attempt, oldest on the left.
+const ScoreTrendChart: React.FC<{ attempts: QuizAttempt[] }> = ({ attempts }) => {
+    const width = 480;
+    const height = 140;
+    const pad = 24;
+    const x = (i: number) => (attempts.length === 1 ? width / 2 : pad + (i * (width - pad * 2)) / (attempts.length - 1));
+    const y = (p: number) => height - pad - (p / 100) * (height - pad * 2);
+    const points = attempts.map((a, i) => `${x(i)},${y(percent(a))}`).join(' ');
+    return (
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-36" role="img" aria-label="Score trend">
+            {[0, 50, 100].map(p => (
+                <g key={p}>
+                    <line x1={pad} x2={width - pad} y1={y(p)} y2={y(p)} stroke="currentColor" strokeOpacity={0.15} />
+                    <text x={2} y={y(p) + 4} fontSize={10} fill="currentColor" fillOpacity={0.5}>{p}%</text>
+                </g>
+            ))}
+            {attempts.length > 1 && <polyline points={points} fill="none" stroke="currentColor" strokeWidth={2} />}
+            {attempts.map((a, i) => (
+                <circle key={a.id} cx={x(i)} cy={y(percent(a))} r={4} fill={a.late ? '#f87171' : 'currentColor'}>
+                    <title>{`${new Date(a.createdAt).toLocaleString()}: ${a.score}/${a.total}${a.late ? ' (late)' : ''}`}</title>
+                </circle>
+            ))}
+        </svg>
+    );
+};
+
+// Student progress: per-module score trend and attempt history with per-question outcomes.
+const ProgressView: React.FC<ProgressViewProps> = ({ courses }) => {
+    const [courseId, setCourseId] = useState(courses[0]?.id || '');
+    const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [openAttempt, setOpenAttempt] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!courseId && courses.length) setCourseId(courses[0].id);
+    }, [courses, courseId]);
+
+    useEffect(() => {
+        if (!courseId) return;
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        getAttemptHistory(courseId)
+            .then(list => { if (!cancelled) setAttempts(list); })
+            .catch((e: any) => { if (!cancelled) { setAttempts([]); setError(e?.message || 'Failed to load attempt history'); } })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [courseId]);
+
+    if (!courses.length) {
+        return (
+            <div className="text-center py-12 bg-card border border-dashed border-border rounded-lg">
+                <p className="text-muted">Enroll in a course to start tracking your progress.</p>
+            </div>
+        );
+    }
+
+    const course = courses.find(c => c.id === courseId);
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-3">
+                <label className="text-sm text-muted-foreground" htmlFor="progress-course">Course</label>
+                <select
+                    id="progress-course"
+                    value={courseId}
+                    onChange={(e) => setCourseId(e.target.value)}
+                    className="p-2 bg-background border border-border rounded-md text-sm"
+                >
+                    {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {loading && <p className="text-sm text-muted-foreground">Loading attempts…</p>}
+
+            {!loading && course?.modules.map(module => {
+                const moduleAttempts = attempts.filter(a => a.moduleId === module.id);
+                const best = moduleAttempts.reduce((m, a) => Math.max(m, percent(a)), 0);
+                return (
+                    <div key={module.id} className="bg-card border border-border rounded-lg p-6">
+                        <div className="flex justify-between items-start mb-2">
+                            <h3 className="text-lg font-semibold">{module.title}</h3>
+                            {moduleAttempts.length > 0 && (
+                                <span className="text-xs text-muted-foreground">
+                                    {moduleAttempts.length} attempt{moduleAttempts.length === 1 ? '' : 's'} • Best {best}% • Latest {percent(moduleAttempts[moduleAttempts.length - 1])}%
+                                </span>
+                            )}
+                        </div>
+                        {moduleAttempts.length === 0 ? (
+                            <p className="text-sm text-muted-foreground italic">No quiz attempts yet.</p>
+                        ) : (
+                            <>
+                                <ScoreTrendChart attempts={moduleAttempts} />
+                                <div className="mt-3 space-y-2">
+                                    {[...moduleAttempts].reverse().map(a => (
+                                        <div key={a.id} className="border border-border rounded-md">
+                                            <button
+                                                onClick={() => setOpenAttempt(prev => (prev === a.id ? null : a.id))}
+                                                className="w-full flex justify-between items-center p-2 text-sm text-left hover:bg-background"
+                                            >
+                                                <span>{new Date(a.createdAt).toLocaleString()}</span>
+                                                <span className="font-semibold">
+                                                    {a.score}/{a.total} ({percent(a)}%){a.late ? ' • late' : ''}
+                                                </span>
+                                            </button>
+                                            {openAttempt === a.id && (
+                                                <div className="p-2 border-t border-border space-y-1">
+                                                    {a.items.length === 0 ? (
+                                                        <p className="text-xs text-muted-foreground italic">No per-question details for this attempt.</p>
+                                                    ) : a.items.map((item, i) => (
+                                                        <p key={i} className={`flex items-start gap-2 text-sm ${item.correct ? 'text-green-400' : 'text-red-400'}`}>
+                                                            {item.correct ? <CheckCircleIcon className="w-4 h-4 mt-0.5 shrink-0" /> : <XCircleIcon className="w-4 h-4 mt-0.5 shrink-0" />}
+                                                            <span>
+                                                                {i + 1}. {item.question}
+                                                                {item.credit > 0 && item.credit < 1 ? ` (partial credit: ${Math.round(item.credit * 100)}%)` : ''}
+                                                            </span>
+                                                        </p>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+                                </div>
+                            </>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default ProgressView;
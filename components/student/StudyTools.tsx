@@ -1,5 +1,6 @@
 import React from 'react';
 import PomodoroTimer from './PomodoroTimer';
+import Flashcards from './Flashcards';
 import { TimerIcon } from '../Icons';
 import type { Course } from '../../types';
 
@@ -17,8 +18,9 @@ const StudyTools: React.FC<Props> = ({ courses, enrolledCourseIds }) => {
           <h1 className="text-3xl font-bold">Study Tools</h1>
         </div>
 
-        <div className="grid grid-cols-1">
+        <div className="grid grid-cols-1 gap-6">
           <PomodoroTimer courses={courses} enrolledCourseIds={enrolledCourseIds} />
+          <Flashcards courses={courses} enrolledCourseIds={enrolledCourseIds} />
         </div>
       </div>
     </div>
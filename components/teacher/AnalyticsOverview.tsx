@@ -0,0 +1,193 @@
+import React, { useEffect, useState } from 'react';
+import type { Course, CourseAnalytics, QuizAnalytics, ItemAnalysis } from '../../types';
+import { getCourseAnalytics, getModuleAnalytics } from '../../services/analyticsService';
+import { getItemAnalysis } from '../../services/quizService';
+import SectionFilter from './SectionFilter';
+import { ItemStats } from './QuizEditor';
+
+interface AnalyticsOverviewProps {
+    // Courses owned by the teacher, and those with sections they assist with
+    courses: Course[];
+}
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; hint?: string }> = ({ label, value, hint }) => (
+    <div className="bg-card border border-border rounded-lg p-4">
+        <p className="text-xs text-muted-foreground">{label}</p>
+        <p className="text-2xl font-semibold mt-1">{value}</p>
+        {hint && <p className="text-xs text-muted-foreground mt-1">{hint}</p>}
+    </div>
+);
+
+// Horizontal bars, one per 10-point score range
+const DistributionBars: React.FC<{ buckets: Array<{ range: string; count: number }> }> = ({ buckets }) => {
+    const max = Math.max(1, ...buckets.map(b => b.count));
+    return (
+        <div className="space-y-1">
+            {buckets.map(b => (
+                <div key={b.range} className="flex items-center gap-2 text-xs">
+                    <span className="w-12 text-right text-muted-foreground">{b.range}%</span>
+                    <div className="flex-1 h-3 bg-background rounded">
+                        <div className="h-3 bg-foreground rounded" style={{ width: `${(b.count / max) * 100}%` }} />
+                    </div>
+                    <span className="w-6">{b.count}</span>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+// Teacher overview: per-course quiz analytics with a drill-down into one module.
+const AnalyticsOverview: React.FC<AnalyticsOverviewProps> = ({ courses }) => {
+    const [courseId, setCourseId] = useState(courses[0]?.id || '');
+    const [sectionId, setSectionId] = useState('');
+    const [analytics, setAnalytics] = useState<CourseAnalytics | null>(null);
+    const [moduleId, setModuleId] = useState<string | null>(null);
+    const [moduleAnalytics, setModuleAnalytics] = useState<QuizAnalytics | null>(null);
+    // Flagged questions of the selected module, for the same section filter
+    const [flaggedItems, setFlaggedItems] = useState<ItemAnalysis[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!courseId && courses.length) setCourseId(courses[0].id);
+    }, [courses, courseId]);
+
+    useEffect(() => {
+        if (!courseId) return;
+        let cancelled = false;
+        setAnalytics(null);
+        setModuleId(null);
+        setError(null);
+        getCourseAnalytics(courseId, sectionId || undefined)
+            .then(a => { if (!cancelled) setAnalytics(a); })
+            .catch((e: any) => { if (!cancelled) setError(e?.message || 'Failed to load analytics'); });
+        return () => { cancelled = true; };
+    }, [courseId, sectionId]);
+
+    useEffect(() => {
+        if (!courseId || !moduleId) { setModuleAnalytics(null); setFlaggedItems([]); return; }
+        let cancelled = false;
+        setModuleAnalytics(null);
+        setFlaggedItems([]);
+        getModuleAnalytics(courseId, moduleId, sectionId || undefined)
+            .then(a => { if (!cancelled) setModuleAnalytics(a); })
+            .catch((e: any) => { if (!cancelled) setError(e?.message || 'Failed to load module analytics'); });
+        // Item analysis is advisory, so a failure just leaves the list empty
+        getItemAnalysis(courseId, moduleId, sectionId || undefined)
+            .then(({ items }) => { if (!cancelled) setFlaggedItems(items.filter(it => it.flags.length)); })
+            .catch(() => {});
+        return () => { cancelled = true; };
+    }, [courseId, moduleId, sectionId]);
+
+    if (!courses.length) {
+        return <p className="text-sm text-muted-foreground">Create a course to see analytics.</p>;
+    }
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center gap-3">
+                <label className="text-sm text-muted-foreground" htmlFor="analytics-course">Course</label>
+                <select
+                    id="analytics-course"
+                    value={courseId}
+                    onChange={(e) => { setCourseId(e.target.value); setSectionId(''); }}
+                    className="p-2 bg-background border border-border rounded-md text-sm"
+                >
+                    {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+                <SectionFilter course={courses.find(c => c.id === courseId)} value={sectionId} onChange={setSectionId} />
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {!analytics && !error && <p className="text-sm text-muted-foreground">Loading analytics…</p>}
+
+            {analytics && (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        <Stat label="Enrolled students" value={analytics.enrolledStudents} />
+                        <Stat label="Active students" value={analytics.activeStudents} hint={`Took a quiz in the last ${analytics.activeWindowDays} days`} />
+                        <Stat label="Quiz completions" value={analytics.completions} />
+                        <Stat label="Average / median" value={`${analytics.averageScore}% / ${analytics.medianScore}%`} />
+                    </div>
+
+                    <div className="bg-card border border-border rounded-lg p-6">
+                        <h3 className="text-xl font-semibold mb-3">Modules</h3>
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="py-1">Module</th>
+                                    <th className="py-1">Completions</th>
+                                    <th className="py-1">Students</th>
+                                    <th className="py-1">Average</th>
+                                    <th className="py-1">Median</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {analytics.modules.map(m => (
+                                    <tr
+                                        key={m.moduleId}
+                                        onClick={() => setModuleId(prev => (prev === m.moduleId ? null : m.moduleId))}
+                                        className={`border-t border-border cursor-pointer hover:bg-background ${moduleId === m.moduleId ? 'bg-background' : ''}`}
+                                    >
+                                        <td className="py-2">{m.moduleTitle}</td>
+                                        <td className="py-2">{m.completions}</td>
+                                        <td className="py-2">{m.students}</td>
+                                        <td className="py-2">{m.completions ? `${m.averageScore}%` : '—'}</td>
+                                        <td className="py-2">{m.completions ? `${m.medianScore}%` : '—'}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        <p className="text-xs text-muted-foreground mt-2">Select a module for its score distribution and hardest questions. Late submissions are excluded.</p>
+                    </div>
+
+                    {moduleId && (
+                        <div className="bg-card border border-border rounded-lg p-6">
+                            {!moduleAnalytics ? (
+                                <p className="text-sm text-muted-foreground">Loading module analytics…</p>
+                            ) : (
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                                    <div>
+                                        <h4 className="font-semibold mb-2">Score distribution — {moduleAnalytics.moduleTitle}</h4>
+                                        <DistributionBars buckets={moduleAnalytics.scoreDistribution || []} />
+                                    </div>
+                                    <div>
+                                        <h4 className="font-semibold mb-2">Hardest questions</h4>
+                                        {moduleAnalytics.hardestQuestions?.length ? (
+                                            <ol className="list-decimal list-inside space-y-2 text-sm">
+                                                {moduleAnalytics.hardestQuestions.map(q => (
+                                                    <li key={q.question}>
+                                                        {q.question}
+                                                        <span className="block text-xs text-muted-foreground ml-5">
+                                                            {Math.round(q.averageCredit * 100)}% correct across {q.attempts} answer{q.attempts === 1 ? '' : 's'}
+                                                        </span>
+                                                    </li>
+                                                ))}
+                                            </ol>
+                                        ) : (
+                                            <p className="text-sm text-muted-foreground italic">No graded answers yet.</p>
+                                        )}
+                                    </div>
+                                    {flaggedItems.length > 0 && (
+                                        <div className="md:col-span-2">
+                                            <h4 className="font-semibold mb-2">Flagged for review</h4>
+                                            <div className="space-y-3">
+                                                {flaggedItems.map(it => (
+                                                    <div key={it.question} className="space-y-1">
+                                                        <p className="text-sm">{it.question}</p>
+                                                        <ItemStats stats={it} />
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default AnalyticsOverview;
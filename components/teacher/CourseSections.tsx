@@ -0,0 +1,160 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from '../common/Button';
+import type { Course, CourseSection, RosterStudent } from '../../types';
+import { listSections, createSection, renameSection, deleteSection, addSectionTa, removeSectionTa, getRoster, moveStudent } from '../../services/sectionsService';
+
+interface CourseSectionsProps {
+    course: Course;
+    // Called after sections are added, renamed or removed so the course list can be refreshed
+    onChanged?: () => void;
+}
+
+// Sections (cohorts) of one course: their TAs, and which section each enrolled student is in.
+const CourseSections: React.FC<CourseSectionsProps> = ({ course, onChanged }) => {
+    const [sections, setSections] = useState<CourseSection[]>([]);
+    const [unassigned, setUnassigned] = useState(0);
+    const [roster, setRoster] = useState<RosterStudent[]>([]);
+    const [newName, setNewName] = useState('');
+    const [taEmails, setTaEmails] = useState<Record<string, string>>({});
+    const [showRoster, setShowRoster] = useState(false);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const data = await listSections(course.id);
+            setSections(data.sections);
+            setUnassigned(data.unassigned || 0);
+            setRoster((await getRoster(course.id)).students);
+        } catch (e: any) {
+            setError(e?.message || 'Failed to load sections');
+        }
+    }, [course.id]);
+
+    useEffect(() => { load(); }, [load]);
+
+    const run = async (key: string, action: () => Promise<void>, changesCourse = false) => {
+        setBusy(key);
+        setError(null);
+        try {
+            await action();
+            await load();
+            if (changesCourse) onChanged?.();
+        } catch (e: any) {
+            setError(e?.message || 'Something went wrong');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const add = () => run('create', async () => {
+        await createSection(course.id, newName.trim());
+        setNewName('');
+    }, true);
+
+    const rename = (section: CourseSection) => {
+        const name = window.prompt('Section name', section.name)?.trim();
+        if (!name || name === section.name) return;
+        run(section.id, () => renameSection(course.id, section.id, name), true);
+    };
+
+    const remove = (section: CourseSection) => {
+        if (!window.confirm(`Delete ${section.name}? Its ${section.students} student(s) stay enrolled but become unassigned, and its join codes are revoked.`)) return;
+        run(section.id, async () => { await deleteSection(course.id, section.id); }, true);
+    };
+
+    const addTa = (section: CourseSection) => run(`ta:${section.id}`, async () => {
+        await addSectionTa(course.id, section.id, (taEmails[section.id] || '').trim());
+        setTaEmails(prev => ({ ...prev, [section.id]: '' }));
+    });
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <input
+                    type="text"
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && newName.trim()) add(); }}
+                    placeholder="New section, e.g. 'Monday evening'"
+                    className="flex-1 min-w-[12rem] p-2 bg-background border border-border rounded-md text-sm"
+                />
+                <Button size="sm" onClick={add} disabled={busy === 'create' || !newName.trim()}>Add Section</Button>
+            </div>
+
+            {sections.length ? sections.map(section => (
+                <div key={section.id} className="p-3 bg-background border border-border rounded-md space-y-2 text-sm">
+                    <div className="flex flex-wrap items-center justify-between gap-2">
+                        <p className="font-medium">{section.name} <span className="text-muted-foreground font-normal">• {section.students} student{section.students === 1 ? '' : 's'}</span></p>
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="secondary" onClick={() => rename(section)} disabled={busy === section.id}>Rename</Button>
+                            <Button size="sm" variant="danger" onClick={() => remove(section)} disabled={busy === section.id}>Delete</Button>
+                        </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-muted-foreground">TAs:</span>
+                        {section.tas.length ? section.tas.map(ta => (
+                            <span key={ta.id} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-md border border-border text-xs" title={ta.email}>
+                                {ta.name}
+                                <button onClick={() => run(`ta:${section.id}`, () => removeSectionTa(course.id, section.id, ta.id))} className="text-red-500" aria-label={`Remove ${ta.name}`}>×</button>
+                            </span>
+                        )) : <span className="text-xs text-muted-foreground italic">none</span>}
+                        <input
+                            type="email"
+                            value={taEmails[section.id] || ''}
+                            onChange={(e) => setTaEmails(prev => ({ ...prev, [section.id]: e.target.value }))}
+                            placeholder="Teacher email"
+                            className="w-48 p-1.5 bg-card border border-border rounded-md text-xs"
+                        />
+                        <Button size="sm" variant="secondary" onClick={() => addTa(section)} disabled={busy === `ta:${section.id}` || !(taEmails[section.id] || '').trim()}>
+                            Assign TA
+                        </Button>
+                    </div>
+                </div>
+            )) : (
+                <p className="text-sm text-muted-foreground italic">No sections. Everyone takes this course as one group.</p>
+            )}
+
+            {sections.length > 0 && (
+                <div>
+                    <button type="button" onClick={() => setShowRoster(v => !v)} className="text-sm hover:underline">
+                        {showRoster ? 'Hide roster' : `Show roster (${roster.length} enrolled, ${unassigned} unassigned)`}
+                    </button>
+                    {showRoster && (
+                        <table className="w-full text-sm mt-2">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="py-1">Student</th>
+                                    <th className="py-1">Email</th>
+                                    <th className="py-1">Section</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {roster.map(s => (
+                                    <tr key={s.userId} className="border-t border-border">
+                                        <td className="py-1">{s.name}</td>
+                                        <td className="py-1 text-muted-foreground">{s.email}</td>
+                                        <td className="py-1">
+                                            <select
+                                                value={s.sectionId || ''}
+                                                onChange={(e) => run(`move:${s.userId}`, () => moveStudent(course.id, s.userId, e.target.value || null))}
+                                                disabled={busy === `move:${s.userId}`}
+                                                className="p-1 bg-background border border-border rounded-md text-xs"
+                                            >
+                                                <option value="">Unassigned</option>
+                                                {sections.map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+                                            </select>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default CourseSections;
@@ -0,0 +1,88 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import Button from '../common/Button';
+import type { Course, EnrollmentRequest } from '../../types';
+import { listEnrollmentRequests, decideEnrollmentRequest } from '../../services/enrollmentsService';
+
+interface EnrollmentRequestsProps {
+    // The teacher's courses, for picking a section when a request does not name one
+    courses: Course[];
+}
+
+// Students waiting to join the teacher's approval-only courses.
+const EnrollmentRequests: React.FC<EnrollmentRequestsProps> = ({ courses }) => {
+    const [requests, setRequests] = useState<EnrollmentRequest[]>([]);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    // Request id -> section picked by the teacher
+    const [pickedSections, setPickedSections] = useState<Record<string, string>>({});
+
+    const load = useCallback(async () => {
+        try {
+            setRequests((await listEnrollmentRequests()).requests);
+            setError(null);
+        } catch (e: any) {
+            setError(e?.message || 'Failed to load enrollment requests');
+        }
+    }, []);
+
+    useEffect(() => { load(); }, [load]);
+
+    const decide = async (request: EnrollmentRequest, approve: boolean) => {
+        setBusy(request.id);
+        setError(null);
+        try {
+            await decideEnrollmentRequest(request.id, approve, pickedSections[request.id] || undefined);
+            setRequests(prev => prev.filter(r => r.id !== request.id));
+        } catch (e: any) {
+            setError(e?.message || 'Failed to update enrollment request');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const sectionsOf = (request: EnrollmentRequest) => courses.find(c => c.id === request.courseId)?.sections || [];
+
+    return (
+        <div className="bg-card border border-border rounded-lg p-4 mb-6">
+            <div className="flex items-center justify-between mb-2">
+                <h3 className="text-lg font-semibold">Enrollment requests{requests.length ? ` (${requests.length})` : ''}</h3>
+                <Button size="sm" variant="secondary" onClick={load}>Refresh</Button>
+            </div>
+            {error && <p className="text-sm text-red-500 mb-2">{error}</p>}
+            {requests.length ? (
+                <div className="divide-y divide-border">
+                    {requests.map(r => (
+                        <div key={r.id} className="flex flex-wrap items-center justify-between gap-2 py-2 text-sm">
+                            <div>
+                                <p className="font-medium">{r.name} <span className="text-muted-foreground font-normal">{r.email}</span></p>
+                                <p className="text-xs text-muted-foreground">
+                                    {r.courseTitle}{r.sectionName ? ` (${r.sectionName})` : ''} • requested {new Date(r.createdAt).toLocaleDateString()}
+                                </p>
+                                {r.message && <p className="text-xs mt-1 italic">"{r.message}"</p>}
+                            </div>
+                            <div className="flex gap-2">
+                                {!r.sectionId && !!sectionsOf(r).length && (
+                                    <select
+                                        value={pickedSections[r.id] || ''}
+                                        onChange={(e) => setPickedSections(prev => ({ ...prev, [r.id]: e.target.value }))}
+                                        className="p-1.5 bg-background border border-border rounded-md text-sm"
+                                        aria-label="Section"
+                                    >
+                                        <option value="">Choose section…</option>
+                                        {sectionsOf(r).map(sec => <option key={sec.id} value={sec.id}>{sec.name}</option>)}
+                                    </select>
+                                )}
+                                <Button size="sm" onClick={() => decide(r, true)} disabled={busy === r.id || (!r.sectionId && !!sectionsOf(r).length && !pickedSections[r.id])}>Approve</Button>
+                                <Button size="sm" variant="danger" onClick={() => decide(r, false)} disabled={busy === r.id}>Deny</Button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : (
+                <p className="text-sm text-muted-foreground italic">No students are waiting for approval.</p>
+            )}
+        </div>
+    );
+};
+
+export default EnrollmentRequests;
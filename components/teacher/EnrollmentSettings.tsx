@@ -0,0 +1,152 @@
+import React, { useEffect, useState } from 'react';
+import Button from '../common/Button';
+import type { Course, EnrollmentCode, EnrollmentPolicy } from '../../types';
+import { setEnrollmentPolicy, listEnrollmentCodes, createEnrollmentCode, revokeEnrollmentCode } from '../../services/enrollmentsService';
+
+interface EnrollmentSettingsProps {
+    course: Course;
+    // Called after the policy changes so the course list can be refreshed
+    onPolicyChanged?: () => void;
+}
+
+const POLICIES: Array<{ value: EnrollmentPolicy; label: string; hint: string }> = [
+    { value: 'open', label: 'Open', hint: 'Any student can enroll from the catalog.' },
+    { value: 'code', label: 'Join code', hint: 'Students enter a code you share with them.' },
+    { value: 'invite', label: 'Invite link', hint: 'Only students with a link can join. The course is hidden from the catalog.' },
+    { value: 'approval', label: 'Request and approve', hint: 'Students ask to join and you approve each request.' },
+];
+
+// Shown in groups of four so codes are easy to read out
+const formatCode = (code: EnrollmentCode) => code.kind === 'code' ? code.code.replace(/(.{4})(?=.)/g, '$1-') : code.url || code.code;
+
+// Per-course enrollment policy, plus the join codes or invite links that policy uses.
+const EnrollmentSettings: React.FC<EnrollmentSettingsProps> = ({ course, onPolicyChanged }) => {
+    const [policy, setPolicy] = useState<EnrollmentPolicy>(course.enrollmentPolicy || 'open');
+    const [codes, setCodes] = useState<EnrollmentCode[]>([]);
+    const [busy, setBusy] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+    const sections = course.sections || [];
+    // Section new codes place students in; required once the course has sections
+    const [codeSection, setCodeSection] = useState(sections[0]?.id || '');
+    const kind: EnrollmentCode['kind'] | null = policy === 'code' ? 'code' : policy === 'invite' ? 'link' : null;
+
+    useEffect(() => {
+        if (!sections.some(s => s.id === codeSection)) setCodeSection(sections[0]?.id || '');
+    }, [course.sections]);
+
+    useEffect(() => {
+        listEnrollmentCodes(course.id)
+            .then(r => setCodes(r.codes))
+            .catch((e: any) => setError(e?.message || 'Failed to load join codes'));
+    }, [course.id]);
+
+    const run = async (key: string, action: () => Promise<void>) => {
+        setBusy(key);
+        setError(null);
+        try {
+            await action();
+        } catch (e: any) {
+            setError(e?.message || 'Something went wrong');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const changePolicy = (next: EnrollmentPolicy) => run('policy', async () => {
+        await setEnrollmentPolicy(course.id, next);
+        setPolicy(next);
+        onPolicyChanged?.();
+    });
+
+    const generate = () => kind && run('create', async () => {
+        const { code } = await createEnrollmentCode(course.id, kind, codeSection || undefined);
+        setCodes(prev => [code, ...prev]);
+    });
+
+    const revoke = (code: EnrollmentCode) => {
+        if (!window.confirm(`Revoke this ${code.kind === 'code' ? 'join code' : 'invite link'}? Students who already joined stay enrolled.`)) return;
+        run(code.id, async () => {
+            const { code: updated } = await revokeEnrollmentCode(course.id, code.id);
+            setCodes(prev => prev.map(c => c.id === updated.id ? updated : c));
+        });
+    };
+
+    const copy = async (code: EnrollmentCode) => {
+        try {
+            await navigator.clipboard.writeText(formatCode(code));
+            setCopied(code.id);
+            setTimeout(() => setCopied(c => c === code.id ? null : c), 1500);
+        } catch {
+            setError('Copy failed. Select the code and copy it manually.');
+        }
+    };
+
+    const shown = kind ? codes.filter(c => c.kind === kind) : [];
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <label htmlFor={`policy-${course.id}`} className="font-medium">Enrollment</label>
+                <select
+                    id={`policy-${course.id}`}
+                    value={policy}
+                    onChange={(e) => changePolicy(e.target.value as EnrollmentPolicy)}
+                    disabled={busy === 'policy'}
+                    className="p-2 bg-background border border-border rounded-md"
+                >
+                    {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                </select>
+                <span className="text-xs text-muted-foreground">{POLICIES.find(p => p.value === policy)?.hint}</span>
+            </div>
+
+            {kind && (
+                <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm font-medium">{kind === 'code' ? 'Join codes' : 'Invite links'}</p>
+                        <div className="flex items-center gap-2">
+                            {sections.length > 0 && (
+                                <select
+                                    value={codeSection}
+                                    onChange={(e) => setCodeSection(e.target.value)}
+                                    className="p-1.5 bg-background border border-border rounded-md text-sm"
+                                    aria-label="Section for new codes"
+                                >
+                                    {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+                                </select>
+                            )}
+                            <Button size="sm" variant="secondary" onClick={generate} disabled={busy === 'create'}>
+                                {kind === 'code' ? 'New join code' : 'New invite link'}
+                            </Button>
+                        </div>
+                    </div>
+                    {shown.length ? shown.map(c => (
+                        <div key={c.id} className="flex flex-wrap items-center justify-between gap-2 p-2 bg-background border border-border rounded-md text-sm">
+                            <div className="min-w-0">
+                                <p className={`font-mono truncate ${c.revokedAt ? 'line-through text-muted-foreground' : ''}`}>{formatCode(c)}</p>
+                                <p className="text-xs text-muted-foreground">
+                                    {c.sectionId ? `${sections.find(s => s.id === c.sectionId)?.name || 'Deleted section'} • ` : ''}
+                                    {c.uses} joined • created {new Date(c.createdAt).toLocaleDateString()}
+                                    {c.revokedAt ? ` • revoked ${new Date(c.revokedAt).toLocaleDateString()}` : ''}
+                                </p>
+                            </div>
+                            {!c.revokedAt && (
+                                <div className="flex gap-2">
+                                    <Button size="sm" variant="secondary" onClick={() => copy(c)}>{copied === c.id ? 'Copied' : 'Copy'}</Button>
+                                    <Button size="sm" variant="danger" onClick={() => revoke(c)} disabled={busy === c.id}>Revoke</Button>
+                                </div>
+                            )}
+                        </div>
+                    )) : (
+                        <p className="text-xs text-muted-foreground italic">
+                            {kind === 'code' ? 'No join codes yet. Generate one to share with your class.' : 'No invite links yet. Generate one to share with your class.'}
+                        </p>
+                    )}
+                </div>
+            )}
+            {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+    );
+};
+
+export default EnrollmentSettings;
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import type { Course, Gradebook as GradebookData, GradePolicy } from '../../types';
+import Button from '../common/Button';
+import { getGradebook } from '../../services/analyticsService';
+import { gradebookToRows, toCsv, toXlsx, downloadBlob } from '../../services/gradebookExport';
+import SectionFilter from './SectionFilter';
+
+interface GradebookProps {
+    // Courses owned by the teacher, and those with sections they assist with
+    courses: Course[];
+}
+
+const POLICIES: Array<{ value: GradePolicy; label: string }> = [
+    { value: 'best', label: 'Best attempt' },
+    { value: 'latest', label: 'Latest attempt' },
+    { value: 'average', label: 'Average of attempts' },
+];
+
+// Students x module quizzes grid with CSV/XLSX export for the registrar.
+const Gradebook: React.FC<GradebookProps> = ({ courses }) => {
+    const [courseId, setCourseId] = useState(courses[0]?.id || '');
+    const [policy, setPolicy] = useState<GradePolicy>('best');
+    const [sectionId, setSectionId] = useState('');
+    const [data, setData] = useState<GradebookData | null>(null);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!courseId && courses.length) setCourseId(courses[0].id);
+    }, [courses, courseId]);
+
+    useEffect(() => {
+        if (!courseId) return;
+        let cancelled = false;
+        setLoading(true);
+        setError(null);
+        getGradebook(courseId, policy, sectionId || undefined)
+            .then(g => { if (!cancelled) setData(g); })
+            .catch((e: any) => { if (!cancelled) { setData(null); setError(e?.message || 'Failed to load gradebook'); } })
+            .finally(() => { if (!cancelled) setLoading(false); });
+        return () => { cancelled = true; };
+    }, [courseId, policy, sectionId]);
+
+    const sectionName = (id?: string) => data?.sections?.find(s => s.id === id)?.name;
+    const fileBase = () => `${[data?.courseTitle || 'gradebook', sectionName(sectionId)].filter(Boolean).join('_').replace(/[^\w-]+/g, '_')}_grades_${policy}`;
+
+    const exportCsv = () => {
+        if (!data) return;
+        // BOM so Excel picks up UTF-8 names
+        downloadBlob(new Blob(['\uFEFF' + toCsv(gradebookToRows(data))], { type: 'text/csv;charset=utf-8' }), `${fileBase()}.csv`);
+    };
+
+    const exportXlsx = () => {
+        if (!data) return;
+        downloadBlob(toXlsx(gradebookToRows(data), data.courseTitle), `${fileBase()}.xlsx`);
+    };
+
+    if (!courses.length) {
+        return <p className="text-sm text-muted-foreground">Create a course to see its gradebook.</p>;
+    }
+
+    return (
+        <div className="space-y-4">
+            <h2 className="text-3xl font-bold">Gradebook</h2>
+            <div className="flex flex-wrap items-center gap-3">
+                <select value={courseId} onChange={(e) => { setCourseId(e.target.value); setSectionId(''); }} className="p-2 bg-background border border-border rounded-md text-sm">
+                    {courses.map(c => <option key={c.id} value={c.id}>{c.title}</option>)}
+                </select>
+                <SectionFilter course={courses.find(c => c.id === courseId)} value={sectionId} onChange={setSectionId} />
+                <select value={policy} onChange={(e) => setPolicy(e.target.value as GradePolicy)} className="p-2 bg-background border border-border rounded-md text-sm">
+                    {POLICIES.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+                </select>
+                <div className="flex gap-2 ml-auto">
+                    <Button size="sm" variant="secondary" onClick={exportCsv} disabled={!data?.rows.length}>Export CSV</Button>
+                    <Button size="sm" variant="secondary" onClick={exportXlsx} disabled={!data?.rows.length}>Export XLSX</Button>
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {loading && <p className="text-sm text-muted-foreground">Loading gradebook…</p>}
+
+            {data && !loading && (
+                data.rows.length === 0 ? (
+                    <p className="text-sm text-muted-foreground italic">{sectionId ? 'No students are in this section yet.' : 'No students are enrolled in this course yet.'}</p>
+                ) : (
+                    <div className="overflow-x-auto bg-card border border-border rounded-lg">
+                        <table className="min-w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="p-2 sticky left-0 bg-card">Student</th>
+                                    {data.modules.map(m => <th key={m.id} className="p-2 whitespace-nowrap">{m.title}</th>)}
+                                    <th className="p-2">Course grade</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {data.rows.map(r => (
+                                    <tr key={r.userId} className="border-t border-border">
+                                        <td className="p-2 sticky left-0 bg-card">
+                                            <p className="font-medium">{r.name}</p>
+                                            <p className="text-xs text-muted-foreground">{r.email}{!sectionId && sectionName(r.sectionId) ? ` • ${sectionName(r.sectionId)}` : ''}</p>
+                                        </td>
+                                        {data.modules.map(m => {
+                                            const g = r.grades[m.id];
+                                            return (
+                                                <td key={m.id} className="p-2">
+                                                    {g ? (
+                                                        <span title={`${g.attempts} attempt${g.attempts === 1 ? '' : 's'}`}>{g.percent}%</span>
+                                                    ) : <span className="text-muted-foreground">—</span>}
+                                                </td>
+                                            );
+                                        })}
+                                        <td className="p-2 font-semibold">{r.overall}%</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                )
+            )}
+            <p className="text-xs text-muted-foreground">Grades are percentages. Modules without an attempt count as 0 in the course grade.</p>
+        </div>
+    );
+};
+
+export default Gradebook;
@@ -0,0 +1,317 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { BankQuestion, BankOrigin, BankShortfall, QuizDifficulty, QuizQuestion } from '../../types';
+import Button from '../common/Button';
+import { DeleteIcon, SparklesIcon } from '../Icons';
+import {
+    getQuestionBank, addBankQuestions, generateBankQuestions, importLectureQuestions,
+    updateBankQuestion, deleteBankQuestion, assembleQuizFromBank,
+} from '../../services/quizService';
+import { QUESTION_TYPE_LABELS, questionType } from '../../services/quizGrading';
+import QuestionFields, { emptyQuestion } from './QuestionFields';
+import { exportQtiPackage, importQti } from '../../services/qti';
+import { downloadBlob } from '../../services/gradebookExport';
+
+interface QuestionBankProps {
+    courseId: string;
+    moduleId: string;
+    topics: string[];
+    // Module title, used to name exports
+    title?: string;
+    // Called after the quiz draft was replaced by an assembled quiz
+    onAssembled?: () => void;
+}
+
+type BusyAction = 'load' | 'generate' | 'import' | 'qti' | 'add' | 'save' | 'assemble' | null;
+
+const ORIGIN_LABELS: Record<BankOrigin, string> = { ai: 'AI', manual: 'Manual', lecture: 'Lecture' };
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Module question bank: collect tagged questions from AI, lectures, QTI files and manual entry, then
+// assemble the module quiz draft from sampling rules.
+const QuestionBank: React.FC<QuestionBankProps> = ({ courseId, moduleId, topics, title = 'Question bank', onAssembled }) => {
+    const [questions, setQuestions] = useState<BankQuestion[]>([]);
+    const [busy, setBusy] = useState<BusyAction>('load');
+    const [error, setError] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [filter, setFilter] = useState<{ topic: string; difficulty: string; origin: string }>({ topic: '', difficulty: '', origin: '' });
+    const [editing, setEditing] = useState<{ id: string | null; question: QuizQuestion } | null>(null);
+    const [rules, setRules] = useState<{ perTopic: number; difficulty: QuizDifficulty | 'mixed'; topics: string[] }>({ perTopic: 2, difficulty: 'mixed', topics });
+    const [shortfalls, setShortfalls] = useState<BankShortfall[]>([]);
+    const [unsupported, setUnsupported] = useState<Array<{ item: string; reason: string }>>([]);
+
+    useEffect(() => {
+        (async () => {
+            try {
+                setQuestions(await getQuestionBank(courseId, moduleId));
+            } catch (e: any) {
+                setError(e?.message || 'Failed to load question bank');
+            } finally {
+                setBusy(null);
+            }
+        })();
+    }, [courseId, moduleId]);
+
+    const run = async (action: BusyAction, fn: () => Promise<void>) => {
+        setBusy(action);
+        setError(null);
+        setMessage(null);
+        try {
+            await fn();
+        } catch (e: any) {
+            setError(e?.message || 'Request failed');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const visible = useMemo(() => questions.filter(q =>
+        (!filter.topic || (filter.topic === '-' ? !q.topic : q.topic === filter.topic))
+        && (!filter.difficulty || (filter.difficulty === '-' ? !q.difficulty : q.difficulty === filter.difficulty))
+        && (!filter.origin || q.origin === filter.origin)
+    ), [questions, filter]);
+
+    // Questions per topic and difficulty, so teachers can see whether a rule can be met
+    const coverage = useMemo(() => topics.map(topic => {
+        const inTopic = questions.filter(q => q.topic === topic);
+        return { topic, total: inTopic.length, byDifficulty: DIFFICULTIES.map(d => inTopic.filter(q => q.difficulty === d).length) };
+    }), [questions, topics]);
+
+    const handleGenerate = () => run('generate', async () => {
+        const { added, questions: next } = await generateBankQuestions(courseId, moduleId);
+        setQuestions(next);
+        setMessage(`Added ${added} AI-generated question${added === 1 ? '' : 's'}.`);
+    });
+
+    const handleImport = () => run('import', async () => {
+        const { added, skipped, questions: next } = await importLectureQuestions(courseId, moduleId);
+        setQuestions(next);
+        setMessage(`Imported ${added} lecture question${added === 1 ? '' : 's'}${skipped ? ` • ${skipped} skipped as incomplete` : ''}.`);
+    });
+
+    const handleQtiImport = (file: File) => run('qti', async () => {
+        setUnsupported([]);
+        const result = await importQti(file);
+        setUnsupported(result.unsupported);
+        if (result.questions.length) setQuestions((await addBankQuestions(courseId, moduleId, result.questions)).questions);
+        const n = result.questions.length;
+        setMessage(`Imported ${n} QTI item${n === 1 ? '' : 's'}${result.unsupported.length ? ` • ${result.unsupported.length} unsupported` : ''}.`);
+    });
+
+    const handleQtiExport = () => {
+        downloadBlob(exportQtiPackage(visible, title), `${title.replace(/[^\w-]+/g, '_')}_bank_qti.zip`);
+    };
+
+    const handleSave = () => {
+        if (!editing) return;
+        run(editing.id ? 'save' : 'add', async () => {
+            if (editing.id) {
+                const saved = await updateBankQuestion(courseId, moduleId, editing.id, editing.question);
+                setQuestions(prev => prev.map(q => q.id === saved.id ? saved : q));
+            } else {
+                setQuestions((await addBankQuestions(courseId, moduleId, [editing.question])).questions);
+            }
+            setEditing(null);
+        });
+    };
+
+    const handleDelete = (id: string) => {
+        if (!window.confirm('Delete this question from the bank?')) return;
+        run(null, async () => {
+            await deleteBankQuestion(courseId, moduleId, id);
+            setQuestions(prev => prev.filter(q => q.id !== id));
+        });
+    };
+
+    const handleAssemble = () => {
+        if (!window.confirm('Replace the module quiz draft with questions sampled from the bank?')) return;
+        run('assemble', async () => {
+            const { quiz, shortfalls: missing } = await assembleQuizFromBank(courseId, moduleId, rules);
+            setShortfalls(missing);
+            setMessage(`Draft assembled with ${quiz.draft.length} question${quiz.draft.length === 1 ? '' : 's'}. Review it in the module quiz editor before publishing.`);
+            onAssembled?.();
+        });
+    };
+
+    const toggleRuleTopic = (topic: string) => setRules(r => ({
+        ...r,
+        topics: r.topics.includes(topic) ? r.topics.filter(t => t !== topic) : [...r.topics, topic],
+    }));
+
+    if (busy === 'load') {
+        return <p className="text-sm text-muted-foreground">Loading question bank…</p>;
+    }
+
+    const renderEditor = () => editing && (
+        <div className="p-3 border border-primary/40 rounded-md bg-background space-y-2">
+            <textarea
+                value={editing.question.question}
+                onChange={(e) => setEditing({ ...editing, question: { ...editing.question, question: e.target.value } })}
+                rows={2}
+                placeholder="Question"
+                className="w-full p-2 bg-background border border-border rounded-md text-sm"
+            />
+            <QuestionFields
+                question={editing.question}
+                onChange={(next) => setEditing({ ...editing, question: next })}
+                name={`bank-${moduleId}-${editing.id || 'new'}`}
+                topics={topics}
+            />
+            <div className="flex gap-2">
+                <Button size="sm" onClick={handleSave} disabled={!!busy}>
+                    {busy === 'save' || busy === 'add' ? 'Saving...' : editing.id ? 'Save Question' : 'Add to Bank'}
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => setEditing(null)} disabled={!!busy}>Cancel</Button>
+            </div>
+        </div>
+    );
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">{questions.length} question{questions.length === 1 ? '' : 's'} in the bank</p>
+                <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={handleGenerate} disabled={!!busy}>
+                        <SparklesIcon className="w-4 h-4 mr-1 inline" />
+                        {busy === 'generate' ? 'Generating...' : 'Generate with AI'}
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={handleImport} disabled={!!busy}>
+                        {busy === 'import' ? 'Importing...' : 'Import Lecture Quizzes'}
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={() => setEditing({ id: null, question: emptyQuestion() })} disabled={!!busy || !!editing}>
+                        New Question
+                    </Button>
+                </div>
+            </div>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+                <label className="text-muted-foreground">
+                    Import QTI 2.1 (.zip or .xml):
+                    <input
+                        type="file"
+                        accept=".zip,.xml,application/zip,application/xml,text/xml"
+                        onChange={(e) => { const f = e.target.files?.[0]; if (f) handleQtiImport(f); e.target.value = ''; }}
+                        disabled={!!busy}
+                        className="ml-2 text-sm"
+                    />
+                </label>
+                <Button size="sm" variant="secondary" onClick={handleQtiExport} disabled={!!busy || !visible.length}>
+                    Export QTI ({visible.length})
+                </Button>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+            {message && <p className="text-sm text-muted-foreground">{message}</p>}
+            {unsupported.length > 0 && (
+                <ul className="text-xs text-amber-500 list-disc pl-5">
+                    {unsupported.map((u, i) => <li key={i}>{u.item}: {u.reason}</li>)}
+                </ul>
+            )}
+
+            {editing && !editing.id && renderEditor()}
+
+            {topics.length > 0 && (
+                <div className="p-3 border border-border rounded-md space-y-3">
+                    <p className="text-sm font-medium">Assemble quiz</p>
+                    <div className="overflow-x-auto">
+                        <table className="text-xs">
+                            <thead>
+                                <tr className="text-left text-muted-foreground">
+                                    <th className="pr-4"></th>
+                                    <th className="pr-4">Topic</th>
+                                    {DIFFICULTIES.map(d => <th key={d} className="pr-4 capitalize">{d}</th>)}
+                                    <th>Total</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {coverage.map(c => (
+                                    <tr key={c.topic}>
+                                        <td className="pr-4">
+                                            <input type="checkbox" checked={rules.topics.includes(c.topic)} onChange={() => toggleRuleTopic(c.topic)} aria-label={`Include ${c.topic}`} />
+                                        </td>
+                                        <td className="pr-4">{c.topic}</td>
+                                        {c.byDifficulty.map((n, i) => <td key={i} className="pr-4">{n}</td>)}
+                                        <td className={c.total < rules.perTopic ? 'text-amber-500 font-medium' : ''}>{c.total}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                        <input
+                            type="number"
+                            min={1}
+                            max={10}
+                            value={rules.perTopic}
+                            onChange={(e) => setRules(r => ({ ...r, perTopic: Math.max(1, Math.min(10, Number(e.target.value) || 1)) }))}
+                            className="w-16 p-1.5 bg-background border border-border rounded-md"
+                        />
+                        per topic,
+                        <select
+                            value={rules.difficulty}
+                            onChange={(e) => setRules(r => ({ ...r, difficulty: e.target.value as QuizDifficulty | 'mixed' }))}
+                            className="p-1.5 bg-background border border-border rounded-md"
+                        >
+                            <option value="mixed">mixed difficulty</option>
+                            {DIFFICULTIES.map(d => <option key={d} value={d}>{d} only</option>)}
+                        </select>
+                        <Button size="sm" onClick={handleAssemble} disabled={!!busy || !rules.topics.length || !questions.length}>
+                            {busy === 'assemble' ? 'Assembling...' : 'Assemble Draft'}
+                        </Button>
+                    </div>
+                    {shortfalls.length > 0 && (
+                        <p className="text-xs text-amber-500">
+                            Not enough questions for: {shortfalls.map(s => `${s.topic} (${s.found}/${s.wanted})`).join(', ')}
+                        </p>
+                    )}
+                </div>
+            )}
+
+            <div className="flex flex-wrap gap-2 text-sm">
+                <select value={filter.topic} onChange={(e) => setFilter(f => ({ ...f, topic: e.target.value }))} className="p-1.5 bg-background border border-border rounded-md">
+                    <option value="">All topics</option>
+                    {topics.map(t => <option key={t} value={t}>{t}</option>)}
+                    <option value="-">Untagged</option>
+                </select>
+                <select value={filter.difficulty} onChange={(e) => setFilter(f => ({ ...f, difficulty: e.target.value }))} className="p-1.5 bg-background border border-border rounded-md">
+                    <option value="">All difficulties</option>
+                    {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                    <option value="-">Untagged</option>
+                </select>
+                <select value={filter.origin} onChange={(e) => setFilter(f => ({ ...f, origin: e.target.value }))} className="p-1.5 bg-background border border-border rounded-md">
+                    <option value="">All sources</option>
+                    {(Object.keys(ORIGIN_LABELS) as BankOrigin[]).map(o => <option key={o} value={o}>{ORIGIN_LABELS[o]}</option>)}
+                </select>
+            </div>
+
+            {visible.length === 0 && (
+                <p className="text-sm text-muted-foreground italic">
+                    {questions.length ? 'No questions match these filters.' : 'The bank is empty. Generate questions, import lecture quizzes or add your own.'}
+                </p>
+            )}
+
+            <div className="space-y-2">
+                {visible.map(q => editing?.id === q.id ? (
+                    <React.Fragment key={q.id}>{renderEditor()}</React.Fragment>
+                ) : (
+                    <div key={q.id} className="p-3 border border-border rounded-md bg-background flex items-start justify-between gap-3">
+                        <div className="min-w-0">
+                            <p className="text-sm">{q.question}</p>
+                            <p className="text-xs text-muted-foreground mt-1">
+                                {QUESTION_TYPE_LABELS[questionType(q)]} • {q.topic || 'No topic'} • {q.difficulty || 'Any difficulty'} • {ORIGIN_LABELS[q.origin]}
+                            </p>
+                        </div>
+                        <div className="flex items-center gap-2 shrink-0">
+                            <button onClick={() => setEditing({ id: q.id, question: { ...q, options: [...q.options] } })} className="text-xs text-muted-foreground hover:underline" disabled={!!busy || !!editing}>
+                                Edit
+                            </button>
+                            <button onClick={() => handleDelete(q.id)} className="text-red-500" disabled={!!busy} aria-label="Delete question">
+                                <DeleteIcon className="w-4 h-4" />
+                            </button>
+                        </div>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default QuestionBank;
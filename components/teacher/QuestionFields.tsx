@@ -0,0 +1,226 @@
+import React from 'react';
+import type { QuizQuestion, QuizQuestionType, QuizDifficulty } from '../../types';
+import { DeleteIcon } from '../Icons';
+import { QUESTION_TYPE_LABELS, questionType, usesOptions } from '../../services/quizGrading';
+
+interface QuestionFieldsProps {
+    question: QuizQuestion;
+    onChange: (next: QuizQuestion) => void;
+    // Unique per question on the page, used to group the "correct" radios
+    name: string;
+    // Module topics; when given, the question can be tagged with a topic and difficulty
+    topics?: string[];
+}
+
+export const emptyQuestion = (): QuizQuestion => ({ type: 'mcq', question: '', options: ['', '', '', ''], correctAnswer: '' });
+
+const DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+// Reshape a question when the teacher switches its type, keeping the text, explanation, tags and any usable options
+export const convertQuestion = (q: QuizQuestion, type: QuizQuestionType): QuizQuestion => {
+    const base = { type, question: q.question, explanation: q.explanation, source: q.source, topic: q.topic, difficulty: q.difficulty };
+    switch (type) {
+        case 'true_false':
+            return { ...base, options: ['True', 'False'], correctAnswer: q.correctAnswer === 'False' ? 'False' : 'True' };
+        case 'multi_select':
+            return { ...base, options: q.options.length ? q.options : ['', '', '', ''], correctAnswers: [], correctAnswer: '' };
+        case 'numeric':
+            return { ...base, options: [], correctAnswer: '', tolerance: 0 };
+        case 'short_text':
+            return { ...base, options: [], correctAnswer: '', acceptedAnswers: [] };
+        case 'code_output':
+            return { ...base, options: [], correctAnswer: '', code: q.code || '', acceptedAnswers: [] };
+        default:
+            return { ...base, options: q.options.length ? q.options : ['', '', '', ''], correctAnswer: '' };
+    }
+};
+
+// Answer-key editor for one question of any type (everything except the question text).
+const QuestionFields: React.FC<QuestionFieldsProps> = ({ question: q, onChange, name, topics }) => {
+    const type = questionType(q);
+    const update = (patch: Partial<QuizQuestion>) => onChange({ ...q, ...patch });
+
+    const updateOption = (oIndex: number, value: string) => {
+        const previous = q.options[oIndex];
+        const options = q.options.map((o, i) => i === oIndex ? value : o);
+        // Keep the correct answer(s) pointing at the same option while its text is edited
+        update({
+            options,
+            correctAnswer: q.correctAnswer === previous ? value : q.correctAnswer,
+            ...(q.correctAnswers ? { correctAnswers: q.correctAnswers.map(a => a === previous ? value : a) } : {}),
+        });
+    };
+
+    const removeOption = (oIndex: number) => {
+        const removed = q.options[oIndex];
+        update({
+            options: q.options.filter((_, i) => i !== oIndex),
+            correctAnswer: q.correctAnswer === removed ? '' : q.correctAnswer,
+            ...(q.correctAnswers ? { correctAnswers: q.correctAnswers.filter(a => a !== removed) } : {}),
+        });
+    };
+
+    const toggleCorrect = (option: string) => {
+        if (type !== 'multi_select') {
+            update({ correctAnswer: option });
+            return;
+        }
+        const current = q.correctAnswers || [];
+        const correctAnswers = current.includes(option) ? current.filter(a => a !== option) : [...current, option];
+        update({ correctAnswers, correctAnswer: correctAnswers.join(', ') });
+    };
+
+    const renderOptions = () => {
+        const multi = type === 'multi_select';
+        const fixed = type === 'true_false';
+        return (
+            <div className="space-y-1">
+                {q.options.map((opt, oi) => (
+                    <div key={oi} className="flex items-center gap-2">
+                        <input
+                            type={multi ? 'checkbox' : 'radio'}
+                            name={name}
+                            checked={!!opt && (multi ? (q.correctAnswers || []).includes(opt) : q.correctAnswer === opt)}
+                            onChange={() => toggleCorrect(opt)}
+                            title="Mark as correct answer"
+                        />
+                        <input
+                            type="text"
+                            value={opt}
+                            onChange={(e) => updateOption(oi, e.target.value)}
+                            placeholder={`Option ${oi + 1}`}
+                            disabled={fixed}
+                            className="flex-1 p-1.5 bg-background border border-border rounded-md text-sm"
+                        />
+                        {!fixed && (
+                            <button onClick={() => removeOption(oi)} className="text-red-500" disabled={q.options.length <= 2} aria-label="Remove option">
+                                <DeleteIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                    </div>
+                ))}
+                {!fixed && q.options.length < 6 && (
+                    <button onClick={() => update({ options: [...q.options, ''] })} className="text-xs text-muted-foreground hover:underline">
+                        + Add option
+                    </button>
+                )}
+            </div>
+        );
+    };
+
+    const renderTypedAnswer = () => (
+        <div className="space-y-1 text-sm">
+            <label className="flex items-center gap-2">
+                {type === 'code_output' ? 'Expected output' : 'Answer'}
+                {type === 'code_output' ? (
+                    <textarea
+                        value={q.correctAnswer}
+                        onChange={(e) => update({ correctAnswer: e.target.value })}
+                        rows={2}
+                        className="flex-1 p-1.5 bg-background border border-border rounded-md font-mono"
+                    />
+                ) : (
+                    <input
+                        type={type === 'numeric' ? 'number' : 'text'}
+                        step="any"
+                        value={q.correctAnswer}
+                        onChange={(e) => update({ correctAnswer: e.target.value })}
+                        className="flex-1 p-1.5 bg-background border border-border rounded-md"
+                    />
+                )}
+            </label>
+            {type === 'numeric' ? (
+                <label className="flex items-center gap-2">
+                    Tolerance (±)
+                    <input
+                        type="number"
+                        min={0}
+                        step="any"
+                        value={q.tolerance ?? 0}
+                        onChange={(e) => update({ tolerance: Number(e.target.value) })}
+                        className="w-28 p-1.5 bg-background border border-border rounded-md"
+                    />
+                </label>
+            ) : (
+                <label className="flex items-center gap-2">
+                    Also accept
+                    <input
+                        type="text"
+                        value={(q.acceptedAnswers || []).join(';')}
+                        // Kept raw while typing; the server trims and drops empty variants
+                        onChange={(e) => update({ acceptedAnswers: e.target.value.split(';') })}
+                        placeholder="Variants separated by ;"
+                        className="flex-1 p-1.5 bg-background border border-border rounded-md"
+                    />
+                </label>
+            )}
+        </div>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={type}
+                    onChange={(e) => onChange(convertQuestion(q, e.target.value as QuizQuestionType))}
+                    className="p-1.5 bg-background border border-border rounded-md text-sm"
+                >
+                    {(Object.keys(QUESTION_TYPE_LABELS) as QuizQuestionType[]).map(t => (
+                        <option key={t} value={t}>{QUESTION_TYPE_LABELS[t]}</option>
+                    ))}
+                </select>
+                {topics && (
+                    <>
+                        <select
+                            value={q.topic || ''}
+                            onChange={(e) => update({ topic: e.target.value || undefined })}
+                            className="p-1.5 bg-background border border-border rounded-md text-sm"
+                            aria-label="Topic"
+                        >
+                            <option value="">No topic</option>
+                            {topics.map(t => <option key={t} value={t}>{t}</option>)}
+                        </select>
+                        <select
+                            value={q.difficulty || ''}
+                            onChange={(e) => update({ difficulty: (e.target.value || undefined) as QuizDifficulty | undefined })}
+                            className="p-1.5 bg-background border border-border rounded-md text-sm"
+                            aria-label="Difficulty"
+                        >
+                            <option value="">Any difficulty</option>
+                            {DIFFICULTIES.map(d => <option key={d} value={d}>{d}</option>)}
+                        </select>
+                    </>
+                )}
+            </div>
+            {type === 'code_output' && (
+                <div className="space-y-1">
+                    <textarea
+                        value={q.code || ''}
+                        onChange={(e) => update({ code: e.target.value })}
+                        rows={4}
+                        placeholder="Code snippet"
+                        className="w-full p-2 bg-background border border-border rounded-md font-mono text-sm"
+                    />
+                    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+                        <input
+                            type="checkbox"
+                            checked={q.options.length > 0}
+                            onChange={(e) => update({ options: e.target.checked ? ['', '', '', ''] : [], correctAnswer: '' })}
+                        />
+                        Offer answer choices instead of typed output
+                    </label>
+                </div>
+            )}
+            {usesOptions(q) ? renderOptions() : renderTypedAnswer()}
+            <textarea
+                value={q.explanation || ''}
+                onChange={(e) => update({ explanation: e.target.value })}
+                rows={2}
+                placeholder="Explanation shown to students after they submit (optional)"
+                className="w-full p-2 bg-background border border-border rounded-md text-sm"
+            />
+        </div>
+    );
+};
+
+export default QuestionFields;
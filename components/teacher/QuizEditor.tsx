@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import type { QuizQuestion, ItemAnalysis, ItemFlag } from '../../types';
+import Button from '../common/Button';
+import { DeleteIcon, SparklesIcon } from '../Icons';
+import { getModuleQuiz, generateModuleQuizDraft, saveModuleQuizDraft, publishModuleQuiz, unpublishModuleQuiz, getItemAnalysis, ModuleQuizState } from '../../services/quizService';
+import QuestionFields, { emptyQuestion } from './QuestionFields';
+import { exportQtiPackage } from '../../services/qti';
+import { downloadBlob } from '../../services/gradebookExport';
+
+interface QuizEditorProps {
+    courseId: string;
+    moduleId: string;
+    // Module topics offered as question tags
+    topics?: string[];
+    // Module title, used to name exports
+    title?: string;
+}
+
+type BusyAction = 'load' | 'generate' | 'save' | 'publish' | 'unpublish' | null;
+
+const FLAG_LABELS: Record<ItemFlag, string> = {
+    too_hard: 'Very few students answer correctly',
+    too_easy: 'Almost everyone answers correctly',
+    low_discrimination: 'Strong students do no better than weak ones',
+    negative_discrimination: 'Weak students outscore strong ones',
+    distractor_outdraws_key: 'A wrong option is picked more often than the key',
+};
+
+// Item statistics under a question; flagged items get a review warning
+export const ItemStats: React.FC<{ stats: ItemAnalysis }> = ({ stats }) => (
+    <div className={`text-xs rounded-md p-2 border ${stats.flags.length ? 'border-amber-500/60 bg-amber-500/10' : 'border-border'}`}>
+        <p className="text-muted-foreground">
+            {stats.responses} response{stats.responses === 1 ? '' : 's'} • Difficulty (p) {stats.pValue.toFixed(2)}
+            {stats.discrimination !== null ? ` • Discrimination ${stats.discrimination.toFixed(2)}` : ''}
+        </p>
+        {stats.options.length > 0 && (
+            <p className="text-muted-foreground mt-1">
+                Picked: {stats.options.map(o => `${o.option}${o.correct ? ' ✓' : ''} (${o.count})`).join(' • ')}
+            </p>
+        )}
+        {stats.flags.map(f => (
+            <p key={f} className="text-amber-500 font-medium mt-1">Review: {FLAG_LABELS[f]}</p>
+        ))}
+    </div>
+);
+
+// Teacher-side review of a module quiz: generate a draft, edit it, then publish a fixed version for students.
+const QuizEditor: React.FC<QuizEditorProps> = ({ courseId, moduleId, topics, title = 'Module quiz' }) => {
+    const [state, setState] = useState<ModuleQuizState | null>(null);
+    const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+    const [dirty, setDirty] = useState(false);
+    const [busy, setBusy] = useState<BusyAction>('load');
+    const [error, setError] = useState<string | null>(null);
+    const [itemStats, setItemStats] = useState<Record<string, ItemAnalysis>>({});
+
+    const applyState = (next: ModuleQuizState) => {
+        setState(next);
+        setQuestions(next.draft.map(q => ({ ...q, options: [...q.options] })));
+        setDirty(false);
+    };
+
+    useEffect(() => {
+        (async () => {
+            try {
+                applyState(await getModuleQuiz(courseId, moduleId));
+            } catch (e: any) {
+                setError(e?.message || 'Failed to load module quiz');
+            } finally {
+                setBusy(null);
+            }
+        })();
+    }, [courseId, moduleId]);
+
+    // Item analysis is advisory; the editor works without it
+    useEffect(() => {
+        getItemAnalysis(courseId, moduleId)
+            .then(({ items }) => setItemStats(Object.fromEntries(items.map(it => [it.question, it]))))
+            .catch(() => setItemStats({}));
+    }, [courseId, moduleId]);
+
+    const flaggedCount = questions.filter(q => itemStats[q.question]?.flags.length).length;
+
+    const run = async (action: BusyAction, fn: () => Promise<ModuleQuizState>) => {
+        setBusy(action);
+        setError(null);
+        try {
+            applyState(await fn());
+        } catch (e: any) {
+            setError(e?.message || 'Request failed');
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const updateQuestion = (index: number, patch: Partial<QuizQuestion>) => {
+        setQuestions(prev => prev.map((q, i) => i === index ? { ...q, ...patch } : q));
+        setDirty(true);
+    };
+
+    const handleGenerate = () => {
+        if (questions.length && !window.confirm('Replace the current draft with a newly generated quiz?')) return;
+        run('generate', () => generateModuleQuizDraft(courseId, moduleId));
+    };
+
+    const handlePublish = async () => {
+        // Publish what the teacher sees, so save pending edits first
+        await run('publish', async () => {
+            if (dirty) await saveModuleQuizDraft(courseId, moduleId, questions);
+            return publishModuleQuiz(courseId, moduleId);
+        });
+    };
+
+    if (busy === 'load') {
+        return <p className="text-sm text-muted-foreground">Loading quiz…</p>;
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm text-muted-foreground">
+                    {state?.publishedAt
+                        ? `Published ${new Date(state.publishedAt).toLocaleString()} • ${state.published?.length || 0} questions`
+                        : 'Not published — students receive an AI-generated quiz.'}
+                    {dirty ? ' • Unsaved changes' : ''}
+                    {flaggedCount ? ` • ${flaggedCount} flagged for review` : ''}
+                </p>
+                <div className="flex gap-2">
+                    <Button size="sm" variant="secondary" onClick={() => downloadBlob(exportQtiPackage(questions, title), `${title.replace(/[^\w-]+/g, '_')}_qti.zip`)} disabled={!!busy || !questions.length}>
+                        Export QTI
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={handleGenerate} disabled={!!busy}>
+                        <SparklesIcon className="w-4 h-4 mr-1 inline" />
+                        {busy === 'generate' ? 'Generating...' : 'Generate Draft'}
+                    </Button>
+                    <Button size="sm" variant="secondary" onClick={() => run('save', () => saveModuleQuizDraft(courseId, moduleId, questions))} disabled={!!busy || !dirty}>
+                        {busy === 'save' ? 'Saving...' : 'Save Draft'}
+                    </Button>
+                    <Button size="sm" onClick={handlePublish} disabled={!!busy || !questions.length}>
+                        {busy === 'publish' ? 'Publishing...' : 'Publish'}
+                    </Button>
+                    {state?.publishedAt && (
+                        <Button size="sm" variant="danger" onClick={() => run('unpublish', () => unpublishModuleQuiz(courseId, moduleId))} disabled={!!busy}>
+                            Unpublish
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {error && <p className="text-sm text-red-500">{error}</p>}
+
+            {questions.length === 0 && (
+                <p className="text-sm text-muted-foreground italic">No draft yet. Generate one or add questions manually.</p>
+            )}
+
+            {questions.map((q, qi) => (
+                <div key={qi} className="p-3 border border-border rounded-md bg-background space-y-2">
+                    <div className="flex items-start gap-2">
+                        <span className="text-sm font-medium pt-2">Q{qi + 1}.</span>
+                        <textarea
+                            value={q.question}
+                            onChange={(e) => updateQuestion(qi, { question: e.target.value })}
+                            rows={2}
+                            className="flex-1 p-2 bg-background border border-border rounded-md text-sm"
+                        />
+                        <button onClick={() => { setQuestions(prev => prev.filter((_, i) => i !== qi)); setDirty(true); }} className="text-red-500 pt-2" aria-label="Remove question">
+                            <DeleteIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                    <div className="pl-8 space-y-2">
+                        <QuestionFields
+                            question={q}
+                            onChange={(next) => { setQuestions(prev => prev.map((item, i) => i === qi ? next : item)); setDirty(true); }}
+                            name={`quiz-${moduleId}-q${qi}`}
+                            topics={topics}
+                        />
+                        {itemStats[q.question] && <ItemStats stats={itemStats[q.question]} />}
+                    </div>
+                </div>
+            ))}
+
+            <Button size="sm" variant="secondary" onClick={() => { setQuestions(prev => [...prev, emptyQuestion()]); setDirty(true); }} disabled={!!busy}>
+                Add Question
+            </Button>
+        </div>
+    );
+};
+
+export default QuizEditor;
@@ -0,0 +1,29 @@
+import React from 'react';
+import type { Course } from '../../types';
+
+interface SectionFilterProps {
+    course?: Course;
+    // '' means every section the teacher can see
+    value: string;
+    onChange: (sectionId: string) => void;
+}
+
+// Section picker for analytics and the gradebook; TAs only get the sections they assist with.
+const SectionFilter: React.FC<SectionFilterProps> = ({ course, value, onChange }) => {
+    const assisting = course?.teachingSectionIds;
+    const sections = (course?.sections || []).filter(s => !assisting || assisting.includes(s.id));
+    if (!sections.length) return null;
+    return (
+        <select
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            className="p-2 bg-background border border-border rounded-md text-sm"
+            aria-label="Section"
+        >
+            <option value="">{assisting ? 'All my sections' : 'All sections'}</option>
+            {sections.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+        </select>
+    );
+};
+
+export default SectionFilter;
@@ -0,0 +1,85 @@
+// Adaptive module quizzes: decide how many questions each topic gets and at what difficulty
+// from a student's recent attempts, and pick them from a reviewed pool. Pure so it can be tested
+// without a database.
+
+import { attemptPercent, normalizeText } from './grading.js';
+
+export const QUIZ_DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+export const ADAPTIVE_QUESTION_COUNT = 5;
+export const ADAPTIVE_HISTORY_LIMIT = 10;
+const ADAPTIVE_STEP_UP = 80; // last score (%) at or above this raises the difficulty
+const ADAPTIVE_STEP_DOWN = 50; // last score (%) below this lowers it
+
+// Topics the student misses get more questions, and difficulty moves one step after a strong or
+// weak attempt. `recent` is the student's attempts on the module, newest first.
+export function planAdaptiveQuiz(moduleTopics, recent) {
+  const topics = (Array.isArray(moduleTopics) ? moduleTopics : []).filter(Boolean);
+  // Mastery per topic: recency-weighted mean credit (newest attempt weighs most); null when never asked
+  const sums = new Map();
+  recent.forEach((a, k) => {
+    const w = Math.pow(0.8, k);
+    (a.items || []).forEach(it => {
+      if (!it.topic) return;
+      const e = sums.get(it.topic) || { credit: 0, weight: 0 };
+      e.credit += w * (Number(it.credit) || 0);
+      e.weight += w;
+      sums.set(it.topic, e);
+    });
+  });
+  const mastery = topics.map(topic => {
+    const e = sums.get(topic);
+    return { topic, mastery: e ? Math.round((e.credit / e.weight) * 100) / 100 : null };
+  });
+  // Weight 1.5 for a fully missed topic down to 0.5 for a mastered one; unseen topics sit in the middle
+  const weights = mastery.map(m => 1.5 - (m.mastery ?? 0.5));
+  const totalWeight = weights.reduce((s, w) => s + w, 0) || 1;
+  const exact = weights.map(w => (w / totalWeight) * ADAPTIVE_QUESTION_COUNT);
+  const counts = exact.map(Math.floor);
+  // Largest remainder keeps the total at exactly ADAPTIVE_QUESTION_COUNT
+  exact
+    .map((v, i) => ({ i, rest: v - Math.floor(v) }))
+    .sort((a, b) => b.rest - a.rest)
+    .slice(0, ADAPTIVE_QUESTION_COUNT - counts.reduce((s, c) => s + c, 0))
+    .forEach(({ i }) => { counts[i]++; });
+  const last = recent[0];
+  let level = QUIZ_DIFFICULTIES.indexOf(last?.difficulty);
+  if (level < 0) level = 1;
+  if (last) {
+    const pct = attemptPercent(last);
+    if (pct >= ADAPTIVE_STEP_UP) level = Math.min(level + 1, QUIZ_DIFFICULTIES.length - 1);
+    else if (pct < ADAPTIVE_STEP_DOWN) level = Math.max(level - 1, 0);
+  }
+  return {
+    difficulty: QUIZ_DIFFICULTIES[level],
+    topicCounts: topics.map((topic, i) => ({ topic, count: counts[i] })),
+    mastery,
+  };
+}
+
+// Fill a plan from questions the teacher has already reviewed (the published quiz and the question
+// bank): each topic gets its count, nearest the planned difficulty first (untagged questions last),
+// and other topics top the quiz up when a topic runs short. `shuffle` breaks ties between equally
+// good questions and mixes the final order.
+export function pickAdaptiveQuestions(pool, plan, shuffle = (list) => list) {
+  const seen = new Set();
+  const unique = pool.filter(q => {
+    const key = normalizeText(q.question);
+    if (!key || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+  const target = QUIZ_DIFFICULTIES.indexOf(plan.difficulty);
+  const distance = (q) => {
+    const level = QUIZ_DIFFICULTIES.indexOf(q.difficulty);
+    return level < 0 ? QUIZ_DIFFICULTIES.length : Math.abs(level - target);
+  };
+  const closest = (list, count) => shuffle(list).sort((a, b) => distance(a) - distance(b)).slice(0, count);
+  const picked = [];
+  plan.topicCounts.forEach(({ topic, count }) => {
+    picked.push(...closest(unique.filter(q => q.topic === topic && !picked.includes(q)), count));
+  });
+  const wanted = plan.topicCounts.reduce((s, t) => s + t.count, 0);
+  picked.push(...closest(unique.filter(q => !picked.includes(q)), Math.max(wanted - picked.length, 0)));
+  return shuffle(picked);
+}
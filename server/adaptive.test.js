@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { planAdaptiveQuiz, pickAdaptiveQuestions, ADAPTIVE_QUESTION_COUNT } from './adaptive.js';
+
+const attempt = (score, total, difficulty, items = []) => ({ score, total, difficulty, items });
+const total = (plan) => plan.topicCounts.reduce((s, t) => s + t.count, 0);
+
+describe('planAdaptiveQuiz', () => {
+  it('spreads questions evenly at medium difficulty without history', () => {
+    const plan = planAdaptiveQuiz(['a', 'b', 'c', 'd', 'e'], []);
+    expect(plan.difficulty).toBe('medium');
+    expect(plan.topicCounts.map(t => t.count)).toEqual([1, 1, 1, 1, 1]);
+    expect(plan.mastery.every(m => m.mastery === null)).toBe(true);
+  });
+
+  it('always asks exactly the question count', () => {
+    for (const topics of [['a'], ['a', 'b'], ['a', 'b', 'c'], ['a', 'b', 'c', 'd', 'e', 'f', 'g']]) {
+      expect(total(planAdaptiveQuiz(topics, []))).toBe(ADAPTIVE_QUESTION_COUNT);
+    }
+  });
+
+  it('gives missed topics more questions than mastered ones', () => {
+    const recent = [attempt(2, 4, 'medium', [
+      { topic: 'loops', credit: 0 },
+      { topic: 'loops', credit: 0 },
+      { topic: 'recursion', credit: 1 },
+      { topic: 'recursion', credit: 1 },
+    ])];
+    const plan = planAdaptiveQuiz(['loops', 'recursion'], recent);
+    expect(plan.mastery).toEqual([{ topic: 'loops', mastery: 0 }, { topic: 'recursion', mastery: 1 }]);
+    expect(plan.topicCounts).toEqual([{ topic: 'loops', count: 4 }, { topic: 'recursion', count: 1 }]);
+  });
+
+  it('weighs newer attempts more heavily', () => {
+    const recent = [
+      attempt(1, 1, 'medium', [{ topic: 'loops', credit: 1 }]),
+      attempt(0, 1, 'medium', [{ topic: 'loops', credit: 0 }]),
+    ];
+    // 1 / (1 + 0.8)
+    expect(planAdaptiveQuiz(['loops'], recent).mastery[0].mastery).toBe(0.56);
+  });
+
+  it('ignores items for topics the module no longer has', () => {
+    const recent = [attempt(0, 1, 'medium', [{ topic: 'removed', credit: 0 }, { credit: 0 }])];
+    const plan = planAdaptiveQuiz(['kept', '', null], recent);
+    expect(plan.topicCounts).toEqual([{ topic: 'kept', count: ADAPTIVE_QUESTION_COUNT }]);
+  });
+
+  it('steps difficulty up after a strong attempt and down after a weak one', () => {
+    expect(planAdaptiveQuiz(['a'], [attempt(4, 5, 'medium')]).difficulty).toBe('hard');
+    expect(planAdaptiveQuiz(['a'], [attempt(3, 5, 'medium')]).difficulty).toBe('medium');
+    expect(planAdaptiveQuiz(['a'], [attempt(2, 5, 'medium')]).difficulty).toBe('easy');
+    expect(planAdaptiveQuiz(['a'], [attempt(5, 5, 'hard')]).difficulty).toBe('hard');
+    expect(planAdaptiveQuiz(['a'], [attempt(0, 5, 'easy')]).difficulty).toBe('easy');
+  });
+
+  it('only looks at the latest attempt for difficulty', () => {
+    const recent = [attempt(1, 5, 'hard'), attempt(5, 5, 'medium')];
+    expect(planAdaptiveQuiz(['a'], recent).difficulty).toBe('medium');
+  });
+
+  it('treats attempts without a recorded difficulty as medium', () => {
+    expect(planAdaptiveQuiz(['a'], [attempt(5, 5, undefined)]).difficulty).toBe('hard');
+    expect(planAdaptiveQuiz(['a'], [attempt(0, 0, undefined)]).difficulty).toBe('easy');
+  });
+});
+
+describe('pickAdaptiveQuestions', () => {
+  const q = (question, topic, difficulty) => ({ type: 'mcq', question, topic, difficulty, options: ['a', 'b'], correctAnswer: 'a' });
+  const plan = (difficulty, topicCounts) => ({ difficulty, topicCounts, mastery: [] });
+
+  it('fills each topic nearest the planned difficulty, untagged questions last', () => {
+    const pool = [q('L1', 'loops'), q('L2', 'loops', 'hard'), q('L3', 'loops', 'easy'), q('L4', 'loops', 'medium'), q('R1', 'recursion', 'hard')];
+    const picked = pickAdaptiveQuestions(pool, plan('easy', [{ topic: 'loops', count: 2 }, { topic: 'recursion', count: 1 }]));
+    expect(picked.map(p => p.question)).toEqual(['L3', 'L4', 'R1']);
+  });
+
+  it('tops up from other topics when one runs short', () => {
+    const pool = [q('L1', 'loops', 'medium'), q('R1', 'recursion', 'medium'), q('R2', 'recursion', 'hard'), q('X1', undefined, 'medium')];
+    const picked = pickAdaptiveQuestions(pool, plan('medium', [{ topic: 'loops', count: 3 }, { topic: 'recursion', count: 1 }]));
+    expect(picked.map(p => p.question)).toEqual(['L1', 'R1', 'X1', 'R2']);
+  });
+
+  it('skips questions that appear in both the published quiz and the bank', () => {
+    const pool = [q('What is a loop?', 'loops', 'medium'), q('what is a  loop?', 'loops', 'medium'), q('L2', 'loops', 'medium')];
+    const picked = pickAdaptiveQuestions(pool, plan('medium', [{ topic: 'loops', count: 3 }]));
+    expect(picked.map(p => p.question)).toEqual(['What is a loop?', 'L2']);
+  });
+
+  it('returns what the pool has when it is smaller than the plan', () => {
+    const picked = pickAdaptiveQuestions([q('L1', 'loops', 'hard')], plan('easy', [{ topic: 'loops', count: ADAPTIVE_QUESTION_COUNT }]));
+    expect(picked).toHaveLength(1);
+  });
+
+  it('mixes the order with the given shuffle', () => {
+    const pool = [q('L1', 'loops', 'medium'), q('R1', 'recursion', 'medium')];
+    const picked = pickAdaptiveQuestions(pool, plan('medium', [{ topic: 'loops', count: 1 }, { topic: 'recursion', count: 1 }]), list => [...list].reverse());
+    expect(picked.map(p => p.question)).toEqual(['R1', 'L1']);
+  });
+});
@@ -0,0 +1,85 @@
+// Admin accounts: the one-time bootstrap secret, the audit log of admin actions, suspension and the
+// cascade behind account deletion. Database work goes through the db handle passed in, so the tests
+// run against memoryDb.
+
+import crypto from 'crypto';
+
+// Compares the x-admin-secret header in constant time; nothing matches while no secret is configured
+export function adminSecretMatches(given, configured) {
+  if (!configured) return false;
+  const digest = (value) => crypto.createHash('sha256').update(String(value ?? '')).digest();
+  return crypto.timingSafeEqual(digest(given), digest(configured));
+}
+
+// An audit_log entry for an admin action. `target` identifies what was acted on, `details` holds
+// the parameters.
+export const auditEntry = (req, action, target = {}, details = {}, now = new Date()) => ({
+  action,
+  actorId: req.user?._id || null,
+  actorEmail: req.user?.email || null,
+  target,
+  details,
+  ip: req.ip || null,
+  createdAt: now,
+});
+
+export const toAuditView = (e) => ({
+  id: e._id.toString(),
+  action: e.action,
+  actorEmail: e.actorEmail,
+  target: { ...e.target, ...(e.target?.userId ? { userId: e.target.userId.toString() } : {}) },
+  details: e.details || {},
+  createdAt: e.createdAt,
+});
+
+// Suspension blocks sign-in and revokes every session; { suspended: false } lifts it
+export async function setSuspended(db, userId, suspended, now = new Date()) {
+  const user = await db.collection('users').findOneAndUpdate(
+    { _id: userId },
+    { $set: { suspendedAt: suspended ? now : null } },
+    { returnDocument: 'after', projection: { passwordHash: 0 } }
+  );
+  const revokedSessions = suspended ? (await db.collection('sessions').deleteMany({ userId })).deletedCount : 0;
+  return { user, revokedSessions };
+}
+
+// Collections holding course data, each keyed by courseId
+const COURSE_DATA = [
+  'enrollments', 'enrollment_requests', 'enrollment_codes', 'quiz_attempts', 'quizzes', 'flashcards', 'flashcard_reviews',
+  'module_quizzes', 'question_bank', 'materials', 'embeddings',
+];
+
+// Everything removed along with the given courses, as [collection, filter] steps (the course
+// documents themselves excepted)
+export const courseDeletionPlan = (courseIds) => COURSE_DATA.map(name => [name, { courseId: { $in: courseIds } }]);
+
+// Everything removed along with a user: their own records plus the courses they created and all
+// course data hanging off those (other students' enrollments, attempts, cards, materials).
+// Enrollments store the user id as a string.
+export function userDeletionPlan(userId, ownedCourseIds) {
+  const own = {
+    enrollments: { userId: userId.toString() },
+    enrollment_requests: { userId: userId.toString() },
+    quiz_attempts: { userId },
+    quizzes: { userId },
+    flashcards: { userId },
+    flashcard_reviews: { userId },
+  };
+  return [
+    ['sessions', { userId }],
+    ...courseDeletionPlan(ownedCourseIds).map(([name, filter]) => [name, own[name] ? { $or: [own[name], filter] } : filter]),
+    ['courses', { creatorId: userId }],
+    ['users', { _id: userId }],
+  ];
+}
+
+// Delete what a plan covers, or with dryRun only count it; resolves to { collection: count }
+export async function runDeletionPlan(db, steps, dryRun = false) {
+  const counts = {};
+  for (const [name, filter] of steps) {
+    counts[name] = dryRun
+      ? await db.collection(name).countDocuments(filter)
+      : (await db.collection(name).deleteMany(filter)).deletedCount;
+  }
+  return counts;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import {
+  adminSecretMatches, auditEntry, toAuditView, setSuspended, courseDeletionPlan, userDeletionPlan, runDeletionPlan,
+} from './admin.js';
+import { memoryDb } from './memoryDb.js';
+
+const id = (value) => ({ toString: () => value });
+
+describe('adminSecretMatches', () => {
+  it('accepts only the configured secret', () => {
+    expect(adminSecretMatches('s3cret', 's3cret')).toBe(true);
+    expect(adminSecretMatches('s3cret ', 's3cret')).toBe(false);
+    expect(adminSecretMatches('', 's3cret')).toBe(false);
+    expect(adminSecretMatches(undefined, 's3cret')).toBe(false);
+  });
+
+  it('never matches while no secret is configured', () => {
+    expect(adminSecretMatches('', '')).toBe(false);
+    expect(adminSecretMatches(undefined, '')).toBe(false);
+  });
+});
+
+describe('audit log', () => {
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('records who did what to whom', () => {
+    const req = { user: { _id: id('admin'), email: 'admin@example.com' }, ip: '10.0.0.1' };
+    const target = { userId: id('u1'), email: 'u1@example.com' };
+    expect(auditEntry(req, 'user.suspend', target, { revokedSessions: 2 }, now)).toEqual({
+      action: 'user.suspend',
+      actorId: req.user._id,
+      actorEmail: 'admin@example.com',
+      target,
+      details: { revokedSessions: 2 },
+      ip: '10.0.0.1',
+      createdAt: now,
+    });
+  });
+
+  it('leaves the actor empty for the bootstrap, which has no signed-in user', () => {
+    expect(auditEntry({}, 'admin.bootstrap', {}, {}, now)).toMatchObject({ actorId: null, actorEmail: null, ip: null });
+  });
+
+  it('shows ids as strings', () => {
+    const entry = { _id: id('e1'), ...auditEntry({}, 'user.delete', { userId: id('u1') }, undefined, now) };
+    expect(toAuditView(entry)).toEqual({ id: 'e1', action: 'user.delete', actorEmail: null, target: { userId: 'u1' }, details: {}, createdAt: now });
+  });
+});
+
+describe('setSuspended', () => {
+  const seed = () => memoryDb({
+    users: [{ _id: 'u1', email: 'u1@example.com', suspendedAt: null }],
+    sessions: [{ token: 'a', userId: 'u1' }, { token: 'b', userId: 'u1' }, { token: 'c', userId: 'u2' }],
+  });
+  const now = new Date('2026-01-01T00:00:00Z');
+
+  it('blocks the account and revokes its sessions only', async () => {
+    const db = seed();
+    const { user, revokedSessions } = await setSuspended(db, 'u1', true, now);
+    expect(user.suspendedAt).toBe(now);
+    expect(revokedSessions).toBe(2);
+    expect(db.collection('sessions').docs.map(s => s.token)).toEqual(['c']);
+  });
+
+  it('lifts a suspension without touching sessions', async () => {
+    const db = seed();
+    await setSuspended(db, 'u1', true, now);
+    const { user, revokedSessions } = await setSuspended(db, 'u1', false, now);
+    expect(user.suspendedAt).toBeNull();
+    expect(revokedSessions).toBe(0);
+  });
+});
+
+describe('account deletion', () => {
+  // Teacher t owns course c1 and also took a quiz in c2; student s is enrolled in both
+  const seed = () => memoryDb({
+    users: [{ _id: 't' }, { _id: 's' }],
+    sessions: [{ userId: 't' }, { userId: 's' }],
+    courses: [{ id: 'c1', creatorId: 't' }, { id: 'c2', creatorId: 'other' }],
+    enrollments: [{ userId: 's', courseId: 'c1' }, { userId: 's', courseId: 'c2' }, { userId: 't', courseId: 'c2' }],
+    quiz_attempts: [{ userId: 's', courseId: 'c1' }, { userId: 's', courseId: 'c2' }, { userId: 't', courseId: 'c2' }],
+    quizzes: [{ userId: 's', courseId: 'c1' }, { userId: 't', courseId: 'c2' }],
+    flashcards: [{ userId: 's', courseId: 'c1' }, { userId: 's', courseId: 'c2' }],
+    module_quizzes: [{ courseId: 'c1' }, { courseId: 'c2' }],
+    question_bank: [{ courseId: 'c1' }],
+    materials: [{ courseId: 'c1' }, { courseId: 'c2' }],
+  });
+  const remaining = (db, name) => db.collection(name).docs;
+
+  it('covers the user, their owned courses and all data of those courses', async () => {
+    const db = seed();
+    const counts = await runDeletionPlan(db, userDeletionPlan('t', ['c1']));
+    expect(counts).toMatchObject({
+      sessions: 1, enrollments: 2, quiz_attempts: 2, quizzes: 2, flashcards: 1, module_quizzes: 1, question_bank: 1,
+      materials: 1, courses: 1, users: 1,
+    });
+    expect(remaining(db, 'users')).toEqual([{ _id: 's' }]);
+    expect(remaining(db, 'courses')).toEqual([{ id: 'c2', creatorId: 'other' }]);
+    expect(remaining(db, 'enrollments')).toEqual([{ userId: 's', courseId: 'c2' }]);
+    expect(remaining(db, 'quiz_attempts')).toEqual([{ userId: 's', courseId: 'c2' }]);
+    expect(remaining(db, 'module_quizzes')).toEqual([{ courseId: 'c2' }]);
+  });
+
+  it('only counts on a dry run', async () => {
+    const db = seed();
+    const counts = await runDeletionPlan(db, userDeletionPlan('t', ['c1']), true);
+    expect(counts).toMatchObject({ enrollments: 2, quiz_attempts: 2, courses: 1, users: 1 });
+    expect(remaining(db, 'users')).toHaveLength(2);
+    expect(remaining(db, 'quiz_attempts')).toHaveLength(3);
+  });
+
+  it('deletes a student with no courses without touching course data', async () => {
+    const db = seed();
+    await runDeletionPlan(db, userDeletionPlan('s', []));
+    expect(remaining(db, 'enrollments')).toEqual([{ userId: 't', courseId: 'c2' }]);
+    expect(remaining(db, 'module_quizzes')).toHaveLength(2);
+    expect(remaining(db, 'courses')).toHaveLength(2);
+  });
+
+  it('removes the data of deleted courses for every user', async () => {
+    const db = seed();
+    await runDeletionPlan(db, courseDeletionPlan(['c1']));
+    expect(remaining(db, 'quiz_attempts')).toEqual([{ userId: 's', courseId: 'c2' }, { userId: 't', courseId: 'c2' }]);
+    expect(remaining(db, 'flashcards')).toEqual([{ userId: 's', courseId: 'c2' }]);
+    expect(remaining(db, 'question_bank')).toEqual([]);
+    expect(remaining(db, 'users')).toHaveLength(2);
+  });
+});
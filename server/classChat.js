@@ -0,0 +1,103 @@
+// Class chat: one room per course section, or for the whole course when it has no sections
+// (students without a section share that room too). A socket first sends
+// { type: 'join', token, courseId, sectionId? } with its session token; only then are its { text }
+// messages relayed, and only to its room. Students always land in their own section; the owning
+// teacher may pick any room and a TA one of their sections. Access is re-checked on every message,
+// so logging out, withdrawing or losing a TA assignment also ends the chat.
+
+import { courseKey, ownsCourse, taSectionIds, findSection } from './guards.js';
+
+const CHAT_JOIN_TIMEOUT_MS = 10 * 1000;
+const CHAT_MESSAGE_MAX = 2000;
+
+export const chatRoomKey = (courseId, sectionId) => `${courseId}:${sectionId || ''}`;
+
+// { courseId, sectionId, sectionName } for the room the user may join, or { error }.
+// `lookups` is { findCourse(courseId), findEnrollment(userId, courseId) }.
+export async function resolveChatRoom(lookups, user, courseId, requestedSectionId) {
+  const course = courseId ? await lookups.findCourse(courseId) : null;
+  if (!course) return { error: 'Course not found' };
+  const key = courseKey(course);
+  const requested = requestedSectionId ? String(requestedSectionId) : '';
+  if (requested && !findSection(course, requested)) return { error: 'Section not found' };
+  let sectionId = '';
+  if (user.role === 'student') {
+    const enrollment = await lookups.findEnrollment(user._id.toString(), key);
+    if (!enrollment) return { error: 'Enroll in this course first' };
+    sectionId = enrollment.sectionId || '';
+  } else if (user.role === 'teacher' && ownsCourse(user, course)) {
+    sectionId = requested;
+  } else if (user.role === 'teacher' && taSectionIds(user, course).length) {
+    const mine = taSectionIds(user, course);
+    if (requested && !mine.includes(requested)) return { error: 'You are not a TA for this section' };
+    sectionId = requested || mine[0];
+  } else {
+    return { error: 'Forbidden' };
+  }
+  return { courseId: key, sectionId, sectionName: sectionId ? findSection(course, sectionId).name : null };
+}
+
+// The relay behind the /ws/class socket server: pass each new socket to connect(ws).
+// `lookups` adds userForToken(token) to the lookups of resolveChatRoom.
+export function createChatRelay(lookups, { joinTimeoutMs = CHAT_JOIN_TIMEOUT_MS } = {}) {
+  // room key -> sockets joined to it
+  const rooms = new Map();
+  const send = (ws, payload) => { if (ws.readyState === 1) ws.send(JSON.stringify(payload)); };
+  const leave = (ws) => {
+    const members = ws.chat && rooms.get(ws.chat.room);
+    if (!members) return;
+    members.delete(ws);
+    if (!members.size) rooms.delete(ws.chat.room);
+  };
+  const refuse = (ws, error) => {
+    send(ws, { type: 'error', error });
+    ws.close(4003, 'Forbidden');
+  };
+
+  async function receive(ws, data) {
+    let msg;
+    try { msg = JSON.parse(data.toString()); } catch { return; }
+    try {
+      if (msg?.type === 'join') {
+        const user = await lookups.userForToken(String(msg.token || ''));
+        if (!user) return refuse(ws, 'Sign in to use class chat');
+        const room = await resolveChatRoom(lookups, user, msg.courseId, msg.sectionId);
+        if (room.error) return refuse(ws, room.error);
+        leave(ws);
+        ws.chat = { token: String(msg.token), courseId: room.courseId, requestedSectionId: msg.sectionId, room: chatRoomKey(room.courseId, room.sectionId) };
+        if (!rooms.has(ws.chat.room)) rooms.set(ws.chat.room, new Set());
+        rooms.get(ws.chat.room).add(ws);
+        return send(ws, { type: 'joined', courseId: room.courseId, sectionId: room.sectionId || null, sectionName: room.sectionName });
+      }
+      if (!ws.chat) return send(ws, { type: 'error', error: 'Join a course chat first' });
+      const text = String(msg?.text || '').trim().slice(0, CHAT_MESSAGE_MAX);
+      if (!text) return;
+      const user = await lookups.userForToken(ws.chat.token);
+      if (!user) return refuse(ws, 'Your session has expired. Sign in again to keep chatting.');
+      const room = await resolveChatRoom(lookups, user, ws.chat.courseId, ws.chat.requestedSectionId);
+      if (room.error || chatRoomKey(room.courseId, room.sectionId) !== ws.chat.room) {
+        return refuse(ws, 'You no longer have access to this chat');
+      }
+      // The sender is whoever the session belongs to, never a name the client claims
+      const mentions = Array.from(text.matchAll(/!(\w+)/g)).map(m => m[1]);
+      const out = JSON.stringify({ type: 'class_message', text, sender: user.name, senderId: user._id.toString(), role: user.role, mentions, time: Date.now() });
+      rooms.get(ws.chat.room)?.forEach((client) => {
+        if (client.readyState === 1) client.send(out);
+      });
+    } catch (e) {
+      console.error('Class chat error:', e);
+    }
+  }
+
+  function connect(ws) {
+    const joinTimer = setTimeout(() => { if (!ws.chat) ws.close(4001, 'Join timeout'); }, joinTimeoutMs);
+    ws.on('message', (data) => receive(ws, data));
+    ws.on('close', () => {
+      clearTimeout(joinTimer);
+      leave(ws);
+    });
+    send(ws, { type: 'hello', time: Date.now() });
+  }
+
+  return { connect };
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createChatRelay, resolveChatRoom } from './classChat.js';
+
+const id = (value) => ({ toString: () => value });
+const owner = { _id: id('owner'), name: 'Owner', role: 'teacher' };
+const ta = { _id: id('ta'), name: 'TA', role: 'teacher' };
+const stranger = { _id: id('stranger'), name: 'Stranger', role: 'teacher' };
+const ann = { _id: id('ann'), name: 'Ann', role: 'student' };
+const bob = { _id: id('bob'), name: 'Bob', role: 'student' };
+const cid = { _id: id('cid'), name: 'Cid', role: 'student' };
+
+let course;
+let enrollments;
+let sessions;
+let lookups;
+let sockets;
+
+beforeEach(() => {
+  course = {
+    id: 'c1',
+    creatorId: 'owner',
+    sections: [{ id: 's1', name: 'Morning', taIds: ['ta'] }, { id: 's2', name: 'Evening', taIds: [] }],
+  };
+  enrollments = [{ userId: 'ann', courseId: 'c1', sectionId: 's1' }, { userId: 'bob', courseId: 'c1', sectionId: 's2' }, { userId: 'cid', courseId: 'c1' }];
+  sessions = new Map([owner, ta, stranger, ann, bob, cid].map(u => [`token-${u._id}`, u]));
+  lookups = {
+    userForToken: async (token) => sessions.get(token) || null,
+    findCourse: async (courseId) => (courseId === 'c1' ? course : null),
+    findEnrollment: async (userId, courseId) => enrollments.find(e => e.userId === userId && e.courseId === courseId) || null,
+  };
+  sockets = [];
+});
+
+afterEach(() => {
+  sockets.forEach(ws => ws.close());
+});
+
+// A connected socket that records what the relay sends; deliver() awaits the relay's handling
+function socket(relay) {
+  const handlers = {};
+  const ws = {
+    readyState: 1,
+    sent: [],
+    closedWith: null,
+    send(data) { this.sent.push(JSON.parse(data)); },
+    on(event, handler) { handlers[event] = handler; },
+    close(code) {
+      if (this.readyState !== 1) return;
+      this.readyState = 3;
+      this.closedWith = code;
+      handlers.close?.();
+    },
+    deliver: (msg) => handlers.message(Buffer.from(typeof msg === 'string' ? msg : JSON.stringify(msg))),
+    last() { return this.sent[this.sent.length - 1]; },
+    messages() { return this.sent.filter(m => m.type === 'class_message').map(m => m.text); },
+  };
+  sockets.push(ws);
+  relay.connect(ws);
+  return ws;
+}
+
+async function joined(relay, user, sectionId) {
+  const ws = socket(relay);
+  await ws.deliver({ type: 'join', token: `token-${user._id}`, courseId: 'c1', sectionId });
+  return ws;
+}
+
+describe('resolveChatRoom', () => {
+  it('puts students in their own section whatever they ask for', async () => {
+    expect(await resolveChatRoom(lookups, ann, 'c1', 's2')).toEqual({ courseId: 'c1', sectionId: 's1', sectionName: 'Morning' });
+    expect(await resolveChatRoom(lookups, cid, 'c1')).toEqual({ courseId: 'c1', sectionId: '', sectionName: null });
+  });
+
+  it('lets the owner pick any room and a TA only their sections', async () => {
+    expect(await resolveChatRoom(lookups, owner, 'c1', 's2')).toMatchObject({ sectionId: 's2' });
+    expect(await resolveChatRoom(lookups, owner, 'c1')).toMatchObject({ sectionId: '' });
+    expect(await resolveChatRoom(lookups, ta, 'c1')).toMatchObject({ sectionId: 's1' });
+    expect(await resolveChatRoom(lookups, ta, 'c1', 's2')).toEqual({ error: 'You are not a TA for this section' });
+  });
+
+  it('refuses outsiders and unknown courses or sections', async () => {
+    expect(await resolveChatRoom(lookups, stranger, 'c1')).toEqual({ error: 'Forbidden' });
+    enrollments = [];
+    expect(await resolveChatRoom(lookups, ann, 'c1')).toEqual({ error: 'Enroll in this course first' });
+    expect(await resolveChatRoom(lookups, owner, 'nope')).toEqual({ error: 'Course not found' });
+    expect(await resolveChatRoom(lookups, owner, 'c1', 'x')).toEqual({ error: 'Section not found' });
+  });
+});
+
+describe('chat relay', () => {
+  it('relays messages only within the sender section room', async () => {
+    const relay = createChatRelay(lookups);
+    const a = await joined(relay, ann);
+    const teacher = await joined(relay, owner, 's1');
+    const b = await joined(relay, bob);
+    const unassigned = await joined(relay, cid);
+    expect(a.last()).toEqual({ type: 'joined', courseId: 'c1', sectionId: 's1', sectionName: 'Morning' });
+    await a.deliver({ text: ' hi morning ' });
+    await b.deliver({ text: 'hi evening' });
+    expect(a.messages()).toEqual(['hi morning']);
+    expect(teacher.messages()).toEqual(['hi morning']);
+    expect(b.messages()).toEqual(['hi evening']);
+    expect(unassigned.messages()).toEqual([]);
+  });
+
+  it('names the sender from the session, not the message', async () => {
+    const relay = createChatRelay(lookups);
+    const a = await joined(relay, ann);
+    await a.deliver({ text: 'hello !Bob', sender: 'Teacher', role: 'teacher' });
+    expect(a.last()).toMatchObject({ type: 'class_message', sender: 'Ann', senderId: 'ann', role: 'student', mentions: ['Bob'] });
+  });
+
+  it('refuses sockets without a valid session or access', async () => {
+    const relay = createChatRelay(lookups);
+    const anonymous = socket(relay);
+    await anonymous.deliver({ type: 'join', token: 'forged', courseId: 'c1' });
+    expect(anonymous.last()).toEqual({ type: 'error', error: 'Sign in to use class chat' });
+    expect(anonymous.closedWith).toBe(4003);
+    const outsider = await joined(relay, stranger);
+    expect(outsider.last()).toEqual({ type: 'error', error: 'Forbidden' });
+    expect(outsider.closedWith).toBe(4003);
+  });
+
+  it('ignores messages until the socket has joined', async () => {
+    const relay = createChatRelay(lookups);
+    const a = await joined(relay, ann);
+    const early = socket(relay);
+    await early.deliver({ text: 'anyone?' });
+    await early.deliver('not json');
+    expect(early.last()).toEqual({ type: 'error', error: 'Join a course chat first' });
+    expect(a.messages()).toEqual([]);
+  });
+
+  it('ends the chat once the session is revoked or access is lost', async () => {
+    const relay = createChatRelay(lookups);
+    const a = await joined(relay, ann);
+    const t = await joined(relay, ta);
+    const otherTab = await joined(relay, ann);
+    sessions.delete('token-ann');
+    await a.deliver({ text: 'still here?' });
+    expect(a.last()).toEqual({ type: 'error', error: 'Your session has expired. Sign in again to keep chatting.' });
+    expect(a.closedWith).toBe(4003);
+    course.sections[0].taIds = [];
+    await t.deliver({ text: 'hello' });
+    expect(t.last()).toEqual({ type: 'error', error: 'You no longer have access to this chat' });
+    expect(otherTab.messages()).toEqual([]);
+  });
+
+  it('ends the chat when a student moves to another section', async () => {
+    const relay = createChatRelay(lookups);
+    const a = await joined(relay, ann);
+    enrollments[0].sectionId = 's2';
+    await a.deliver({ text: 'hello' });
+    expect(a.last()).toEqual({ type: 'error', error: 'You no longer have access to this chat' });
+  });
+
+  it('closes sockets that never join', async () => {
+    const relay = createChatRelay(lookups, { joinTimeoutMs: 5 });
+    const idle = socket(relay);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(idle.closedWith).toBe(4001);
+  });
+});
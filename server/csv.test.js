@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv } from './csv.js';
+
+describe('parseCsv', () => {
+  it('splits rows and fields', () => {
+    expect(parseCsv('name,email\nAda,ada@example.com\nAlan,alan@example.com')).toEqual([
+      ['name', 'email'],
+      ['Ada', 'ada@example.com'],
+      ['Alan', 'alan@example.com'],
+    ]);
+  });
+
+  it('accepts CRLF and lone CR line endings and a trailing newline', () => {
+    expect(parseCsv('a,b\r\n1,2\r3,4\r\n')).toEqual([['a', 'b'], ['1', '2'], ['3', '4']]);
+  });
+
+  it('keeps commas, newlines and escaped quotes inside quoted fields', () => {
+    expect(parseCsv('name,courseIds\n"Lovelace, Ada","c1 c2\nc3"\n"say ""hi""",x')).toEqual([
+      ['name', 'courseIds'],
+      ['Lovelace, Ada', 'c1 c2\nc3'],
+      ['say "hi"', 'x'],
+    ]);
+  });
+
+  it('keeps empty fields', () => {
+    expect(parseCsv('a,,c\n,,x')).toEqual([['a', '', 'c'], ['', '', 'x']]);
+    expect(parseCsv('a,b,')).toEqual([['a', 'b', '']]);
+  });
+
+  it('drops blank rows', () => {
+    expect(parseCsv('a,b\n\n , \n1,2\n\n')).toEqual([['a', 'b'], ['1', '2']]);
+    expect(parseCsv('')).toEqual([]);
+  });
+});
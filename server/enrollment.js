@@ -0,0 +1,46 @@
+// Enrollment policies: how students get into a course (course.enrollmentPolicy, default open).
+//   open     - enroll straight from the catalog
+//   code     - type a join code the teacher shared
+//   invite   - follow an invite link; hidden from the catalog
+//   approval - enrolling from the catalog files a request the teacher approves or denies
+// Pure so the decisions can be tested without a database.
+
+import crypto from 'crypto';
+
+export const ENROLLMENT_POLICIES = ['open', 'code', 'invite', 'approval'];
+// Which kind of code each policy accepts
+const CODE_KIND_FOR_POLICY = { code: 'code', invite: 'link' };
+// No 0/O or 1/I, so codes survive being read aloud or copied off a slide
+const JOIN_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const JOIN_CODE_LENGTH = 8;
+
+export const enrollmentPolicy = (course) => ENROLLMENT_POLICIES.includes(course?.enrollmentPolicy) ? course.enrollmentPolicy : 'open';
+
+// Invite-only courses stay out of a student's catalog until they join
+export const listedInCatalog = (course, enrolled) => enrollmentPolicy(course) !== 'invite' || enrolled;
+
+// Why a student cannot enroll from the catalog, or null when they can (possibly pending approval)
+export function catalogRefusal(course) {
+  const policy = enrollmentPolicy(course);
+  if (policy === 'code') return 'This course needs a join code from your teacher';
+  if (policy === 'invite') return 'This course is invite-only. Use the link from your teacher.';
+  return null;
+}
+
+// Enrolling from the catalog files a request instead, unless the student is already enrolled
+export const needsApproval = (course, enrolled) => enrollmentPolicy(course) === 'approval' && !enrolled;
+
+// Why a join code ({ kind: 'code' }) or invite link ({ kind: 'link' }) does not work for the course
+// right now, or null when it does. Switching the policy pauses codes of the other kind.
+export function joinRefusal(course, kind) {
+  if (CODE_KIND_FOR_POLICY[enrollmentPolicy(course)] === kind) return null;
+  return `${course.title} is not accepting ${kind === 'link' ? 'invite links' : 'join codes'} right now`;
+}
+
+// Codes are matched ignoring case, spaces and dashes
+export const normalizeJoinCode = (code) => String(code || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+export function newEnrollmentCode(kind) {
+  if (kind === 'link') return crypto.randomBytes(24).toString('hex');
+  return Array.from(crypto.randomBytes(JOIN_CODE_LENGTH), b => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join('');
+}
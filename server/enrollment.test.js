@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import {
+  enrollmentPolicy, listedInCatalog, catalogRefusal, needsApproval, joinRefusal, normalizeJoinCode, newEnrollmentCode,
+} from './enrollment.js';
+
+const course = (enrollmentPolicy) => ({ title: 'Algebra', enrollmentPolicy });
+
+describe('enrollmentPolicy', () => {
+  it('defaults to open for courses without a known policy', () => {
+    expect(enrollmentPolicy(course(undefined))).toBe('open');
+    expect(enrollmentPolicy(course('everyone'))).toBe('open');
+    expect(enrollmentPolicy(null)).toBe('open');
+    expect(enrollmentPolicy(course('approval'))).toBe('approval');
+  });
+});
+
+describe('enrolling from the catalog', () => {
+  it('enrolls straight away in open courses', () => {
+    expect(catalogRefusal(course('open'))).toBeNull();
+    expect(needsApproval(course('open'), false)).toBe(false);
+  });
+
+  it('files a request in approval courses unless already enrolled', () => {
+    expect(catalogRefusal(course('approval'))).toBeNull();
+    expect(needsApproval(course('approval'), false)).toBe(true);
+    expect(needsApproval(course('approval'), true)).toBe(false);
+  });
+
+  it('refuses code and invite courses', () => {
+    expect(catalogRefusal(course('code'))).toBe('This course needs a join code from your teacher');
+    expect(catalogRefusal(course('invite'))).toBe('This course is invite-only. Use the link from your teacher.');
+  });
+
+  it('hides invite-only courses until the student has joined', () => {
+    expect(listedInCatalog(course('invite'), false)).toBe(false);
+    expect(listedInCatalog(course('invite'), true)).toBe(true);
+    expect(listedInCatalog(course('code'), false)).toBe(true);
+    expect(listedInCatalog(course('approval'), false)).toBe(true);
+  });
+});
+
+describe('joinRefusal', () => {
+  it('accepts join codes only in code courses and invite links only in invite courses', () => {
+    expect(joinRefusal(course('code'), 'code')).toBeNull();
+    expect(joinRefusal(course('invite'), 'link')).toBeNull();
+    expect(joinRefusal(course('code'), 'link')).toBe('Algebra is not accepting invite links right now');
+    expect(joinRefusal(course('invite'), 'code')).toBe('Algebra is not accepting join codes right now');
+  });
+
+  it('pauses every code while the course is open or needs approval', () => {
+    for (const policy of ['open', 'approval', undefined]) {
+      expect(joinRefusal(course(policy), 'code')).not.toBeNull();
+      expect(joinRefusal(course(policy), 'link')).not.toBeNull();
+    }
+  });
+});
+
+describe('join codes', () => {
+  it('match ignoring case, spaces and dashes', () => {
+    expect(normalizeJoinCode(' abcd-23 xy ')).toBe('ABCD23XY');
+    expect(normalizeJoinCode(undefined)).toBe('');
+  });
+
+  it('are eight characters without look-alikes, and links are long random tokens', () => {
+    for (let i = 0; i < 20; i++) {
+      expect(newEnrollmentCode('code')).toMatch(/^[A-HJ-NP-Z2-9]{8}$/);
+    }
+    expect(newEnrollmentCode('link')).toMatch(/^[0-9a-f]{48}$/);
+    const code = newEnrollmentCode('code');
+    expect(normalizeJoinCode(code.toLowerCase())).toBe(code);
+  });
+});
@@ -0,0 +1,52 @@
+// Server-side grading of quiz answers. It is the authority for module quizzes; the client's
+// services/quizGrading.ts mirrors it for lecture quizzes (services/quizGrading.test.ts checks they agree).
+
+export const normalizeText = (v) => String(v ?? '').trim().replace(/\s+/g, ' ').toLowerCase();
+// Program output is compared exactly except for trailing whitespace and line endings
+const normalizeOutput = (v) => String(v ?? '').replace(/\r\n/g, '\n').split('\n').map(l => l.trimEnd()).join('\n').trim();
+const resolveChoice = (q, sel) => (typeof sel === 'number' ? q.options?.[sel] : typeof sel === 'string' ? sel : undefined);
+
+// Grade one answer against a stored question; returns credit between 0 and 1.
+// Choice answers may be option text or an option index.
+export function gradeQuestion(q, answer) {
+  const type = q?.type || 'mcq';
+  if (answer === null || answer === undefined || (typeof answer === 'string' && !answer.trim())) return 0;
+  if (type === 'multi_select') {
+    const correct = new Set(q.correctAnswers || []);
+    if (!correct.size || !Array.isArray(answer)) return 0;
+    let hits = 0;
+    let misses = 0;
+    new Set(answer.map(a => resolveChoice(q, a)).filter(Boolean)).forEach(a => (correct.has(a) ? hits++ : misses++));
+    return Math.max(0, (hits - misses) / correct.size);
+  }
+  if (type === 'numeric') {
+    const value = Number(String(answer).trim());
+    const target = Number(q.correctAnswer);
+    if (!Number.isFinite(value) || !Number.isFinite(target)) return 0;
+    return Math.abs(value - target) <= (Number(q.tolerance) || 0) + 1e-9 ? 1 : 0;
+  }
+  if (type === 'short_text') {
+    return [q.correctAnswer, ...(q.acceptedAnswers || [])].map(normalizeText).includes(normalizeText(answer)) ? 1 : 0;
+  }
+  if (type === 'code_output' && !(q.options || []).length) {
+    return [q.correctAnswer, ...(q.acceptedAnswers || [])].map(normalizeOutput).includes(normalizeOutput(answer)) ? 1 : 0;
+  }
+  return resolveChoice(q, answer) === q.correctAnswer ? 1 : 0;
+}
+
+// Human-readable answer key for result reviews
+export function describeCorrectAnswer(q) {
+  if (q.type === 'multi_select') return (q.correctAnswers || []).join(', ');
+  if (q.type === 'numeric' && q.tolerance) return `${q.correctAnswer} (± ${q.tolerance})`;
+  return q.correctAnswer;
+}
+
+// Answer as it is kept on the attempt: option indexes resolved to option text
+export function storedAnswer(q, answer) {
+  if (Array.isArray(answer)) return answer.map(a => resolveChoice(q, a)).filter(Boolean).map(String);
+  if (answer === null || answer === undefined) return null;
+  return String(resolveChoice(q, answer) ?? answer);
+}
+
+// Attempt score as a percentage
+export const attemptPercent = (a) => (a.total > 0 ? (a.score / a.total) * 100 : 0);
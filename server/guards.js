@@ -0,0 +1,109 @@
+// Route guards, e.g. app.patch(path, requireCourseOwner, handler). Each guard answers 401/403/404
+// itself or attaches what it resolved (req.user, req.course, req.mod) for the handler. The server
+// supplies the lookups once at startup through configureGuards.
+
+let lookups = {
+  getUser: async () => null,
+  findCourse: async () => null,
+  findEnrollment: async () => null,
+};
+
+// { getUser(req), findCourse(courseId), findEnrollment(userId, courseId) }
+export function configureGuards(next) {
+  lookups = { ...lookups, ...next };
+}
+
+export const courseKey = (course) => String(course.id || course._id.toString());
+
+// Teachers may only manage courses they created (legacy courses have no creator)
+export const ownsCourse = (user, course) => !course.creatorId || String(course.creatorId) === user._id.toString();
+
+export const courseSections = (course) => Array.isArray(course?.sections) ? course.sections : [];
+
+// Sections of the course the user is a teaching assistant for
+export const taSectionIds = (user, course) => courseSections(course).filter(s => (s.taIds || []).includes(user._id.toString())).map(s => s.id);
+
+export const findSection = (course, sectionId) => courseSections(course).find(sec => sec.id === String(sectionId));
+
+// Express 4 does not catch rejected promises from middleware
+function runGuard(res, next, check) {
+  check().then(ok => { if (ok) next(); }).catch(e => {
+    console.error('Authorization error:', e);
+    res.status(500).json({ error: 'Authorization failed' });
+  });
+}
+
+async function checkUser(req, res, roles) {
+  if (req.user === undefined) req.user = await lookups.getUser(req);
+  if (!req.user) { res.status(401).json({ error: 'Unauthorized' }); return false; }
+  if (roles && !roles.includes(req.user.role)) { res.status(403).json({ error: 'Forbidden' }); return false; }
+  return true;
+}
+
+// The target course comes from the route, the body (JSON or multipart) or the query string;
+// a module id alongside it must name one of the course's modules
+async function checkCourse(req, res) {
+  const courseId = req.params.courseId || req.body?.courseId || req.query?.courseId;
+  if (!courseId) { res.status(400).json({ error: 'courseId required' }); return false; }
+  req.course = await lookups.findCourse(courseId);
+  if (!req.course) { res.status(404).json({ error: 'Course not found' }); return false; }
+  const moduleId = req.params.moduleId || req.body?.moduleId || req.query?.moduleId;
+  req.mod = moduleId ? (req.course.modules || []).find(m => m.id === String(moduleId)) || null : null;
+  if (moduleId && !req.mod) { res.status(404).json({ error: 'Course/module not found' }); return false; }
+  return true;
+}
+
+function checkOwner(req, res) {
+  if (ownsCourse(req.user, req.course)) return true;
+  res.status(403).json({ error: 'You do not own this course' });
+  return false;
+}
+
+export function requireAuth(req, res, next) {
+  runGuard(res, next, () => checkUser(req, res));
+}
+
+export function requireRole(...roles) {
+  return (req, res, next) => runGuard(res, next, () => checkUser(req, res, roles));
+}
+
+// The teacher who created the course
+export function requireCourseOwner(req, res, next) {
+  runGuard(res, next, async () => await checkUser(req, res, ['teacher']) && await checkCourse(req, res) && checkOwner(req, res));
+}
+
+// The owning teacher, or a TA of one of the course's sections; TAs get req.taSectionIds and are
+// limited to those sections (see sectionScope)
+export function requireCourseStaff(req, res, next) {
+  runGuard(res, next, async () => {
+    if (!await checkUser(req, res, ['teacher']) || !await checkCourse(req, res)) return false;
+    if (ownsCourse(req.user, req.course)) return true;
+    req.taSectionIds = taSectionIds(req.user, req.course);
+    return req.taSectionIds.length > 0 || checkOwner(req, res);
+  });
+}
+
+// A student enrolled in the course (their enrollment goes on req.enrollment), or the teacher who
+// owns it (or TAs a section of it)
+export function requireEnrolled(req, res, next) {
+  runGuard(res, next, async () => {
+    if (!await checkUser(req, res) || !await checkCourse(req, res)) return false;
+    if (req.user.role === 'teacher') return taSectionIds(req.user, req.course).length > 0 || checkOwner(req, res);
+    const enrolled = await lookups.findEnrollment(req.user._id.toString(), courseKey(req.course));
+    if (!enrolled) { res.status(403).json({ error: 'Enroll in this course first' }); return false; }
+    req.enrollment = enrolled;
+    return true;
+  });
+}
+
+// The section filter for staff views: ?sectionId= narrows to one section and TAs never see past
+// their own. Returns null for the whole course, else a list of section ids; false once a 4xx was sent.
+export function sectionScope(req, res) {
+  const requested = req.query.sectionId ? String(req.query.sectionId) : null;
+  if (requested && !findSection(req.course, requested)) { res.status(404).json({ error: 'Section not found' }); return false; }
+  if (req.taSectionIds) {
+    if (requested && !req.taSectionIds.includes(requested)) { res.status(403).json({ error: 'You are not a TA for this section' }); return false; }
+    return requested ? [requested] : req.taSectionIds;
+  }
+  return requested ? [requested] : null;
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  configureGuards, requireAuth, requireRole, requireCourseOwner, requireCourseStaff, requireEnrolled, sectionScope,
+} from './guards.js';
+
+const id = (value) => ({ toString: () => value });
+const owner = { _id: id('owner'), role: 'teacher' };
+const ta = { _id: id('ta'), role: 'teacher' };
+const otherTeacher = { _id: id('other'), role: 'teacher' };
+const student = { _id: id('student'), role: 'student' };
+const course = {
+  id: 'c1',
+  creatorId: 'owner',
+  modules: [{ id: 'm1' }],
+  sections: [{ id: 's1', taIds: ['ta'] }, { id: 's2', taIds: [] }],
+};
+
+let users;
+let enrollments;
+
+beforeEach(() => {
+  users = new Map();
+  enrollments = [{ userId: 'student', courseId: 'c1', sectionId: 's2' }];
+  configureGuards({
+    getUser: async (req) => users.get(req.headers.authorization) || null,
+    findCourse: async (courseId) => (courseId === 'c1' ? course : null),
+    findEnrollment: async (userId, courseId) => enrollments.find(e => e.userId === userId && e.courseId === courseId) || null,
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+const request = (user, { params = {}, body, query = {} } = {}) => {
+  const token = user ? `token-${user._id}` : undefined;
+  if (user) users.set(token, user);
+  return { headers: { authorization: token }, params, body, query };
+};
+
+// Runs a guard to completion: { passed } when it calls next, else { status, body }
+const run = (guard, req) => new Promise(resolve => {
+  const res = {
+    status(code) { this.statusCode = code; return this; },
+    json(body) { resolve({ passed: false, status: this.statusCode, body }); },
+  };
+  guard(req, res, () => resolve({ passed: true }));
+});
+
+describe('requireAuth and requireRole', () => {
+  it('rejects requests without a live session', async () => {
+    expect(await run(requireAuth, request(null))).toMatchObject({ status: 401 });
+  });
+
+  it('checks the role', async () => {
+    expect(await run(requireRole('student'), request(student))).toEqual({ passed: true });
+    expect(await run(requireRole('student'), request(owner))).toMatchObject({ status: 403 });
+  });
+
+  it('answers 500 when a lookup fails', async () => {
+    configureGuards({ getUser: async () => { throw new Error('db down'); } });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await run(requireAuth, request(student))).toMatchObject({ status: 500, body: { error: 'Authorization failed' } });
+  });
+});
+
+describe('requireCourseOwner', () => {
+  it('lets the creating teacher through with the course and module attached', async () => {
+    const req = request(owner, { params: { courseId: 'c1', moduleId: 'm1' } });
+    expect(await run(requireCourseOwner, req)).toEqual({ passed: true });
+    expect(req.course).toBe(course);
+    expect(req.mod).toEqual({ id: 'm1' });
+  });
+
+  it('reads the course from the body or query string', async () => {
+    expect(await run(requireCourseOwner, request(owner, { body: { courseId: 'c1' } }))).toEqual({ passed: true });
+    expect(await run(requireCourseOwner, request(owner, { query: { courseId: 'c1' } }))).toEqual({ passed: true });
+  });
+
+  it('rejects TAs, other teachers and students', async () => {
+    const params = { courseId: 'c1' };
+    expect(await run(requireCourseOwner, request(ta, { params }))).toMatchObject({ status: 403, body: { error: 'You do not own this course' } });
+    expect(await run(requireCourseOwner, request(otherTeacher, { params }))).toMatchObject({ status: 403 });
+    expect(await run(requireCourseOwner, request(student, { params }))).toMatchObject({ status: 403, body: { error: 'Forbidden' } });
+  });
+
+  it('answers 400 and 404 for a missing or unknown course or module', async () => {
+    expect(await run(requireCourseOwner, request(owner))).toMatchObject({ status: 400 });
+    expect(await run(requireCourseOwner, request(owner, { params: { courseId: 'nope' } }))).toMatchObject({ status: 404, body: { error: 'Course not found' } });
+    expect(await run(requireCourseOwner, request(owner, { params: { courseId: 'c1', moduleId: 'nope' } }))).toMatchObject({ status: 404 });
+  });
+
+  it('treats legacy courses without a creator as owned', async () => {
+    configureGuards({ findCourse: async () => ({ id: 'legacy' }) });
+    expect(await run(requireCourseOwner, request(otherTeacher, { params: { courseId: 'legacy' } }))).toEqual({ passed: true });
+  });
+});
+
+describe('requireCourseStaff', () => {
+  it('gives the owner the whole course', async () => {
+    const req = request(owner, { params: { courseId: 'c1' } });
+    expect(await run(requireCourseStaff, req)).toEqual({ passed: true });
+    expect(req.taSectionIds).toBeUndefined();
+  });
+
+  it('limits TAs to their own sections', async () => {
+    const req = request(ta, { params: { courseId: 'c1' } });
+    expect(await run(requireCourseStaff, req)).toEqual({ passed: true });
+    expect(req.taSectionIds).toEqual(['s1']);
+  });
+
+  it('rejects teachers who neither own nor assist', async () => {
+    expect(await run(requireCourseStaff, request(otherTeacher, { params: { courseId: 'c1' } }))).toMatchObject({ status: 403 });
+  });
+});
+
+describe('requireEnrolled', () => {
+  it('attaches the student enrollment', async () => {
+    const req = request(student, { params: { courseId: 'c1' } });
+    expect(await run(requireEnrolled, req)).toEqual({ passed: true });
+    expect(req.enrollment).toMatchObject({ sectionId: 's2' });
+  });
+
+  it('rejects students who are not enrolled', async () => {
+    enrollments = [];
+    expect(await run(requireEnrolled, request(student, { params: { courseId: 'c1' } })))
+      .toMatchObject({ status: 403, body: { error: 'Enroll in this course first' } });
+  });
+
+  it('lets course staff in and keeps other teachers out', async () => {
+    const params = { courseId: 'c1' };
+    expect(await run(requireEnrolled, request(owner, { params }))).toEqual({ passed: true });
+    expect(await run(requireEnrolled, request(ta, { params }))).toEqual({ passed: true });
+    expect(await run(requireEnrolled, request(otherTeacher, { params }))).toMatchObject({ status: 403 });
+  });
+});
+
+describe('sectionScope', () => {
+  const res = () => ({ status(code) { this.statusCode = code; return this; }, json(body) { this.body = body; } });
+
+  it('covers the whole course for the owner unless a section is asked for', () => {
+    expect(sectionScope({ course, query: {} }, res())).toBeNull();
+    expect(sectionScope({ course, query: { sectionId: 's2' } }, res())).toEqual(['s2']);
+  });
+
+  it('keeps TAs within their sections', () => {
+    expect(sectionScope({ course, query: {}, taSectionIds: ['s1'] }, res())).toEqual(['s1']);
+    expect(sectionScope({ course, query: { sectionId: 's1' }, taSectionIds: ['s1'] }, res())).toEqual(['s1']);
+    const forbidden = res();
+    expect(sectionScope({ course, query: { sectionId: 's2' }, taSectionIds: ['s1'] }, forbidden)).toBe(false);
+    expect(forbidden.statusCode).toBe(403);
+  });
+
+  it('answers 404 for an unknown section', () => {
+    const missing = res();
+    expect(sectionScope({ course, query: { sectionId: 'x' } }, missing)).toBe(false);
+    expect(missing.statusCode).toBe(404);
+  });
+});
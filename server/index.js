@@ -5,6 +5,28 @@ import cors from 'cors';
 import { MongoClient, ObjectId, GridFSBucket } from 'mongodb';
 import crypto from 'crypto';
 import multer from 'multer';
+import QRCode from 'qrcode';
+import { createMailTransport } from './mail.js';
+import { normalizeText, gradeQuestion, describeCorrectAnswer, storedAnswer, attemptPercent } from './grading.js';
+import { QUIZ_DIFFICULTIES, ADAPTIVE_HISTORY_LIMIT, planAdaptiveQuiz, pickAdaptiveQuestions } from './adaptive.js';
+import { scheduleReview } from './spacedRepetition.js';
+import { toSessionView, startSession, findLiveSession, rotateSession, revokeSession, revokeUserSessions } from './sessions.js';
+import {
+  configureGuards, requireAuth, requireRole, requireCourseOwner, requireCourseStaff, requireEnrolled,
+  courseKey, ownsCourse, courseSections, taSectionIds, findSection, sectionScope,
+} from './guards.js';
+import {
+  adminSecretMatches, auditEntry, toAuditView, setSuspended, courseDeletionPlan, userDeletionPlan, runDeletionPlan,
+} from './admin.js';
+import { parseCsv } from './csv.js';
+import { createChatRelay } from './classChat.js';
+import {
+  ENROLLMENT_POLICIES, enrollmentPolicy, listedInCatalog, catalogRefusal, needsApproval, joinRefusal, normalizeJoinCode, newEnrollmentCode,
+} from './enrollment.js';
+import { QUIZ_QUESTION_TYPES, sanitizeQuiz, validateEditedQuiz } from './questions.js';
+import { parseRoleMap, verifyIdToken, claimAt, resolveSsoUser } from './oidc.js';
+import { TOTP_STEP_SECONDS, TOTP_DIGITS, base32Encode, verifyTotp } from './totp.js';
+import { parseBudget, hitRateLimit, lockoutDuration } from './rateLimit.js';
 import { createRequire } from 'module';
 const require = createRequire(import.meta.url);
 let cachedPdfParseFn = null;
@@ -81,12 +103,25 @@ try {
 dotenv.config();
 
 const app = express();
-app.use(cors({ origin: true, credentials: true }));
+// Retry-After is exposed so cross-origin clients can read it from 429 responses
+app.use(cors({ origin: true, credentials: true, exposedHeaders: ['Retry-After'] }));
 app.use(express.json());
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://127.0.0.1:27017/Lumo_AI';
 const PORT = Number(process.env.PORT) || 8765;
 const ADMIN_SECRET = process.env.ADMIN_SECRET || '';
+// Access tokens are short-lived; the refresh token keeps a device signed in until it expires or is revoked
+const SESSION_TTL_MS = (Number(process.env.SESSION_TTL_MINUTES) || 60) * 60 * 1000;
+const REFRESH_TTL_MS = (Number(process.env.REFRESH_TTL_DAYS) || 30) * 24 * 60 * 60 * 1000;
+const PASSWORD_RESET_TTL_MS = (Number(process.env.PASSWORD_RESET_TTL_MINUTES) || 30) * 60 * 1000;
+// Where links in emails point (the client, not this server)
+const APP_BASE_URL = (process.env.APP_BASE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const mailer = createMailTransport();
+console.log('[Startup] Mail transport:', mailer.name);
+// Module quiz time limit unless the module (or a section override) sets one
+const DEFAULT_QUIZ_DURATION_MINUTES = 5;
+// Submissions this long after the time limit still count, to absorb network latency
+const QUIZ_SUBMIT_GRACE_MS = 30 * 1000;
 const GEMINI_API_KEY = process.env.API_KEY || process.env.GEMINI_API_KEY || '';
 console.log('[Startup] GEMINI_API_KEY present:', GEMINI_API_KEY ? 'yes' : 'no');
 let ai = null;
@@ -364,43 +399,29 @@ async function initDb() {
   try { const u = new URL(MONGODB_URI); dbName = (u.pathname || '/Lumo_AI').slice(1) || 'Lumo_AI'; } catch {}
   db = client.db(dbName);
   await db.collection('users').createIndex({ email: 1 }, { unique: true });
+  await db.collection('users').createIndex({ 'invite.tokenHash': 1 }, { sparse: true });
 
 // Edit a course (teacher only): update title/description
-app.patch('/api/courses/:courseId', async (req, res) => {
+app.patch('/api/courses/:courseId', requireCourseOwner, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ error: 'Forbidden' });
-    const { courseId } = req.params;
     const { title, description } = req.body || {};
     const set = {};
     if (typeof title === 'string' && title.trim()) set.title = title.trim();
     if (typeof description === 'string' && description.trim()) set.description = description.trim();
     if (!Object.keys(set).length) return res.status(400).json({ error: 'No changes' });
-    const or = [{ id: courseId }];
-    try { or.push({ _id: new ObjectId(courseId) }); } catch {}
-    const r = await db.collection('courses').updateOne({ $or: or }, { $set: set });
-    if (!r.matchedCount) return res.status(404).json({ error: 'Course not found' });
+    await db.collection('courses').updateOne({ _id: req.course._id }, { $set: set });
     return res.json({ success: true });
   } catch (e) {
     return res.status(500).json({ error: 'Failed to update course' });
   }
 });
 
-// Delete a course (teacher only)
-app.delete('/api/courses/:courseId', async (req, res) => {
+// Delete a course (teacher only) with all its data, the same cleanup as deleting its teacher's account
+app.delete('/api/courses/:courseId', requireCourseOwner, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ error: 'Forbidden' });
-    const { courseId } = req.params;
-    const or = [{ id: courseId }];
-    try { or.push({ _id: new ObjectId(courseId) }); } catch {}
-    const course = await db.collection('courses').findOne({ $or: or });
-    if (!course) return res.status(404).json({ error: 'Course not found' });
-    await db.collection('courses').deleteOne({ $or: or });
-    // Cleanup related data
-    await db.collection('materials').deleteMany({ courseId: String(course.id || course._id?.toString()) });
-    await db.collection('embeddings').deleteMany({ courseId: String(course.id || course._id?.toString()) });
-    await db.collection('enrollments').deleteMany({ courseId: String(course.id || course._id?.toString()) });
+    const { course } = req;
+    await db.collection('courses').deleteOne({ _id: course._id });
+    await runDeletionPlan(db, courseDeletionPlan([courseKey(course)]));
     return res.json({ success: true });
   } catch (e) {
     return res.status(500).json({ error: 'Failed to delete course' });
@@ -409,45 +430,65 @@ app.delete('/api/courses/:courseId', async (req, res) => {
 
 // -------- Enrollments (Student) ---------
 
-// List my enrollments (course IDs)
-app.get('/api/enrollments', async (req, res) => {
+// List my enrollments (course IDs), plus courses where my request awaits approval
+app.get('/api/enrollments', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    const { user } = req;
     const list = await db.collection('enrollments').find({ userId: user._id.toString() }).toArray();
-    return res.json({ courseIds: list.map(e => e.courseId) });
+    const pending = await db.collection('enrollment_requests').find({ userId: user._id.toString(), status: 'pending' }).toArray();
+    return res.json({ courseIds: list.map(e => e.courseId), pendingCourseIds: pending.map(r => r.courseId) });
   } catch {
     return res.status(500).json({ error: 'Failed to fetch enrollments' });
   }
 });
 
-// Enroll in a course
-app.post('/api/enrollments', async (req, res) => {
+// Enroll in an open course, or ask to join one that needs approval
+app.post('/api/enrollments', requireRole('student'), async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    if (user.role !== 'student') return res.status(403).json({ error: 'Only students can enroll' });
-    const { courseId } = req.body || {};
+    const { user } = req;
+    const { courseId, message, sectionId } = req.body || {};
     if (!courseId) return res.status(400).json({ error: 'courseId required' });
-    await db.collection('enrollments').updateOne(
-      { userId: user._id.toString(), courseId: String(courseId) },
-      { $set: { userId: user._id.toString(), courseId: String(courseId), createdAt: new Date() } },
-      { upsert: true }
-    );
-    return res.json({ success: true });
+    const course = await findCourse(courseId);
+    if (!course) return res.status(404).json({ error: 'Course not found' });
+    const key = courseKey(course);
+    const refusal = catalogRefusal(course);
+    if (refusal) return res.status(403).json({ error: refusal });
+    const placement = enrollmentSection(course, sectionId);
+    if (placement.error) return res.status(400).json({ error: placement.error });
+    const existing = await db.collection('enrollments').findOne({ userId: user._id.toString(), courseId: key });
+    // Switching sections is the teacher's call (roster), not something a re-enroll does quietly
+    if (existing?.sectionId && placement.sectionId && existing.sectionId !== placement.sectionId) {
+      return res.status(409).json({ error: 'You are already in another section of this course. Ask your teacher to move you.' });
+    }
+    if (needsApproval(course, !!existing)) {
+      const note = String(message || '').trim().slice(0, 500);
+      // Asking again updates the requested section of a request that is still pending
+      await db.collection('enrollment_requests').updateOne(
+        { userId: user._id.toString(), courseId: key, status: 'pending' },
+        {
+          $setOnInsert: { ...(note ? { message: note } : {}), createdAt: new Date() },
+          ...(placement.sectionId ? { $set: { sectionId: placement.sectionId } } : {}),
+        },
+        { upsert: true }
+      );
+      return res.json({ success: true, status: 'pending' });
+    }
+    await enrollStudent(user._id, key, placement.sectionId);
+    return res.json({ success: true, status: 'enrolled' });
   } catch (e) {
+    console.error('Enroll error:', e);
     return res.status(500).json({ error: 'Failed to enroll' });
   }
 });
 
 // Withdraw from a course
-app.delete('/api/enrollments/:courseId', async (req, res) => {
+app.delete('/api/enrollments/:courseId', requireRole('student'), async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    if (user.role !== 'student') return res.status(403).json({ error: 'Only students can withdraw' });
+    const { user } = req;
     const { courseId } = req.params;
     await db.collection('enrollments').deleteOne({ userId: user._id.toString(), courseId: String(courseId) });
+    // Also cancels a request that is still waiting for approval
+    await db.collection('enrollment_requests').deleteOne({ userId: user._id.toString(), courseId: String(courseId), status: 'pending' });
     return res.json({ success: true });
   } catch {
     return res.status(500).json({ error: 'Failed to withdraw' });
@@ -455,31 +496,114 @@ app.delete('/api/enrollments/:courseId', async (req, res) => {
 });
 
 // Update module topics (teacher only)
-app.patch('/api/courses/:courseId/modules/:moduleId/topics', async (req, res) => {
+app.patch('/api/courses/:courseId/modules/:moduleId/topics', requireCourseOwner, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ error: 'Forbidden' });
-    const { courseId, moduleId } = req.params;
     const { topics } = req.body || {};
     if (!Array.isArray(topics)) return res.status(400).json({ error: 'Invalid payload' });
-    const or = [{ id: courseId }];
-    try { or.push({ _id: new ObjectId(courseId) }); } catch {}
-    const r = await db.collection('courses').updateOne(
-      { $or: or, 'modules.id': moduleId },
+    await db.collection('courses').updateOne(
+      { _id: req.course._id, 'modules.id': req.mod.id },
       { $set: { 'modules.$.topics': topics } }
     );
-    if (r.matchedCount === 0) return res.status(404).json({ error: 'Course/module not found' });
     return res.json({ success: true });
   } catch (e) {
     console.error('Update topics error:', e);
     return res.status(500).json({ error: 'Failed to update topics' });
   }
 });
+
+// Validate quiz settings from a request body. Blank fields are left out: for the module they fall
+// back to the defaults (no attempt limit, no deadline), for a section override they inherit the
+// module's value. Returns { settings } or { error }.
+function parseQuizSettings(body, { override = false } = {}) {
+  const blank = (value) => value === null || value === undefined || value === '';
+  const settings = {};
+  if (!override || !blank(body.durationMinutes)) {
+    const duration = Number(body.durationMinutes);
+    if (!Number.isFinite(duration) || duration < 1 || duration > 180) return { error: 'durationMinutes must be between 1 and 180' };
+    settings.durationMinutes = duration;
+  }
+  if (!blank(body.maxAttempts)) {
+    const attempts = Number(body.maxAttempts);
+    if (!Number.isInteger(attempts) || attempts < 0) return { error: 'maxAttempts must be a non-negative integer' };
+    settings.maxAttempts = attempts;
+  } else if (!override) {
+    settings.maxAttempts = 0;
+  }
+  if (!blank(body.dueAt)) {
+    const dueAt = new Date(body.dueAt);
+    if (Number.isNaN(dueAt.getTime())) return { error: 'dueAt must be a date' };
+    settings.dueAt = dueAt;
+  }
+  return { settings };
+}
+
+// Update module quiz settings: time limit, attempt limit and deadline (teacher only). With a
+// sectionId the values override the module's settings for that section; an override with every
+// field blank is removed.
+app.patch('/api/courses/:courseId/modules/:moduleId/quiz-settings', requireCourseOwner, async (req, res) => {
+  try {
+    const body = req.body || {};
+    const sectionId = body.sectionId ? String(body.sectionId) : null;
+    if (sectionId && !findSection(req.course, sectionId)) return res.status(404).json({ error: 'Section not found' });
+    const { settings, error } = parseQuizSettings(body, { override: !!sectionId });
+    if (error) return res.status(400).json({ error });
+    const path = 'modules.$.quizSettings';
+    let update;
+    if (sectionId) {
+      const overridePath = `${path}.sectionOverrides.${sectionId}`;
+      update = Object.keys(settings).length ? { $set: { [overridePath]: settings } } : { $unset: { [overridePath]: '' } };
+    } else {
+      // Field by field, so the sections' overrides are kept
+      update = {
+        $set: { [`${path}.durationMinutes`]: settings.durationMinutes, [`${path}.maxAttempts`]: settings.maxAttempts, ...(settings.dueAt ? { [`${path}.dueAt`]: settings.dueAt } : {}) },
+        ...(settings.dueAt ? {} : { $unset: { [`${path}.dueAt`]: '' } }),
+      };
+    }
+    const course = await db.collection('courses').findOneAndUpdate(
+      { _id: req.course._id, 'modules.id': req.mod.id },
+      update,
+      { returnDocument: 'after' }
+    );
+    const quizSettings = (course?.modules || []).find(m => m.id === req.mod.id)?.quizSettings || {};
+    return res.json({ success: true, quizSettings });
+  } catch (e) {
+    console.error('Update quiz settings error:', e);
+    return res.status(500).json({ error: 'Failed to update quiz settings' });
+  }
+});
   await db.collection('sessions').createIndex({ token: 1 }, { unique: true });
+  await db.collection('sessions').createIndex({ refreshToken: 1 }, { unique: true, sparse: true });
+  await db.collection('sessions').createIndex({ userId: 1 });
+  await db.collection('mfa_challenges').createIndex({ token: 1 }, { unique: true });
+  await db.collection('mfa_challenges').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  await db.collection('password_resets').createIndex({ tokenHash: 1 }, { unique: true });
+  await db.collection('password_resets').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  await db.collection('oidc_states').createIndex({ state: 1 }, { unique: true });
+  await db.collection('oidc_states').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+  await db.collection('users').createIndex({ 'oidc.issuer': 1, 'oidc.sub': 1 }, { unique: true, partialFilterExpression: { 'oidc.sub': { $exists: true } } });
+  // Mongo drops sessions once they can no longer be refreshed
+  await db.collection('sessions').createIndex({ refreshExpiresAt: 1 }, { expireAfterSeconds: 0 });
+  // Sessions issued before expiry existed would otherwise stay valid forever
+  await db.collection('sessions').deleteMany({ expiresAt: { $exists: false } });
   await db.collection('materials').createIndex({ courseId: 1, moduleId: 1 });
   await db.collection('embeddings').createIndex({ courseId: 1, moduleId: 1 });
   await db.collection('enrollments').createIndex({ userId: 1, courseId: 1 }, { unique: true });
+  await db.collection('enrollments').createIndex({ courseId: 1, sectionId: 1 });
+  await db.collection('enrollment_codes').createIndex({ code: 1 }, { unique: true });
+  await db.collection('enrollment_codes').createIndex({ courseId: 1, createdAt: -1 });
+  await db.collection('enrollment_requests').createIndex({ courseId: 1, status: 1 });
+  await db.collection('enrollment_requests').createIndex({ userId: 1, courseId: 1 }, { unique: true, partialFilterExpression: { status: 'pending' } });
   await db.collection('quiz_attempts').createIndex({ userId: 1, courseId: 1, moduleId: 1, createdAt: 1 });
+  await db.collection('quizzes').createIndex({ quizId: 1 }, { unique: true });
+  await db.collection('quizzes').createIndex({ userId: 1, courseId: 1, moduleId: 1 });
+  // Two concurrent requests cannot both take the same attempt number (quizzes issued before it have none)
+  await db.collection('quizzes').createIndex({ userId: 1, courseId: 1, moduleId: 1, attempt: 1 }, { unique: true, partialFilterExpression: { attempt: { $exists: true } } });
+  await db.collection('module_quizzes').createIndex({ courseId: 1, moduleId: 1 }, { unique: true });
+  await db.collection('question_bank').createIndex({ courseId: 1, moduleId: 1, topic: 1 });
+  await db.collection('flashcards').createIndex({ userId: 1, cardKey: 1 }, { unique: true });
+  await db.collection('flashcards').createIndex({ userId: 1, dueAt: 1 });
+  await db.collection('flashcard_reviews').createIndex({ userId: 1, reviewedAt: -1 });
+  await db.collection('audit_log').createIndex({ createdAt: -1 });
   materialsBucket = new GridFSBucket(db, { bucketName: 'materials' });
   console.log(`Connected to MongoDB database: ${dbName}`);
 }
@@ -490,7 +614,9 @@ function hashPassword(password, salt) {
   return `${s}:${hash}`;
 }
 
+// False for accounts without a password (SSO and invited users until they set one)
 function verifyPassword(password, stored) {
+  if (!stored) return false;
   const [s, hash] = stored.split(':');
   const calc = crypto.scryptSync(password, s, 64).toString('hex');
   const a = Buffer.from(hash, 'hex');
@@ -498,23 +624,132 @@ function verifyPassword(password, stored) {
   return a.length === b.length && crypto.timingSafeEqual(a, b);
 }
 
-async function issueToken(userId) {
-  const token = crypto.randomBytes(32).toString('hex');
-  await db.collection('sessions').insertOne({ token, userId: new ObjectId(userId), createdAt: new Date() });
-  return token;
+// Accounts created through SSO or an unaccepted invite have no password to confirm
+const NO_PASSWORD_ERROR = 'Your account has no password yet. Use "Forgot password" on the sign-in page to set one.';
+
+const SESSION_TTL = { sessionMs: SESSION_TTL_MS, refreshMs: REFRESH_TTL_MS };
+
+async function issueSession(userId, req) {
+  return toSessionView(await startSession(db.collection('sessions'), new ObjectId(userId), req.headers['user-agent'], SESSION_TTL));
 }
 
-async function getUserFromAuth(req) {
+const toPublicUser = (user) => ({
+  id: user._id.toString(),
+  name: user.name,
+  email: user.email,
+  role: user.role,
+  twoFactorEnabled: !!user.totp,
+  mustChangePassword: !!user.mustChangePassword,
+});
+
+const bearerToken = (req) => {
   const auth = req.headers['authorization'];
-  if (!auth || !auth.startsWith('Bearer ')) return null;
-  const token = auth.slice(7);
-  const session = await db.collection('sessions').findOne({ token });
+  return auth && auth.startsWith('Bearer ') ? auth.slice(7) : null;
+};
+
+async function getUserFromAuth(req) {
+  return userForToken(bearerToken(req));
+}
+
+// The active user behind a session token (HTTP bearer or class chat join)
+async function userForToken(token) {
+  if (!token) return null;
+  const session = await findLiveSession(db.collection('sessions'), token);
   if (!session) return null;
   const user = await db.collection('users').findOne({ _id: session.userId });
-  return user;
+  return user && !user.suspendedAt ? user : null;
+}
+
+// -------- Authorization ---------
+// Route guards live in guards.js; they look users, courses and enrollments up through these.
+
+// Look up a course by its id (custom id or ObjectId)
+async function findCourse(courseId) {
+  const or = [{ id: String(courseId) }];
+  try { or.push({ _id: new ObjectId(String(courseId)) }); } catch {}
+  return db.collection('courses').findOne({ $or: or });
+}
+
+configureGuards({
+  getUser: getUserFromAuth,
+  findCourse,
+  findEnrollment: (userId, courseId) => db.collection('enrollments').findOne({ userId, courseId }),
+});
+
+// -------- Rate limiting ---------
+// Fixed-window counters in memory (this server runs as a single process). Each limited route has a
+// budget per client IP and per account, written "<count>/<window>" with an s, m or h window, e.g.
+// "10/15m". Override one with RATE_LIMIT_<ROUTE>_IP or RATE_LIMIT_<ROUTE>_ACCOUNT (e.g.
+// RATE_LIMIT_LOGIN_IP=50/15m), or set it to "off". Set TRUST_PROXY behind a reverse proxy so
+// req.ip is the client's address.
+
+if (process.env.TRUST_PROXY) app.set('trust proxy', process.env.TRUST_PROXY === 'true' ? true : process.env.TRUST_PROXY);
+
+const RATE_LIMIT_DEFAULTS = {
+  login: { ip: '30/15m', account: '10/15m' },
+  register: { ip: '5/1h' },
+  forgot_password: { ip: '10/1h', account: '3/1h' },
+  quiz_generate: { ip: '60/1h', account: '20/1h' },
+  pdf_explainer: { ip: '10/1h', account: '10/1h' },
+  rag_retrieve: { ip: '300/1h', account: '120/1h' },
+  enrollment_join: { ip: '30/15m', account: '20/15m' },
+};
+
+// Repeated wrong passwords lock the account: `baseMs` after `threshold` failures in a row, doubling
+// with each further failure up to `maxMs`
+const LOCKOUT_POLICY = {
+  threshold: Number(process.env.LOGIN_LOCKOUT_THRESHOLD) || 5,
+  baseMs: (Number(process.env.LOGIN_LOCKOUT_BASE_SECONDS) || 60) * 1000,
+  maxMs: (Number(process.env.LOGIN_LOCKOUT_MAX_MINUTES) || 60) * 60 * 1000,
+};
+
+const formatWait = (seconds) => seconds < 90 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`;
+
+function tooManyRequests(res, retryAfter, reason = 'Too many requests') {
+  res.set('Retry-After', String(retryAfter));
+  return res.status(429).json({ error: `${reason}. Try again in ${formatWait(retryAfter)}.`, retryAfter });
 }
 
-app.post('/api/auth/register', async (req, res) => {
+// The account is the signed-in user (resolved here if no guard ran yet) or, on credential routes,
+// the email being tried. Place it before multer so throttled uploads are not read.
+function rateLimit(name) {
+  const budget = (scope) => parseBudget(process.env[`RATE_LIMIT_${name.toUpperCase()}_${scope.toUpperCase()}`] ?? RATE_LIMIT_DEFAULTS[name]?.[scope]);
+  const ipBudget = budget('ip');
+  const accountBudget = budget('account');
+  return async (req, res, next) => {
+    try {
+      if (req.user === undefined && bearerToken(req)) req.user = await getUserFromAuth(req);
+      const account = req.user?._id.toString() || (req.body?.email ? String(req.body.email).trim().toLowerCase() : null);
+      const wait = Math.max(
+        ipBudget ? hitRateLimit(`${name}:ip:${req.ip}`, ipBudget) : 0,
+        accountBudget && account ? hitRateLimit(`${name}:account:${account}`, accountBudget) : 0
+      );
+      if (wait) return tooManyRequests(res, wait);
+      next();
+    } catch (e) {
+      console.error('Rate limit error:', e);
+      res.status(500).json({ error: 'Request failed' });
+    }
+  };
+}
+
+// Returns when the account is locked until, if this failure locked it
+async function recordLoginFailure(user) {
+  const updated = await db.collection('users').findOneAndUpdate(
+    { _id: user._id },
+    { $inc: { loginFailures: 1 } },
+    { returnDocument: 'after', projection: { loginFailures: 1 } }
+  );
+  const lockMs = lockoutDuration(updated?.loginFailures || 0, LOCKOUT_POLICY);
+  if (!lockMs) return null;
+  const lockedUntil = new Date(Date.now() + lockMs);
+  await db.collection('users').updateOne({ _id: user._id }, { $set: { lockedUntil } });
+  return lockedUntil;
+}
+
+const secondsUntil = (date) => Math.max(1, Math.ceil((date.getTime() - Date.now()) / 1000));
+
+app.post('/api/auth/register', rateLimit('register'), async (req, res) => {
   try {
     const { name, email, password, role } = req.body || {};
     if (!name || !email || !password || !role || !['teacher','student'].includes(String(role))) {
@@ -526,8 +761,8 @@ app.post('/api/auth/register', async (req, res) => {
     const passHash = hashPassword(password);
     const userDoc = { name, email: String(email).toLowerCase(), passwordHash: passHash, role: 'student', createdAt: new Date() };
     const r = await db.collection('users').insertOne(userDoc);
-    const token = await issueToken(r.insertedId.toString());
-    return res.json({ token, user: { id: r.insertedId.toString(), name, email: userDoc.email, role: userDoc.role } });
+    const session = await issueSession(r.insertedId.toString(), req);
+    return res.json({ ...session, user: { id: r.insertedId.toString(), name, email: userDoc.email, role: userDoc.role } });
   } catch (e) {
     if (e?.code === 11000) return res.status(409).json({ error: 'Email already registered' });
     return res.status(500).json({ error: 'Register failed' });
@@ -537,11 +772,14 @@ app.post('/api/auth/register', async (req, res) => {
 // ---------- Courses persistence ----------
 
 // List all courses with modules and lectures
-app.get('/api/courses', async (req, res) => {
+app.get('/api/courses', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    const list = await db.collection('courses').find({}).sort({ createdAt: -1 }).toArray();
+    let list = await db.collection('courses').find({}).sort({ createdAt: -1 }).toArray();
+    const mySections = new Map();
+    if (req.user.role === 'student') {
+      (await db.collection('enrollments').find({ userId: req.user._id.toString() }).toArray()).forEach(e => mySections.set(e.courseId, e.sectionId));
+      list = list.filter(c => listedInCatalog(c, mySections.has(courseKey(c))));
+    }
     console.log(`[Courses] GET list -> ${list.length} item(s)`);
     // normalize _id to id
     const out = list.map(c => ({
@@ -549,12 +787,19 @@ app.get('/api/courses', async (req, res) => {
       title: c.title,
       creatorId: c.creatorId ? c.creatorId.toString() : undefined,
       description: c.description,
+      enrollmentPolicy: enrollmentPolicy(c),
+      sections: courseSections(c).map(sec => ({ id: sec.id, name: sec.name })),
+      mySectionId: mySections.get(courseKey(c)) || undefined,
+      // Set on courses the signed-in teacher assists with rather than owns
+      teachingSectionIds: req.user.role === 'teacher' && !ownsCourse(req.user, c) && taSectionIds(req.user, c).length ? taSectionIds(req.user, c) : undefined,
       modules: (c.modules || []).map(m => ({
         id: m.id,
         title: m.title,
         description: m.description,
         topics: m.topics || [],
         lectures: (m.lectures || []),
+        quizSettings: !m.quizSettings ? undefined
+          : req.user.role === 'student' ? getQuizSettings(m, mySections.get(courseKey(c))) : m.quizSettings,
       })),
       createdAt: c.createdAt,
     }));
@@ -566,10 +811,9 @@ app.get('/api/courses', async (req, res) => {
 });
 
 // Create a course (teacher only). Accepts { id?, title, modules }
-app.post('/api/courses', async (req, res) => {
+app.post('/api/courses', requireRole('teacher'), async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user || user.role !== 'teacher') return res.status(403).json({ error: 'Forbidden' });
+    const { user } = req;
     const { id, title, modules, description } = req.body || {};
     if (!title || !Array.isArray(modules)) return res.status(400).json({ error: 'Invalid payload' });
     console.log('[Courses] CREATE request by', user?._id?.toString?.(), 'title=', title, 'modules=', Array.isArray(modules) ? modules.length : 0);
@@ -592,20 +836,16 @@ app.post('/api/courses', async (req, res) => {
 });
 
 // Add a lecture to a module
-app.post('/api/courses/:courseId/modules/:moduleId/lectures', async (req, res) => {
+app.post('/api/courses/:courseId/modules/:moduleId/lectures', requireCourseOwner, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    const { courseId, moduleId } = req.params;
     const lecture = req.body || {};
     if (!lecture?.id || !lecture?.title || !Array.isArray(lecture?.slides) || !Array.isArray(lecture?.quiz)) {
       return res.status(400).json({ error: 'Invalid lecture' });
     }
-    const r = await db.collection('courses').updateOne(
-      { $or: [{ id: courseId }, { _id: new ObjectId(courseId).catch?.(() => undefined) }], 'modules.id': moduleId },
+    await db.collection('courses').updateOne(
+      { _id: req.course._id, 'modules.id': req.mod.id },
       { $push: { 'modules.$.lectures': { $each: [lecture], $position: 0 } } }
     );
-    if (r.matchedCount === 0) return res.status(404).json({ error: 'Course/module not found' });
     return res.json({ success: true });
   } catch (e) {
     console.error('Add lecture error:', e);
@@ -614,29 +854,450 @@ app.post('/api/courses/:courseId/modules/:moduleId/lectures', async (req, res) =
 });
 
 // Delete a lecture
-app.delete('/api/courses/:courseId/modules/:moduleId/lectures/:lectureId', async (req, res) => {
-  try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    const { courseId, moduleId, lectureId } = req.params;
-    const r = await db.collection('courses').updateOne(
-      { $or: [{ id: courseId }, { _id: new ObjectId(courseId).catch?.(() => undefined) }], 'modules.id': moduleId },
-      { $pull: { 'modules.$.lectures': { id: lectureId } } }
+app.delete('/api/courses/:courseId/modules/:moduleId/lectures/:lectureId', requireCourseOwner, async (req, res) => {
+  try {
+    await db.collection('courses').updateOne(
+      { _id: req.course._id, 'modules.id': req.mod.id },
+      { $pull: { 'modules.$.lectures': { id: req.params.lectureId } } }
     );
-    if (r.matchedCount === 0) return res.status(404).json({ error: 'Course/module not found' });
     return res.json({ success: true });
   } catch (e) {
     console.error('Delete lecture error:', e);
     return res.status(500).json({ error: 'Failed to delete lecture' });
   }
 });
-// Admin-only endpoint to create teacher accounts
-app.post('/api/admin/create-teacher', async (req, res) => {
+// -------- Enrollment policies ---------
+// Each course chooses how students get in (see enrollment.js): from the catalog through
+// POST /api/enrollments, with a join code (POST /api/enrollments/join { code }) or by following an
+// invite link, APP_BASE_URL/?join=<token>. Codes and links are kept in enrollment_codes and work
+// until revoked. Teachers and bulk imports enroll students directly, whatever the policy.
+
+function toEnrollmentCode(doc) {
+  return {
+    id: doc._id.toString(),
+    kind: doc.kind,
+    code: doc.code,
+    url: doc.kind === 'link' ? `${APP_BASE_URL}/?join=${doc.code}` : undefined,
+    sectionId: doc.sectionId || undefined,
+    uses: doc.uses || 0,
+    createdAt: doc.createdAt,
+    revokedAt: doc.revokedAt || undefined,
+  };
+}
+
+app.patch('/api/courses/:courseId/enrollment-policy', requireCourseOwner, async (req, res) => {
+  try {
+    const { policy } = req.body || {};
+    if (!ENROLLMENT_POLICIES.includes(policy)) return res.status(400).json({ error: `policy must be one of ${ENROLLMENT_POLICIES.join(', ')}` });
+    await db.collection('courses').updateOne({ _id: req.course._id }, { $set: { enrollmentPolicy: policy } });
+    return res.json({ policy });
+  } catch (e) {
+    console.error('Update enrollment policy error:', e);
+    return res.status(500).json({ error: 'Failed to update enrollment policy' });
+  }
+});
+
+app.get('/api/courses/:courseId/enrollment-codes', requireCourseOwner, async (req, res) => {
+  try {
+    const codes = await db.collection('enrollment_codes').find({ courseId: courseKey(req.course) }).sort({ createdAt: -1 }).toArray();
+    return res.json({ codes: codes.map(toEnrollmentCode) });
+  } catch (e) {
+    console.error('List enrollment codes error:', e);
+    return res.status(500).json({ error: 'Failed to list join codes' });
+  }
+});
+
+// Generate a join code ({ kind: 'code' }) or an invite link ({ kind: 'link' }), optionally
+// placing everyone who uses it in one section ({ sectionId })
+app.post('/api/courses/:courseId/enrollment-codes', requireCourseOwner, async (req, res) => {
   try {
-    const secret = (req.headers['x-admin-secret'] || req.body?.secret || '').toString();
-    if (!ADMIN_SECRET || secret !== ADMIN_SECRET) {
+    const kind = req.body?.kind === 'link' ? 'link' : 'code';
+    const { sectionId, error } = enrollmentSection(req.course, req.body?.sectionId);
+    if (error) return res.status(400).json({ error });
+    // A fresh random code collides with an existing one only rarely; retry if it does
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const doc = { courseId: courseKey(req.course), kind, code: newEnrollmentCode(kind), ...(sectionId ? { sectionId } : {}), uses: 0, createdBy: req.user._id, createdAt: new Date() };
+      try {
+        const r = await db.collection('enrollment_codes').insertOne(doc);
+        return res.json({ code: toEnrollmentCode({ ...doc, _id: r.insertedId }) });
+      } catch (e) {
+        if (e?.code !== 11000) throw e;
+      }
+    }
+    return res.status(500).json({ error: 'Failed to generate a unique code' });
+  } catch (e) {
+    console.error('Create enrollment code error:', e);
+    return res.status(500).json({ error: 'Failed to create join code' });
+  }
+});
+
+// Revoked codes stay listed (with their use count) but no longer let anyone join
+app.delete('/api/courses/:courseId/enrollment-codes/:codeId', requireCourseOwner, async (req, res) => {
+  try {
+    let _id;
+    try { _id = new ObjectId(String(req.params.codeId)); } catch { return res.status(404).json({ error: 'Code not found' }); }
+    const updated = await db.collection('enrollment_codes').findOneAndUpdate(
+      { _id, courseId: courseKey(req.course) },
+      { $set: { revokedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) return res.status(404).json({ error: 'Code not found' });
+    return res.json({ code: toEnrollmentCode(updated) });
+  } catch (e) {
+    console.error('Revoke enrollment code error:', e);
+    return res.status(500).json({ error: 'Failed to revoke join code' });
+  }
+});
+
+// Join with a code ({ code }) or the token from an invite link ({ invite })
+app.post('/api/enrollments/join', requireRole('student'), rateLimit('enrollment_join'), async (req, res) => {
+  try {
+    const { user } = req;
+    const { code, invite } = req.body || {};
+    const kind = invite ? 'link' : 'code';
+    const value = invite ? String(invite).trim().toLowerCase() : normalizeJoinCode(code);
+    if (!value) return res.status(400).json({ error: 'Enter a join code' });
+    const entry = await db.collection('enrollment_codes').findOne({ kind, code: value, revokedAt: { $exists: false } });
+    const course = entry && await findCourse(entry.courseId);
+    if (!course) {
+      return res.status(404).json({ error: kind === 'link' ? 'This invite link is no longer valid' : 'That join code is not valid or has been revoked' });
+    }
+    const refusal = joinRefusal(course, kind);
+    if (refusal) return res.status(403).json({ error: refusal });
+    // Codes made before the course was split into sections do not say where the student belongs
+    if (enrollmentSection(course, entry.sectionId).error) {
+      return res.status(409).json({ error: `This ${kind === 'link' ? 'invite link' : 'join code'} is not tied to a section of ${course.title}. Ask your teacher for a new one.` });
+    }
+    const enrolled = await enrollStudent(user._id, entry.courseId, entry.sectionId);
+    if (enrolled) await db.collection('enrollment_codes').updateOne({ _id: entry._id }, { $inc: { uses: 1 } });
+    await db.collection('enrollment_requests').deleteOne({ userId: user._id.toString(), courseId: entry.courseId, status: 'pending' });
+    return res.json({ courseId: entry.courseId, title: course.title, enrolled });
+  } catch (e) {
+    console.error('Join course error:', e);
+    return res.status(500).json({ error: 'Failed to join course' });
+  }
+});
+
+// Pending requests across the signed-in teacher's courses, oldest first
+app.get('/api/enrollment-requests', requireRole('teacher'), async (req, res) => {
+  try {
+    const courses = (await db.collection('courses').find({}, { projection: { _id: 1, id: 1, title: 1, creatorId: 1, sections: 1 } }).toArray())
+      .filter(c => ownsCourse(req.user, c));
+    const titles = new Map(courses.map(c => [courseKey(c), c.title]));
+    const sectionNames = new Map(courses.flatMap(c => courseSections(c).map(sec => [sec.id, sec.name])));
+    const requests = await db.collection('enrollment_requests')
+      .find({ courseId: { $in: [...titles.keys()] }, status: 'pending' })
+      .sort({ createdAt: 1 })
+      .toArray();
+    const userIds = requests.map(r => { try { return new ObjectId(r.userId); } catch { return null; } }).filter(Boolean);
+    const users = new Map((await db.collection('users').find({ _id: { $in: userIds } }, { projection: { name: 1, email: 1 } }).toArray())
+      .map(u => [u._id.toString(), u]));
+    return res.json({
+      requests: requests.filter(r => users.has(r.userId)).map(r => ({
+        id: r._id.toString(),
+        courseId: r.courseId,
+        courseTitle: titles.get(r.courseId),
+        sectionId: r.sectionId || undefined,
+        sectionName: r.sectionId ? sectionNames.get(r.sectionId) : undefined,
+        userId: r.userId,
+        name: users.get(r.userId).name,
+        email: users.get(r.userId).email,
+        message: r.message || undefined,
+        createdAt: r.createdAt,
+      })),
+    });
+  } catch (e) {
+    console.error('List enrollment requests error:', e);
+    return res.status(500).json({ error: 'Failed to list enrollment requests' });
+  }
+});
+
+// Approve ({ approve: true }) or deny a pending request for one of the teacher's courses
+app.post('/api/enrollment-requests/:requestId', requireRole('teacher'), async (req, res) => {
+  try {
+    let _id;
+    try { _id = new ObjectId(String(req.params.requestId)); } catch { return res.status(404).json({ error: 'Request not found' }); }
+    const request = await db.collection('enrollment_requests').findOne({ _id, status: 'pending' });
+    const course = request && await findCourse(request.courseId);
+    if (!course) return res.status(404).json({ error: 'Request not found' });
+    if (!ownsCourse(req.user, course)) return res.status(403).json({ error: 'Forbidden' });
+    const status = req.body?.approve ? 'approved' : 'denied';
+    if (status === 'approved') {
+      // The teacher may pick the section, e.g. when the requested one has been deleted since
+      const { sectionId, error } = enrollmentSection(course, req.body?.sectionId || request.sectionId);
+      if (error) return res.status(400).json({ error: error === 'Unknown section' ? error : 'Choose a section for this student' });
+      await enrollStudent(request.userId, request.courseId, sectionId);
+    }
+    await db.collection('enrollment_requests').updateOne({ _id }, { $set: { status, decidedBy: req.user._id, decidedAt: new Date() } });
+    return res.json({ status });
+  } catch (e) {
+    console.error('Decide enrollment request error:', e);
+    return res.status(500).json({ error: 'Failed to update enrollment request' });
+  }
+});
+
+// -------- Course sections ---------
+// A course can run as several sections (cohorts) in parallel. course.sections holds
+// { id, name, taIds } and an enrollment may carry a sectionId. Students land in a section through
+// that section's join code or invite link, by picking one when they enroll, or when the teacher
+// moves them; otherwise they are unassigned. TAs are teacher accounts with access to the
+// analytics, gradebook and roster of their own sections only (requireCourseStaff).
+
+const SECTION_NAME_MAX = 80;
+
+// The section a new enrollment goes into: { sectionId } (undefined for a course without sections)
+// or { error }. A course with sections needs one, otherwise the student would be outside every
+// TA's view until the teacher moved them.
+function enrollmentSection(course, sectionId) {
+  if (sectionId && !findSection(course, sectionId)) return { error: 'Unknown section' };
+  if (!sectionId && courseSections(course).length) return { error: 'Choose a section for this course' };
+  return { sectionId: sectionId ? String(sectionId) : undefined };
+}
+
+// Students enrolled in the given sections, as ObjectIds to match quiz_attempts.userId
+async function scopedStudentIds(courseId, sectionIds) {
+  const enrollments = await db.collection('enrollments').find({ courseId, sectionId: { $in: sectionIds } }, { projection: { userId: 1 } }).toArray();
+  return enrollments.map(e => { try { return new ObjectId(String(e.userId)); } catch { return null; } }).filter(Boolean);
+}
+
+const publicTa = (u) => ({ id: u._id.toString(), name: u.name, email: u.email });
+
+// Sections with their TAs and head counts; TAs only get their own sections
+app.get('/api/courses/:courseId/sections', requireCourseStaff, async (req, res) => {
+  try {
+    const courseId = courseKey(req.course);
+    const sections = courseSections(req.course).filter(sec => !req.taSectionIds || req.taSectionIds.includes(sec.id));
+    const counts = new Map((await db.collection('enrollments').aggregate([
+      { $match: { courseId } },
+      { $group: { _id: '$sectionId', count: { $sum: 1 } } },
+    ]).toArray()).map(g => [g._id || null, g.count]));
+    const taIds = sections.flatMap(sec => sec.taIds || []).map(id => { try { return new ObjectId(id); } catch { return null; } }).filter(Boolean);
+    const tas = new Map((await db.collection('users').find({ _id: { $in: taIds } }, { projection: { name: 1, email: 1 } }).toArray()).map(u => [u._id.toString(), publicTa(u)]));
+    return res.json({
+      sections: sections.map(sec => ({
+        id: sec.id,
+        name: sec.name,
+        tas: (sec.taIds || []).map(id => tas.get(id)).filter(Boolean),
+        students: counts.get(sec.id) || 0,
+      })),
+      unassigned: req.taSectionIds ? undefined : counts.get(null) || 0,
+    });
+  } catch (e) {
+    console.error('List sections error:', e);
+    return res.status(500).json({ error: 'Failed to list sections' });
+  }
+});
+
+app.post('/api/courses/:courseId/sections', requireCourseOwner, async (req, res) => {
+  try {
+    const name = String(req.body?.name || '').trim().slice(0, SECTION_NAME_MAX);
+    if (!name) return res.status(400).json({ error: 'Section name required' });
+    if (courseSections(req.course).some(sec => sec.name.toLowerCase() === name.toLowerCase())) {
+      return res.status(409).json({ error: 'A section with this name already exists' });
+    }
+    const section = { id: `sec-${crypto.randomBytes(6).toString('hex')}`, name, taIds: [], createdAt: new Date() };
+    await db.collection('courses').updateOne({ _id: req.course._id }, { $push: { sections: section } });
+    return res.json({ section: { id: section.id, name, tas: [], students: 0 } });
+  } catch (e) {
+    console.error('Create section error:', e);
+    return res.status(500).json({ error: 'Failed to create section' });
+  }
+});
+
+app.patch('/api/courses/:courseId/sections/:sectionId', requireCourseOwner, async (req, res) => {
+  try {
+    if (!findSection(req.course, req.params.sectionId)) return res.status(404).json({ error: 'Section not found' });
+    const name = String(req.body?.name || '').trim().slice(0, SECTION_NAME_MAX);
+    if (!name) return res.status(400).json({ error: 'Section name required' });
+    await db.collection('courses').updateOne({ _id: req.course._id, 'sections.id': req.params.sectionId }, { $set: { 'sections.$.name': name } });
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('Rename section error:', e);
+    return res.status(500).json({ error: 'Failed to rename section' });
+  }
+});
+
+// Its students become unassigned (they stay enrolled) and its join codes and links are revoked
+app.delete('/api/courses/:courseId/sections/:sectionId', requireCourseOwner, async (req, res) => {
+  try {
+    const section = findSection(req.course, req.params.sectionId);
+    if (!section) return res.status(404).json({ error: 'Section not found' });
+    const courseId = courseKey(req.course);
+    await db.collection('courses').updateOne({ _id: req.course._id }, { $pull: { sections: { id: section.id } } });
+    const moved = await db.collection('enrollments').updateMany({ courseId, sectionId: section.id }, { $unset: { sectionId: '' } });
+    await db.collection('enrollment_codes').updateMany({ courseId, sectionId: section.id, revokedAt: { $exists: false } }, { $set: { revokedAt: new Date() } });
+    await db.collection('enrollment_requests').updateMany({ courseId, sectionId: section.id }, { $unset: { sectionId: '' } });
+    if ((req.course.modules || []).length) {
+      await db.collection('courses').updateOne({ _id: req.course._id }, { $unset: { [`modules.$[].quizSettings.sectionOverrides.${section.id}`]: '' } });
+    }
+    return res.json({ success: true, unassigned: moved.modifiedCount });
+  } catch (e) {
+    console.error('Delete section error:', e);
+    return res.status(500).json({ error: 'Failed to delete section' });
+  }
+});
+
+// Assign a TA by the email of their teacher account
+app.post('/api/courses/:courseId/sections/:sectionId/tas', requireCourseOwner, async (req, res) => {
+  try {
+    if (!findSection(req.course, req.params.sectionId)) return res.status(404).json({ error: 'Section not found' });
+    const email = String(req.body?.email || '').trim().toLowerCase();
+    const ta = email && await db.collection('users').findOne({ email, role: 'teacher' }, { projection: { name: 1, email: 1, suspendedAt: 1 } });
+    if (!ta || ta.suspendedAt) return res.status(404).json({ error: 'No active teacher account with that email' });
+    if (ownsCourse({ _id: ta._id }, req.course)) return res.status(400).json({ error: 'The course owner already sees every section' });
+    await db.collection('courses').updateOne(
+      { _id: req.course._id, 'sections.id': req.params.sectionId },
+      { $addToSet: { 'sections.$.taIds': ta._id.toString() } }
+    );
+    return res.json({ ta: publicTa(ta) });
+  } catch (e) {
+    console.error('Assign TA error:', e);
+    return res.status(500).json({ error: 'Failed to assign TA' });
+  }
+});
+
+app.delete('/api/courses/:courseId/sections/:sectionId/tas/:userId', requireCourseOwner, async (req, res) => {
+  try {
+    if (!findSection(req.course, req.params.sectionId)) return res.status(404).json({ error: 'Section not found' });
+    await db.collection('courses').updateOne(
+      { _id: req.course._id, 'sections.id': req.params.sectionId },
+      { $pull: { 'sections.$.taIds': String(req.params.userId) } }
+    );
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('Remove TA error:', e);
+    return res.status(500).json({ error: 'Failed to remove TA' });
+  }
+});
+
+// Enrolled students with their section (?sectionId= filters; TAs see their sections only)
+app.get('/api/courses/:courseId/roster', requireCourseStaff, async (req, res) => {
+  try {
+    const scope = sectionScope(req, res);
+    if (scope === false) return;
+    const enrollments = await db.collection('enrollments').find({ courseId: courseKey(req.course), ...(scope ? { sectionId: { $in: scope } } : {}) }).toArray();
+    const userIds = enrollments.map(e => { try { return new ObjectId(String(e.userId)); } catch { return null; } }).filter(Boolean);
+    const users = new Map((await db.collection('users').find({ _id: { $in: userIds } }, { projection: { name: 1, email: 1 } }).toArray()).map(u => [u._id.toString(), u]));
+    const students = enrollments
+      .filter(e => users.has(String(e.userId)))
+      .map(e => ({ userId: String(e.userId), name: users.get(String(e.userId)).name, email: users.get(String(e.userId)).email, sectionId: e.sectionId || undefined }))
+      .sort((a, b) => String(a.name || '').localeCompare(String(b.name || '')));
+    return res.json({ students });
+  } catch (e) {
+    console.error('Roster error:', e);
+    return res.status(500).json({ error: 'Failed to load roster' });
+  }
+});
+
+// Move an enrolled student to another section ({ sectionId }), or unassign them ({ sectionId: null })
+app.patch('/api/courses/:courseId/enrollments/:userId', requireCourseOwner, async (req, res) => {
+  try {
+    const sectionId = req.body?.sectionId ? String(req.body.sectionId) : null;
+    if (sectionId && !findSection(req.course, sectionId)) return res.status(404).json({ error: 'Section not found' });
+    const r = await db.collection('enrollments').updateOne(
+      { courseId: courseKey(req.course), userId: String(req.params.userId) },
+      sectionId ? { $set: { sectionId } } : { $unset: { sectionId: '' } }
+    );
+    if (!r.matchedCount) return res.status(404).json({ error: 'Student is not enrolled in this course' });
+    return res.json({ success: true, sectionId });
+  } catch (e) {
+    console.error('Move student error:', e);
+    return res.status(500).json({ error: 'Failed to move student' });
+  }
+});
+
+// -------- Admin ---------
+// Admins are regular accounts with role 'admin' that sign in through /api/auth/login.
+// ADMIN_SECRET is only accepted once, to create the first admin.
+
+const ADMIN_AUDIT_PAGE_SIZE = 50;
+
+// Record an admin action (see auditEntry)
+async function audit(req, action, target = {}, details = {}) {
+  await db.collection('audit_log').insertOne(auditEntry(req, action, target, details));
+}
+
+const hasAdmin = async () => !!(await db.collection('users').findOne({ role: 'admin' }, { projection: { _id: 1 } }));
+
+// Whether the first admin still has to be created (drives the setup screen)
+app.get('/api/admin/status', async (req, res) => {
+  try {
+    return res.json({ bootstrapped: await hasAdmin(), secretConfigured: !!ADMIN_SECRET });
+  } catch (e) {
+    console.error('Admin status error:', e);
+    return res.status(500).json({ error: 'Failed to load admin status' });
+  }
+});
+
+// Create the first admin with the shared secret; refused once any admin exists
+app.post('/api/admin/bootstrap', async (req, res) => {
+  try {
+    const secret = (req.headers['x-admin-secret'] || '').toString();
+    if (!adminSecretMatches(secret, ADMIN_SECRET)) {
       return res.status(403).json({ error: 'Forbidden' });
     }
+    if (await hasAdmin()) return res.status(409).json({ error: 'An admin account already exists. Sign in instead.' });
+    const { name, email, password } = req.body || {};
+    if (!name || !email || !password || String(password).length < 8) {
+      return res.status(400).json({ error: 'Name, email and a password of at least 8 characters are required' });
+    }
+    const userDoc = { name, email: String(email).toLowerCase(), passwordHash: hashPassword(password), role: 'admin', createdAt: new Date() };
+    const r = await db.collection('users').insertOne(userDoc);
+    await audit(req, 'admin.bootstrap', { userId: r.insertedId, email: userDoc.email });
+    return res.json({ user: { id: r.insertedId.toString(), name, email: userDoc.email, role: userDoc.role } });
+  } catch (e) {
+    if (e?.code === 11000) return res.status(409).json({ error: 'Email already registered' });
+    console.error('Admin bootstrap error:', e);
+    return res.status(500).json({ error: 'Admin setup failed' });
+  }
+});
+
+// Most recent admin actions first; pass ?before=<createdAt> for the next page
+app.get('/api/admin/audit', requireRole('admin'), async (req, res) => {
+  try {
+    const before = req.query.before ? new Date(String(req.query.before)) : null;
+    const filter = before && !isNaN(before.getTime()) ? { createdAt: { $lt: before } } : {};
+    const entries = await db.collection('audit_log').find(filter).sort({ createdAt: -1 }).limit(ADMIN_AUDIT_PAGE_SIZE).toArray();
+    return res.json({
+      entries: entries.map(toAuditView),
+      hasMore: entries.length === ADMIN_AUDIT_PAGE_SIZE,
+    });
+  } catch (e) {
+    console.error('Admin audit log error:', e);
+    return res.status(500).json({ error: 'Failed to load audit log' });
+  }
+});
+
+// Which roles must use 2FA. Users of those roles without it are sent through enrollment at their next login.
+app.get('/api/admin/settings/security', requireRole('admin'), async (req, res) => {
+  try {
+    return res.json({ settings: await getSecuritySettings(), roles: TWO_FACTOR_ROLES });
+  } catch (e) {
+    console.error('Admin security settings error:', e);
+    return res.status(500).json({ error: 'Failed to load security settings' });
+  }
+});
+
+app.put('/api/admin/settings/security', requireRole('admin'), async (req, res) => {
+  try {
+    const roles = req.body?.require2faRoles;
+    if (!Array.isArray(roles) || roles.some(r => !TWO_FACTOR_ROLES.includes(r))) {
+      return res.status(400).json({ error: `require2faRoles must list roles from: ${TWO_FACTOR_ROLES.join(', ')}` });
+    }
+    const require2faRoles = [...new Set(roles)];
+    const before = await getSecuritySettings();
+    await db.collection('settings').updateOne({ _id: 'security' }, { $set: { require2faRoles, updatedAt: new Date() } }, { upsert: true });
+    await audit(req, 'settings.security', {}, { from: before.require2faRoles, to: require2faRoles });
+    return res.json({ settings: { require2faRoles } });
+  } catch (e) {
+    console.error('Admin security settings error:', e);
+    return res.status(500).json({ error: 'Failed to save security settings' });
+  }
+});
+
+// Create a teacher account
+app.post('/api/admin/create-teacher', requireRole('admin'), async (req, res) => {
+  try {
     const { name, email, password } = req.body || {};
     if (!name || !email || !password) {
       return res.status(400).json({ error: 'Invalid payload' });
@@ -644,6 +1305,7 @@ app.post('/api/admin/create-teacher', async (req, res) => {
     const passHash = hashPassword(password);
     const userDoc = { name, email: String(email).toLowerCase(), passwordHash: passHash, role: 'teacher', createdAt: new Date() };
     const r = await db.collection('users').insertOne(userDoc);
+    await audit(req, 'user.create', { userId: r.insertedId, email: userDoc.email }, { role: userDoc.role });
     return res.json({ user: { id: r.insertedId.toString(), name, email: userDoc.email, role: userDoc.role } });
   } catch (e) {
     if (e?.code === 11000) return res.status(409).json({ error: 'Email already registered' });
@@ -651,47 +1313,489 @@ app.post('/api/admin/create-teacher', async (req, res) => {
   }
 });
 
-app.post('/api/auth/login', async (req, res) => {
+// What a verified first factor (password or SSO) earns: a session, or a challenge for the second
+// step when 2FA is on or required for the role
+async function loginResponse(user, req) {
+  if (user.totp) return { mfaRequired: true, mfaToken: await createMfaChallenge(user, 'verify') };
+  if (await requiresTwoFactor(user)) return { mfaSetupRequired: true, mfaToken: await createMfaChallenge(user, 'setup') };
+  const session = await issueSession(user._id.toString(), req);
+  return { ...session, user: toPublicUser(user) };
+}
+
+app.post('/api/auth/login', rateLimit('login'), async (req, res) => {
   try {
     const { email, password } = req.body || {};
     if (!email || !password) return res.status(400).json({ error: 'Missing credentials' });
     const user = await db.collection('users').findOne({ email: String(email).toLowerCase() });
-    if (!user) return res.status(401).json({ error: 'Invalid email or password' });
+    // Invited users have no password until they accept the invite
+    if (!user || !user.passwordHash) return res.status(401).json({ error: 'Invalid email or password' });
+    // A locked account is refused before the password is checked, so guessing gains nothing
+    if (user.lockedUntil > new Date()) return tooManyRequests(res, secondsUntil(user.lockedUntil), 'Too many failed sign-in attempts');
     const ok = verifyPassword(password, user.passwordHash);
-    if (!ok) return res.status(401).json({ error: 'Invalid email or password' });
-    const token = await issueToken(user._id.toString());
-    return res.json({ token, user: { id: user._id.toString(), name: user.name, email: user.email, role: user.role } });
+    if (!ok) {
+      const lockedUntil = await recordLoginFailure(user);
+      if (lockedUntil) return tooManyRequests(res, secondsUntil(lockedUntil), 'Too many failed sign-in attempts');
+      return res.status(401).json({ error: 'Invalid email or password' });
+    }
+    if (user.loginFailures || user.lockedUntil) {
+      await db.collection('users').updateOne({ _id: user._id }, { $unset: { loginFailures: '', lockedUntil: '' } });
+    }
+    if (user.suspendedAt) return res.status(403).json({ error: 'This account is suspended. Contact an administrator.' });
+    return res.json(await loginResponse(user, req));
   } catch {
     return res.status(500).json({ error: 'Login failed' });
   }
 });
 
+// Exchange a refresh token for a new token pair; the old pair stops working (rotation)
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const refreshToken = String(req.body?.refreshToken || '');
+    if (!refreshToken) return res.status(400).json({ error: 'Missing refresh token' });
+    const session = await rotateSession(db.collection('sessions'), refreshToken, SESSION_TTL);
+    if (!session) return res.status(401).json({ error: 'Session expired' });
+    return res.json(toSessionView(session));
+  } catch (e) {
+    console.error('Refresh session error:', e);
+    return res.status(500).json({ error: 'Refresh failed' });
+  }
+});
+
+// Revoke the current session, or every session of the user with { allDevices: true }.
+// Also accepts the refresh token so a client whose access token already expired can still sign out.
+app.post('/api/auth/logout', async (req, res) => {
+  try {
+    const token = bearerToken(req);
+    const refreshToken = req.body?.refreshToken ? String(req.body.refreshToken) : null;
+    if (req.body?.allDevices) {
+      const user = await getUserFromAuth(req);
+      if (!user) return res.status(401).json({ error: 'Unauthorized' });
+      return res.json({ success: true, revoked: await revokeUserSessions(db.collection('sessions'), user._id) });
+    }
+    if (!token && !refreshToken) return res.status(400).json({ error: 'No session to revoke' });
+    return res.json({ success: true, revoked: await revokeSession(db.collection('sessions'), { token, refreshToken }) });
+  } catch (e) {
+    console.error('Logout error:', e);
+    return res.status(500).json({ error: 'Logout failed' });
+  }
+});
+
+// -------- Two-factor authentication ---------
+// TOTP per RFC 6238 (HMAC-SHA1, 30 s steps, 6 digits) with one-time recovery codes. Login answers
+// { mfaRequired, mfaToken } when 2FA is on, or { mfaSetupRequired, mfaToken } when the role requires
+// it but the user has not enrolled; the challenge token is then traded for a session below.
+
+const TOTP_ISSUER = process.env.TOTP_ISSUER || 'LumoAI';
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+const MFA_MAX_ATTEMPTS = 5;
+const RECOVERY_CODE_COUNT = 10;
+const TWO_FACTOR_ROLES = ['teacher', 'admin'];
+
+const hashRecoveryCode = (code) => crypto.createHash('sha256').update(String(code).toLowerCase().replace(/[^a-z0-9]/g, '')).digest('hex');
+const newRecoveryCodes = () => Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+  const raw = crypto.randomBytes(5).toString('hex');
+  return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+});
+
+async function getSecuritySettings() {
+  const doc = await db.collection('settings').findOne({ _id: 'security' });
+  return { require2faRoles: doc?.require2faRoles || [] };
+}
+
+async function requiresTwoFactor(user) {
+  const { require2faRoles } = await getSecuritySettings();
+  return require2faRoles.includes(user.role);
+}
+
+async function createMfaChallenge(user, purpose) {
+  const token = crypto.randomBytes(32).toString('hex');
+  await db.collection('mfa_challenges').insertOne({
+    token,
+    purpose,
+    userId: user._id,
+    attempts: 0,
+    createdAt: new Date(),
+    expiresAt: new Date(Date.now() + MFA_CHALLENGE_TTL_MS),
+  });
+  return token;
+}
+
+async function loadMfaChallenge(token, purpose) {
+  if (!token) return null;
+  return db.collection('mfa_challenges').findOne({ token: String(token), purpose, expiresAt: { $gt: new Date() } });
+}
+
+// The 2FA setup endpoints serve both a signed-in user and someone mid-login who must enroll first
+async function resolveMfaUser(req) {
+  if (req.body?.mfaToken) {
+    const challenge = await loadMfaChallenge(req.body.mfaToken, 'setup');
+    if (!challenge) return { error: 'Your sign-in attempt expired. Please log in again.' };
+    const user = await db.collection('users').findOne({ _id: challenge.userId });
+    return user ? { user, challenge } : { error: 'User not found' };
+  }
+  const user = await getUserFromAuth(req);
+  return user ? { user } : { error: 'Unauthorized', status: 401 };
+}
+
+// Second login step: a TOTP code or one unused recovery code
+app.post('/api/auth/login/2fa', async (req, res) => {
+  try {
+    const { mfaToken, code } = req.body || {};
+    const challenge = await loadMfaChallenge(mfaToken, 'verify');
+    if (!challenge) return res.status(400).json({ error: 'Your sign-in attempt expired. Please log in again.' });
+    if (challenge.attempts >= MFA_MAX_ATTEMPTS) {
+      await db.collection('mfa_challenges').deleteOne({ _id: challenge._id });
+      return res.status(400).json({ error: 'Too many incorrect codes. Please log in again.' });
+    }
+    const user = await db.collection('users').findOne({ _id: challenge.userId });
+    if (!user?.totp || user.suspendedAt) return res.status(400).json({ error: 'Your sign-in attempt expired. Please log in again.' });
+
+    let accepted = false;
+    const step = verifyTotp(user.totp.secret, code, user.totp.lastStep ?? -1);
+    if (step !== null) {
+      // Conditional on lastStep so the same code cannot be used twice, even concurrently
+      const r = await db.collection('users').updateOne(
+        { _id: user._id, 'totp.lastStep': user.totp.lastStep ?? null },
+        { $set: { 'totp.lastStep': step } }
+      );
+      accepted = r.modifiedCount === 1;
+    } else {
+      const r = await db.collection('users').updateOne(
+        { _id: user._id, recoveryCodes: hashRecoveryCode(code) },
+        { $pull: { recoveryCodes: hashRecoveryCode(code) } }
+      );
+      accepted = r.modifiedCount === 1;
+    }
+    if (!accepted) {
+      await db.collection('mfa_challenges').updateOne({ _id: challenge._id }, { $inc: { attempts: 1 } });
+      return res.status(400).json({ error: 'Invalid authentication code' });
+    }
+    await db.collection('mfa_challenges').deleteOne({ _id: challenge._id });
+    const session = await issueSession(user._id.toString(), req);
+    return res.json({ ...session, user: toPublicUser(user) });
+  } catch (e) {
+    console.error('2FA login error:', e);
+    return res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Start enrollment: a new secret (kept pending until confirmed) with its otpauth:// URI as a QR code
+app.post('/api/auth/2fa/setup', async (req, res) => {
+  try {
+    const { user, error, status } = await resolveMfaUser(req);
+    if (!user) return res.status(status || 400).json({ error });
+    if (user.totp) return res.status(409).json({ error: 'Two-factor authentication is already enabled' });
+    const secret = base32Encode(crypto.randomBytes(20));
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { totpPending: { secret, createdAt: new Date() } } });
+    const label = encodeURIComponent(`${TOTP_ISSUER}:${user.email}`);
+    const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_STEP_SECONDS}`;
+    const qrDataUrl = await QRCode.toDataURL(otpauthUrl);
+    return res.json({ secret, otpauthUrl, qrDataUrl });
+  } catch (e) {
+    console.error('2FA setup error:', e);
+    return res.status(500).json({ error: 'Failed to start two-factor setup' });
+  }
+});
+
+// Confirm enrollment with a code from the app. Returns the recovery codes (shown once) and,
+// when enrolling during login, the session as well.
+app.post('/api/auth/2fa/enable', async (req, res) => {
+  try {
+    const { user, challenge, error, status } = await resolveMfaUser(req);
+    if (!user) return res.status(status || 400).json({ error });
+    if (!user.totpPending) return res.status(400).json({ error: 'Start two-factor setup first' });
+    const step = verifyTotp(user.totpPending.secret, req.body?.code);
+    if (step === null) return res.status(400).json({ error: 'Invalid authentication code' });
+    const recoveryCodes = newRecoveryCodes();
+    await db.collection('users').updateOne(
+      { _id: user._id },
+      {
+        $set: { totp: { secret: user.totpPending.secret, enabledAt: new Date(), lastStep: step }, recoveryCodes: recoveryCodes.map(hashRecoveryCode) },
+        $unset: { totpPending: '' },
+      }
+    );
+    const enabled = { ...user, totp: { secret: user.totpPending.secret } };
+    if (!challenge) return res.json({ recoveryCodes, user: toPublicUser(enabled) });
+    await db.collection('mfa_challenges').deleteOne({ _id: challenge._id });
+    const session = await issueSession(user._id.toString(), req);
+    return res.json({ recoveryCodes, ...session, user: toPublicUser(enabled) });
+  } catch (e) {
+    console.error('2FA enable error:', e);
+    return res.status(500).json({ error: 'Failed to enable two-factor authentication' });
+  }
+});
+
+// Turn 2FA off with the password and a current code; not allowed when the role requires it
+app.post('/api/auth/2fa/disable', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    const { password, code } = req.body || {};
+    if (!user.totp) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    if (await requiresTwoFactor(user)) return res.status(403).json({ error: 'Two-factor authentication is required for your role' });
+    if (!user.passwordHash) return res.status(400).json({ error: NO_PASSWORD_ERROR });
+    if (!password || !verifyPassword(password, user.passwordHash)) return res.status(400).json({ error: 'Password is incorrect' });
+    if (verifyTotp(user.totp.secret, code, user.totp.lastStep ?? -1) === null) return res.status(400).json({ error: 'Invalid authentication code' });
+    await db.collection('users').updateOne({ _id: user._id }, { $unset: { totp: '', totpPending: '', recoveryCodes: '' } });
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('2FA disable error:', e);
+    return res.status(500).json({ error: 'Failed to disable two-factor authentication' });
+  }
+});
+
+// Replace all recovery codes; needs a current code
+app.post('/api/auth/2fa/recovery-codes', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    if (!user.totp) return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+    const step = verifyTotp(user.totp.secret, req.body?.code, user.totp.lastStep ?? -1);
+    if (step === null) return res.status(400).json({ error: 'Invalid authentication code' });
+    const recoveryCodes = newRecoveryCodes();
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { recoveryCodes: recoveryCodes.map(hashRecoveryCode), 'totp.lastStep': step } });
+    return res.json({ recoveryCodes });
+  } catch (e) {
+    console.error('2FA recovery codes error:', e);
+    return res.status(500).json({ error: 'Failed to regenerate recovery codes' });
+  }
+});
+
 // Authenticated user can change their own password
-app.post('/api/auth/change-password', async (req, res) => {
+app.post('/api/auth/change-password', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    const { user } = req;
     const { oldPassword, newPassword } = req.body || {};
     if (!oldPassword || !newPassword || String(newPassword).length < 8) {
       return res.status(400).json({ error: 'Invalid payload' });
     }
+    if (!user.passwordHash) return res.status(400).json({ error: NO_PASSWORD_ERROR });
     const ok = verifyPassword(oldPassword, user.passwordHash);
-    if (!ok) return res.status(401).json({ error: 'Old password is incorrect' });
+    // 400 rather than 401: the session is fine, so clients should not treat this as a sign-out
+    if (!ok) return res.status(400).json({ error: 'Old password is incorrect' });
     const newHash = hashPassword(newPassword);
-    await db.collection('users').updateOne({ _id: user._id }, { $set: { passwordHash: newHash } });
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { passwordHash: newHash }, $unset: { mustChangePassword: '' } });
     return res.json({ success: true });
   } catch {
     return res.status(500).json({ error: 'Change password failed' });
   }
 });
 
-// Admin can reset any user's password (e.g., set a temporary password)
-app.post('/api/admin/reset-password', async (req, res) => {
+// -------- Password reset ---------
+// Forgot-password issues a single-use token (stored hashed) and mails a link to the client's
+// ?reset=<token> screen. The response never reveals whether the email has an account.
+
+const hashResetToken = (token) => crypto.createHash('sha256').update(String(token)).digest('hex');
+const escapeHtml = (value) => String(value).replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]));
+
+app.post('/api/auth/forgot-password', rateLimit('forgot_password'), async (req, res) => {
   try {
-    const secret = (req.headers['x-admin-secret'] || req.body?.secret || '').toString();
-    if (!ADMIN_SECRET || secret !== ADMIN_SECRET) {
-      return res.status(403).json({ error: 'Forbidden' });
+    const email = String(req.body?.email || '').trim().toLowerCase();
+    if (!email) return res.status(400).json({ error: 'Email is required' });
+    const user = await db.collection('users').findOne({ email });
+    if (user && !user.suspendedAt) {
+      const token = crypto.randomBytes(32).toString('hex');
+      const now = new Date();
+      await db.collection('password_resets').insertOne({
+        tokenHash: hashResetToken(token),
+        userId: user._id,
+        createdAt: now,
+        expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+        usedAt: null,
+        ip: req.ip || null,
+      });
+      const link = `${APP_BASE_URL}/?reset=${token}`;
+      const minutes = Math.round(PASSWORD_RESET_TTL_MS / 60000);
+      await mailer.send({
+        to: user.email,
+        subject: 'Reset your LumoAI password',
+        text: `Hi ${user.name},\n\nUse this link to choose a new password. It works once and expires in ${minutes} minutes:\n\n${link}\n\nIf you did not ask for this, you can ignore this email.`,
+        html: `<p>Hi ${escapeHtml(user.name)},</p><p>Use this link to choose a new password. It works once and expires in ${minutes} minutes:</p><p><a href="${link}">Reset password</a></p><p>If you did not ask for this, you can ignore this email.</p>`,
+      });
+    }
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('Forgot password error:', e);
+    return res.status(500).json({ error: 'Could not send the reset email' });
+  }
+});
+
+// Redeem a reset token: sets the password, burns every outstanding token and signs out all devices
+app.post('/api/auth/reset-password', async (req, res) => {
+  try {
+    const { token, password } = req.body || {};
+    if (!token || !password || String(password).length < 8) {
+      return res.status(400).json({ error: 'Reset token and a password of at least 8 characters are required' });
     }
+    const now = new Date();
+    const reset = await db.collection('password_resets').findOneAndUpdate(
+      { tokenHash: hashResetToken(token), usedAt: null, expiresAt: { $gt: now } },
+      { $set: { usedAt: now } }
+    );
+    if (!reset) return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    const r = await db.collection('users').updateOne(
+      { _id: reset.userId, suspendedAt: null },
+      { $set: { passwordHash: hashPassword(password) }, $unset: { mustChangePassword: '', invite: '', loginFailures: '', lockedUntil: '' } }
+    );
+    if (!r.matchedCount) return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+    await db.collection('password_resets').deleteMany({ userId: reset.userId, usedAt: null });
+    await db.collection('sessions').deleteMany({ userId: reset.userId });
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('Reset password error:', e);
+    return res.status(500).json({ error: 'Reset password failed' });
+  }
+});
+
+// -------- Single sign-on (OpenID Connect) ---------
+// Authorization code flow with PKCE against OIDC_ISSUER. The browser goes /oidc/start -> IdP ->
+// /oidc/callback, which verifies the ID token and sends the browser back to the client with a
+// one-time ?sso=<code>; the client trades that at /oidc/exchange for the same response as a
+// password login (so 2FA still applies). Users are matched by issuer + subject, then linked to an
+// existing account by verified email, otherwise created with the role mapped from OIDC_ROLE_CLAIM
+// through OIDC_ROLE_MAP, e.g. "faculty=teacher,staff=teacher,student=student". To try it locally,
+// run `npm run mock-oidc` and point OIDC_ISSUER at it.
+
+const OIDC = {
+  issuer: (process.env.OIDC_ISSUER || '').replace(/\/+$/, ''),
+  clientId: process.env.OIDC_CLIENT_ID || '',
+  clientSecret: process.env.OIDC_CLIENT_SECRET || '',
+  redirectUri: process.env.OIDC_REDIRECT_URI || `${APP_BASE_URL}/api/auth/oidc/callback`,
+  scopes: process.env.OIDC_SCOPES || 'openid email profile',
+  providerName: process.env.OIDC_PROVIDER_NAME || 'Institution SSO',
+  // Dotted paths reach nested claims, e.g. realm_access.roles
+  roleClaim: process.env.OIDC_ROLE_CLAIM || '',
+  roleMap: parseRoleMap(process.env.OIDC_ROLE_MAP || ''),
+  defaultRole: process.env.OIDC_DEFAULT_ROLE === 'teacher' ? 'teacher' : 'student',
+};
+const OIDC_STATE_TTL_MS = 10 * 60 * 1000;
+const OIDC_METADATA_TTL_MS = 60 * 60 * 1000;
+
+const oidcEnabled = () => !!(OIDC.issuer && OIDC.clientId);
+
+const ssoFailed = (res, message) => res.redirect(`${APP_BASE_URL}/?sso_error=${encodeURIComponent(message)}`);
+
+async function fetchJson(url, init) {
+  const r = await fetch(url, init);
+  const data = await r.json().catch(() => ({}));
+  if (!r.ok) throw new Error(`${url} answered ${r.status}${data?.error ? ` (${data.error})` : ''}`);
+  return data;
+}
+
+let oidcMetadata = null;
+let oidcJwks = null;
+
+async function getOidcMetadata() {
+  if (!oidcMetadata || Date.now() - oidcMetadata.fetchedAt > OIDC_METADATA_TTL_MS) {
+    const value = await fetchJson(`${OIDC.issuer}/.well-known/openid-configuration`);
+    if (String(value.issuer || '').replace(/\/+$/, '') !== OIDC.issuer) throw new Error('Discovery document is for a different issuer');
+    oidcMetadata = { value, fetchedAt: Date.now() };
+  }
+  return oidcMetadata.value;
+}
+
+// The JWK for a key id; the key set is fetched again once when the IdP has rotated keys
+async function getOidcKey(kid) {
+  const metadata = await getOidcMetadata();
+  for (const refresh of [false, true]) {
+    if (refresh || !oidcJwks || Date.now() - oidcJwks.fetchedAt > OIDC_METADATA_TTL_MS) {
+      oidcJwks = { keys: (await fetchJson(metadata.jwks_uri)).keys || [], fetchedAt: Date.now() };
+    }
+    const jwk = oidcJwks.keys.find(k => !kid || k.kid === kid);
+    if (jwk) return jwk;
+  }
+  throw new Error('ID token is signed with an unknown key');
+}
+
+// Whether to show the SSO button, and its label
+app.get('/api/auth/oidc/config', (req, res) => {
+  return res.json({ enabled: oidcEnabled(), name: OIDC.providerName });
+});
+
+app.get('/api/auth/oidc/start', rateLimit('login'), async (req, res) => {
+  try {
+    if (!oidcEnabled()) return ssoFailed(res, 'Single sign-on is not configured');
+    const metadata = await getOidcMetadata();
+    const state = crypto.randomBytes(16).toString('hex');
+    const nonce = crypto.randomBytes(16).toString('hex');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+    const now = new Date();
+    await db.collection('oidc_states').insertOne({ state, nonce, codeVerifier, createdAt: now, expiresAt: new Date(now.getTime() + OIDC_STATE_TTL_MS) });
+    const url = new URL(metadata.authorization_endpoint);
+    Object.entries({
+      response_type: 'code',
+      client_id: OIDC.clientId,
+      redirect_uri: OIDC.redirectUri,
+      scope: OIDC.scopes,
+      state,
+      nonce,
+      code_challenge: crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      code_challenge_method: 'S256',
+    }).forEach(([key, value]) => url.searchParams.set(key, value));
+    return res.redirect(url.toString());
+  } catch (e) {
+    console.error('OIDC start error:', e);
+    return ssoFailed(res, 'Single sign-on is unavailable right now');
+  }
+});
+
+app.get('/api/auth/oidc/callback', async (req, res) => {
+  try {
+    if (!oidcEnabled()) return ssoFailed(res, 'Single sign-on is not configured');
+    const { code, state, error, error_description: description } = req.query;
+    if (error) return ssoFailed(res, String(description || error));
+    // Each state is single-use, which also stops replayed callbacks
+    const pending = await db.collection('oidc_states').findOneAndDelete({ state: String(state || ''), expiresAt: { $gt: new Date() } });
+    if (!pending || !code) return ssoFailed(res, 'Your sign-in attempt expired. Please try again.');
+
+    const metadata = await getOidcMetadata();
+    const headers = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+    if (OIDC.clientSecret) {
+      headers.Authorization = `Basic ${Buffer.from(`${encodeURIComponent(OIDC.clientId)}:${encodeURIComponent(OIDC.clientSecret)}`).toString('base64')}`;
+    }
+    const tokens = await fetchJson(metadata.token_endpoint, {
+      method: 'POST',
+      headers,
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code: String(code),
+        redirect_uri: OIDC.redirectUri,
+        client_id: OIDC.clientId,
+        code_verifier: pending.codeVerifier,
+      }),
+    });
+    let claims = await verifyIdToken(tokens.id_token, pending.nonce, OIDC, getOidcKey);
+    // Some IdPs only release email or group claims through userinfo
+    const missingClaims = !claims.email || (OIDC.roleClaim && claimAt(claims, OIDC.roleClaim) === undefined);
+    if (missingClaims && metadata.userinfo_endpoint && tokens.access_token) {
+      const info = await fetchJson(metadata.userinfo_endpoint, { headers: { Authorization: `Bearer ${tokens.access_token}` } });
+      if (String(info.sub) === String(claims.sub)) claims = { ...info, ...claims };
+    }
+
+    const user = await resolveSsoUser(db.collection('users'), claims, OIDC);
+    if (user.suspendedAt) return ssoFailed(res, 'This account is suspended. Contact an administrator.');
+    const handoff = await createMfaChallenge(user, 'sso');
+    return res.redirect(`${APP_BASE_URL}/?sso=${handoff}`);
+  } catch (e) {
+    console.error('OIDC callback error:', e);
+    return ssoFailed(res, e.userMessage || 'Single sign-on failed');
+  }
+});
+
+// Trade the one-time ?sso= code for a session (or a 2FA challenge), like a password login
+app.post('/api/auth/oidc/exchange', async (req, res) => {
+  try {
+    const handoff = await db.collection('mfa_challenges').findOneAndDelete({ token: String(req.body?.code || ''), purpose: 'sso', expiresAt: { $gt: new Date() } });
+    const user = handoff && await db.collection('users').findOne({ _id: handoff.userId });
+    if (!user || user.suspendedAt) return res.status(400).json({ error: 'Your sign-in attempt expired. Please try again.' });
+    return res.json(await loginResponse(user, req));
+  } catch (e) {
+    console.error('OIDC exchange error:', e);
+    return res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// Set a temporary password and sign the user out everywhere
+app.post('/api/admin/reset-password', requireRole('admin'), async (req, res) => {
+  try {
     const { email, newPassword } = req.body || {};
     if (!email || !newPassword || String(newPassword).length < 8) {
       return res.status(400).json({ error: 'Invalid payload' });
@@ -699,14 +1803,323 @@ app.post('/api/admin/reset-password', async (req, res) => {
     const user = await db.collection('users').findOne({ email: String(email).toLowerCase() });
     if (!user) return res.status(404).json({ error: 'User not found' });
     const newHash = hashPassword(newPassword);
-    await db.collection('users').updateOne({ _id: user._id }, { $set: { passwordHash: newHash } });
+    await db.collection('users').updateOne({ _id: user._id }, { $set: { passwordHash: newHash }, $unset: { loginFailures: '', lockedUntil: '' } });
+    await db.collection('sessions').deleteMany({ userId: user._id });
+    await audit(req, 'user.reset_password', { userId: user._id, email: user.email });
     return res.json({ success: true });
   } catch {
     return res.status(500).json({ error: 'Reset password failed' });
   }
 });
 
-app.post('/api/pdf-explainer/start', upload.single('file'), async (req, res) => {
+// -------- Admin: user management ---------
+
+const ADMIN_USERS_MAX_PAGE_SIZE = 100;
+const ASSIGNABLE_ROLES = ['student', 'teacher'];
+
+const toAdminUser = (u) => ({
+  id: u._id.toString(),
+  name: u.name,
+  email: u.email,
+  role: u.role,
+  suspended: !!u.suspendedAt,
+  suspendedAt: u.suspendedAt || null,
+  twoFactorEnabled: !!u.totp,
+  lockedUntil: u.lockedUntil > new Date() ? u.lockedUntil : null,
+  createdAt: u.createdAt || null,
+});
+
+// Resolve :userId for the handlers below. Admins may not suspend, re-role or delete themselves.
+async function loadTargetUser(req, res) {
+  let userId;
+  try { userId = new ObjectId(String(req.params.userId)); } catch { res.status(404).json({ error: 'User not found' }); return null; }
+  const target = await db.collection('users').findOne({ _id: userId });
+  if (!target) { res.status(404).json({ error: 'User not found' }); return null; }
+  if (target._id.equals(req.user._id)) { res.status(400).json({ error: 'You cannot change your own account here' }); return null; }
+  return target;
+}
+
+// Search by name or email, newest first
+app.get('/api/admin/users', requireRole('admin'), async (req, res) => {
+  try {
+    const page = Math.max(1, parseInt(String(req.query.page || '1'), 10) || 1);
+    const pageSize = Math.min(ADMIN_USERS_MAX_PAGE_SIZE, Math.max(1, parseInt(String(req.query.pageSize || '20'), 10) || 20));
+    const filter = {};
+    const q = String(req.query.q || '').trim();
+    if (q) {
+      const regex = new RegExp(q.replace(/[-/\\^$*+?.()|[\]{}]/g, '\\$&'), 'i');
+      filter.$or = [{ name: regex }, { email: regex }];
+    }
+    if (req.query.role) filter.role = String(req.query.role);
+    if (req.query.status === 'suspended') filter.suspendedAt = { $ne: null };
+    if (req.query.status === 'active') filter.suspendedAt = null;
+    const [users, total] = await Promise.all([
+      db.collection('users').find(filter, { projection: { passwordHash: 0 } }).sort({ createdAt: -1, _id: -1 }).skip((page - 1) * pageSize).limit(pageSize).toArray(),
+      db.collection('users').countDocuments(filter),
+    ]);
+    return res.json({ users: users.map(toAdminUser), total, page, pageSize });
+  } catch (e) {
+    console.error('Admin list users error:', e);
+    return res.status(500).json({ error: 'Failed to list users' });
+  }
+});
+
+// Suspend blocks sign-in and revokes every session; { suspended: false } lifts it
+app.post('/api/admin/users/:userId/suspend', requireRole('admin'), async (req, res) => {
+  try {
+    const target = await loadTargetUser(req, res);
+    if (!target) return;
+    const suspended = req.body?.suspended !== false;
+    const { user, revokedSessions } = await setSuspended(db, target._id, suspended);
+    await audit(req, suspended ? 'user.suspend' : 'user.unsuspend', { userId: target._id, email: target.email }, suspended ? { revokedSessions } : {});
+    return res.json({ user: toAdminUser(user), revokedSessions });
+  } catch (e) {
+    console.error('Admin suspend user error:', e);
+    return res.status(500).json({ error: 'Failed to update suspension' });
+  }
+});
+
+// For users who lost both their authenticator and recovery codes; they re-enroll at next login if required
+app.post('/api/admin/users/:userId/reset-2fa', requireRole('admin'), async (req, res) => {
+  try {
+    const target = await loadTargetUser(req, res);
+    if (!target) return;
+    const updated = await db.collection('users').findOneAndUpdate(
+      { _id: target._id },
+      { $unset: { totp: '', totpPending: '', recoveryCodes: '' } },
+      { returnDocument: 'after', projection: { passwordHash: 0 } }
+    );
+    await db.collection('sessions').deleteMany({ userId: target._id });
+    await audit(req, 'user.reset_2fa', { userId: target._id, email: target.email });
+    return res.json({ user: toAdminUser(updated) });
+  } catch (e) {
+    console.error('Admin reset 2FA error:', e);
+    return res.status(500).json({ error: 'Failed to reset two-factor authentication' });
+  }
+});
+
+// Move an account between student and teacher; admin accounts keep their role
+app.patch('/api/admin/users/:userId/role', requireRole('admin'), async (req, res) => {
+  try {
+    const role = String(req.body?.role || '');
+    if (!ASSIGNABLE_ROLES.includes(role)) return res.status(400).json({ error: `role must be one of: ${ASSIGNABLE_ROLES.join(', ')}` });
+    const target = await loadTargetUser(req, res);
+    if (!target) return;
+    if (target.role === 'admin') return res.status(400).json({ error: 'Admin roles cannot be changed' });
+    const updated = await db.collection('users').findOneAndUpdate(
+      { _id: target._id },
+      { $set: { role } },
+      { returnDocument: 'after', projection: { passwordHash: 0 } }
+    );
+    if (target.role !== role) await audit(req, 'user.change_role', { userId: target._id, email: target.email }, { from: target.role, to: role });
+    return res.json({ user: toAdminUser(updated) });
+  } catch (e) {
+    console.error('Admin change role error:', e);
+    return res.status(500).json({ error: 'Failed to change role' });
+  }
+});
+
+// Delete an account with its cascade. ?dryRun=true only counts what would be removed.
+app.delete('/api/admin/users/:userId', requireRole('admin'), async (req, res) => {
+  try {
+    const target = await loadTargetUser(req, res);
+    if (!target) return;
+    const dryRun = String(req.query.dryRun || '') === 'true';
+    const ownedCourses = await db.collection('courses').find({ creatorId: target._id }, { projection: { _id: 1, id: 1, title: 1 } }).toArray();
+    const counts = await runDeletionPlan(db, userDeletionPlan(target._id, ownedCourses.map(courseKey)), dryRun);
+    const courses = ownedCourses.map(c => ({ id: courseKey(c), title: c.title }));
+    if (!dryRun) {
+      await db.collection('courses').updateMany({ 'sections.taIds': target._id.toString() }, { $pull: { 'sections.$[].taIds': target._id.toString() } });
+    }
+    if (!dryRun) await audit(req, 'user.delete', { userId: target._id, email: target.email }, { role: target.role, counts, courses });
+    return res.json({ dryRun, user: toAdminUser(target), counts, courses });
+  } catch (e) {
+    console.error('Admin delete user error:', e);
+    return res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+// -------- Bulk import ---------
+// CSV onboarding for admins and teachers: columns name, email, role, courseIds (separated by ; or |).
+// Missing users are created with a one-time password or an invite token; enrollments go through
+// enrollStudent, the same path as POST /api/enrollments.
+
+const IMPORT_MAX_ROWS = 2000;
+const INVITE_TTL_MS = (Number(process.env.INVITE_TTL_DAYS) || 14) * 24 * 60 * 60 * 1000;
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Upsert so re-enrolling (or re-running an import) is a no-op. With a sectionId, an existing
+// enrollment that has no section yet is placed in it; one already in a section stays put.
+async function enrollStudent(userId, courseId, sectionId) {
+  const key = { userId: userId.toString(), courseId: String(courseId) };
+  const r = await db.collection('enrollments').updateOne(
+    key,
+    { $setOnInsert: { ...key, ...(sectionId ? { sectionId } : {}), createdAt: new Date() } },
+    { upsert: true }
+  );
+  if (sectionId && !r.upsertedCount) {
+    await db.collection('enrollments').updateOne({ ...key, sectionId: { $exists: false } }, { $set: { sectionId } });
+  }
+  return r.upsertedCount > 0;
+}
+
+const hashInviteToken = (token) => crypto.createHash('sha256').update(token).digest('hex');
+// Readable one-time password, e.g. "k3v9-q2xm-8tfa"
+const oneTimePassword = () => Array.from({ length: 3 }, () => crypto.randomBytes(3).toString('hex').slice(0, 4)).join('-');
+
+// Admins may create students and teachers in any course; teachers only students in courses they own
+const importableRoles = (actor) => actor.role === 'admin' ? ['student', 'teacher'] : ['student'];
+
+app.post('/api/imports/users', requireRole('admin', 'teacher'), upload.single('file'), async (req, res) => {
+  try {
+    const actor = req.user;
+    const dryRun = String(req.body?.dryRun || '') === 'true';
+    const credentials = req.body?.credentials === 'invite' ? 'invite' : 'password';
+    const text = req.file ? req.file.buffer.toString('utf8').replace(/^\uFEFF/, '') : String(req.body?.csv || '');
+    const [header, ...rows] = parseCsv(text);
+    if (!header) return res.status(400).json({ error: 'CSV file is empty' });
+    const columns = header.map(h => h.trim().toLowerCase());
+    const col = (name) => columns.indexOf(name.toLowerCase());
+    const missing = ['name', 'email', 'role', 'courseIds'].filter(name => col(name) < 0);
+    if (missing.length) return res.status(400).json({ error: `Missing column(s): ${missing.join(', ')}` });
+    if (rows.length > IMPORT_MAX_ROWS) return res.status(400).json({ error: `At most ${IMPORT_MAX_ROWS} rows per import` });
+
+    const roles = importableRoles(actor);
+    const courseCache = new Map();
+    // null when the course does not exist or the actor may not enroll into it
+    const resolveCourse = async (courseId) => {
+      if (!courseCache.has(courseId)) {
+        const course = await findCourse(courseId);
+        courseCache.set(courseId, course && (actor.role === 'admin' || ownsCourse(actor, course)) ? course : null);
+      }
+      return courseCache.get(courseId);
+    };
+    // A section is given by id or by name (case-insensitive), per course as "courseId:section" or for
+    // the whole row in the optional sectionId column
+    const sectionIdFor = (course, value) => {
+      if (!value) return undefined;
+      const byName = courseSections(course).find(sec => String(sec.name).toLowerCase() === value.toLowerCase());
+      return findSection(course, value)?.id || byName?.id || value;
+    };
+
+    const seen = new Set();
+    const report = [];
+    for (const [index, cells] of rows.entries()) {
+      const cell = (name) => String(cells[col(name)] || '').trim();
+      const entry = { row: index + 2, email: cell('email').toLowerCase(), name: cell('name') };
+      const fail = (error) => report.push({ ...entry, status: 'error', error });
+      const role = (cell('role') || 'student').toLowerCase();
+      const courseIds = [...new Set(cell('courseIds').split(/[;|]/).map(c => c.trim()).filter(Boolean))];
+      const rowSection = col('sectionId') >= 0 ? cell('sectionId') : '';
+
+      if (!EMAIL_RE.test(entry.email)) { fail('Invalid email'); continue; }
+      if (seen.has(entry.email)) { fail('Duplicate email in this file'); continue; }
+      seen.add(entry.email);
+      if (!roles.includes(role)) { fail(`Role must be ${roles.join(' or ')}`); continue; }
+
+      // [{ courseId, sectionId }], one per course the row enrolls into
+      const courses = [];
+      const unknown = [];
+      const sectionErrors = [];
+      for (const spec of courseIds) {
+        const [id, explicit] = spec.split(':').map(part => part.trim());
+        const course = await resolveCourse(id);
+        if (!course) { unknown.push(id); continue; }
+        // The row-wide column only applies to courses that have sections
+        const section = explicit ?? (courseSections(course).length ? rowSection : '');
+        const placement = enrollmentSection(course, sectionIdFor(course, section));
+        if (placement.error) sectionErrors.push(section ? `unknown section "${section}" in ${id}` : `${id} needs a section`);
+        else courses.push({ courseId: courseKey(course), sectionId: placement.sectionId });
+      }
+      if (unknown.length) { fail(`Unknown or not your course(s): ${unknown.join(', ')}`); continue; }
+      if (sectionErrors.length) { fail(`Section: ${sectionErrors.join('; ')}`); continue; }
+
+      let user = await db.collection('users').findOne({ email: entry.email });
+      if (user && user.role !== role) { fail(`Existing account is a ${user.role}`); continue; }
+      if (courses.length && role !== 'student') { fail('Only students can be enrolled'); continue; }
+      if (!user && !entry.name) { fail('Name is required for new users'); continue; }
+
+      const result = { ...entry, role, status: user ? 'existing' : 'created', userId: user?._id.toString() || null, enrolled: [], alreadyEnrolled: [] };
+      if (dryRun) {
+        const existing = user
+          ? (await db.collection('enrollments').find({ userId: user._id.toString(), courseId: { $in: courses.map(c => c.courseId) } }).toArray()).map(e => e.courseId)
+          : [];
+        result.enrolled = courses.map(c => c.courseId).filter(c => !existing.includes(c));
+        result.alreadyEnrolled = existing;
+        report.push(result);
+        continue;
+      }
+
+      if (!user) {
+        const now = new Date();
+        const userDoc = { name: entry.name, email: entry.email, role, createdAt: now, createdBy: actor._id };
+        if (credentials === 'invite') {
+          const token = crypto.randomBytes(24).toString('hex');
+          userDoc.invite = { tokenHash: hashInviteToken(token), expiresAt: new Date(now.getTime() + INVITE_TTL_MS) };
+          result.inviteToken = token;
+        } else {
+          const password = oneTimePassword();
+          userDoc.passwordHash = hashPassword(password);
+          userDoc.mustChangePassword = true;
+          result.oneTimePassword = password;
+        }
+        try {
+          const r = await db.collection('users').insertOne(userDoc);
+          user = { ...userDoc, _id: r.insertedId };
+          result.userId = r.insertedId.toString();
+        } catch (e) {
+          if (e?.code === 11000) { fail('Email already registered'); continue; }
+          throw e;
+        }
+      }
+      for (const { courseId, sectionId } of courses) {
+        (await enrollStudent(user._id, courseId, sectionId) ? result.enrolled : result.alreadyEnrolled).push(courseId);
+      }
+      report.push(result);
+    }
+
+    const summary = {
+      rows: report.length,
+      created: report.filter(r => r.status === 'created').length,
+      existing: report.filter(r => r.status === 'existing').length,
+      errors: report.filter(r => r.status === 'error').length,
+      enrollments: report.reduce((n, r) => n + (r.enrolled?.length || 0), 0),
+    };
+    if (!dryRun) await audit(req, 'user.import', {}, { credentials, ...summary });
+    return res.json({ dryRun, credentials, summary, rows: report });
+  } catch (e) {
+    console.error('User import error:', e);
+    return res.status(500).json({ error: 'Import failed' });
+  }
+});
+
+// Set a password from an import invite and sign in
+app.post('/api/auth/accept-invite', async (req, res) => {
+  try {
+    const { token, password } = req.body || {};
+    if (!token || !password || String(password).length < 8) {
+      return res.status(400).json({ error: 'Invite token and a password of at least 8 characters are required' });
+    }
+    const inviteFilter = { 'invite.tokenHash': hashInviteToken(String(token)), 'invite.expiresAt': { $gt: new Date() } };
+    const invited = await db.collection('users').findOne(inviteFilter, { projection: { suspendedAt: 1 } });
+    if (!invited) return res.status(400).json({ error: 'This invite link is invalid or has expired' });
+    // Checked before the invite is consumed, so it still works if the account is reinstated
+    if (invited.suspendedAt) return res.status(403).json({ error: 'This account is suspended. Contact an administrator.' });
+    const user = await db.collection('users').findOneAndUpdate(
+      { _id: invited._id, ...inviteFilter },
+      { $set: { passwordHash: hashPassword(password) }, $unset: { invite: '' } },
+      { returnDocument: 'after' }
+    );
+    if (!user) return res.status(400).json({ error: 'This invite link is invalid or has expired' });
+    // Same as a password sign-in, so a role that requires 2FA enrolls before getting a session
+    return res.json(await loginResponse(user, req));
+  } catch (e) {
+    console.error('Accept invite error:', e);
+    return res.status(500).json({ error: 'Failed to accept invite' });
+  }
+});
+
+app.post('/api/pdf-explainer/start', rateLimit('pdf_explainer'), upload.single('file'), async (req, res) => {
   try {
     if (!req.file) {
       return res.status(400).json({ error: 'PDF file is required.' });
@@ -798,11 +2211,10 @@ app.get('/api/pdf-explainer/status', (req, res) => {
   return res.json({ status: job.status, message: job.message, draft: job.draft || undefined, error: job.error, progress: job.progress || undefined });
 });
 
-app.get('/api/auth/me', async (req, res) => {
+app.get('/api/auth/me', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    return res.json({ user: { id: user._id.toString(), name: user.name, email: user.email, role: user.role } });
+    const { user } = req;
+    return res.json({ user: toPublicUser(user) });
   } catch {
     return res.status(500).json({ error: 'Failed' });
   }
@@ -859,10 +2271,10 @@ async function embedTexts(texts) {
   return out;
 }
 
-app.post('/api/materials/upload', upload.single('file'), async (req, res) => {
+// multer runs first so the course id in the multipart body is available to the guard
+app.post('/api/materials/upload', upload.single('file'), requireCourseOwner, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    const { user } = req;
     const { courseId, moduleId, title } = req.body || {};
     if (!courseId || !req.file) return res.status(400).json({ error: 'Missing courseId or file' });
     const file = req.file;
@@ -932,10 +2344,8 @@ app.post('/api/materials/upload', upload.single('file'), async (req, res) => {
   }
 });
 
-app.get('/api/materials/list', async (req, res) => {
+app.get('/api/materials/list', requireEnrolled, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
     const { courseId, moduleId } = req.query || {};
     if (!courseId) return res.status(400).json({ error: 'courseId required' });
     const q = { courseId: String(courseId) };
@@ -954,10 +2364,8 @@ app.get('/api/materials/list', async (req, res) => {
   }
 });
 
-app.post('/api/rag/retrieve', async (req, res) => {
+app.post('/api/rag/retrieve', requireEnrolled, rateLimit('rag_retrieve'), async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
     const { courseId, moduleId, topic, limit } = req.body || {};
     if (!courseId || !topic) return res.status(400).json({ error: 'courseId and topic are required' });
 
@@ -1001,33 +2409,86 @@ app.post('/api/rag/retrieve', async (req, res) => {
 
 // -------- Quizzes (Student) ---------
 
-async function generateQuizWithGemini(subject, moduleTitle, topics) {
-  if (!genAI) return null;
-  const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-  const prompt = `Create a short 5-question multiple-choice quiz for a course on "${subject}".
+// `sources` are optional lecture slides / material chunks ({ ref, text, ...pointer }) the model may cite.
+// `plan` (adaptive mode) sets how many questions each topic gets and the target difficulty.
+async function generateQuizWithGemini(subject, moduleTitle, topics, sources = [], plan = null) {
+  const client = getAI();
+  if (!client) return null;
+  const sourceBlock = sources.length
+    ? `Source excerpts (cite the one a question is based on via "sourceRef", or use an empty string):\n${sources.map(src => `[${src.ref}] ${src.text}`).join('\n')}`
+    : '';
+  const planBlock = plan
+    ? `Question mix: ${plan.topicCounts.filter(t => t.count > 0).map(t => `${t.count} on "${t.topic}"`).join(', ')}.
+Target difficulty: ${plan.difficulty} (most questions "${plan.difficulty}", at most one a step easier).`
+    : '';
+  const prompt = `Create a short 5-question quiz for a course on "${subject}".
 Module: "${moduleTitle}".
 ${Array.isArray(topics) && topics.length ? `Focus ONLY on these topics: ${topics.join(', ')}.` : ''}
+${planBlock}
+Tag every question with "topic" (copied exactly from the topic list, if there is one) and "difficulty" ("easy", "medium" or "hard").
+Question types ("type" field):
+  - "mcq": "options" has exactly 4 strings and "correctAnswer" matches one of them. Use this for most questions.
+  - "true_false": "correctAnswer" is "True" or "False".
+  - "multi_select": "options" has 4-5 strings and "correctAnswers" lists every correct option (at least 2).
+  - "numeric": "correctAnswer" is a number written as a string; "tolerance" is the allowed absolute error (0 for exact).
+  - "short_text": "correctAnswer" is a 1-3 word answer; "acceptedAnswers" lists equivalent spellings.
+  - "code_output": "code" is up to 8 lines of code, "codeLanguage" its language, and "correctAnswer" the exact printed output. Only for programming topics.
+Use at least 2 different types.
+Every question must include "explanation": 1-2 sentences on why the correct answer is right.
+${sourceBlock}
 Strict requirements for options:
 - Each option must be a concrete, topic-specific phrase or statement (3–12 words).
 - Do NOT use generic placeholders like "Option A/B", "Definition A/B/C", "P1/P2/P3/P4", "Example A/B", etc.
-- No duplicated options; all options must be distinct and meaningful.
-
-Return STRICT JSON with key "quiz" as an array of 5 items, each with fields:
-  - question: string
-  - options: array of exactly 4 strings
-  - correctAnswer: one string that exactly matches one of the options.
-NO commentary, no markdown.`;
-  const r = await model.generateContent(prompt);
-  const text = (r?.response?.text() || '').trim();
-  try {
-    const obj = JSON.parse(text);
-    if (Array.isArray(obj?.quiz) && obj.quiz.length === 5) return obj.quiz;
+- No duplicated options; all options must be distinct and meaningful.`;
+  const response = await client.models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: Type.OBJECT,
+        properties: {
+          quiz: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                type: { type: Type.STRING, enum: QUIZ_QUESTION_TYPES },
+                question: { type: Type.STRING },
+                options: { type: Type.ARRAY, items: { type: Type.STRING } },
+                correctAnswer: { type: Type.STRING },
+                correctAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+                acceptedAnswers: { type: Type.ARRAY, items: { type: Type.STRING } },
+                tolerance: { type: Type.NUMBER },
+                code: { type: Type.STRING },
+                codeLanguage: { type: Type.STRING },
+                explanation: { type: Type.STRING },
+                sourceRef: { type: Type.STRING },
+                topic: { type: Type.STRING },
+                difficulty: { type: Type.STRING, enum: QUIZ_DIFFICULTIES }
+              },
+              required: ['type', 'question', 'correctAnswer', 'explanation']
+            }
+          }
+        },
+        required: ['quiz']
+      }
+    }
+  });
+  try {
+    const obj = JSON.parse(response.text?.trim() || '');
+    if (Array.isArray(obj?.quiz) && obj.quiz.length === 5) {
+      // Resolve citations to stable pointers; unknown refs are dropped
+      const byRef = new Map(sources.map(({ ref, text, ...pointer }) => [ref, pointer]));
+      return obj.quiz.map(({ sourceRef, ...q }) => ({ ...q, source: byRef.get(String(sourceRef || '').replace(/[[\]]/g, '').trim()) }));
+    }
   } catch {}
   return null;
 }
 
-function fallbackQuiz(subject, moduleTitle, topics = []) {
-  // Topic-aware fallback: questions and options come from module topics to avoid placeholders
+function fallbackQuiz(subject, moduleTitle, topics = [], focus = []) {
+  // Topic-aware fallback: questions and options come from module topics to avoid placeholders.
+  // `focus` (adaptive mode) lists the topic each question should be about, in order.
   const ts = (Array.isArray(topics) ? topics : []).filter(Boolean);
   const pool = ts.length ? ts : [moduleTitle, subject].filter(Boolean);
   const pickDistinct = (n, avoid = []) => {
@@ -1047,11 +2508,11 @@ function fallbackQuiz(subject, moduleTitle, topics = []) {
   };
 
   const makeQ = (idx) => {
-    const correct = pool[idx % pool.length];
+    const correct = focus.length ? focus[idx % focus.length] : pool[idx % pool.length];
     const distractors = pickDistinct(3, [correct]);
     const options = [correct, ...distractors].slice(0,4);
     const question = `Which concept is most relevant to ${moduleTitle}?`;
-    return { question, options, correctAnswer: correct };
+    return { question, options, correctAnswer: correct, ...(ts.includes(correct) ? { topic: correct } : {}), difficulty: 'easy' };
   };
 
   const qs = [];
@@ -1059,85 +2520,456 @@ function fallbackQuiz(subject, moduleTitle, topics = []) {
   return qs;
 }
 
-// Ensure MCQs are well-formed: 4 unique non-empty options and a valid correctAnswer
-function sanitizeQuiz(quiz, courseTitle, moduleTitle, topics = []) {
-  if (!Array.isArray(quiz)) return [];
-  const makeDistractor = (i) => `${moduleTitle} concept ${i+1}`;
-  const placeholderRe = /^(option\s*[a-d]|definition\s*[a-d]|pitfall\s*[a-d]|ex(?:ample)?\s*[a-d]|p\d+)$/i;
-  const topicPool = (Array.isArray(topics) ? topics : []).filter(Boolean);
-  return quiz.map((q, idx) => {
-    const question = (q?.question && String(q.question).trim()) || `Question ${idx+1} on ${moduleTitle}`;
-    const rawOpts = Array.isArray(q?.options) ? q.options : [];
-    let trimmed = rawOpts.map(o => String(o || '').trim()).filter(Boolean);
-    // Replace generic placeholders with topic-derived phrases if detected
-    trimmed = trimmed.map((o, i2) => placeholderRe.test(o) ? (topicPool[i2 % Math.max(1, topicPool.length)] || makeDistractor(i2)) : o);
-    // Deduplicate while keeping order
-    const seen = new Set();
-    let options = trimmed.filter(o => { if (seen.has(o)) return false; seen.add(o); return true; });
-    let correct = String(q?.correctAnswer || '').trim();
-    if (correct && !options.includes(correct)) options.push(correct);
-    // Fill up to 4
-    let padIdx = 0;
-    while (options.length < 4) {
-      const cand = makeDistractor(padIdx++);
-      if (!options.includes(cand)) options.push(cand);
-    }
-    // Clip to 4 but keep correct if possible
-    if (options.length > 4) {
-      if (correct && options.includes(correct)) {
-        const keep = [correct];
-        for (const o of options) { if (keep.length === 4) break; if (o !== correct) keep.push(o); }
-        options = keep;
-      } else {
-        options = options.slice(0, 4);
+// Per-question review shown after submission; material-backed questions carry a short excerpt
+async function buildQuizReview(questions, answers) {
+  const review = questions.map((q, i) => ({
+    question: toPublicQuestion(q),
+    answer: answers[i] ?? null,
+    credit: gradeQuestion(q, answers[i]),
+    correctAnswer: describeCorrectAnswer(q),
+    explanation: q.explanation || undefined,
+    source: q.source || undefined,
+  }));
+  for (const item of review) {
+    const src = item.source;
+    if (!src?.materialId) continue;
+    try {
+      const chunk = await db.collection('embeddings').findOne({ materialId: new ObjectId(src.materialId), chunkIndex: src.chunkIndex }, { projection: { text: 1 } });
+      if (chunk?.text) item.sourceExcerpt = String(chunk.text).slice(0, 300);
+    } catch {}
+  }
+  return review;
+}
+
+// Strip the answer key before a question is sent to a student
+const toPublicQuestion = (q) => ({
+  type: q.type || 'mcq',
+  question: q.question,
+  options: q.options || [],
+  ...(q.code ? { code: q.code, codeLanguage: q.codeLanguage } : {}),
+});
+
+// Citable context for a module quiz: slides from its lectures plus a few indexed material chunks
+async function collectModuleQuizSources(course, mod) {
+  const sources = [];
+  (mod.lectures || []).forEach((lecture) => {
+    (lecture.slides || []).forEach((slide, slideIndex) => {
+      if (sources.length >= 12) return;
+      const text = [slide.heading, slide.description].filter(Boolean).join(' — ').slice(0, 240);
+      if (text) sources.push({ ref: `S${sources.length + 1}`, text, lectureId: lecture.id, slideIndex });
+    });
+  });
+  const chunks = await db.collection('embeddings')
+    .find({ courseId: String(course.id || course._id?.toString()), moduleId: mod.id }, { projection: { text: 1, materialId: 1, chunkIndex: 1 } })
+    .limit(6)
+    .toArray();
+  chunks.forEach((c, i) => {
+    sources.push({ ref: `M${i + 1}`, text: String(c.text || '').slice(0, 300), materialId: c.materialId?.toString(), chunkIndex: c.chunkIndex });
+  });
+  return sources;
+}
+
+// Generate a fresh, sanitized quiz for a module from its teacher-defined topics
+async function generateModuleQuiz(course, mod, plan = null) {
+  // Build prompt context from the module's teacher-defined topics, citing its lectures and materials when present
+  const topics = Array.isArray(mod.topics) ? mod.topics : [];
+  let quiz = null;
+  try {
+    const sources = await collectModuleQuizSources(course, mod);
+    quiz = await generateQuizWithGemini(course.title, mod.title, topics, sources, plan);
+  } catch (e) {
+    console.warn('[Quiz] Gemini generation failed, using fallback:', e?.message || e);
+  }
+  if (!quiz) quiz = fallbackQuiz(course.title, mod.title, topics, plan ? plan.topicCounts.flatMap(t => Array(t.count).fill(t.topic)) : []);
+  // Sanitize to guarantee well-formed questions and remove placeholders
+  return sanitizeQuiz(quiz, course.title, mod.title, topics);
+}
+
+const toModuleQuizView = (doc) => ({
+  draft: doc?.draft || [],
+  published: doc?.published || null,
+  draftUpdatedAt: doc?.draftUpdatedAt || null,
+  publishedAt: doc?.publishedAt || null,
+});
+
+// -------- Quizzes (Teacher review & release) ---------
+
+// Get the draft and published quiz for a module (teacher only)
+app.get('/api/courses/:courseId/modules/:moduleId/quiz', requireCourseOwner, async (req, res) => {
+  try {
+    const { course } = req;
+    const { moduleId } = req.params;
+    const doc = await db.collection('module_quizzes').findOne({ courseId: String(course.id || course._id.toString()), moduleId });
+    return res.json({ quiz: toModuleQuizView(doc) });
+  } catch (e) {
+    console.error('Get module quiz error:', e);
+    return res.status(500).json({ error: 'Failed to load module quiz' });
+  }
+});
+
+// Generate a new draft for teacher review; replaces the current draft only
+app.post('/api/courses/:courseId/modules/:moduleId/quiz/generate', requireCourseOwner, async (req, res) => {
+  try {
+    const { user, course, mod } = req;
+    const { moduleId } = req.params;
+    const draft = await generateModuleQuiz(course, mod);
+    const doc = await db.collection('module_quizzes').findOneAndUpdate(
+      { courseId: String(course.id || course._id.toString()), moduleId },
+      { $set: { draft, draftUpdatedAt: new Date(), updatedBy: user._id } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return res.json({ quiz: toModuleQuizView(doc) });
+  } catch (e) {
+    console.error('Generate module quiz draft error:', e);
+    return res.status(500).json({ error: 'Failed to generate quiz draft' });
+  }
+});
+
+// Save teacher edits to the draft
+app.put('/api/courses/:courseId/modules/:moduleId/quiz', requireCourseOwner, async (req, res) => {
+  try {
+    const { user, course } = req;
+    const { moduleId } = req.params;
+    const checked = validateEditedQuiz(req.body?.questions, (req.mod.topics || []).filter(Boolean));
+    if (checked.error) return res.status(400).json({ error: checked.error });
+    const doc = await db.collection('module_quizzes').findOneAndUpdate(
+      { courseId: String(course.id || course._id.toString()), moduleId },
+      { $set: { draft: checked.questions, draftUpdatedAt: new Date(), updatedBy: user._id } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return res.json({ quiz: toModuleQuizView(doc) });
+  } catch (e) {
+    console.error('Save module quiz draft error:', e);
+    return res.status(500).json({ error: 'Failed to save quiz draft' });
+  }
+});
+
+// Publish the current draft; students receive this fixed version from then on
+app.post('/api/courses/:courseId/modules/:moduleId/quiz/publish', requireCourseOwner, async (req, res) => {
+  try {
+    const { user, course } = req;
+    const { moduleId } = req.params;
+    const filter = { courseId: String(course.id || course._id.toString()), moduleId };
+    const current = await db.collection('module_quizzes').findOne(filter);
+    const checked = validateEditedQuiz(current?.draft, (req.mod.topics || []).filter(Boolean));
+    if (checked.error) return res.status(400).json({ error: checked.error });
+    const doc = await db.collection('module_quizzes').findOneAndUpdate(
+      filter,
+      { $set: { published: checked.questions, publishedAt: new Date(), publishedBy: user._id } },
+      { returnDocument: 'after' }
+    );
+    return res.json({ quiz: toModuleQuizView(doc) });
+  } catch (e) {
+    console.error('Publish module quiz error:', e);
+    return res.status(500).json({ error: 'Failed to publish quiz' });
+  }
+});
+
+// Withdraw the published version; students fall back to on-demand generation
+app.delete('/api/courses/:courseId/modules/:moduleId/quiz/publish', requireCourseOwner, async (req, res) => {
+  try {
+    const { course } = req;
+    const { moduleId } = req.params;
+    const doc = await db.collection('module_quizzes').findOneAndUpdate(
+      { courseId: String(course.id || course._id.toString()), moduleId },
+      { $set: { published: null, publishedAt: null } },
+      { returnDocument: 'after' }
+    );
+    return res.json({ quiz: toModuleQuizView(doc) });
+  } catch (e) {
+    console.error('Unpublish module quiz error:', e);
+    return res.status(500).json({ error: 'Failed to unpublish quiz' });
+  }
+});
+
+// -------- Question bank ---------
+
+const BANK_ORIGINS = ['ai', 'manual', 'lecture'];
+const BANK_META_FIELDS = ['_id', 'courseId', 'moduleId', 'origin', 'lectureId', 'createdBy', 'createdAt', 'updatedAt'];
+
+// Bank entries are stored flat: the question fields plus bank metadata
+const toBankQuestion = (doc) => ({
+  ...Object.fromEntries(Object.entries(doc).filter(([k]) => !BANK_META_FIELDS.includes(k))),
+  id: doc._id.toString(),
+  origin: doc.origin,
+  lectureId: doc.lectureId || undefined,
+  createdAt: doc.createdAt,
+});
+
+const stripBankFields = (doc) => Object.fromEntries(Object.entries(doc).filter(([k]) => !BANK_META_FIELDS.includes(k)));
+
+const shuffled = (list) => {
+  const out = [...list];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = crypto.randomInt(i + 1);
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// Pick `perTopic` questions for each topic. 'mixed' difficulty rotates through easy/medium/hard
+// (then untagged) so each topic gets a spread; a fixed difficulty only takes matching questions.
+function sampleFromBank(bank, topics, { perTopic, difficulty }) {
+  const picked = [];
+  const shortfalls = [];
+  topics.forEach(topic => {
+    const pool = bank.filter(q => q.topic === topic && (difficulty === 'mixed' || q.difficulty === difficulty));
+    let chosen;
+    if (difficulty === 'mixed') {
+      const buckets = [...QUIZ_DIFFICULTIES, null].map(d => shuffled(pool.filter(q => (q.difficulty || null) === d)));
+      chosen = [];
+      for (let round = 0; chosen.length < perTopic && buckets.some(b => b.length); round++) {
+        const bucket = buckets[round % buckets.length];
+        if (bucket.length) chosen.push(bucket.shift());
       }
+    } else {
+      chosen = shuffled(pool).slice(0, perTopic);
     }
-    if (!correct || !options.includes(correct)) correct = options[0];
-    return { question, options, correctAnswer: correct };
+    if (chosen.length < perTopic) shortfalls.push({ topic, wanted: perTopic, found: chosen.length });
+    picked.push(...chosen);
   });
+  return { questions: shuffled(picked), shortfalls };
+}
+
+// Context shared by the bank routes; requireCourseOwner has resolved the user, course and module
+const bankContext = ({ user, course, mod }) => ({ user, course, mod, courseId: courseKey(course), topics: (mod.topics || []).filter(Boolean) });
+
+async function insertBankQuestions(ctx, questions, origin, extra = () => ({})) {
+  if (!questions.length) return 0;
+  const now = new Date();
+  const r = await db.collection('question_bank').insertMany(questions.map((q, i) => ({
+    ...q,
+    ...extra(q, i),
+    courseId: ctx.courseId,
+    moduleId: ctx.mod.id,
+    origin,
+    createdBy: ctx.user._id,
+    createdAt: now,
+    updatedAt: now,
+  })));
+  return r.insertedCount;
+}
+
+const listBank = (ctx) => db.collection('question_bank').find({ courseId: ctx.courseId, moduleId: ctx.mod.id }).sort({ createdAt: -1 }).toArray();
+
+app.get('/api/courses/:courseId/modules/:moduleId/bank', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    return res.json({ questions: (await listBank(ctx)).map(toBankQuestion) });
+  } catch (e) {
+    console.error('List question bank error:', e);
+    return res.status(500).json({ error: 'Failed to load question bank' });
+  }
+});
+
+// Add teacher-written questions
+app.post('/api/courses/:courseId/modules/:moduleId/bank', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    const checked = validateEditedQuiz(req.body?.questions, ctx.topics);
+    if (checked.error) return res.status(400).json({ error: checked.error });
+    const added = await insertBankQuestions(ctx, checked.questions, 'manual');
+    return res.json({ added, questions: (await listBank(ctx)).map(toBankQuestion) });
+  } catch (e) {
+    console.error('Add bank questions error:', e);
+    return res.status(500).json({ error: 'Failed to add questions' });
+  }
+});
+
+// Generate a batch with AI (tagged by topic and difficulty) straight into the bank
+app.post('/api/courses/:courseId/modules/:moduleId/bank/generate', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    const added = await insertBankQuestions(ctx, await generateModuleQuiz(ctx.course, ctx.mod), 'ai');
+    return res.json({ added, questions: (await listBank(ctx)).map(toBankQuestion) });
+  } catch (e) {
+    console.error('Generate bank questions error:', e);
+    return res.status(500).json({ error: 'Failed to generate questions' });
+  }
+});
+
+// Copy the quiz items of the module's published lectures, skipping questions already in the bank
+app.post('/api/courses/:courseId/modules/:moduleId/bank/import-lectures', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    const existing = new Set((await listBank(ctx)).map(q => normalizeText(q.question)));
+    const incoming = [];
+    let skipped = 0;
+    (ctx.mod.lectures || []).forEach(lecture => (lecture.quiz || []).forEach(raw => {
+      const checked = validateEditedQuiz([raw], ctx.topics);
+      if (checked.error) { skipped++; return; }
+      const q = checked.questions[0];
+      if (existing.has(normalizeText(q.question))) return;
+      existing.add(normalizeText(q.question));
+      // Lecture quiz sources point at slides of that lecture
+      if (q.source && q.source.slideIndex !== undefined && !q.source.lectureId) q.source = { ...q.source, lectureId: lecture.id };
+      incoming.push({ q, lectureId: lecture.id });
+    }));
+    const added = await insertBankQuestions(ctx, incoming.map(x => x.q), 'lecture', (_, i) => ({ lectureId: incoming[i].lectureId }));
+    return res.json({ added, skipped, questions: (await listBank(ctx)).map(toBankQuestion) });
+  } catch (e) {
+    console.error('Import lecture questions error:', e);
+    return res.status(500).json({ error: 'Failed to import lecture questions' });
+  }
+});
+
+app.put('/api/courses/:courseId/modules/:moduleId/bank/:questionId', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    const checked = validateEditedQuiz([req.body?.question], ctx.topics);
+    if (checked.error) return res.status(400).json({ error: checked.error.replace('Question 1', 'Question') });
+    let _id;
+    try { _id = new ObjectId(String(req.params.questionId)); } catch { return res.status(404).json({ error: 'Question not found' }); }
+    const current = await db.collection('question_bank').findOne({ _id, courseId: ctx.courseId, moduleId: ctx.mod.id });
+    if (!current) return res.status(404).json({ error: 'Question not found' });
+    // Replace the question fields wholesale so cleared tags or answer variants do not linger
+    const meta = Object.fromEntries(BANK_META_FIELDS.filter(k => k in current).map(k => [k, current[k]]));
+    await db.collection('question_bank').replaceOne({ _id }, { ...checked.questions[0], ...meta, updatedAt: new Date() });
+    return res.json({ question: toBankQuestion(await db.collection('question_bank').findOne({ _id })) });
+  } catch (e) {
+    console.error('Update bank question error:', e);
+    return res.status(500).json({ error: 'Failed to update question' });
+  }
+});
+
+app.delete('/api/courses/:courseId/modules/:moduleId/bank/:questionId', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    let _id;
+    try { _id = new ObjectId(String(req.params.questionId)); } catch { return res.status(404).json({ error: 'Question not found' }); }
+    const r = await db.collection('question_bank').deleteOne({ _id, courseId: ctx.courseId, moduleId: ctx.mod.id });
+    if (!r.deletedCount) return res.status(404).json({ error: 'Question not found' });
+    return res.json({ success: true });
+  } catch (e) {
+    console.error('Delete bank question error:', e);
+    return res.status(500).json({ error: 'Failed to delete question' });
+  }
+});
+
+// Assemble the module quiz draft by sampling the bank, e.g. { perTopic: 2, difficulty: 'mixed' }
+app.post('/api/courses/:courseId/modules/:moduleId/bank/assemble', requireCourseOwner, async (req, res) => {
+  try {
+    const ctx = bankContext(req);
+    const perTopic = Math.round(Number(req.body?.perTopic));
+    if (!Number.isFinite(perTopic) || perTopic < 1 || perTopic > 10) return res.status(400).json({ error: 'perTopic must be between 1 and 10' });
+    const difficulty = req.body?.difficulty || 'mixed';
+    if (difficulty !== 'mixed' && !QUIZ_DIFFICULTIES.includes(difficulty)) return res.status(400).json({ error: 'Invalid difficulty' });
+    const requested = Array.isArray(req.body?.topics) && req.body.topics.length ? req.body.topics.map(String) : ctx.topics;
+    const topics = requested.filter(t => ctx.topics.includes(t));
+    if (!topics.length) return res.status(400).json({ error: 'The module has no topics to sample from' });
+    const { questions, shortfalls } = sampleFromBank(await listBank(ctx), topics, { perTopic, difficulty });
+    if (!questions.length) return res.status(400).json({ error: 'No bank questions match these rules', shortfalls });
+    const doc = await db.collection('module_quizzes').findOneAndUpdate(
+      { courseId: ctx.courseId, moduleId: ctx.mod.id },
+      { $set: { draft: questions.map(stripBankFields), draftUpdatedAt: new Date(), updatedBy: ctx.user._id } },
+      { upsert: true, returnDocument: 'after' }
+    );
+    return res.json({ quiz: toModuleQuizView(doc), shortfalls });
+  } catch (e) {
+    console.error('Assemble quiz from bank error:', e);
+    return res.status(500).json({ error: 'Failed to assemble quiz' });
+  }
+});
+
+// Resolve effective quiz settings for a module: the section's overrides, then the module's
+// settings, then the defaults. dueAt is null when there is no deadline.
+function getQuizSettings(mod, sectionId) {
+  const s = mod?.quizSettings || {};
+  const override = (sectionId && s.sectionOverrides?.[sectionId]) || {};
+  const pick = (field) => override[field] ?? s[field];
+  const durationMinutes = Number(pick('durationMinutes')) > 0 ? Number(pick('durationMinutes')) : DEFAULT_QUIZ_DURATION_MINUTES;
+  const maxAttempts = Number(pick('maxAttempts')) > 0 ? Number(pick('maxAttempts')) : 0;
+  const dueAt = pick('dueAt') ? new Date(pick('dueAt')) : null;
+  return { durationMinutes, maxAttempts, dueAt };
+}
+
+// Store an issued quiz under the next attempt number for its student and module. The unique index
+// on the attempt number makes the limit check atomic: when a concurrent request takes the number
+// first, count again. Returns the attempt number, or null once `maxAttempts` (0 = no limit) is used up.
+async function issueQuiz(doc, maxAttempts) {
+  const issued = { userId: doc.userId, courseId: doc.courseId, moduleId: doc.moduleId };
+  for (;;) {
+    const attempt = await db.collection('quizzes').countDocuments(issued) + 1;
+    if (maxAttempts && attempt > maxAttempts) return null;
+    try {
+      await db.collection('quizzes').insertOne({ ...doc, attempt });
+      return attempt;
+    } catch (e) {
+      if (e?.code !== 11000 || !e.keyPattern?.attempt) throw e;
+    }
+  }
+}
+
+// Plan an adaptive quiz from the student's recent attempts on this module
+async function buildAdaptivePlan(userId, courseId, mod) {
+  const recent = await db.collection('quiz_attempts')
+    .find({ userId, courseId, moduleId: mod.id, late: { $ne: true } }, { projection: { score: 1, total: 1, items: 1, difficulty: 1 } })
+    .sort({ createdAt: -1 })
+    .limit(ADAPTIVE_HISTORY_LIMIT)
+    .toArray();
+  return planAdaptiveQuiz(mod.topics, recent);
 }
 
-// Generate a quiz for a module (student)
-app.post('/api/quizzes/generate', async (req, res) => {
+// Generate a quiz for a module (student). `mode: 'adaptive'` tailors it to the student's history; adaptive
+// attempts are practice and stay out of the gradebook and item analysis.
+app.post('/api/quizzes/generate', requireEnrolled, rateLimit('quiz_generate'), async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    const { user, course, mod } = req;
     const { courseId, moduleId } = req.body || {};
-    if (!courseId || !moduleId) return res.status(400).json({ error: 'courseId and moduleId required' });
-    // Relaxed: allow quiz generation without strict enrollment to avoid 403 in student UI
-    // If you want to re-enable, restore the enrollment check below.
-    // if (user.role === 'student') {
-    //   const enr = await db.collection('enrollments').findOne({ userId: user._id.toString(), courseId: String(courseId) });
-    //   if (!enr) return res.status(403).json({ error: 'Enroll in this course to generate quizzes' });
-    // }
-    const orCourse = [{ id: String(courseId) }];
-    try { orCourse.push({ _id: new ObjectId(String(courseId)) }); } catch {}
-    let course = await db.collection('courses').findOne({ $or: orCourse });
-    if (!course) {
-      // Fallback: locate by moduleId if courseId mapping changed
-      course = await db.collection('courses').findOne({ 'modules.id': String(moduleId) });
-      if (!course) return res.status(404).json({ error: 'Course not found' });
+    const adaptive = req.body?.mode === 'adaptive';
+    if (!mod) return res.status(400).json({ error: 'courseId and moduleId required' });
+    // Students get their section's settings (req.enrollment comes from requireEnrolled)
+    const settings = getQuizSettings(mod, req.enrollment?.sectionId);
+    const startedAt = new Date();
+    if (user.role === 'student' && settings.dueAt && startedAt >= settings.dueAt) {
+      return res.status(403).json({ error: `The deadline for this quiz passed on ${settings.dueAt.toISOString()}` });
+    }
+    // Every issued quiz consumes an attempt, so abandoned quizzes cannot be used to preview questions.
+    // Checked here so a used-up student does not wait for generation; issueQuiz enforces it.
+    const maxAttempts = user.role === 'student' ? settings.maxAttempts : 0;
+    const limitReached = () => res.status(403).json({ error: `Attempt limit reached (${settings.maxAttempts})` });
+    const issuedFilter = { userId: user._id, courseId: String(courseId), moduleId: String(moduleId) };
+    if (maxAttempts && await db.collection('quizzes').countDocuments(issuedFilter) >= maxAttempts) return limitReached();
+    // Once the teacher has published a quiz, students only see reviewed questions: adaptive quizzes
+    // are picked from the published quiz and the question bank instead of being generated
+    const plan = adaptive && (mod.topics || []).length ? await buildAdaptivePlan(user._id, String(courseId), mod) : null;
+    const released = await db.collection('module_quizzes').findOne({ courseId: courseKey(course), moduleId: String(moduleId) });
+    const reviewed = Array.isArray(released?.published) && released.published.length ? released.published : null;
+    let quiz;
+    if (reviewed && plan) {
+      const bank = await db.collection('question_bank').find({ courseId: courseKey(course), moduleId: mod.id }).toArray();
+      quiz = pickAdaptiveQuestions([...reviewed, ...bank.map(stripBankFields)], plan, shuffled);
+    } else {
+      quiz = reviewed || await generateModuleQuiz(course, mod, plan);
     }
-    const mod = (course.modules || []).find(m => m.id === moduleId);
-    if (!mod) return res.status(404).json({ error: 'Module not found' });
-    // Build prompt context only from the module's teacher-defined topics (no materials)
-    const topics = Array.isArray(mod.topics) ? mod.topics : [];
-    let quiz = null;
-    try {
-      // Include topics and (if any) materials context
-      if (genAI) {
-        const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-        const prompt = `Create a short 5-question multiple-choice quiz for a course on "${course.title}".\nModule: "${mod.title}".\nFocus strictly on these teacher-defined topics: ${topics.join(', ')}.\nReturn strict JSON with key "quiz" as an array of 5 items, each with: question (string), options (array of 4 strings), correctAnswer (one of the options). No commentary.`;
-        const r = await model.generateContent(prompt);
-        const text = (r?.response?.text() || '').trim();
-        try { const obj = JSON.parse(text); if (Array.isArray(obj?.quiz) && obj.quiz.length === 5) quiz = obj.quiz; } catch {}
-      }
-    } catch {}
-    if (!quiz) quiz = fallbackQuiz(course.title, mod.title, topics);
-    // Sanitize to guarantee valid MCQs and remove placeholders
-    quiz = sanitizeQuiz(quiz, course.title, mod.title, topics);
     const quizId = crypto.randomBytes(12).toString('hex');
-    return res.json({ quiz: { id: quizId, courseId, moduleId, questions: quiz } });
+    // Persist the full quiz (with answers) so grading never trusts the client. A deadline cuts the time
+    // limit short, so submitting after it counts as late.
+    const limitEnd = startedAt.getTime() + Math.round(settings.durationMinutes * 60) * 1000;
+    const expiresAt = new Date(user.role === 'student' && settings.dueAt ? Math.min(limitEnd, settings.dueAt.getTime()) : limitEnd);
+    const durationSeconds = Math.round((expiresAt.getTime() - startedAt.getTime()) / 1000);
+    const attempt = await issueQuiz({
+      ...issuedFilter,
+      quizId,
+      questions: quiz,
+      mode: adaptive ? 'adaptive' : 'standard',
+      difficulty: plan?.difficulty || null,
+      startedAt,
+      expiresAt,
+      submittedAt: null,
+      createdAt: startedAt,
+    }, maxAttempts);
+    if (!attempt) return limitReached();
+    const publicQuestions = quiz.map(toPublicQuestion);
+    const adaptiveInfo = plan && {
+      difficulty: plan.difficulty,
+      focusTopics: plan.topicCounts.filter(t => t.count > 0).sort((a, b) => b.count - a.count).map(t => t.topic),
+      mastery: plan.mastery,
+    };
+    return res.json({
+      quiz: { id: quizId, courseId, moduleId, questions: publicQuestions, startedAt, expiresAt, durationSeconds, ...(adaptiveInfo ? { adaptive: adaptiveInfo } : {}) },
+      attempts: { used: attempt, max: settings.maxAttempts || null },
+    });
   } catch (e) {
     console.error('Generate quiz error:', e);
     return res.status(500).json({ error: 'Failed to generate quiz' });
@@ -1145,31 +2977,56 @@ app.post('/api/quizzes/generate', async (req, res) => {
 });
 
 // Submit a quiz attempt
-app.post('/api/quizzes/submit', async (req, res) => {
+app.post('/api/quizzes/submit', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
-    const { courseId, moduleId, quizId, questions, answers } = req.body || {};
-    if (!courseId || !moduleId || !quizId || !Array.isArray(questions) || !Array.isArray(answers)) {
+    const { user } = req;
+    const { quizId, answers } = req.body || {};
+    if (!quizId || !Array.isArray(answers)) {
       return res.status(400).json({ error: 'Invalid payload' });
     }
-    let score = 0;
-    questions.forEach((q, i) => {
-      const sel = answers[i];
-      if (typeof sel === 'string' && sel === q.correctAnswer) score += 1;
-      if (typeof sel === 'number' && q.options?.[sel] === q.correctAnswer) score += 1;
-    });
+    const existing = await db.collection('quizzes').findOne({ quizId: String(quizId) });
+    if (!existing) return res.status(404).json({ error: 'Quiz not found' });
+    if (String(existing.userId) !== user._id.toString()) return res.status(403).json({ error: 'Forbidden' });
+    // Atomically claim the quiz so concurrent or repeated submissions are rejected
+    const submittedAt = new Date();
+    const quiz = await db.collection('quizzes').findOneAndUpdate(
+      { quizId: existing.quizId, submittedAt: null },
+      { $set: { submittedAt } },
+      { returnDocument: 'after' }
+    );
+    if (!quiz) return res.status(409).json({ error: 'Quiz already submitted' });
+    const questions = Array.isArray(quiz.questions) ? quiz.questions : [];
+    const late = !!quiz.expiresAt && submittedAt.getTime() > new Date(quiz.expiresAt).getTime() + QUIZ_SUBMIT_GRACE_MS;
+    // Multi-select answers earn partial credit, so scores can be fractional
+    const credits = questions.map((q, i) => (late ? 0 : gradeQuestion(q, answers[i])));
+    const score = Math.round(credits.reduce((sum, c) => sum + c, 0) * 100) / 100;
     const doc = {
       userId: user._id,
-      courseId: String(courseId),
-      moduleId: String(moduleId),
-      quizId: String(quizId),
+      courseId: quiz.courseId,
+      moduleId: quiz.moduleId,
+      quizId: quiz.quizId,
       total: questions.length,
       score,
-      createdAt: new Date(),
+      late,
+      mode: quiz.mode || 'standard',
+      difficulty: quiz.difficulty || null,
+      // Per-question outcome for history and analytics; the full question stays on the quiz doc
+      items: questions.map((q, i) => ({
+        question: q.question,
+        type: q.type || 'mcq',
+        topic: q.topic || null,
+        difficulty: q.difficulty || null,
+        answer: storedAnswer(q, answers[i]),
+        credit: credits[i],
+      })),
+      startedAt: quiz.startedAt || quiz.createdAt,
+      createdAt: submittedAt,
     };
     await db.collection('quiz_attempts').insertOne(doc);
-    return res.json({ result: { score, total: questions.length } });
+    // Late submissions are kept (flagged, scored 0) so teachers can see them, but the student gets an error
+    if (late) return res.status(403).json({ error: 'Time limit exceeded; submission recorded as late', result: { score, total: questions.length, late } });
+    const review = await buildQuizReview(questions, answers);
+    return res.json({ result: { score, total: questions.length, late, review } });
   } catch (e) {
     console.error('Submit quiz error:', e);
     return res.status(500).json({ error: 'Failed to submit quiz' });
@@ -1177,10 +3034,9 @@ app.post('/api/quizzes/submit', async (req, res) => {
 });
 
 // Summary of attempts per course for current user
-app.get('/api/quizzes/attempts/summary', async (req, res) => {
+app.get('/api/quizzes/attempts/summary', requireAuth, async (req, res) => {
   try {
-    const user = await getUserFromAuth(req);
-    if (!user) return res.status(401).json({ error: 'Unauthorized' });
+    const { user } = req;
     const aggr = await db.collection('quiz_attempts').aggregate([
       { $match: { userId: user._id } },
       { $group: { _id: '$courseId', count: { $sum: 1 } } },
@@ -1193,26 +3049,434 @@ app.get('/api/quizzes/attempts/summary', async (req, res) => {
   }
 });
 
+const toAttemptView = (a) => ({
+  id: a._id.toString(),
+  courseId: a.courseId,
+  moduleId: a.moduleId,
+  quizId: a.quizId || null,
+  score: a.score,
+  total: a.total,
+  late: !!a.late,
+  startedAt: a.startedAt || null,
+  createdAt: a.createdAt,
+  // Attempts recorded before per-question tracking have no items
+  items: (a.items || []).map(it => ({ question: it.question, credit: it.credit, correct: it.credit >= 1 })),
+});
+
+// Most recent attempt of the current user for one module
+app.get('/api/quizzes/attempts/last', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    const { courseId, moduleId } = req.query || {};
+    if (!courseId || !moduleId) return res.status(400).json({ error: 'courseId and moduleId required' });
+    const last = await db.collection('quiz_attempts')
+      .find({ userId: user._id, courseId: String(courseId), moduleId: String(moduleId) })
+      .sort({ createdAt: -1 })
+      .limit(1)
+      .next();
+    return res.json({ last: last ? { score: last.score, total: last.total, createdAt: last.createdAt } : null });
+  } catch (e) {
+    console.error('Last attempt error:', e);
+    return res.status(500).json({ error: 'Failed to get last attempt' });
+  }
+});
+
+// Attempt history of the current user for a course, optionally narrowed to one module (oldest first)
+app.get('/api/quizzes/attempts', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    const { courseId, moduleId } = req.query || {};
+    if (!courseId) return res.status(400).json({ error: 'courseId required' });
+    const filter = { userId: user._id, courseId: String(courseId) };
+    if (moduleId) filter.moduleId = String(moduleId);
+    const attempts = await db.collection('quiz_attempts').find(filter).sort({ createdAt: 1 }).limit(500).toArray();
+    return res.json({ attempts: attempts.map(toAttemptView) });
+  } catch (e) {
+    console.error('Attempt history error:', e);
+    return res.status(500).json({ error: 'Failed to get attempts' });
+  }
+});
+
+// -------- Flashcards (spaced repetition) ---------
+
+// Cards for one lecture: one per slide (heading -> description and keywords) and one per quiz item.
+// `cardKey` is stable so regenerating never duplicates a card or resets its schedule.
+function buildLectureCards(lecture) {
+  const cards = [];
+  (lecture.slides || []).forEach((slide, i) => {
+    const back = [String(slide.description || '').trim(), (slide.keywords || []).length ? `Key terms: ${slide.keywords.join(', ')}` : '']
+      .filter(Boolean).join('\n\n');
+    if (!back) return;
+    cards.push({ cardKey: `${lecture.id}:slide:${i}`, front: String(slide.heading || '').trim() || `${lecture.title} — slide ${i + 1}`, back, source: { slideIndex: i } });
+  });
+  (lecture.quiz || []).forEach((q, i) => {
+    if (!q?.question || !q.correctAnswer) return;
+    const back = [describeCorrectAnswer(q), String(q.explanation || '').trim()].filter(Boolean).join('\n\n');
+    cards.push({ cardKey: `${lecture.id}:quiz:${i}`, front: String(q.question), back, source: q.source || undefined });
+  });
+  return cards;
+}
+
+const toFlashcardView = (c) => ({
+  id: c._id.toString(),
+  courseId: c.courseId,
+  moduleId: c.moduleId,
+  lectureId: c.lectureId,
+  lectureTitle: c.lectureTitle,
+  front: c.front,
+  back: c.back,
+  source: c.source || undefined,
+  dueAt: c.dueAt,
+  interval: c.interval,
+  repetitions: c.repetitions,
+});
+
+// Create (or top up) the current user's cards for a lecture
+app.post('/api/flashcards/generate', requireEnrolled, async (req, res) => {
+  try {
+    const { user, course, mod } = req;
+    const { lectureId } = req.body || {};
+    if (!mod || !lectureId) return res.status(400).json({ error: 'courseId, moduleId and lectureId required' });
+    const key = courseKey(course);
+    const lecture = (mod.lectures || []).find(l => l.id === lectureId);
+    if (!lecture) return res.status(404).json({ error: 'Lecture not found' });
+    const cards = buildLectureCards(lecture);
+    const now = new Date();
+    let created = 0;
+    if (cards.length) {
+      const r = await db.collection('flashcards').bulkWrite(cards.map(card => ({
+        updateOne: {
+          filter: { userId: user._id, cardKey: card.cardKey },
+          // Content follows lecture edits; the review schedule is only set on insert
+          update: {
+            $set: { front: card.front, back: card.back, source: card.source || null, lectureTitle: lecture.title },
+            $setOnInsert: { courseId: key, moduleId: mod.id, lectureId, ease: 2.5, interval: 0, repetitions: 0, dueAt: now, lastReviewedAt: null, createdAt: now },
+          },
+          upsert: true,
+        },
+      })));
+      created = r.upsertedCount || 0;
+    }
+    return res.json({ created, total: cards.length });
+  } catch (e) {
+    console.error('Generate flashcards error:', e);
+    return res.status(500).json({ error: 'Failed to create flashcards' });
+  }
+});
+
+// Cards due for review now (oldest due first), optionally for one course, plus deck counts
+app.get('/api/flashcards/due', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    const base = { userId: user._id, ...(req.query.courseId ? { courseId: String(req.query.courseId) } : {}) };
+    const limit = Math.min(100, Math.max(1, Number(req.query.limit) || 20));
+    const now = new Date();
+    const cards = await db.collection('flashcards').find({ ...base, dueAt: { $lte: now } }).sort({ dueAt: 1 }).limit(limit).toArray();
+    const due = await db.collection('flashcards').countDocuments({ ...base, dueAt: { $lte: now } });
+    const total = await db.collection('flashcards').countDocuments(base);
+    const startOfDay = new Date(now);
+    startOfDay.setHours(0, 0, 0, 0);
+    const reviewedToday = await db.collection('flashcard_reviews').countDocuments({ userId: user._id, reviewedAt: { $gte: startOfDay } });
+    return res.json({ cards: cards.map(toFlashcardView), due, total, reviewedToday });
+  } catch (e) {
+    console.error('Due flashcards error:', e);
+    return res.status(500).json({ error: 'Failed to load flashcards' });
+  }
+});
+
+// Record a review (grade 0-5) and reschedule the card
+app.post('/api/flashcards/:cardId/review', requireAuth, async (req, res) => {
+  try {
+    const { user } = req;
+    const grade = Number(req.body?.grade);
+    if (!Number.isInteger(grade) || grade < 0 || grade > 5) return res.status(400).json({ error: 'grade must be an integer from 0 to 5' });
+    let cardId;
+    try { cardId = new ObjectId(String(req.params.cardId)); } catch { return res.status(404).json({ error: 'Card not found' }); }
+    const card = await db.collection('flashcards').findOne({ _id: cardId, userId: user._id });
+    if (!card) return res.status(404).json({ error: 'Card not found' });
+    const next = scheduleReview(card, grade);
+    const updated = await db.collection('flashcards').findOneAndUpdate({ _id: card._id }, { $set: next }, { returnDocument: 'after' });
+    await db.collection('flashcard_reviews').insertOne({
+      userId: user._id,
+      cardId: card._id,
+      courseId: card.courseId,
+      grade,
+      interval: next.interval,
+      ease: next.ease,
+      reviewedAt: next.lastReviewedAt,
+    });
+    return res.json({ card: toFlashcardView(updated) });
+  } catch (e) {
+    console.error('Review flashcard error:', e);
+    return res.status(500).json({ error: 'Failed to record review' });
+  }
+});
+
+// -------- Teacher analytics ---------
+
+const ANALYTICS_ACTIVE_DAYS = 30;
+
+const round1 = (n) => Math.round(n * 10) / 10;
+
+function median(values) {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// Headline numbers for a set of attempts; scores are percentages
+function summarizeAttempts(attempts) {
+  const pct = attempts.map(attemptPercent);
+  return {
+    completions: attempts.length,
+    students: new Set(attempts.map(a => String(a.userId))).size,
+    averageScore: pct.length ? round1(pct.reduce((s, p) => s + p, 0) / pct.length) : 0,
+    medianScore: round1(median(pct)),
+  };
+}
+
+// Ten 10-point buckets; a perfect score falls into the last one
+function scoreDistribution(attempts) {
+  const buckets = Array.from({ length: 10 }, (_, i) => ({ range: i === 9 ? '90-100' : `${i * 10}-${i * 10 + 9}`, count: 0 }));
+  attempts.forEach(a => { buckets[Math.min(9, Math.floor(attemptPercent(a) / 10))].count++; });
+  return buckets;
+}
+
+// Questions with the lowest average credit, grouped by question text
+function hardestQuestions(attempts, limit = 5) {
+  const byQuestion = new Map();
+  attempts.forEach(a => (a.items || []).forEach(it => {
+    const entry = byQuestion.get(it.question) || { question: it.question, attempts: 0, credit: 0 };
+    entry.attempts++;
+    entry.credit += Number(it.credit) || 0;
+    byQuestion.set(it.question, entry);
+  }));
+  return [...byQuestion.values()]
+    .map(e => ({ question: e.question, attempts: e.attempts, averageCredit: Math.round((e.credit / e.attempts) * 100) / 100 }))
+    .sort((a, b) => a.averageCredit - b.averageCredit || b.attempts - a.attempts)
+    .slice(0, limit);
+}
+
+// Adaptive quizzes step down to easier questions after a weak attempt, so they are practice: grades
+// and item statistics only count standard attempts
+const PRACTICE_EXCLUDED = { mode: { $ne: 'adaptive' } };
+
+// Late submissions are scored 0 and would skew the numbers, so analytics leave them out
+const analyticsAttemptFilter = (courseId, moduleId) => ({ courseId, ...(moduleId ? { moduleId } : {}), late: { $ne: true } });
+
+// Per-course analytics: enrollment vs activity plus a summary row per module (?sectionId= filters)
+app.get('/api/analytics/courses/:courseId', requireCourseStaff, async (req, res) => {
+  try {
+    const { course } = req;
+    const courseId = courseKey(course);
+    const scope = sectionScope(req, res);
+    if (scope === false) return;
+    const studentIds = scope && await scopedStudentIds(courseId, scope);
+    const attempts = await db.collection('quiz_attempts')
+      .find({ ...analyticsAttemptFilter(courseId), ...(studentIds ? { userId: { $in: studentIds } } : {}) }, { projection: { userId: 1, moduleId: 1, score: 1, total: 1, createdAt: 1 } })
+      .toArray();
+    const enrolledStudents = studentIds ? studentIds.length : await db.collection('enrollments').countDocuments({ courseId });
+    const since = Date.now() - ANALYTICS_ACTIVE_DAYS * 24 * 60 * 60 * 1000;
+    const activeStudents = new Set(attempts.filter(a => new Date(a.createdAt).getTime() >= since).map(a => String(a.userId))).size;
+    const modules = (course.modules || []).map(m => ({
+      moduleId: m.id,
+      moduleTitle: m.title,
+      ...summarizeAttempts(attempts.filter(a => a.moduleId === m.id)),
+    }));
+    return res.json({
+      analytics: {
+        courseId,
+        sectionIds: scope || undefined,
+        enrolledStudents,
+        activeStudents,
+        activeWindowDays: ANALYTICS_ACTIVE_DAYS,
+        ...summarizeAttempts(attempts),
+        modules,
+      },
+    });
+  } catch (e) {
+    console.error('Course analytics error:', e);
+    return res.status(500).json({ error: 'Failed to load analytics' });
+  }
+});
+
+// Per-module analytics with score distribution and the hardest questions (?sectionId= filters)
+app.get('/api/analytics/courses/:courseId/modules/:moduleId', requireCourseStaff, async (req, res) => {
+  try {
+    const { course, mod } = req;
+    const scope = sectionScope(req, res);
+    if (scope === false) return;
+    const studentIds = scope && await scopedStudentIds(courseKey(course), scope);
+    const attempts = await db.collection('quiz_attempts')
+      .find({ ...analyticsAttemptFilter(courseKey(course), mod.id), ...PRACTICE_EXCLUDED, ...(studentIds ? { userId: { $in: studentIds } } : {}) }, { projection: { userId: 1, score: 1, total: 1, items: 1 } })
+      .toArray();
+    return res.json({
+      analytics: {
+        moduleId: mod.id,
+        moduleTitle: mod.title,
+        ...summarizeAttempts(attempts),
+        scoreDistribution: scoreDistribution(attempts),
+        hardestQuestions: hardestQuestions(attempts),
+      },
+    });
+  } catch (e) {
+    console.error('Module analytics error:', e);
+    return res.status(500).json({ error: 'Failed to load analytics' });
+  }
+});
+
+// -------- Item analysis ---------
+
+// Below this many responses the statistics are too noisy to flag anything
+const ITEM_ANALYSIS_MIN_RESPONSES = 5;
+
+const ITEM_FLAG_RULES = {
+  tooHard: 0.2, // p-value below: almost nobody gets it right
+  tooEasy: 0.95, // p-value above: does not separate anyone
+  lowDiscrimination: 0.1, // upper-lower difference below: strong students do no better than weak ones
+};
+
+// Classic item statistics per question text: difficulty (p-value = mean credit), discrimination
+// (upper 27% minus lower 27% by attempt score) and how often each option was picked.
+function analyzeItems(attempts, questionsByText) {
+  const byQuestion = new Map();
+  attempts.forEach(a => {
+    const percent = attemptPercent(a);
+    (a.items || []).forEach(it => {
+      if (!byQuestion.has(it.question)) byQuestion.set(it.question, { type: it.type || 'mcq', responses: [] });
+      byQuestion.get(it.question).responses.push({ credit: Number(it.credit) || 0, answer: it.answer, percent });
+    });
+  });
+  const mean = (list) => list.reduce((s, r) => s + r.credit, 0) / list.length;
+  return [...byQuestion.entries()].map(([question, { type, responses }]) => {
+    const n = responses.length;
+    const pValue = Math.round(mean(responses) * 100) / 100;
+    let discrimination = null;
+    if (n >= 2) {
+      const ranked = [...responses].sort((a, b) => b.percent - a.percent);
+      const k = Math.max(1, Math.round(n * 0.27));
+      discrimination = Math.round((mean(ranked.slice(0, k)) - mean(ranked.slice(-k))) * 100) / 100;
+    }
+    const q = questionsByText.get(question);
+    const choice = q && (q.options || []).length > 0;
+    const options = choice
+      ? q.options.map(option => ({
+          option,
+          count: responses.filter(r => (Array.isArray(r.answer) ? r.answer.includes(option) : r.answer === option)).length,
+          correct: q.type === 'multi_select' ? (q.correctAnswers || []).includes(option) : option === q.correctAnswer,
+        }))
+      : [];
+    const flags = [];
+    if (n >= ITEM_ANALYSIS_MIN_RESPONSES) {
+      if (pValue < ITEM_FLAG_RULES.tooHard) flags.push('too_hard');
+      if (pValue > ITEM_FLAG_RULES.tooEasy) flags.push('too_easy');
+      if (discrimination !== null && discrimination < 0) flags.push('negative_discrimination');
+      else if (discrimination !== null && discrimination < ITEM_FLAG_RULES.lowDiscrimination) flags.push('low_discrimination');
+      // A distractor outdrawing the key often means a wrong key or an ambiguous stem
+      const key = options.find(o => o.correct);
+      if (q?.type !== 'multi_select' && key && options.some(o => !o.correct && o.count > key.count)) flags.push('distractor_outdraws_key');
+    }
+    return { question, type, responses: n, pValue, discrimination, options, flags };
+  });
+}
+
+// Item analysis for a module's quiz questions, across every non-late attempt (?sectionId= filters)
+app.get('/api/courses/:courseId/modules/:moduleId/quiz/item-analysis', requireCourseStaff, async (req, res) => {
+  try {
+    const { course, mod } = req;
+    const scope = sectionScope(req, res);
+    if (scope === false) return;
+    const studentIds = scope && await scopedStudentIds(courseKey(course), scope);
+    const attempts = await db.collection('quiz_attempts')
+      .find({ ...analyticsAttemptFilter(courseKey(course), mod.id), ...PRACTICE_EXCLUDED, ...(studentIds ? { userId: { $in: studentIds } } : {}) }, { projection: { quizId: 1, score: 1, total: 1, items: 1 } })
+      .toArray();
+    // Options and keys come from the stored quizzes the attempts were graded against
+    const quizIds = [...new Set(attempts.map(a => a.quizId).filter(Boolean))];
+    const quizzes = await db.collection('quizzes').find({ quizId: { $in: quizIds } }, { projection: { questions: 1 } }).toArray();
+    const questionsByText = new Map();
+    quizzes.forEach(qz => (qz.questions || []).forEach(q => questionsByText.set(q.question, q)));
+    return res.json({ items: analyzeItems(attempts, questionsByText), minResponses: ITEM_ANALYSIS_MIN_RESPONSES });
+  } catch (e) {
+    console.error('Item analysis error:', e);
+    return res.status(500).json({ error: 'Failed to load item analysis' });
+  }
+});
+
+// -------- Gradebook ---------
+
+const GRADE_POLICIES = ['best', 'latest', 'average'];
+
+// Collapse a student's attempts on one module into a single grade (attempts sorted oldest first)
+function applyGradePolicy(attempts, policy) {
+  if (!attempts.length) return null;
+  const pct = attempts.map(attemptPercent);
+  let percent;
+  if (policy === 'latest') percent = pct[pct.length - 1];
+  else if (policy === 'average') percent = pct.reduce((s, p) => s + p, 0) / pct.length;
+  else percent = Math.max(...pct);
+  return { percent: round1(percent), attempts: attempts.length };
+}
+
+// Students x module quizzes grid for one course (?sectionId= filters). Late submissions count
+// (they were scored 0); adaptive practice does not.
+app.get('/api/courses/:courseId/gradebook', requireCourseStaff, async (req, res) => {
+  try {
+    const { course } = req;
+    const policy = GRADE_POLICIES.includes(String(req.query.policy)) ? String(req.query.policy) : 'best';
+    const courseId = courseKey(course);
+    const scope = sectionScope(req, res);
+    if (scope === false) return;
+    const modules = (course.modules || []).map(m => ({ id: m.id, title: m.title }));
+    const sections = courseSections(course).map(sec => ({ id: sec.id, name: sec.name }));
+    const enrollments = await db.collection('enrollments').find({ courseId, ...(scope ? { sectionId: { $in: scope } } : {}) }).toArray();
+    const sectionOf = new Map(enrollments.map(e => [String(e.userId), e.sectionId]));
+    const userIds = enrollments.map(e => { try { return new ObjectId(String(e.userId)); } catch { return null; } }).filter(Boolean);
+    const users = await db.collection('users').find({ _id: { $in: userIds } }, { projection: { name: 1, email: 1 } }).toArray();
+    const attempts = await db.collection('quiz_attempts')
+      .find({ courseId, ...PRACTICE_EXCLUDED }, { projection: { userId: 1, moduleId: 1, score: 1, total: 1, createdAt: 1 } })
+      .sort({ createdAt: 1 })
+      .toArray();
+    const byUserModule = new Map();
+    attempts.forEach(a => {
+      const key = `${a.userId}:${a.moduleId}`;
+      if (!byUserModule.has(key)) byUserModule.set(key, []);
+      byUserModule.get(key).push(a);
+    });
+    const rows = users
+      .map(u => {
+        const userId = u._id.toString();
+        const grades = {};
+        modules.forEach(m => { grades[m.id] = applyGradePolicy(byUserModule.get(`${userId}:${m.id}`) || [], policy); });
+        // Course grade averages every module; modules without an attempt count as 0
+        const overall = modules.length ? round1(modules.reduce((s, m) => s + (grades[m.id]?.percent || 0), 0) / modules.length) : 0;
+        return { userId, name: u.name, email: u.email, sectionId: sectionOf.get(userId) || undefined, grades, overall };
+      })
+      .sort((a, b) => String(a.name || '').localeCompare(String(b.name || '')));
+    return res.json({ gradebook: { courseId, courseTitle: course.title, policy, sections, sectionIds: scope || undefined, modules, rows } });
+  } catch (e) {
+    console.error('Gradebook error:', e);
+    return res.status(500).json({ error: 'Failed to load gradebook' });
+  }
+});
+
+// -------- Class chat ---------
+// Section-scoped rooms relayed over /ws/class (see classChat.js)
+
+function attachClassChat(srv) {
+  const wss = new WebSocketServer({ server: srv, path: '/ws/class' });
+  const relay = createChatRelay({
+    userForToken,
+    findCourse,
+    findEnrollment: (userId, courseId) => db.collection('enrollments').findOne({ userId, courseId }),
+  });
+  wss.on('connection', relay.connect);
+}
+
 function startServer(port) {
   const srv = app.listen(port, () => console.log(`Auth server listening on http://localhost:${port}`));
-  // WebSocket: Class Chat
   try {
-    const wss = new WebSocketServer({ server: srv, path: '/ws/class' });
-    wss.on('connection', (ws) => {
-      ws.on('message', (data) => {
-        try {
-          const msg = JSON.parse(data.toString());
-          const text = String(msg?.text || '');
-          const sender = String(msg?.sender || 'Student');
-          const mentions = Array.from(text.matchAll(/!(\w+)/g)).map(m => m[1]);
-          const out = JSON.stringify({ type: 'class_message', text, sender, mentions, time: Date.now() });
-          wss.clients.forEach((client) => {
-            if (client.readyState === 1) client.send(out);
-          });
-        } catch {}
-      });
-      ws.send(JSON.stringify({ type: 'hello', time: Date.now() }));
-    });
+    attachClassChat(srv);
   } catch (e) {
     console.warn('WebSocket setup failed:', e?.message);
   }
@@ -0,0 +1,58 @@
+// Outgoing mail. Every transport implements send({ to, subject, text, html? }) and returns a Promise.
+// MAIL_TRANSPORT picks one: 'smtp' for real delivery, 'file' to write each message into MAIL_DIR
+// (handy for local dev and tests), or 'console' to log it. Defaults to smtp when SMTP_HOST is set.
+// The file and console transports keep reset and invite links readable, so in production they are
+// only used when MAIL_TRANSPORT names them; without SMTP_HOST the server refuses to start.
+
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+function smtpTransport(env) {
+  const transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: Number(env.SMTP_PORT || 587),
+    secure: String(env.SMTP_SECURE || '') === 'true',
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined,
+  });
+  return {
+    name: 'smtp',
+    async send({ to, subject, text, html }) {
+      await transporter.sendMail({ from: env.MAIL_FROM || 'LumoAI <no-reply@lumoai.local>', to, subject, text, html });
+    },
+  };
+}
+
+// One JSON file per message, named so a directory listing sorts by send time
+function fileTransport(env) {
+  const dir = path.resolve(env.MAIL_DIR || 'mail-outbox');
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.promises.mkdir(dir, { recursive: true });
+      const file = path.join(dir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.json`);
+      await fs.promises.writeFile(file, JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2));
+    },
+  };
+}
+
+function consoleTransport() {
+  return {
+    name: 'console',
+    async send({ to, subject, text }) {
+      console.log(`[mail] to=${to} subject=${JSON.stringify(subject)}\n${text}`);
+    },
+  };
+}
+
+export function createMailTransport(env = process.env) {
+  const production = env.NODE_ENV === 'production';
+  if (!env.MAIL_TRANSPORT && !env.SMTP_HOST && production) {
+    throw new Error('SMTP_HOST is not set; configure SMTP or set MAIL_TRANSPORT explicitly');
+  }
+  const kind = env.MAIL_TRANSPORT || (env.SMTP_HOST ? 'smtp' : 'console');
+  if (kind === 'smtp') return smtpTransport(env);
+  if (kind === 'file') return fileTransport(env);
+  if (kind === 'console') return consoleTransport();
+  throw new Error(`Unknown MAIL_TRANSPORT "${kind}" (expected smtp, file or console)`);
+}
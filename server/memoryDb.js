@@ -0,0 +1,73 @@
+// In-memory stand-in for the handful of MongoDB collection methods the server modules call, so
+// their tests run without a database. Filters support plain equality (ids compare by string) on
+// top-level or dotted fields, $gt, $ne, $in, $exists and $or; updates support $set and $unset.
+
+const same = (a, b) => (a == null || b == null ? a == b : String(a) === String(b));
+
+function matches(doc, filter) {
+  return Object.entries(filter).every(([key, cond]) => {
+    if (key === '$or') return cond.some(f => matches(doc, f));
+    const value = key.split('.').reduce((v, k) => v?.[k], doc);
+    if (cond && typeof cond === 'object' && Object.keys(cond).some(k => k.startsWith('$'))) {
+      return Object.entries(cond).every(([op, arg]) => {
+        if (op === '$gt') return value > arg;
+        if (op === '$ne') return !same(value, arg);
+        if (op === '$in') return arg.some(a => same(value, a));
+        if (op === '$exists') return (value !== undefined) === arg;
+        throw new Error(`Unsupported operator ${op}`);
+      });
+    }
+    return same(value, cond);
+  });
+}
+
+function applyUpdate(doc, update) {
+  Object.assign(doc, update.$set);
+  Object.keys(update.$unset || {}).forEach(key => { delete doc[key]; });
+}
+
+export function memoryCollection(docs = []) {
+  let nextId = 1;
+  const remove = (filter, limit) => {
+    let deletedCount = 0;
+    for (let i = docs.length - 1; i >= 0 && deletedCount < limit; i--) {
+      if (matches(docs[i], filter)) { docs.splice(i, 1); deletedCount++; }
+    }
+    return { deletedCount };
+  };
+  return {
+    docs,
+    async insertOne(doc) {
+      if (doc._id === undefined) doc._id = `id${nextId++}`;
+      docs.push(doc);
+      return { insertedId: doc._id };
+    },
+    async findOne(filter) { return docs.find(d => matches(d, filter)) || null; },
+    find(filter) { return { toArray: async () => docs.filter(d => matches(d, filter)) }; },
+    async countDocuments(filter) { return docs.filter(d => matches(d, filter)).length; },
+    async findOneAndUpdate(filter, update) {
+      const doc = docs.find(d => matches(d, filter));
+      if (!doc) return null;
+      applyUpdate(doc, update);
+      return doc;
+    },
+    async updateOne(filter, update) {
+      const doc = docs.find(d => matches(d, filter));
+      if (doc) applyUpdate(doc, update);
+      return { matchedCount: doc ? 1 : 0 };
+    },
+    async deleteOne(filter) { return remove(filter, 1); },
+    async deleteMany(filter) { return remove(filter, Infinity); },
+  };
+}
+
+// A db whose collections are created empty on first use; `seed` fills some up front
+export function memoryDb(seed = {}) {
+  const collections = new Map(Object.entries(seed).map(([name, docs]) => [name, memoryCollection([...docs])]));
+  return {
+    collection(name) {
+      if (!collections.has(name)) collections.set(name, memoryCollection());
+      return collections.get(name);
+    },
+  };
+}
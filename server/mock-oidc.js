@@ -0,0 +1,188 @@
+// Minimal OpenID Connect issuer for local development and tests of the SSO login.
+// It signs ID tokens with a throwaway RSA key and implements just enough of the spec for the
+// authorization code + PKCE flow: discovery, /authorize (a form to pick who you are), /token,
+// /jwks and /userinfo. Nothing is persisted; restart it and every code and token is gone.
+//
+//   npm run mock-oidc
+//   OIDC_ISSUER=http://localhost:9400 OIDC_CLIENT_ID=lumoai OIDC_ROLE_CLAIM=roles \
+//   OIDC_ROLE_MAP=faculty=teacher,student=student npm run dev
+//
+// For scripted tests, pass login_hint=<email> (and optionally role_hint=faculty) on the authorize
+// URL to skip the form and redirect straight back with a code. Unit tests import signJwt, JWK and
+// claimsFor to mint tokens with the same key; importing does not start the server.
+
+import http from 'http';
+import crypto from 'crypto';
+import { pathToFileURL } from 'url';
+
+const PORT = Number(process.env.MOCK_OIDC_PORT) || 9400;
+export const ISSUER = (process.env.MOCK_OIDC_ISSUER || `http://localhost:${PORT}`).replace(/\/+$/, '');
+const TOKEN_TTL_SECONDS = 3600;
+
+const { publicKey, privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+const KID = crypto.randomBytes(8).toString('hex');
+export const JWK = { ...publicKey.export({ format: 'jwk' }), kid: KID, alg: 'RS256', use: 'sig' };
+
+// code -> { clientId, redirectUri, codeChallenge, nonce, claims }
+const codes = new Map();
+// access token -> claims
+const accessTokens = new Map();
+
+const b64url = (value) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+
+export function signJwt(claims) {
+  const signingInput = `${b64url({ alg: 'RS256', typ: 'JWT', kid: KID })}.${b64url(claims)}`;
+  return `${signingInput}.${crypto.sign('RSA-SHA256', Buffer.from(signingInput), privateKey).toString('base64url')}`;
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+function redirect(res, location) {
+  res.writeHead(302, { Location: location });
+  res.end();
+}
+
+async function readForm(req) {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return Object.fromEntries(new URLSearchParams(body));
+}
+
+const escapeHtml = (value) => String(value ?? '').replace(/[&<>"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+export function claimsFor({ email, name, role }) {
+  const normalized = String(email).trim().toLowerCase();
+  return {
+    // Stable per email so repeat logins map to the same subject
+    sub: crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 24),
+    email: normalized,
+    email_verified: true,
+    name: name || normalized.split('@')[0],
+    roles: role ? [role] : [],
+  };
+}
+
+function issueCode(res, params, claims) {
+  const code = crypto.randomBytes(24).toString('hex');
+  codes.set(code, {
+    clientId: params.client_id,
+    redirectUri: params.redirect_uri,
+    codeChallenge: params.code_challenge,
+    nonce: params.nonce,
+    claims,
+    expiresAt: Date.now() + 60 * 1000,
+  });
+  const target = new URL(params.redirect_uri);
+  target.searchParams.set('code', code);
+  if (params.state) target.searchParams.set('state', params.state);
+  return redirect(res, target.toString());
+}
+
+function authorizeForm(res, params) {
+  const hidden = Object.entries(params)
+    .map(([key, value]) => `<input type="hidden" name="${escapeHtml(key)}" value="${escapeHtml(value)}">`)
+    .join('');
+  res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+  res.end(`<!doctype html><title>Mock OIDC sign-in</title>
+<form method="post" action="/authorize" style="font-family:sans-serif;max-width:20rem;margin:4rem auto;display:grid;gap:.5rem">
+<h2>Mock OIDC sign-in</h2>${hidden}
+<label>Email <input name="email" type="email" required></label>
+<label>Name <input name="name"></label>
+<label>Role claim <select name="role"><option value="student">student</option><option value="faculty">faculty</option><option value="">(none)</option></select></label>
+<button type="submit">Sign in</button>
+</form>`);
+}
+
+async function handleAuthorize(req, res, url) {
+  const params = req.method === 'POST' ? await readForm(req) : Object.fromEntries(url.searchParams);
+  if (params.response_type !== 'code') return sendJson(res, 400, { error: 'unsupported_response_type' });
+  if (!params.client_id || !params.redirect_uri) return sendJson(res, 400, { error: 'invalid_request' });
+  if (!params.code_challenge || params.code_challenge_method !== 'S256') {
+    return sendJson(res, 400, { error: 'invalid_request', error_description: 'PKCE with S256 is required' });
+  }
+  if (req.method === 'POST') {
+    const { email, name, role, ...rest } = params;
+    return issueCode(res, rest, claimsFor({ email, name, role }));
+  }
+  if (params.login_hint) {
+    const { login_hint: email, role_hint: role = 'student', ...rest } = params;
+    return issueCode(res, rest, claimsFor({ email, role }));
+  }
+  return authorizeForm(res, params);
+}
+
+async function handleToken(req, res) {
+  const form = await readForm(req);
+  let clientId = form.client_id;
+  const basic = /^Basic (.+)$/.exec(req.headers.authorization || '');
+  if (basic) clientId = decodeURIComponent(Buffer.from(basic[1], 'base64').toString('utf8').split(':')[0]);
+
+  if (form.grant_type !== 'authorization_code') return sendJson(res, 400, { error: 'unsupported_grant_type' });
+  const grant = codes.get(form.code);
+  codes.delete(form.code);
+  if (!grant || grant.expiresAt < Date.now()) return sendJson(res, 400, { error: 'invalid_grant' });
+  if (grant.clientId !== clientId || grant.redirectUri !== form.redirect_uri) return sendJson(res, 400, { error: 'invalid_grant' });
+  const challenge = crypto.createHash('sha256').update(String(form.code_verifier || '')).digest('base64url');
+  if (challenge !== grant.codeChallenge) return sendJson(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+
+  const now = Math.floor(Date.now() / 1000);
+  const accessToken = crypto.randomBytes(24).toString('hex');
+  accessTokens.set(accessToken, grant.claims);
+  const idToken = signJwt({
+    ...grant.claims,
+    iss: ISSUER,
+    aud: clientId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    ...(grant.nonce ? { nonce: grant.nonce } : {}),
+  });
+  return sendJson(res, 200, { access_token: accessToken, id_token: idToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS });
+}
+
+function handleUserinfo(req, res) {
+  const token = (req.headers.authorization || '').replace(/^Bearer /, '');
+  const claims = accessTokens.get(token);
+  if (!claims) return sendJson(res, 401, { error: 'invalid_token' });
+  return sendJson(res, 200, claims);
+}
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+  try {
+    switch (url.pathname) {
+      case '/.well-known/openid-configuration':
+        return sendJson(res, 200, {
+          issuer: ISSUER,
+          authorization_endpoint: `${ISSUER}/authorize`,
+          token_endpoint: `${ISSUER}/token`,
+          userinfo_endpoint: `${ISSUER}/userinfo`,
+          jwks_uri: `${ISSUER}/jwks`,
+          response_types_supported: ['code'],
+          subject_types_supported: ['public'],
+          id_token_signing_alg_values_supported: ['RS256'],
+          code_challenge_methods_supported: ['S256'],
+          scopes_supported: ['openid', 'email', 'profile'],
+        });
+      case '/jwks':
+        return sendJson(res, 200, { keys: [JWK] });
+      case '/authorize':
+        return await handleAuthorize(req, res, url);
+      case '/token':
+        return req.method === 'POST' ? await handleToken(req, res) : sendJson(res, 405, { error: 'method_not_allowed' });
+      case '/userinfo':
+        return handleUserinfo(req, res);
+      default:
+        return sendJson(res, 404, { error: 'not_found' });
+    }
+  } catch (e) {
+    console.error('Mock OIDC error:', e);
+    return sendJson(res, 500, { error: 'server_error' });
+  }
+});
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  server.listen(PORT, () => console.log(`Mock OIDC issuer on ${ISSUER}`));
+}
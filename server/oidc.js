@@ -0,0 +1,85 @@
+// OpenID Connect sign-in: ID token verification, the role mapping from claims and the account an
+// SSO identity resolves to. The issuer settings come in as `config` (see OIDC in index.js) and the
+// signing keys through `getKey`, so the checks can be tested without an identity provider.
+
+import crypto from 'crypto';
+
+// SSO never creates admins, whatever the claims say
+export const SSO_ROLES = ['student', 'teacher'];
+
+const EMAIL_RE = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// "faculty=teacher,staff=teacher,student=student" -> { faculty: 'teacher', ... }; other roles are dropped
+export function parseRoleMap(spec) {
+  const map = {};
+  for (const pair of String(spec).split(',')) {
+    const [value, role] = pair.split('=').map(part => part?.trim());
+    if (value && SSO_ROLES.includes(role)) map[value.toLowerCase()] = role;
+  }
+  return map;
+}
+
+// Errors whose message is safe to show on the login screen
+export const ssoError = (message) => Object.assign(new Error(message), { userMessage: message });
+
+// Checks the signature (RS256 or ES256) with the key from `getKey(kid)`, then issuer, audience,
+// expiry and nonce. Resolves to the token's claims.
+export async function verifyIdToken(idToken, nonce, config, getKey, nowMs = Date.now()) {
+  const [headerPart, payloadPart, signaturePart] = String(idToken || '').split('.');
+  if (!signaturePart) throw new Error('Missing or malformed ID token');
+  const header = JSON.parse(Buffer.from(headerPart, 'base64url').toString('utf8'));
+  const claims = JSON.parse(Buffer.from(payloadPart, 'base64url').toString('utf8'));
+  const key = crypto.createPublicKey({ key: await getKey(header.kid), format: 'jwk' });
+  const signed = Buffer.from(`${headerPart}.${payloadPart}`);
+  const signature = Buffer.from(signaturePart, 'base64url');
+  const valid = header.alg === 'RS256' ? crypto.verify('RSA-SHA256', signed, key, signature)
+    : header.alg === 'ES256' ? crypto.verify('sha256', signed, { key, dsaEncoding: 'ieee-p1363' }, signature)
+    : false;
+  if (!valid) throw new Error(`Invalid ID token signature (${header.alg})`);
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (String(claims.iss || '').replace(/\/+$/, '') !== config.issuer) throw new Error('ID token issuer mismatch');
+  if (!audience.includes(config.clientId) || (audience.length > 1 && claims.azp !== config.clientId)) throw new Error('ID token audience mismatch');
+  // A minute of leeway for clock skew
+  if (!(claims.exp > nowMs / 1000 - 60)) throw new Error('ID token expired');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+  return claims;
+}
+
+export const claimAt = (claims, dottedPath) => dottedPath.split('.').reduce((value, key) => value?.[key], claims);
+
+// Any value mapping to teacher wins; unmapped or missing claims get the default role
+export function roleFromClaims(claims, config) {
+  if (!config.roleClaim) return config.defaultRole;
+  const raw = claimAt(claims, config.roleClaim);
+  const values = (Array.isArray(raw) ? raw : raw == null ? [] : [raw]).map(v => String(v).toLowerCase());
+  const roles = values.map(v => config.roleMap[v]).filter(Boolean);
+  return roles.includes('teacher') ? 'teacher' : roles[0] || config.defaultRole;
+}
+
+// The account for an SSO identity: the one already linked to it, else an existing account with the
+// same verified email (which gets linked), else a new account with the role from the claims
+export async function resolveSsoUser(users, claims, config, now = new Date()) {
+  const identity = { issuer: config.issuer, sub: String(claims.sub) };
+  const linked = await users.findOne({ 'oidc.issuer': identity.issuer, 'oidc.sub': identity.sub });
+  if (linked) return linked;
+
+  const email = claims.email ? String(claims.email).toLowerCase() : '';
+  if (!EMAIL_RE.test(email) || claims.email_verified === false) {
+    throw ssoError('Your identity provider did not share a verified email address');
+  }
+  const existing = await users.findOne({ email });
+  if (existing) {
+    // Linking hands the IdP a password-free way into the account, so it needs an explicitly verified
+    // email, and admin accounts are never linked (they keep signing in with their password)
+    if (claims.email_verified !== true) throw ssoError('Your identity provider did not confirm this email address, so it cannot be linked to an existing account');
+    if (existing.role === 'admin') throw ssoError('Administrator accounts cannot sign in with single sign-on');
+    // Linking keeps the account's role; claims only decide the role of new accounts
+    if (existing.oidc) throw ssoError('This email is already linked to a different sign-on identity');
+    await users.updateOne({ _id: existing._id }, { $set: { oidc: { ...identity, linkedAt: now } }, $unset: { invite: '' } });
+    return { ...existing, oidc: identity };
+  }
+  const name = claims.name || [claims.given_name, claims.family_name].filter(Boolean).join(' ') || email;
+  const userDoc = { name, email, role: roleFromClaims(claims, config), oidc: { ...identity, linkedAt: now }, createdAt: now, provisionedBy: 'oidc' };
+  const r = await users.insertOne(userDoc);
+  return { ...userDoc, _id: r.insertedId };
+}
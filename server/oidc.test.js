@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest';
+import crypto from 'crypto';
+import { parseRoleMap, verifyIdToken, roleFromClaims, resolveSsoUser } from './oidc.js';
+import { ISSUER, JWK, signJwt, claimsFor } from './mock-oidc.js';
+import { memoryCollection } from './memoryDb.js';
+
+const config = {
+  issuer: ISSUER,
+  clientId: 'lumoai',
+  roleClaim: 'roles',
+  roleMap: parseRoleMap('faculty=teacher,student=student'),
+  defaultRole: 'student',
+};
+const nowMs = Date.UTC(2026, 0, 1);
+const nowSeconds = nowMs / 1000;
+const getKey = async (kid) => {
+  if (kid !== JWK.kid) throw new Error('ID token is signed with an unknown key');
+  return JWK;
+};
+
+const idToken = (overrides = {}) => signJwt({
+  ...claimsFor({ email: 'ada@uni.edu', role: 'faculty' }),
+  iss: ISSUER,
+  aud: 'lumoai',
+  iat: nowSeconds,
+  exp: nowSeconds + 3600,
+  nonce: 'n1',
+  ...overrides,
+});
+const verify = (token, nonce = 'n1', at = nowMs) => verifyIdToken(token, nonce, config, getKey, at);
+
+describe('verifyIdToken', () => {
+  it('returns the claims of a token signed by the issuer', async () => {
+    const claims = await verify(idToken());
+    expect(claims).toMatchObject({ email: 'ada@uni.edu', email_verified: true, aud: 'lumoai', nonce: 'n1' });
+  });
+
+  it('rejects a tampered payload or signature', async () => {
+    const [header, payload, signature] = idToken().split('.');
+    const forged = Buffer.from(JSON.stringify({ ...JSON.parse(Buffer.from(payload, 'base64url')), email: 'admin@uni.edu' })).toString('base64url');
+    await expect(verify(`${header}.${forged}.${signature}`)).rejects.toThrow('Invalid ID token signature (RS256)');
+    const flipped = Buffer.from(signature, 'base64url');
+    flipped[0] ^= 1;
+    await expect(verify(`${header}.${payload}.${flipped.toString('base64url')}`)).rejects.toThrow('Invalid ID token signature');
+  });
+
+  it('rejects a token signed by another key or with alg none', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+    const header = Buffer.from(JSON.stringify({ alg: 'RS256', kid: JWK.kid })).toString('base64url');
+    const payload = idToken().split('.')[1];
+    const signature = crypto.sign('RSA-SHA256', Buffer.from(`${header}.${payload}`), privateKey).toString('base64url');
+    await expect(verify(`${header}.${payload}.${signature}`)).rejects.toThrow('Invalid ID token signature');
+    const none = Buffer.from(JSON.stringify({ alg: 'none', kid: JWK.kid })).toString('base64url');
+    await expect(verify(`${none}.${payload}.x`)).rejects.toThrow('Invalid ID token signature (none)');
+  });
+
+  it('rejects malformed tokens', async () => {
+    await expect(verify(undefined)).rejects.toThrow('Missing or malformed ID token');
+    await expect(verify('a.b')).rejects.toThrow('Missing or malformed ID token');
+  });
+
+  it('rejects a token for another issuer or audience', async () => {
+    await expect(verify(idToken({ iss: 'https://evil.example' }))).rejects.toThrow('ID token issuer mismatch');
+    await expect(verify(idToken({ aud: 'another-app' }))).rejects.toThrow('ID token audience mismatch');
+    await expect(verify(idToken({ aud: ['lumoai', 'another-app'] }))).rejects.toThrow('ID token audience mismatch');
+    await expect(verify(idToken({ aud: ['lumoai', 'another-app'], azp: 'lumoai' }))).resolves.toBeTruthy();
+  });
+
+  it('rejects expired tokens after a minute of leeway', async () => {
+    const token = idToken({ exp: nowSeconds });
+    await expect(verify(token, 'n1', nowMs + 59 * 1000)).resolves.toBeTruthy();
+    await expect(verify(token, 'n1', nowMs + 60 * 1000)).rejects.toThrow('ID token expired');
+    await expect(verify(idToken({ exp: undefined }))).rejects.toThrow('ID token expired');
+  });
+
+  it('rejects a nonce from another sign-in attempt', async () => {
+    await expect(verify(idToken(), 'n2')).rejects.toThrow('ID token nonce mismatch');
+    await expect(verify(idToken({ nonce: undefined }))).rejects.toThrow('ID token nonce mismatch');
+  });
+});
+
+describe('roleFromClaims', () => {
+  it('maps claim values through the role map, teacher first', () => {
+    expect(roleFromClaims({ roles: ['student', 'Faculty'] }, config)).toBe('teacher');
+    expect(roleFromClaims({ roles: 'student' }, config)).toBe('student');
+  });
+
+  it('falls back to the default role for unmapped or missing claims', () => {
+    expect(roleFromClaims({ roles: ['alumni'] }, config)).toBe('student');
+    expect(roleFromClaims({}, { ...config, defaultRole: 'teacher' })).toBe('teacher');
+    expect(roleFromClaims({ roles: ['faculty'] }, { ...config, roleClaim: '' })).toBe('student');
+  });
+
+  it('reads nested claims and never maps to admin', () => {
+    const nested = { ...config, roleClaim: 'realm_access.roles', roleMap: parseRoleMap('faculty=teacher,ops=admin') };
+    expect(nested.roleMap).toEqual({ faculty: 'teacher' });
+    expect(roleFromClaims({ realm_access: { roles: ['faculty'] } }, nested)).toBe('teacher');
+    expect(roleFromClaims({ realm_access: { roles: ['ops'] } }, nested)).toBe('student');
+  });
+});
+
+describe('resolveSsoUser', () => {
+  const claims = (overrides = {}) => ({ ...claimsFor({ email: 'Ada@Uni.edu', name: 'Ada', role: 'faculty' }), ...overrides });
+  const linkedTo = (sub) => ({ issuer: ISSUER, sub });
+
+  it('returns the account already linked to the identity', async () => {
+    const linked = { _id: 'u1', email: 'old@uni.edu', oidc: linkedTo(claims().sub) };
+    expect(await resolveSsoUser(memoryCollection([linked]), claims(), config)).toBe(linked);
+  });
+
+  it('links an existing account with the same verified email and keeps its role', async () => {
+    const users = memoryCollection([{ _id: 'u1', email: 'ada@uni.edu', role: 'student', invite: { token: 't' } }]);
+    const user = await resolveSsoUser(users, claims(), config);
+    expect(user).toMatchObject({ _id: 'u1', role: 'student', oidc: linkedTo(claims().sub) });
+    expect(users.docs[0].invite).toBeUndefined();
+    expect(users.docs[0].oidc).toMatchObject(linkedTo(claims().sub));
+  });
+
+  it('does not link on an email the provider has not verified', async () => {
+    const users = memoryCollection([{ _id: 'u1', email: 'ada@uni.edu', role: 'student' }]);
+    await expect(resolveSsoUser(users, claims({ email_verified: undefined }), config)).rejects.toMatchObject({
+      userMessage: 'Your identity provider did not confirm this email address, so it cannot be linked to an existing account',
+    });
+    await expect(resolveSsoUser(users, claims({ email_verified: false }), config)).rejects.toMatchObject({
+      userMessage: 'Your identity provider did not share a verified email address',
+    });
+    expect(users.docs[0].oidc).toBeUndefined();
+  });
+
+  it('never links admin accounts', async () => {
+    const users = memoryCollection([{ _id: 'a1', email: 'ada@uni.edu', role: 'admin' }]);
+    await expect(resolveSsoUser(users, claims(), config)).rejects.toMatchObject({ userMessage: 'Administrator accounts cannot sign in with single sign-on' });
+    expect(users.docs[0].oidc).toBeUndefined();
+  });
+
+  it('refuses an account already linked to another identity', async () => {
+    const users = memoryCollection([{ _id: 'u1', email: 'ada@uni.edu', role: 'teacher', oidc: linkedTo('someone-else') }]);
+    await expect(resolveSsoUser(users, claims(), config)).rejects.toMatchObject({ userMessage: 'This email is already linked to a different sign-on identity' });
+    expect(users.docs[0].oidc.sub).toBe('someone-else');
+  });
+
+  it('creates an account with the role from the claims', async () => {
+    const users = memoryCollection();
+    const user = await resolveSsoUser(users, claims(), config);
+    expect(user).toMatchObject({ name: 'Ada', email: 'ada@uni.edu', role: 'teacher', provisionedBy: 'oidc', oidc: linkedTo(claims().sub) });
+    expect(users.docs).toHaveLength(1);
+  });
+
+  it('needs a usable email to create or link an account', async () => {
+    await expect(resolveSsoUser(memoryCollection(), claims({ email: undefined }), config)).rejects.toMatchObject({
+      userMessage: 'Your identity provider did not share a verified email address',
+    });
+  });
+});
@@ -0,0 +1,174 @@
+// Question shapes shared by module quizzes and the question bank: repairing AI output
+// (sanitizeQuiz) and validating what teachers save (validateEditedQuiz).
+
+import { QUIZ_DIFFICULTIES } from './adaptive.js';
+
+export const QUIZ_QUESTION_TYPES = ['mcq', 'true_false', 'multi_select', 'numeric', 'short_text', 'code_output'];
+
+export const cleanList = (list) => {
+  const seen = new Set();
+  return (Array.isArray(list) ? list : []).map(v => String(v ?? '').trim()).filter(v => v && !seen.has(v) && seen.add(v));
+};
+
+// Ensure MCQs are well-formed: 4 unique non-empty options and a valid correctAnswer
+function sanitizeChoiceQuestion(q, idx, moduleTitle, topicPool) {
+  const makeDistractor = (i) => `${moduleTitle} concept ${i+1}`;
+  const placeholderRe = /^(option\s*[a-d]|definition\s*[a-d]|pitfall\s*[a-d]|ex(?:ample)?\s*[a-d]|p\d+)$/i;
+  const question = (q?.question && String(q.question).trim()) || `Question ${idx+1} on ${moduleTitle}`;
+  const rawOpts = Array.isArray(q?.options) ? q.options : [];
+  let trimmed = rawOpts.map(o => String(o || '').trim()).filter(Boolean);
+  // Replace generic placeholders with topic-derived phrases if detected
+  trimmed = trimmed.map((o, i2) => placeholderRe.test(o) ? (topicPool[i2 % Math.max(1, topicPool.length)] || makeDistractor(i2)) : o);
+  // Deduplicate while keeping order
+  const seen = new Set();
+  let options = trimmed.filter(o => { if (seen.has(o)) return false; seen.add(o); return true; });
+  let correct = String(q?.correctAnswer || '').trim();
+  if (correct && !options.includes(correct)) options.push(correct);
+  // Fill up to 4
+  let padIdx = 0;
+  while (options.length < 4) {
+    const cand = makeDistractor(padIdx++);
+    if (!options.includes(cand)) options.push(cand);
+  }
+  // Clip to 4 but keep correct if possible
+  if (options.length > 4) {
+    if (correct && options.includes(correct)) {
+      const keep = [correct];
+      for (const o of options) { if (keep.length === 4) break; if (o !== correct) keep.push(o); }
+      options = keep;
+    } else {
+      options = options.slice(0, 4);
+    }
+  }
+  if (!correct || !options.includes(correct)) correct = options[0];
+  return { question, options, correctAnswer: correct };
+}
+
+// Keep only well-formed source pointers ({ lectureId, slideIndex } and/or { materialId, chunkIndex })
+function cleanSource(source) {
+  if (!source || typeof source !== 'object') return undefined;
+  const out = {};
+  if (Number.isInteger(source.slideIndex) && source.slideIndex >= 0) {
+    out.slideIndex = source.slideIndex;
+    if (source.lectureId) out.lectureId = String(source.lectureId);
+  }
+  if (source.materialId && Number.isInteger(source.chunkIndex) && source.chunkIndex >= 0) {
+    out.materialId = String(source.materialId);
+    out.chunkIndex = source.chunkIndex;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+// Topic and difficulty tags. With a topic pool, only topics from the pool are kept (case-insensitive).
+function cleanTags(raw, topicPool) {
+  const out = {};
+  const topic = String(raw?.topic || '').trim();
+  if (topic) {
+    const match = topicPool?.length ? topicPool.find(t => t.toLowerCase() === topic.toLowerCase()) : topic.slice(0, 120);
+    if (match) out.topic = match;
+  }
+  if (QUIZ_DIFFICULTIES.includes(raw?.difficulty)) out.difficulty = raw.difficulty;
+  return out;
+}
+
+// Review metadata and tags shared by every question type
+const withReviewFields = (q, raw, topicPool) => {
+  const explanation = String(raw?.explanation || '').trim();
+  const source = cleanSource(raw?.source);
+  return { ...q, ...(explanation ? { explanation } : {}), ...(source ? { source } : {}), ...cleanTags(raw, topicPool) };
+};
+
+// Repair AI output per question type. Items that cannot be repaired become MCQs.
+export function sanitizeQuiz(quiz, courseTitle, moduleTitle, topics = []) {
+  if (!Array.isArray(quiz)) return [];
+  const topicPool = (Array.isArray(topics) ? topics : []).filter(Boolean);
+  return quiz.map((q, idx) => withReviewFields(sanitizeQuestion(q, idx, moduleTitle, topicPool), q, topicPool));
+}
+
+// Coerce one AI-generated item into a well-formed question of its declared type
+function sanitizeQuestion(q, idx, moduleTitle, topicPool) {
+  const type = QUIZ_QUESTION_TYPES.includes(q?.type) ? q.type : 'mcq';
+  const question = String(q?.question || '').trim();
+  const correctAnswer = String(q?.correctAnswer ?? '').trim();
+  if (question) {
+    if (type === 'true_false') {
+      return { type, question, options: ['True', 'False'], correctAnswer: /^(true|t|yes)$/i.test(correctAnswer) ? 'True' : 'False' };
+    }
+    if (type === 'multi_select') {
+      const options = cleanList(q.options).slice(0, 6);
+      const correctAnswers = cleanList(q.correctAnswers).filter(a => options.includes(a));
+      if (options.length >= 3 && correctAnswers.length) return { type, question, options, correctAnswers, correctAnswer: correctAnswers.join(', ') };
+    }
+    if (type === 'numeric' && correctAnswer !== '' && Number.isFinite(Number(correctAnswer))) {
+      return { type, question, options: [], correctAnswer, tolerance: Math.max(0, Number(q.tolerance) || 0) };
+    }
+    if (type === 'short_text' && correctAnswer) {
+      return { type, question, options: [], correctAnswer, acceptedAnswers: cleanList(q.acceptedAnswers).filter(a => a !== correctAnswer) };
+    }
+    if (type === 'code_output' && String(q.code || '').trim() && correctAnswer) {
+      const base = { type, question, code: String(q.code), codeLanguage: String(q.codeLanguage || '').trim() || undefined, correctAnswer };
+      const options = cleanList(q.options);
+      if (options.length >= 2 && options.includes(correctAnswer)) return { ...base, options };
+      return { ...base, options: [], acceptedAnswers: cleanList(q.acceptedAnswers).filter(a => a !== correctAnswer) };
+    }
+  }
+  return { type: 'mcq', ...sanitizeChoiceQuestion(q, idx, moduleTitle, topicPool) };
+}
+
+// Validate teacher-edited questions without padding or rewriting them.
+// Returns { questions } on success or { error } describing the first problem.
+export function validateEditedQuiz(questions, topicPool) {
+  if (!Array.isArray(questions) || !questions.length) return { error: 'At least one question is required' };
+  const out = [];
+  for (let i = 0; i < questions.length; i++) {
+    const q = questions[i] || {};
+    const label = `Question ${i + 1}`;
+    const type = q.type || 'mcq';
+    if (!QUIZ_QUESTION_TYPES.includes(type)) return { error: `${label} has an unknown type` };
+    const question = String(q.question || '').trim();
+    if (!question) return { error: `${label} is empty` };
+    const rawOptions = (Array.isArray(q.options) ? q.options : []).map(o => String(o || '').trim()).filter(Boolean);
+    const options = cleanList(rawOptions);
+    if (options.length !== rawOptions.length) return { error: `${label} has duplicate options` };
+    const correctAnswer = String(q.correctAnswer ?? '').trim();
+    const checkChoices = () => {
+      if (options.length < 2 || options.length > 6) return `${label} needs between 2 and 6 options`;
+      if (!options.includes(correctAnswer)) return `${label} must mark one option as correct`;
+      return null;
+    };
+    if (type === 'mcq') {
+      const err = checkChoices();
+      if (err) return { error: err };
+      out.push(withReviewFields({ type, question, options, correctAnswer }, q, topicPool));
+    } else if (type === 'true_false') {
+      if (!['True', 'False'].includes(correctAnswer)) return { error: `${label} must be answered True or False` };
+      out.push(withReviewFields({ type, question, options: ['True', 'False'], correctAnswer }, q, topicPool));
+    } else if (type === 'multi_select') {
+      if (options.length < 2 || options.length > 6) return { error: `${label} needs between 2 and 6 options` };
+      const correctAnswers = cleanList(q.correctAnswers);
+      if (!correctAnswers.length || correctAnswers.some(a => !options.includes(a))) return { error: `${label} must mark at least one option as correct` };
+      out.push(withReviewFields({ type, question, options, correctAnswers, correctAnswer: correctAnswers.join(', ') }, q, topicPool));
+    } else if (type === 'numeric') {
+      const tolerance = Number(q.tolerance) || 0;
+      if (correctAnswer === '' || !Number.isFinite(Number(correctAnswer))) return { error: `${label} needs a numeric answer` };
+      if (tolerance < 0) return { error: `${label} has a negative tolerance` };
+      out.push(withReviewFields({ type, question, options: [], correctAnswer, tolerance }, q, topicPool));
+    } else if (type === 'short_text') {
+      if (!correctAnswer) return { error: `${label} needs an answer` };
+      out.push(withReviewFields({ type, question, options: [], correctAnswer, acceptedAnswers: cleanList(q.acceptedAnswers) }, q, topicPool));
+    } else {
+      const code = String(q.code || '');
+      if (!code.trim()) return { error: `${label} needs a code snippet` };
+      const codeLanguage = String(q.codeLanguage || '').trim() || undefined;
+      if (options.length) {
+        const err = checkChoices();
+        if (err) return { error: err };
+        out.push(withReviewFields({ type, question, code, codeLanguage, options, correctAnswer }, q, topicPool));
+      } else {
+        if (!correctAnswer) return { error: `${label} needs the expected output` };
+        out.push(withReviewFields({ type, question, code, codeLanguage, options: [], correctAnswer, acceptedAnswers: cleanList(q.acceptedAnswers) }, q, topicPool));
+      }
+    }
+  }
+  return { questions: out };
+}
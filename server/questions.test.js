@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { sanitizeQuiz, validateEditedQuiz } from './questions.js';
+
+const mcq = { type: 'mcq', question: 'Q?', options: ['a', 'b', 'c'], correctAnswer: 'a' };
+
+describe('validateEditedQuiz', () => {
+  it('keeps topics from the module pool, matching case-insensitively', () => {
+    const { questions } = validateEditedQuiz([{ ...mcq, topic: 'LOOPS', difficulty: 'hard' }], ['Loops', 'Recursion']);
+    expect(questions[0]).toMatchObject({ topic: 'Loops', difficulty: 'hard' });
+  });
+
+  it('drops topics outside the module pool', () => {
+    const { questions } = validateEditedQuiz([{ ...mcq, topic: 'Something else entirely' }], ['Loops']);
+    expect(questions[0].topic).toBeUndefined();
+  });
+
+  it('keeps free-text topics only when the module has none', () => {
+    const { questions } = validateEditedQuiz([{ ...mcq, topic: `  ${'x'.repeat(200)} ` }], []);
+    expect(questions[0].topic).toBe('x'.repeat(120));
+  });
+
+  it('drops unknown difficulties and malformed sources', () => {
+    const { questions } = validateEditedQuiz([{ ...mcq, difficulty: 'brutal', source: { slideIndex: -1 } }], []);
+    expect(questions[0]).toEqual(mcq);
+  });
+
+  it('reports the first invalid question', () => {
+    expect(validateEditedQuiz([], [])).toEqual({ error: 'At least one question is required' });
+    expect(validateEditedQuiz([mcq, { ...mcq, correctAnswer: 'z' }], [])).toEqual({ error: 'Question 2 must mark one option as correct' });
+    expect(validateEditedQuiz([{ ...mcq, options: ['a', 'a'] }], [])).toEqual({ error: 'Question 1 has duplicate options' });
+    expect(validateEditedQuiz([{ type: 'numeric', question: 'N?', correctAnswer: 'ten' }], [])).toEqual({ error: 'Question 1 needs a numeric answer' });
+    expect(validateEditedQuiz([{ type: 'essay', question: 'E?' }], [])).toEqual({ error: 'Question 1 has an unknown type' });
+  });
+});
+
+describe('sanitizeQuiz', () => {
+  it('pads generated choice questions to four options and keeps pool topics only', () => {
+    const [q] = sanitizeQuiz([{ question: 'Q?', options: ['a', 'a', 'b'], correctAnswer: 'c', topic: 'Made up' }], 'Course', 'Module', ['Loops']);
+    expect(q.options).toEqual(['a', 'b', 'c', 'Module concept 1']);
+    expect(q.correctAnswer).toBe('c');
+    expect(q.topic).toBeUndefined();
+  });
+
+  it('falls back to a choice question when a typed item cannot be repaired', () => {
+    const [q] = sanitizeQuiz([{ type: 'numeric', question: 'N?', correctAnswer: 'ten' }], 'Course', 'Module', []);
+    expect(q.type).toBe('mcq');
+    expect(q.options).toContain('ten');
+  });
+});
@@ -0,0 +1,34 @@
+// Fixed-window rate limit counters and the login lockout backoff. Counters live in memory, which
+// is enough while the server runs as a single process.
+
+const WINDOW_UNITS_MS = { s: 1000, m: 60 * 1000, h: 60 * 60 * 1000 };
+
+// "<count>/<window>", e.g. "10/15m" or "5/h"; null for anything else (including "off")
+export const parseBudget = (spec) => {
+  const m = /^(\d+)\s*\/\s*(\d*)\s*([smh])$/.exec(String(spec || '').trim());
+  return m ? { limit: Number(m[1]), windowMs: Number(m[2] || 1) * WINDOW_UNITS_MS[m[3]] } : null;
+};
+
+// key -> { count, resetAt }
+const rateBuckets = new Map();
+setInterval(() => {
+  const now = Date.now();
+  for (const [key, bucket] of rateBuckets) if (bucket.resetAt <= now) rateBuckets.delete(key);
+}, 60 * 1000).unref();
+
+// Count one request; returns the seconds until the window resets when over budget, else 0
+export function hitRateLimit(key, budget, now = Date.now()) {
+  let bucket = rateBuckets.get(key);
+  if (!bucket || bucket.resetAt <= now) {
+    bucket = { count: 0, resetAt: now + budget.windowMs };
+    rateBuckets.set(key, bucket);
+  }
+  bucket.count += 1;
+  return bucket.count > budget.limit ? Math.ceil((bucket.resetAt - now) / 1000) : 0;
+}
+
+// How long `failures` wrong passwords in a row lock an account for, in ms (0 below the threshold)
+export function lockoutDuration(failures, { threshold, baseMs, maxMs }) {
+  const over = failures - threshold;
+  return over < 0 ? 0 : Math.min(maxMs, baseMs * 2 ** over);
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { parseBudget, hitRateLimit, lockoutDuration } from './rateLimit.js';
+
+describe('parseBudget', () => {
+  it('reads a count and a window', () => {
+    expect(parseBudget('10/15m')).toEqual({ limit: 10, windowMs: 15 * 60 * 1000 });
+    expect(parseBudget(' 30 / 1h ')).toEqual({ limit: 30, windowMs: 60 * 60 * 1000 });
+    expect(parseBudget('5/s')).toEqual({ limit: 5, windowMs: 1000 });
+  });
+
+  it('returns null when the limit is off or malformed', () => {
+    for (const spec of ['off', '', undefined, '10', '10/15d', '/15m', '-1/1h', '1.5/1h']) expect(parseBudget(spec)).toBeNull();
+  });
+});
+
+describe('hitRateLimit', () => {
+  const budget = { limit: 2, windowMs: 60 * 1000 };
+
+  it('allows the budget, then reports the seconds left in the window', () => {
+    const t = 1_000_000;
+    expect(hitRateLimit('test:a', budget, t)).toBe(0);
+    expect(hitRateLimit('test:a', budget, t + 1000)).toBe(0);
+    expect(hitRateLimit('test:a', budget, t + 20_500)).toBe(40);
+    expect(hitRateLimit('test:a', budget, t + 59_999)).toBe(1);
+  });
+
+  it('starts a fresh window once the last one ends', () => {
+    const t = 2_000_000;
+    hitRateLimit('test:b', budget, t);
+    hitRateLimit('test:b', budget, t);
+    expect(hitRateLimit('test:b', budget, t)).toBeGreaterThan(0);
+    expect(hitRateLimit('test:b', budget, t + 60_000)).toBe(0);
+  });
+
+  it('counts each key separately', () => {
+    const t = 3_000_000;
+    hitRateLimit('test:c', budget, t);
+    hitRateLimit('test:c', budget, t);
+    expect(hitRateLimit('test:c', budget, t)).toBeGreaterThan(0);
+    expect(hitRateLimit('test:d', budget, t)).toBe(0);
+  });
+});
+
+describe('lockoutDuration', () => {
+  const policy = { threshold: 5, baseMs: 60 * 1000, maxMs: 60 * 60 * 1000 };
+
+  it('does not lock below the threshold', () => {
+    expect(lockoutDuration(0, policy)).toBe(0);
+    expect(lockoutDuration(4, policy)).toBe(0);
+  });
+
+  it('doubles with each failure past the threshold up to the cap', () => {
+    expect([5, 6, 7, 8, 9, 10, 11, 12].map(n => lockoutDuration(n, policy) / 60000)).toEqual([1, 2, 4, 8, 16, 32, 60, 60]);
+  });
+});
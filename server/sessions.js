@@ -0,0 +1,47 @@
+// Sessions: a short-lived bearer token plus a refresh token that is swapped for a new pair on every
+// refresh (rotation), so each refresh token works once. The functions take the sessions collection
+// and the lifetimes ({ sessionMs, refreshMs }) so they can run against an in-memory stand-in.
+
+import crypto from 'crypto';
+
+export const newSessionTokens = (ttl, now = new Date()) => ({
+  token: crypto.randomBytes(32).toString('hex'),
+  refreshToken: crypto.randomBytes(32).toString('hex'),
+  expiresAt: new Date(now.getTime() + ttl.sessionMs),
+  refreshExpiresAt: new Date(now.getTime() + ttl.refreshMs),
+});
+
+// Client-facing part of a session: the bearer token, the refresh token and when the bearer token expires
+export const toSessionView = (s) => ({ token: s.token, refreshToken: s.refreshToken, expiresAt: s.expiresAt });
+
+export async function startSession(sessions, userId, userAgent, ttl, now = new Date()) {
+  const session = { ...newSessionTokens(ttl, now), userId, userAgent: String(userAgent || '').slice(0, 200), createdAt: now };
+  await sessions.insertOne(session);
+  return session;
+}
+
+// The session behind a bearer token that has not expired
+export const findLiveSession = (sessions, token, now = new Date()) => sessions.findOne({ token, expiresAt: { $gt: now } });
+
+// Swap a live refresh token for a new pair in one atomic update. The old bearer and refresh tokens
+// stop matching, so replaying a used refresh token finds nothing. Null when the token is unknown,
+// already used or expired.
+export async function rotateSession(sessions, refreshToken, ttl, now = new Date()) {
+  return sessions.findOneAndUpdate(
+    { refreshToken, refreshExpiresAt: { $gt: now } },
+    { $set: { ...newSessionTokens(ttl, now), refreshedAt: now } },
+    { returnDocument: 'after' }
+  );
+}
+
+// Revoke the session named by either token; resolves to the number removed (0 or 1)
+export async function revokeSession(sessions, { token, refreshToken }) {
+  const or = [...(token ? [{ token }] : []), ...(refreshToken ? [{ refreshToken }] : [])];
+  if (!or.length) return 0;
+  return (await sessions.deleteOne({ $or: or })).deletedCount;
+}
+
+// Sign a user out everywhere
+export async function revokeUserSessions(sessions, userId) {
+  return (await sessions.deleteMany({ userId })).deletedCount;
+}
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { startSession, findLiveSession, rotateSession, revokeSession, revokeUserSessions, toSessionView } from './sessions.js';
+import { memoryCollection } from './memoryDb.js';
+
+const ttl = { sessionMs: 60 * 60 * 1000, refreshMs: 30 * 24 * 60 * 60 * 1000 };
+const start = new Date('2026-01-01T00:00:00Z');
+const later = (ms) => new Date(start.getTime() + ms);
+
+let sessions;
+
+beforeEach(() => {
+  sessions = memoryCollection();
+});
+
+describe('startSession and findLiveSession', () => {
+  it('issues a token pair that works until the bearer token expires', async () => {
+    const session = await startSession(sessions, 'u1', 'agent', ttl, start);
+    expect(session.token).not.toBe(session.refreshToken);
+    expect(session.expiresAt).toEqual(later(ttl.sessionMs));
+    expect(session.refreshExpiresAt).toEqual(later(ttl.refreshMs));
+    expect(await findLiveSession(sessions, session.token, later(ttl.sessionMs - 1))).toBe(session);
+    expect(await findLiveSession(sessions, session.token, later(ttl.sessionMs))).toBeNull();
+  });
+
+  it('shows the client only its tokens and the expiry', async () => {
+    const session = await startSession(sessions, 'u1', 'agent', ttl, start);
+    expect(Object.keys(toSessionView(session))).toEqual(['token', 'refreshToken', 'expiresAt']);
+  });
+
+  it('caps the stored user agent', async () => {
+    expect((await startSession(sessions, 'u1', 'x'.repeat(500), ttl, start)).userAgent).toHaveLength(200);
+  });
+});
+
+describe('rotateSession', () => {
+  it('replaces both tokens and extends the session', async () => {
+    const { token, refreshToken } = await startSession(sessions, 'u1', 'agent', ttl, start);
+    const rotated = await rotateSession(sessions, refreshToken, ttl, later(ttl.sessionMs + 1));
+    expect(rotated.token).not.toBe(token);
+    expect(rotated.refreshToken).not.toBe(refreshToken);
+    expect(rotated.expiresAt).toEqual(later(2 * ttl.sessionMs + 1));
+    expect(await findLiveSession(sessions, rotated.token, later(ttl.sessionMs + 2))).toBe(rotated);
+    expect(await findLiveSession(sessions, token, start)).toBeNull();
+  });
+
+  it('rejects a refresh token that was already used', async () => {
+    const { refreshToken } = await startSession(sessions, 'u1', 'agent', ttl, start);
+    const rotated = await rotateSession(sessions, refreshToken, ttl, later(1000));
+    expect(await rotateSession(sessions, refreshToken, ttl, later(2000))).toBeNull();
+    // The replay leaves the rotated session working
+    expect(await rotateSession(sessions, rotated.refreshToken, ttl, later(3000))).not.toBeNull();
+  });
+
+  it('rejects unknown and expired refresh tokens', async () => {
+    const { refreshToken } = await startSession(sessions, 'u1', 'agent', ttl, start);
+    expect(await rotateSession(sessions, 'unknown', ttl, start)).toBeNull();
+    expect(await rotateSession(sessions, refreshToken, ttl, later(ttl.refreshMs))).toBeNull();
+  });
+});
+
+describe('revoking sessions', () => {
+  it('signs out one session by either token', async () => {
+    const a = await startSession(sessions, 'u1', 'phone', ttl, start);
+    const b = await startSession(sessions, 'u1', 'laptop', ttl, start);
+    expect(await revokeSession(sessions, { token: a.token })).toBe(1);
+    expect(await revokeSession(sessions, { refreshToken: b.refreshToken })).toBe(1);
+    expect(sessions.docs).toEqual([]);
+  });
+
+  it('revokes nothing for unknown or missing tokens', async () => {
+    await startSession(sessions, 'u1', 'phone', ttl, start);
+    expect(await revokeSession(sessions, { token: 'unknown' })).toBe(0);
+    expect(await revokeSession(sessions, {})).toBe(0);
+    expect(sessions.docs).toHaveLength(1);
+  });
+
+  it('signs a user out of every device and leaves other users alone', async () => {
+    await startSession(sessions, 'u1', 'phone', ttl, start);
+    await startSession(sessions, 'u1', 'laptop', ttl, start);
+    const other = await startSession(sessions, 'u2', 'phone', ttl, start);
+    expect(await revokeUserSessions(sessions, 'u1')).toBe(2);
+    expect(sessions.docs).toEqual([other]);
+  });
+});
@@ -0,0 +1,17 @@
+// Flashcard review scheduling (SM-2). A card carries { ease, interval, repetitions }; intervals are in days.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2: grade 0-5; below 3 restarts the card, otherwise the interval grows by the ease factor
+export function scheduleReview(card, grade, now = new Date()) {
+  let { ease = 2.5, interval = 0, repetitions = 0 } = card;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions += 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(interval * ease);
+  }
+  ease = Math.max(1.3, Math.round((ease + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))) * 100) / 100);
+  return { ease, interval, repetitions, dueAt: new Date(now.getTime() + interval * DAY_MS), lastReviewedAt: now };
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { scheduleReview } from './spacedRepetition.js';
+
+const now = new Date('2026-01-01T00:00:00Z');
+const fresh = { ease: 2.5, interval: 0, repetitions: 0 };
+
+describe('scheduleReview', () => {
+  it('uses the 1 day, 6 days, then interval × ease ladder', () => {
+    const first = scheduleReview(fresh, 4, now);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5 });
+    const second = scheduleReview(first, 4, now);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    const third = scheduleReview(second, 4, now);
+    expect(third).toMatchObject({ interval: 15, repetitions: 3 });
+  });
+
+  it('adjusts the ease factor by the SM-2 formula', () => {
+    expect(scheduleReview(fresh, 5, now).ease).toBe(2.6);
+    expect(scheduleReview(fresh, 4, now).ease).toBe(2.5);
+    expect(scheduleReview(fresh, 3, now).ease).toBe(2.36);
+    expect(scheduleReview(fresh, 0, now).ease).toBe(1.7);
+  });
+
+  it('never lets ease drop below 1.3', () => {
+    let card = fresh;
+    for (let i = 0; i < 10; i++) card = scheduleReview(card, 0, now);
+    expect(card.ease).toBe(1.3);
+  });
+
+  it('restarts a forgotten card but keeps its lowered ease', () => {
+    const learned = { ease: 2.5, interval: 15, repetitions: 3 };
+    const next = scheduleReview(learned, 2, now);
+    expect(next).toMatchObject({ interval: 1, repetitions: 0, ease: 2.18 });
+    expect(scheduleReview(next, 4, now)).toMatchObject({ interval: 1, repetitions: 1 });
+  });
+
+  it('sets the due date from the interval', () => {
+    const next = scheduleReview({ ease: 2.5, interval: 6, repetitions: 2 }, 4, now);
+    expect(next.lastReviewedAt).toBe(now);
+    expect(next.dueAt.toISOString()).toBe('2026-01-16T00:00:00.000Z');
+  });
+
+  it('defaults missing scheduling fields to a new card', () => {
+    expect(scheduleReview({}, 5, now)).toMatchObject({ interval: 1, repetitions: 1, ease: 2.6 });
+  });
+});
@@ -0,0 +1,49 @@
+// TOTP per RFC 6238 (HMAC-SHA1, 30 s steps, 6 digits) for two-factor sign-in. Secrets are kept
+// base32-encoded, the form authenticator apps expect in otpauth:// URLs.
+
+import crypto from 'crypto';
+
+export const TOTP_STEP_SECONDS = 30;
+export const TOTP_DIGITS = 6;
+// Accept the previous and next step too, for clock drift
+const TOTP_WINDOW = 1;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export const base32Encode = (buf) => {
+  let bits = '';
+  for (const byte of buf) bits += byte.toString(2).padStart(8, '0');
+  let out = '';
+  for (let i = 0; i < bits.length; i += 5) out += BASE32_ALPHABET[parseInt(bits.slice(i, i + 5).padEnd(5, '0'), 2)];
+  return out;
+};
+
+export const base32Decode = (str) => {
+  const bits = String(str).toUpperCase().replace(/[^A-Z2-7]/g, '').split('')
+    .map(c => BASE32_ALPHABET.indexOf(c).toString(2).padStart(5, '0')).join('');
+  const bytes = [];
+  for (let i = 0; i + 8 <= bits.length; i += 8) bytes.push(parseInt(bits.slice(i, i + 8), 2));
+  return Buffer.from(bytes);
+};
+
+// HOTP (RFC 4226) for one time step
+export function totpCode(secret, step) {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const value = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** TOTP_DIGITS;
+  return String(value).padStart(TOTP_DIGITS, '0');
+}
+
+// Returns the matched time step, or null. Callers reject steps at or before the last one used.
+export function verifyTotp(secret, code, afterStep = -1, nowMs = Date.now()) {
+  const clean = String(code || '').replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(clean)) return null;
+  const now = Math.floor(nowMs / 1000 / TOTP_STEP_SECONDS);
+  for (let step = now - TOTP_WINDOW; step <= now + TOTP_WINDOW; step++) {
+    if (step <= afterStep) continue;
+    const expected = totpCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(clean))) return step;
+  }
+  return null;
+}
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { base32Encode, base32Decode, totpCode, verifyTotp, TOTP_STEP_SECONDS } from './totp.js';
+
+// RFC 6238 appendix B, SHA-1 rows: the ASCII secret "12345678901234567890" and the expected
+// 8-digit codes, of which we use the last 6
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890', 'ascii'));
+const RFC_VECTORS = [
+  [59, '94287082'],
+  [1111111109, '07081804'],
+  [1111111111, '14050471'],
+  [1234567890, '89005924'],
+  [2000000000, '69279037'],
+  [20000000000, '65353130'],
+];
+
+const stepAt = (seconds) => Math.floor(seconds / TOTP_STEP_SECONDS);
+
+describe('base32', () => {
+  it('encodes per RFC 4648 without padding', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(RFC_SECRET).toBe('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('decodes what it encodes, ignoring case, spaces and padding', () => {
+    const secret = Buffer.from([0, 1, 2, 250, 251, 252, 253, 254, 255, 42]);
+    expect(base32Decode(base32Encode(secret))).toEqual(secret);
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+});
+
+describe('totpCode', () => {
+  it.each(RFC_VECTORS)('matches the RFC 6238 code at T=%i', (seconds, code) => {
+    expect(totpCode(RFC_SECRET, stepAt(seconds))).toBe(code.slice(-6));
+  });
+});
+
+describe('verifyTotp', () => {
+  const at = 1111111111 * 1000;
+  const step = stepAt(1111111111);
+
+  it('returns the matched step for a current code', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', -1, at)).toBe(step);
+    expect(verifyTotp(RFC_SECRET, ' 050 471 ', -1, at)).toBe(step);
+  });
+
+  it('accepts one step of clock drift either way', () => {
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), -1, at)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), -1, at)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), -1, at)).toBeNull();
+  });
+
+  it('rejects a code for a step already used', () => {
+    expect(verifyTotp(RFC_SECRET, '050471', step, at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), step, at)).toBe(step + 1);
+  });
+
+  it('rejects malformed and wrong codes', () => {
+    expect(verifyTotp(RFC_SECRET, '14050471', -1, at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, 'abcdef', -1, at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '', -1, at)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '000000', -1, at)).toBeNull();
+  });
+});
@@ -1,8 +1,11 @@
+import { getToken, authFetch } from './authService';
+import type { AuditEntry, AdminUser, Role, SecuritySettings, UserDeletionReport } from '../types';
+
 const envVars = (import.meta as any)?.env as Record<string, string | undefined>;
 const AUTH_BASE = envVars?.VITE_AUTH_BASE_URL?.trim() || 'http://localhost:8765/api/auth';
 const ADMIN_BASE = envVars?.VITE_ADMIN_BASE_URL?.trim() || AUTH_BASE.replace(/\/auth$/, '/admin');
 
-interface CreateTeacherResponse {
+interface AdminUserResponse {
   user: {
     id: string;
     name: string;
@@ -15,30 +18,101 @@ interface ResetPasswordResponse {
   success: boolean;
 }
 
-async function adminRequest<T>(path: string, secret: string, body: Record<string, unknown>): Promise<T> {
+const adminUrl = (path: string) => `${ADMIN_BASE}${path.startsWith('/') ? '' : '/'}${path}`;
+
+async function readResponse<T>(res: Response): Promise<T> {
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error((data as any)?.error || `Request failed: ${res.status}`);
+  }
+  return data as T;
+}
+
+// Admin endpoints authenticate with the signed-in admin's session
+async function adminRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = getToken();
+  const res = await authFetch(adminUrl(path), {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+  });
+  return readResponse<T>(res);
+}
+
+export async function getAdminStatus(): Promise<{ bootstrapped: boolean; secretConfigured: boolean }> {
+  return readResponse(await fetch(adminUrl('/status')));
+}
+
+// One-time creation of the first admin; the server refuses it once any admin exists
+export async function bootstrapAdmin(params: { name: string; email: string; password: string }, secret: string) {
   if (!secret) {
     throw new Error('Admin secret is required');
   }
-  const url = `${ADMIN_BASE}${path.startsWith('/') ? '' : '/'}${path}`;
-  const res = await fetch(url, {
+  const res = await fetch(adminUrl('/bootstrap'), {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
       'x-admin-secret': secret,
     },
-    body: JSON.stringify(body),
+    body: JSON.stringify(params),
   });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) {
-    throw new Error((data as any)?.error || `Request failed: ${res.status}`);
-  }
-  return data as T;
+  return readResponse<AdminUserResponse>(res);
+}
+
+export async function createTeacher(params: { name: string; email: string; password: string }) {
+  return adminRequest<AdminUserResponse>('/create-teacher', { method: 'POST', body: JSON.stringify(params) });
+}
+
+export async function resetPassword(params: { email: string; newPassword: string }) {
+  return adminRequest<ResetPasswordResponse>('/reset-password', { method: 'POST', body: JSON.stringify(params) });
+}
+
+export async function getAuditLog(before?: string) {
+  const query = before ? `?before=${encodeURIComponent(before)}` : '';
+  return adminRequest<{ entries: AuditEntry[]; hasMore: boolean }>(`/audit${query}`);
+}
+
+export async function listUsers(params: { q?: string; role?: string; status?: 'active' | 'suspended'; page?: number; pageSize?: number } = {}) {
+  const query = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') query.set(key, String(value));
+  });
+  const qs = query.toString();
+  return adminRequest<{ users: AdminUser[]; total: number; page: number; pageSize: number }>(`/users${qs ? `?${qs}` : ''}`);
+}
+
+// Suspending also signs the user out of every device
+export async function setUserSuspended(userId: string, suspended: boolean) {
+  return adminRequest<{ user: AdminUser; revokedSessions: number }>(`/users/${encodeURIComponent(userId)}/suspend`, {
+    method: 'POST',
+    body: JSON.stringify({ suspended }),
+  });
+}
+
+// Clears the user's 2FA and signs them out; used when they lost their authenticator and recovery codes
+export async function resetUserTwoFactor(userId: string) {
+  return adminRequest<{ user: AdminUser }>(`/users/${encodeURIComponent(userId)}/reset-2fa`, { method: 'POST' });
+}
+
+export async function changeUserRole(userId: string, role: Role) {
+  return adminRequest<{ user: AdminUser }>(`/users/${encodeURIComponent(userId)}/role`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role }),
+  });
+}
+
+// With dryRun nothing is deleted; the report lists what would be
+export async function deleteUser(userId: string, dryRun = false) {
+  return adminRequest<UserDeletionReport>(`/users/${encodeURIComponent(userId)}${dryRun ? '?dryRun=true' : ''}`, { method: 'DELETE' });
 }
 
-export async function createTeacher(params: { name: string; email: string; password: string }, secret: string) {
-  return adminRequest<CreateTeacherResponse>('/create-teacher', secret, params);
+export async function getSecuritySettings() {
+  return adminRequest<{ settings: SecuritySettings; roles: Role[] }>('/settings/security');
 }
 
-export async function resetPassword(params: { email: string; newPassword: string }, secret: string) {
-  return adminRequest<ResetPasswordResponse>('/reset-password', secret, params);
+// Users of these roles without 2FA are taken through enrollment at their next login
+export async function updateSecuritySettings(settings: SecuritySettings) {
+  return adminRequest<{ settings: SecuritySettings }>('/settings/security', { method: 'PUT', body: JSON.stringify(settings) });
 }
@@ -0,0 +1,33 @@
+import { getToken, authFetch } from './authService';
+import type { CourseAnalytics, QuizAnalytics, Gradebook, GradePolicy } from '../types';
+
+const BASE = '/api/analytics/courses';
+
+function authHeaders() {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+// Optional section filter shared by analytics and the gradebook
+const sectionQuery = (sectionId?: string, prefix = '?') => (sectionId ? `${prefix}sectionId=${encodeURIComponent(sectionId)}` : '');
+
+export async function getCourseAnalytics(courseId: string, sectionId?: string): Promise<CourseAnalytics> {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}${sectionQuery(sectionId)}`, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load course analytics');
+  return data.analytics as CourseAnalytics;
+}
+
+export async function getModuleAnalytics(courseId: string, moduleId: string, sectionId?: string): Promise<QuizAnalytics> {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}${sectionQuery(sectionId)}`, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load module analytics');
+  return data.analytics as QuizAnalytics;
+}
+
+export async function getGradebook(courseId: string, policy: GradePolicy, sectionId?: string): Promise<Gradebook> {
+  const res = await authFetch(`/api/courses/${encodeURIComponent(courseId)}/gradebook?policy=${encodeURIComponent(policy)}${sectionQuery(sectionId, '&')}`, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load gradebook');
+  return data.gradebook as Gradebook;
+}
@@ -1,6 +1,14 @@
-import { User, Role } from '../types';
+import { User, Role, TotpSetup } from '../types';
 
 const TOKEN_KEY = 'auth_token';
+const REFRESH_KEY = 'auth_refresh_token';
+
+// What the server returns on login, register and refresh
+export interface AuthSession {
+  token: string;
+  refreshToken: string;
+  expiresAt: string;
+}
 
 export function getToken(): string | null {
   return localStorage.getItem(TOKEN_KEY);
@@ -12,16 +20,90 @@ export function setToken(token: string) {
 
 export function clearToken() {
   localStorage.removeItem(TOKEN_KEY);
+  localStorage.removeItem(REFRESH_KEY);
+}
+
+function setSession(session: AuthSession) {
+  setToken(session.token);
+  localStorage.setItem(REFRESH_KEY, session.refreshToken);
+}
+
+// Listeners run when the session can no longer be refreshed, so the app can return to the login screen
+const expiredListeners = new Set<() => void>();
+
+export function onSessionExpired(listener: () => void): () => void {
+  expiredListeners.add(listener);
+  return () => { expiredListeners.delete(listener); };
+}
+
+function expireSession() {
+  clearToken();
+  expiredListeners.forEach(l => l());
 }
 
 const AUTH_BASE = (import.meta as any)?.env?.VITE_AUTH_BASE_URL || '/api/auth';
 
+let refreshing: Promise<boolean> | null = null;
+
+// Swap the refresh token for a new pair. Concurrent callers share one request, since the server
+// rotates the refresh token and a second exchange with the old one would fail.
+export function refreshSession(): Promise<boolean> {
+  const refreshToken = localStorage.getItem(REFRESH_KEY);
+  if (!refreshToken) return Promise.resolve(false);
+  if (!refreshing) {
+    refreshing = (async () => {
+      try {
+        const res = await fetch(`${AUTH_BASE}/refresh`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ refreshToken }),
+        });
+        if (!res.ok) return false;
+        setSession(await res.json());
+        return true;
+      } catch {
+        return false;
+      } finally {
+        refreshing = null;
+      }
+    })();
+  }
+  return refreshing;
+}
+
+// fetch for authenticated API calls: on a 401 it refreshes the session and retries once with the
+// new token; if that fails too the session is cleared and expiry listeners are notified.
+export async function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(input, init);
+  if (res.status !== 401 || !getToken()) return res;
+  if (await refreshSession()) {
+    const headers = new Headers(init.headers);
+    headers.set('Authorization', `Bearer ${getToken()}`);
+    const retry = await fetch(input, { ...init, headers });
+    if (retry.status !== 401) return retry;
+  }
+  expireSession();
+  return res;
+}
+
+// Throttled (429) responses carry Retry-After; the server's message already names the wait
+function rateLimitMessage(res: Response, data: any): string {
+  if (data?.error) return data.error;
+  const seconds = Number(res.headers.get('Retry-After'));
+  if (!seconds) return 'Too many attempts. Please wait a moment and try again.';
+  return `Too many attempts. Please wait ${seconds < 90 ? `${seconds} seconds` : `${Math.ceil(seconds / 60)} minutes`} and try again.`;
+}
+
+// Endpoints where a 401 means bad credentials rather than an expired session
+const CREDENTIAL_PATHS = ['/login', '/register', '/refresh', '/oidc/exchange'];
+
 async function request<T>(path: string, init?: RequestInit): Promise<T> {
   const token = getToken();
   const headers: Record<string, string> = { 'Content-Type': 'application/json', ...(init?.headers as any) };
   if (token) headers['Authorization'] = `Bearer ${token}`;
   const url = `${AUTH_BASE}${path.startsWith('/') ? '' : '/'}${path}`;
-  let res = await fetch(url, { ...init, headers });
+  const credentials = CREDENTIAL_PATHS.includes(path);
+  let res = credentials ? await fetch(url, { ...init, headers }) : await authFetch(url, { ...init, headers });
   const data = await res.json().catch(() => ({}));
   
   if (res.status === 404 && AUTH_BASE === '/api/auth') {
@@ -34,32 +116,130 @@ async function request<T>(path: string, init?: RequestInit): Promise<T> {
     } catch (_) {}
   }
   if (!res.ok) {
+    if (res.status === 429) {
+      throw new Error(rateLimitMessage(res, data));
+    }
     if (res.status === 401) {
-      throw new Error('Email or password is incorrect.');
+      throw new Error(credentials ? 'Email or password is incorrect.' : 'Your session has expired. Please sign in again.');
     }
     throw new Error(data?.error || `Request failed: ${res.status}`);
   }
   return data as T;
 }
 
-export async function register(params: { name: string; email: string; password: string; role: Role }): Promise<{ user: User; token: string }> {
-  const data = await request<{ user: User; token: string }>('/register', {
+export async function register(params: { name: string; email: string; password: string; role: Role }): Promise<AuthSession & { user: User }> {
+  const data = await request<AuthSession & { user: User }>('/register', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+  setSession(data);
+  return data;
+}
+
+// Returned by login instead of a session when a second step is needed: a TOTP/recovery code
+// (mfaRequired), or 2FA enrollment because the role requires it (mfaSetupRequired)
+export type LoginChallenge =
+  | { mfaRequired: true; mfaToken: string }
+  | { mfaSetupRequired: true; mfaToken: string };
+
+export async function login(params: { email: string; password: string }): Promise<(AuthSession & { user: User }) | LoginChallenge> {
+  const data = await request<(AuthSession & { user: User }) | LoginChallenge>('/login', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+  if ('token' in data) setSession(data);
+  return data;
+}
+
+export async function verifyLoginCode(params: { mfaToken: string; code: string }): Promise<AuthSession & { user: User }> {
+  const data = await request<AuthSession & { user: User }>('/login/2fa', {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+  setSession(data);
+  return data;
+}
+
+// Two-factor enrollment works for a signed-in user, or mid-login with the challenge's mfaToken
+export async function startTwoFactorSetup(mfaToken?: string): Promise<TotpSetup> {
+  return request<TotpSetup>('/2fa/setup', { method: 'POST', body: JSON.stringify({ mfaToken }) });
+}
+
+// Recovery codes are only returned here; during login the response also carries the session
+export async function enableTwoFactor(params: { code: string; mfaToken?: string }): Promise<{ recoveryCodes: string[]; user: User } & Partial<AuthSession>> {
+  const data = await request<{ recoveryCodes: string[]; user: User } & Partial<AuthSession>>('/2fa/enable', {
     method: 'POST',
     body: JSON.stringify(params),
   });
-  setToken(data.token);
+  if (data.token && data.refreshToken && data.expiresAt) setSession(data as AuthSession);
   return data;
 }
 
-export async function login(params: { email: string; password: string }): Promise<{ user: User; token: string }> {
-  const data = await request<{ user: User; token: string }>('/login', {
+export async function disableTwoFactor(params: { password: string; code: string }): Promise<{ success: boolean }> {
+  return request<{ success: boolean }>('/2fa/disable', { method: 'POST', body: JSON.stringify(params) });
+}
+
+export async function regenerateRecoveryCodes(code: string): Promise<{ recoveryCodes: string[] }> {
+  return request<{ recoveryCodes: string[] }>('/2fa/recovery-codes', { method: 'POST', body: JSON.stringify({ code }) });
+}
+
+// Set a password from a bulk-import invite link; signs the new user in, or asks for 2FA enrollment
+// first when the role requires it
+export async function acceptInvite(params: { token: string; password: string }): Promise<(AuthSession & { user: User }) | LoginChallenge> {
+  const data = await request<(AuthSession & { user: User }) | LoginChallenge>('/accept-invite', {
     method: 'POST',
     body: JSON.stringify(params),
   });
-  setToken(data.token);
+  if ('token' in data) setSession(data);
+  return data;
+}
+
+// Revoke this session (or every session of the user) on the server. Local tokens are cleared
+// even if the server cannot be reached.
+export async function logout(allDevices = false): Promise<void> {
+  const refreshToken = localStorage.getItem(REFRESH_KEY);
+  try {
+    if (getToken() || refreshToken) {
+      await request('/logout', { method: 'POST', body: JSON.stringify({ refreshToken, allDevices }) });
+    }
+  } finally {
+    clearToken();
+  }
+}
+
+export async function changePassword(params: { oldPassword: string; newPassword: string }): Promise<{ success: boolean }> {
+  return request<{ success: boolean }>('/change-password', { method: 'POST', body: JSON.stringify(params) });
+}
+
+export async function getSsoConfig(): Promise<{ enabled: boolean; name: string }> {
+  return request<{ enabled: boolean; name: string }>('/oidc/config', { method: 'GET' });
+}
+
+// Full-page navigation target; the server redirects on to the identity provider
+export function ssoLoginUrl(): string {
+  return `${AUTH_BASE}/oidc/start`;
+}
+
+// Trade the one-time ?sso= code from the SSO callback for a session, or a 2FA challenge like login
+export async function exchangeSsoCode(code: string): Promise<(AuthSession & { user: User }) | LoginChallenge> {
+  const data = await request<(AuthSession & { user: User }) | LoginChallenge>('/oidc/exchange', {
+    method: 'POST',
+    body: JSON.stringify({ code }),
+  });
+  if ('token' in data) setSession(data);
   return data;
 }
 
+// Always resolves the same way whether or not the email has an account
+export async function requestPasswordReset(email: string): Promise<{ success: boolean }> {
+  return request<{ success: boolean }>('/forgot-password', { method: 'POST', body: JSON.stringify({ email }) });
+}
+
+// Redeem the token from a reset email; every existing session of the account is signed out
+export async function resetPasswordWithToken(params: { token: string; password: string }): Promise<{ success: boolean }> {
+  return request<{ success: boolean }>('/reset-password', { method: 'POST', body: JSON.stringify(params) });
+}
+
 export async function me(): Promise<{ user: User }> {
   return request<{ user: User }>('/me', { method: 'GET' });
 }
@@ -1,5 +1,5 @@
-import { getToken } from './authService';
-import type { Course, CourseModule, VideoDraft } from '../types';
+import { getToken, authFetch } from './authService';
+import type { Course, CourseModule, VideoDraft, QuizSettingsUpdate } from '../types';
 
 const BASE = '/api/courses';
 
@@ -9,7 +9,7 @@ function authHeaders() {
 }
 
 export async function fetchCourses(): Promise<{ courses: Course[] }> {
-  const res = await fetch(`${BASE}`, {
+  const res = await authFetch(`${BASE}`, {
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
   });
   const data = await res.json().catch(() => ({}));
@@ -18,7 +18,7 @@ export async function fetchCourses(): Promise<{ courses: Course[] }> {
 }
 
 export async function createCourse(subject: string, modules: CourseModule[]): Promise<Course> {
-  const res = await fetch(`${BASE}`, {
+  const res = await authFetch(`${BASE}`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({ title: subject, modules }),
@@ -29,7 +29,7 @@ export async function createCourse(subject: string, modules: CourseModule[]): Pr
 }
 
 export async function addLecture(courseId: string, moduleId: string, lecture: VideoDraft): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/lectures`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/lectures`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(lecture),
@@ -39,7 +39,7 @@ export async function addLecture(courseId: string, moduleId: string, lecture: Vi
 }
 
 export async function deleteLecture(courseId: string, moduleId: string, lectureId: string): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/lectures/${encodeURIComponent(lectureId)}`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/lectures/${encodeURIComponent(lectureId)}`, {
     method: 'DELETE',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
   });
@@ -48,7 +48,7 @@ export async function deleteLecture(courseId: string, moduleId: string, lectureI
 }
 
 export async function updateModuleTopics(courseId: string, moduleId: string, topics: string[]): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/topics`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/topics`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify({ topics }),
@@ -57,8 +57,19 @@ export async function updateModuleTopics(courseId: string, moduleId: string, top
   if (!res.ok) throw new Error(data?.error || 'Failed to update topics');
 }
 
+// With settings.sectionId the values override the module's settings for that section only
+export async function updateModuleQuizSettings(courseId: string, moduleId: string, settings: QuizSettingsUpdate): Promise<void> {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/quiz-settings`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(settings),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to update quiz settings');
+}
+
 export async function updateCourse(courseId: string, payload: { title?: string; description?: string }): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}`, {
     method: 'PATCH',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
     body: JSON.stringify(payload),
@@ -68,7 +79,7 @@ export async function updateCourse(courseId: string, payload: { title?: string;
 }
 
 export async function deleteCourse(courseId: string): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}`, {
     method: 'DELETE',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
   });
@@ -1,4 +1,5 @@
-import { getToken } from './authService';
+import { getToken, authFetch } from './authService';
+import type { EnrollmentCode, EnrollmentPolicy, EnrollmentRequest } from '../types';
 
 const BASE = '/api/enrollments';
 
@@ -7,28 +8,93 @@ function authHeaders() {
   return token ? { Authorization: `Bearer ${token}` } : {};
 }
 
-export async function listMyEnrollments(): Promise<{ courseIds: string[] }> {
-  const res = await fetch(BASE, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+async function readJson<T>(res: Response, fallback: string): Promise<T> {
   const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || 'Failed to fetch enrollments');
-  return data as { courseIds: string[] };
+  if (!res.ok) throw new Error(data?.error || fallback);
+  return data as T;
 }
 
-export async function enroll(courseId: string): Promise<void> {
-  const res = await fetch(BASE, {
+export async function listMyEnrollments(): Promise<{ courseIds: string[]; pendingCourseIds?: string[] }> {
+  const res = await authFetch(BASE, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  return readJson(res, 'Failed to fetch enrollments');
+}
+
+// Open courses enroll right away; approval courses answer 'pending' until the teacher decides.
+// sectionId picks one of the course's sections.
+export async function enroll(courseId: string, options: { message?: string; sectionId?: string } = {}): Promise<{ status: 'enrolled' | 'pending' }> {
+  const res = await authFetch(BASE, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
-    body: JSON.stringify({ courseId }),
+    body: JSON.stringify({ courseId, ...options }),
   });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || 'Failed to enroll');
+  return readJson(res, 'Failed to enroll');
 }
 
+// Join with a code typed by the student ({ code }) or the token of an invite link ({ invite })
+export async function joinCourse(params: { code: string } | { invite: string }): Promise<{ courseId: string; title: string; enrolled: boolean }> {
+  const res = await authFetch(`${BASE}/join`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify(params),
+  });
+  return readJson(res, 'Failed to join course');
+}
+
+// Also cancels a pending request for the course
 export async function withdraw(courseId: string): Promise<void> {
-  const res = await fetch(`${BASE}/${encodeURIComponent(courseId)}`, {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(courseId)}`, {
     method: 'DELETE',
     headers: { 'Content-Type': 'application/json', ...authHeaders() },
   });
-  const data = await res.json().catch(() => ({}));
-  if (!res.ok) throw new Error(data?.error || 'Failed to withdraw');
+  await readJson(res, 'Failed to withdraw');
+}
+
+// ---- Teacher: policy, codes and requests ----
+
+const courseUrl = (courseId: string, path: string) => `/api/courses/${encodeURIComponent(courseId)}/${path}`;
+
+export async function setEnrollmentPolicy(courseId: string, policy: EnrollmentPolicy): Promise<{ policy: EnrollmentPolicy }> {
+  const res = await authFetch(courseUrl(courseId, 'enrollment-policy'), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ policy }),
+  });
+  return readJson(res, 'Failed to update enrollment policy');
+}
+
+export async function listEnrollmentCodes(courseId: string): Promise<{ codes: EnrollmentCode[] }> {
+  const res = await authFetch(courseUrl(courseId, 'enrollment-codes'), { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  return readJson(res, 'Failed to load join codes');
+}
+
+export async function createEnrollmentCode(courseId: string, kind: EnrollmentCode['kind'], sectionId?: string): Promise<{ code: EnrollmentCode }> {
+  const res = await authFetch(courseUrl(courseId, 'enrollment-codes'), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ kind, sectionId }),
+  });
+  return readJson(res, 'Failed to create join code');
+}
+
+export async function revokeEnrollmentCode(courseId: string, codeId: string): Promise<{ code: EnrollmentCode }> {
+  const res = await authFetch(courseUrl(courseId, `enrollment-codes/${encodeURIComponent(codeId)}`), {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+  });
+  return readJson(res, 'Failed to revoke join code');
+}
+
+export async function listEnrollmentRequests(): Promise<{ requests: EnrollmentRequest[] }> {
+  const res = await authFetch('/api/enrollment-requests', { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  return readJson(res, 'Failed to load enrollment requests');
+}
+
+// sectionId places the student when the request does not name a section of a course that has them
+export async function decideEnrollmentRequest(requestId: string, approve: boolean, sectionId?: string): Promise<{ status: 'approved' | 'denied' }> {
+  const res = await authFetch(`/api/enrollment-requests/${encodeURIComponent(requestId)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ approve, sectionId }),
+  });
+  return readJson(res, 'Failed to update enrollment request');
 }
@@ -0,0 +1,40 @@
+import { getToken, authFetch } from './authService';
+import type { Flashcard } from '../types';
+
+const BASE = '/api/flashcards';
+
+function authHeaders() {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+export async function generateLectureFlashcards(courseId: string, moduleId: string, lectureId: string): Promise<{ created: number; total: number }> {
+  const res = await authFetch(`${BASE}/generate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ courseId, moduleId, lectureId }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to create flashcards');
+  return { created: data.created || 0, total: data.total || 0 };
+}
+
+export async function getDueFlashcards(courseId?: string): Promise<{ cards: Flashcard[]; due: number; total: number; reviewedToday: number }> {
+  const query = courseId ? `?courseId=${encodeURIComponent(courseId)}` : '';
+  const res = await authFetch(`${BASE}/due${query}`, { headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load flashcards');
+  return { cards: data.cards || [], due: data.due || 0, total: data.total || 0, reviewedToday: data.reviewedToday || 0 };
+}
+
+// grade follows SM-2: 0-2 means forgotten, 3 hard, 4 good, 5 easy
+export async function reviewFlashcard(cardId: string, grade: number): Promise<Flashcard> {
+  const res = await authFetch(`${BASE}/${encodeURIComponent(cardId)}/review`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...authHeaders() },
+    body: JSON.stringify({ grade }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to record review');
+  return data.card as Flashcard;
+}
@@ -1,6 +1,7 @@
 import { GoogleGenAI, Chat, Type, GenerateContentResponse, Modality } from "@google/genai";
 import { QuizQuestion, Slide, ModuleOutline } from '../types';
 import { createAudioUrlFromBase64 } from './audioUtils';
+import { normalizeQuestion } from './quizGrading';
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 let chat: Chat;
@@ -221,7 +222,15 @@ export const generateLectureForModule = async (courseTitle: string, module: Modu
         - "codeSnippet": Up to 10 lines of relevant code that illustrates the concept. Use an empty string if code is not helpful for this slide.
         - "snippetLanguage": The programming language used in the snippet (e.g., "python", "c++"). Use an empty string if no code is provided.
         - "imagePrompt": A comma-separated list of 2-3 simple, SFW keywords that depict a computer science visual for the exact concept on the slide (e.g., "c++ syntax, code editor", "python functions, developer workstation", "data structures, algorithm diagram"). Avoid generic nature or business imagery.
-    4.  "quiz": An array of exactly 10 multiple-choice quiz questions based on this lecture's slide content. Each question object must have "question", "options" (an array of 4), and "correctAnswer".`;
+    4.  "quiz": An array of exactly 10 quiz questions based on this lecture's slide content. Each question object must have "type", "question" and "correctAnswer", plus the fields its type needs:
+        - "mcq": "options" (an array of 4) and "correctAnswer" matching one option. Use this type for most questions.
+        - "true_false": "correctAnswer" is "True" or "False".
+        - "multi_select": "options" (4-5 items) and "correctAnswers" listing every correct option (at least 2).
+        - "numeric": "correctAnswer" is a number written as a string, and "tolerance" the allowed absolute error (0 for exact).
+        - "short_text": "correctAnswer" is a 1-3 word answer and "acceptedAnswers" lists common equivalent spellings.
+        - "code_output": "code" holds up to 8 lines of code, "codeLanguage" its language, and "correctAnswer" the exact printed output. Only use this when the lecture covers programming.
+       Include at least one question of each of true_false, multi_select and numeric or short_text.
+       Every question must also have "explanation" (1-2 sentences on why the answer is correct) and "sourceSlide" (the 1-based number of the slide it tests).`;
 
     try {
         const response = await ai.models.generateContent({
@@ -253,14 +262,28 @@ export const generateLectureForModule = async (courseTitle: string, module: Modu
                             items: {
                                 type: Type.OBJECT,
                                 properties: {
+                                    type: { type: Type.STRING, enum: ['mcq', 'true_false', 'multi_select', 'numeric', 'short_text', 'code_output'] },
                                     question: { type: Type.STRING },
                                     options: {
                                         type: Type.ARRAY,
                                         items: { type: Type.STRING }
                                     },
                                     correctAnswer: { type: Type.STRING },
+                                    correctAnswers: {
+                                        type: Type.ARRAY,
+                                        items: { type: Type.STRING }
+                                    },
+                                    acceptedAnswers: {
+                                        type: Type.ARRAY,
+                                        items: { type: Type.STRING }
+                                    },
+                                    tolerance: { type: Type.NUMBER },
+                                    code: { type: Type.STRING },
+                                    codeLanguage: { type: Type.STRING },
+                                    explanation: { type: Type.STRING },
+                                    sourceSlide: { type: Type.INTEGER },
                                 },
-                                required: ["question", "options", "correctAnswer"],
+                                required: ["type", "question", "correctAnswer", "explanation"],
                             }
                         },
                     },
@@ -292,7 +315,14 @@ export const generateLectureForModule = async (courseTitle: string, module: Modu
             };
         });
 
-        return { ...draftData, slides };
+        const quiz = (draftData.quiz ?? [])
+            .map(({ sourceSlide, ...q }: Partial<QuizQuestion> & { sourceSlide?: number }) => {
+                const valid = Number.isInteger(sourceSlide) && sourceSlide! >= 1 && sourceSlide! <= slides.length;
+                return normalizeQuestion({ ...q, source: valid ? { slideIndex: sourceSlide! - 1 } : undefined });
+            })
+            .filter((q: QuizQuestion) => q.question);
+
+        return { ...draftData, slides, quiz };
     } catch (error) {
         console.error("Error generating video draft contents:", error);
         throw new Error("Failed to generate the video contents.");
@@ -0,0 +1,106 @@
+import type { Gradebook } from '../types';
+import { zipStored } from './zip';
+
+// Spreadsheet exports for the gradebook. XLSX is written by hand (an uncompressed zip of the
+// minimal OpenXML parts) so the client does not need a spreadsheet library.
+
+type Cell = string | number | null;
+
+const POLICY_LABELS: Record<Gradebook['policy'], string> = { best: 'Best attempt', latest: 'Latest attempt', average: 'Average of attempts' };
+
+// Header row plus one row per student; grades are percentages, blank when never attempted.
+// Courses with sections get a Section column after the email.
+export function gradebookToRows(gradebook: Gradebook): Cell[][] {
+    const sections = gradebook.sections || [];
+    const sectionName = (id?: string) => sections.find(s => s.id === id)?.name || '';
+    const header: Cell[] = ['Student', 'Email', ...(sections.length ? ['Section'] : []), ...gradebook.modules.map(m => m.title), `Course grade (${POLICY_LABELS[gradebook.policy]})`];
+    const rows = gradebook.rows.map(r => [
+        r.name,
+        r.email,
+        ...(sections.length ? [sectionName(r.sectionId)] : []),
+        ...gradebook.modules.map(m => r.grades[m.id]?.percent ?? null),
+        r.overall,
+    ]);
+    return [header, ...rows];
+}
+
+const csvField = (v: Cell) => {
+    const s = v === null ? '' : String(v);
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export const toCsv = (rows: Cell[][]): string => rows.map(r => r.map(csvField).join(',')).join('\r\n');
+
+const xmlEscape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// 0 -> A, 25 -> Z, 26 -> AA
+const columnName = (index: number): string => {
+    let name = '';
+    for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+    return name;
+};
+
+function sheetXml(rows: Cell[][]): string {
+    const body = rows.map((row, r) => {
+        const cells = row.map((v, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            if (v === null || v === '') return '';
+            if (typeof v === 'number') return `<c r="${ref}"><v>${v}</v></c>`;
+            return `<c r="${ref}" t="inlineStr"><is><t>${xmlEscape(v)}</t></is></c>`;
+        }).join('');
+        return `<row r="${r + 1}">${cells}</row>`;
+    }).join('');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`
+        + `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${body}</sheetData></worksheet>`;
+}
+
+export function toXlsx(rows: Cell[][], sheetName = 'Grades'): Blob {
+    // Sheet names are limited to 31 characters and cannot contain []:*?/\
+    const safeName = xmlEscape(sheetName.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31) || 'Grades');
+    const zip = zipStored([
+        {
+            name: '[Content_Types].xml',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+                + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+                + '<Default Extension="xml" ContentType="application/xml"/>'
+                + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+                + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+                + '</Types>',
+        },
+        {
+            name: '_rels/.rels',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+                + '</Relationships>',
+        },
+        {
+            name: 'xl/workbook.xml',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+                + `<sheets><sheet name="${safeName}" sheetId="1" r:id="rId1"/></sheets>`
+                + '</workbook>',
+        },
+        {
+            name: 'xl/_rels/workbook.xml.rels',
+            content: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+                + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+                + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+                + '</Relationships>',
+        },
+        { name: 'xl/worksheets/sheet1.xml', content: sheetXml(rows) },
+    ]);
+    return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+}
@@ -0,0 +1,28 @@
+import { getToken, authFetch } from './authService';
+import type { ImportCredentials, UserImportReport } from '../types';
+
+const IMPORTS_BASE = '/api/imports';
+
+// Upload a CSV (name, email, role, courseIds). With dryRun the server validates every row
+// and reports what would happen without creating users or enrollments.
+export async function importUsers(file: File, options: { dryRun: boolean; credentials: ImportCredentials }): Promise<UserImportReport> {
+  const token = getToken();
+  const form = new FormData();
+  form.append('dryRun', String(options.dryRun));
+  form.append('credentials', options.credentials);
+  form.append('file', file);
+
+  const res = await authFetch(`${IMPORTS_BASE}/users`, {
+    method: 'POST',
+    headers: {
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: form,
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Import failed');
+  return data as UserImportReport;
+}
+
+// Link a new user opens to set their password
+export const inviteLink = (token: string) => `${window.location.origin}/?invite=${encodeURIComponent(token)}`;
@@ -1,4 +1,4 @@
-import { getToken } from './authService';
+import { getToken, authFetch } from './authService';
 
 const MATERIALS_BASE = '/api/materials';
 const RAG_BASE = '/api/rag';
@@ -11,7 +11,7 @@ export async function uploadMaterial(params: { courseId: string; moduleId?: stri
   if (params.title) form.append('title', params.title);
   form.append('file', params.file);
 
-  const res = await fetch(`${MATERIALS_BASE}/upload`, {
+  const res = await authFetch(`${MATERIALS_BASE}/upload`, {
     method: 'POST',
     headers: {
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
@@ -28,7 +28,7 @@ export async function listMaterials(courseId: string, moduleId?: string) {
   const url = new URL(`${MATERIALS_BASE}/list`, window.location.origin);
   url.searchParams.set('courseId', courseId);
   if (moduleId) url.searchParams.set('moduleId', moduleId);
-  const res = await fetch(url.toString().replace(window.location.origin, ''), {
+  const res = await authFetch(url.toString().replace(window.location.origin, ''), {
     headers: {
       'Content-Type': 'application/json',
       ...(token ? { Authorization: `Bearer ${token}` } : {}),
@@ -41,7 +41,7 @@ export async function listMaterials(courseId: string, moduleId?: string) {
 
 export async function retrieveContext(params: { courseId: string; moduleId?: string; topic: string; limit?: number }) {
   const token = getToken();
-  const res = await fetch(`${RAG_BASE}/retrieve`, {
+  const res = await authFetch(`${RAG_BASE}/retrieve`, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { JSDOM } from 'jsdom';
+import type { QuizQuestion } from '../types';
+import { exportQtiPackage, importQti } from './qti';
+import { zipStored } from './zip';
+
+const questions: QuizQuestion[] = [
+    { type: 'mcq', question: 'Which tag opens a paragraph in <html>?', options: ['<p>', '<a>', '<div>'], correctAnswer: '<p>' },
+    { type: 'true_false', question: 'The sky is blue & wide.', options: ['True', 'False'], correctAnswer: 'False' },
+    { type: 'multi_select', question: 'Pick the primes', options: ['2', '3', '4', '5'], correctAnswer: '2, 3', correctAnswers: ['2', '3'] },
+    { type: 'numeric', question: 'Value of pi to two places?', options: [], correctAnswer: '3.14', tolerance: 0.01 },
+    { type: 'short_text', question: 'Largest planet?', options: [], correctAnswer: 'Jupiter', acceptedAnswers: ['planet jupiter'] },
+    { type: 'code_output', question: 'What does this print?', options: [], correctAnswer: '3', acceptedAnswers: ['3.0'], code: 'print(1 + 2)' },
+    { type: 'code_output', question: 'Pick the output', options: ['a', 'b'], correctAnswer: 'b', code: 'print("b")' },
+];
+
+const asFile = (blob: Blob | Uint8Array, name: string) => new File([blob], name);
+
+const item = (interaction: string, declaration = '') => `<?xml version="1.0" encoding="UTF-8"?>
+<assessmentItem xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1" identifier="x" title="Imported">
+  ${declaration}
+  <itemBody><p>Question text</p>${interaction}</itemBody>
+</assessmentItem>`;
+
+describe('QTI', () => {
+    // Import parses XML with the browser's DOMParser; Node's own File and zip streams cover the rest
+    beforeAll(() => {
+        globalThis.DOMParser = new JSDOM().window.DOMParser;
+    });
+
+    it('round-trips every question type through an exported package', async () => {
+        const blob = exportQtiPackage(questions, 'Module 1 quiz');
+        const result = await importQti(asFile(blob, 'quiz.zip'));
+        expect(result.unsupported).toEqual([]);
+        expect(result.questions).toEqual(questions);
+    });
+
+    it('drops fields QTI cannot carry', async () => {
+        const withExtras: QuizQuestion = { ...questions[0], explanation: 'Paragraphs use p', topic: 'HTML', difficulty: 'easy' };
+        const result = await importQti(asFile(exportQtiPackage([withExtras], 'Q'), 'quiz.zip'));
+        expect(result.questions).toEqual([questions[0]]);
+    });
+
+    it('imports a single item file', async () => {
+        const xml = item(
+            '<choiceInteraction responseIdentifier="RESPONSE" maxChoices="1"><simpleChoice identifier="A">Yes</simpleChoice><simpleChoice identifier="B">No</simpleChoice></choiceInteraction>',
+            '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="identifier"><correctResponse><value>B</value></correctResponse></responseDeclaration>',
+        );
+        const result = await importQti(asFile(new TextEncoder().encode(xml), 'item.xml'));
+        expect(result.questions).toEqual([{ type: 'mcq', question: 'Question text', options: ['Yes', 'No'], correctAnswer: 'No' }]);
+    });
+
+    it('reports items it cannot map', async () => {
+        const zip = zipStored([
+            { name: 'order.xml', content: item('<orderInteraction responseIdentifier="RESPONSE"/>') },
+            { name: 'nokey.xml', content: item('<choiceInteraction responseIdentifier="RESPONSE"><simpleChoice identifier="A">a</simpleChoice><simpleChoice identifier="B">b</simpleChoice></choiceInteraction>') },
+            { name: 'broken.xml', content: '<assessmentItem' },
+        ]);
+        const result = await importQti(asFile(zip, 'mixed.zip'));
+        expect(result.questions).toEqual([]);
+        expect(result.unsupported).toEqual([
+            { item: 'Imported', reason: 'orderInteraction is not supported' },
+            { item: 'Imported', reason: 'No correct choice is declared' },
+            { item: 'broken.xml', reason: 'Invalid XML' },
+        ]);
+    });
+});
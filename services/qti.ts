@@ -0,0 +1,238 @@
+import type { QuizQuestion } from '../types';
+import { questionType } from './quizGrading';
+import { zipStored, readZip } from './zip';
+
+// IMS QTI 2.1 exchange. Export writes a content package (imsmanifest.xml, one assessmentItem per
+// question and an assessmentTest listing them). Import reads a package or a single item file and
+// maps choice and text-entry interactions back onto QuizQuestion; explanations, sources and tags
+// have no QTI counterpart and are not carried over.
+
+const QTI_NS = 'http://www.imsglobal.org/xsd/imsqti_v2p1';
+const QTI_SCHEMA = `${QTI_NS} http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd`;
+const CP_NS = 'http://www.imsglobal.org/xsd/imscp_v1p1';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8"?>';
+const RP_TEMPLATE = 'http://www.imsglobal.org/question/qti_v2p1/rptemplates';
+
+export interface QtiImportResult {
+    questions: QuizQuestion[];
+    // Items that could not be mapped, with the reason shown to the teacher
+    unsupported: Array<{ item: string; reason: string }>;
+}
+
+const xmlEscape = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// A to Z, then C26, C27, ... — identifiers must start with a letter
+const choiceId = (index: number) => index < 26 ? String.fromCharCode(65 + index) : `C${index}`;
+
+const itemId = (index: number) => `item${String(index + 1).padStart(3, '0')}`;
+
+function itemXml(q: QuizQuestion, identifier: string): string {
+    const type = questionType(q);
+    const title = xmlEscape(q.question.slice(0, 80));
+    const code = q.code ? `<pre>${xmlEscape(q.code)}</pre>` : '';
+    const prompt = `<p>${xmlEscape(q.question)}</p>${code}`;
+    let declaration: string;
+    let interaction: string;
+    let processing = `<responseProcessing template="${RP_TEMPLATE}/match_correct"/>`;
+
+    if (q.options.length) {
+        const multi = type === 'multi_select';
+        const correct = multi ? (q.correctAnswers || []) : [q.correctAnswer];
+        const values = q.options.map((o, i) => correct.includes(o) ? `<value>${choiceId(i)}</value>` : '').join('');
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="${multi ? 'multiple' : 'single'}" baseType="identifier"><correctResponse>${values}</correctResponse></responseDeclaration>`;
+        const choices = q.options.map((o, i) => `<simpleChoice identifier="${choiceId(i)}">${xmlEscape(o)}</simpleChoice>`).join('');
+        interaction = `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${multi ? 0 : 1}">${choices}</choiceInteraction>`;
+    } else if (type === 'numeric') {
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="float"><correctResponse><value>${xmlEscape(q.correctAnswer)}</value></correctResponse></responseDeclaration>`;
+        interaction = '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="12"/></p>';
+        if (q.tolerance) {
+            // match_correct has no tolerance, so spell the comparison out
+            processing = '<responseProcessing><responseCondition><responseIf>'
+                + `<equal toleranceMode="absolute" tolerance="${q.tolerance} ${q.tolerance}"><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></equal>`
+                + '<setOutcomeValue identifier="SCORE"><baseValue baseType="float">1</baseValue></setOutcomeValue>'
+                + '</responseIf></responseCondition></responseProcessing>';
+        }
+    } else {
+        // Accepted variants become mapping entries worth full credit
+        const answers = [q.correctAnswer, ...(q.acceptedAnswers || []).filter(a => a && a !== q.correctAnswer)];
+        const entries = answers.map(a => `<mapEntry mapKey="${xmlEscape(a)}" mappedValue="1" caseSensitive="false"/>`).join('');
+        declaration = `<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"><correctResponse><value>${xmlEscape(q.correctAnswer)}</value></correctResponse>`
+            + `<mapping defaultValue="0" upperBound="1">${entries}</mapping></responseDeclaration>`;
+        interaction = '<p><textEntryInteraction responseIdentifier="RESPONSE" expectedLength="40"/></p>';
+        processing = `<responseProcessing template="${RP_TEMPLATE}/map_response"/>`;
+    }
+
+    return XML_HEADER
+        + `<assessmentItem xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}"`
+        + ` identifier="${identifier}" title="${title}" adaptive="false" timeDependent="false">`
+        + declaration
+        + '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"><defaultValue><value>0</value></defaultValue></outcomeDeclaration>'
+        + `<itemBody>${prompt}${interaction}</itemBody>`
+        + processing
+        + '</assessmentItem>';
+}
+
+function testXml(title: string, ids: string[]): string {
+    const refs = ids.map(id => `<assessmentItemRef identifier="${id}" href="items/${id}.xml"/>`).join('');
+    return XML_HEADER
+        + `<assessmentTest xmlns="${QTI_NS}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${QTI_SCHEMA}" identifier="test" title="${xmlEscape(title)}">`
+        + '<testPart identifier="part1" navigationMode="linear" submissionMode="simultaneous">'
+        + `<assessmentSection identifier="section1" title="${xmlEscape(title)}" visible="true">${refs}</assessmentSection>`
+        + '</testPart></assessmentTest>';
+}
+
+function manifestXml(ids: string[]): string {
+    const items = ids.map(id => `<resource identifier="${id}" type="imsqti_item_xmlv2p1" href="items/${id}.xml"><file href="items/${id}.xml"/></resource>`).join('');
+    const deps = ids.map(id => `<dependency identifierref="${id}"/>`).join('');
+    return XML_HEADER
+        + `<manifest xmlns="${CP_NS}" identifier="manifest">`
+        + '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>'
+        + '<organizations/>'
+        + `<resources><resource identifier="test" type="imsqti_test_xmlv2p1" href="test.xml"><file href="test.xml"/>${deps}</resource>${items}</resources>`
+        + '</manifest>';
+}
+
+// QTI 2.1 content package (zip) for a quiz, bank or lecture quiz
+export function exportQtiPackage(questions: QuizQuestion[], title: string): Blob {
+    const ids = questions.map((_, i) => itemId(i));
+    const zip = zipStored([
+        { name: 'imsmanifest.xml', content: manifestXml(ids) },
+        { name: 'test.xml', content: testXml(title, ids) },
+        ...questions.map((q, i) => ({ name: `items/${ids[i]}.xml`, content: itemXml(q, ids[i]) })),
+    ]);
+    return new Blob([zip], { type: 'application/zip' });
+}
+
+// -------- Import ---------
+
+// Namespace-agnostic lookups; packages from other tools use prefixes inconsistently
+const byTag = (root: Element | Document, name: string) => Array.from(root.getElementsByTagNameNS('*', name));
+
+const INTERACTIONS = [
+    'choiceInteraction', 'textEntryInteraction', 'extendedTextInteraction', 'orderInteraction', 'associateInteraction',
+    'matchInteraction', 'gapMatchInteraction', 'inlineChoiceInteraction', 'hottextInteraction', 'hotspotInteraction',
+    'selectPointInteraction', 'graphicOrderInteraction', 'sliderInteraction', 'uploadInteraction', 'drawingInteraction',
+];
+
+const cleanText = (s: string | null | undefined) => (s || '').replace(/\s+/g, ' ').trim();
+
+// Question text: the item body without its interactions and code blocks, plus any interaction prompt
+function promptText(body: Element): string {
+    const copy = body.cloneNode(true) as Element;
+    const prompts = byTag(copy, 'prompt').map(p => cleanText(p.textContent));
+    [...INTERACTIONS, 'pre', 'prompt'].forEach(tag => byTag(copy, tag).forEach(el => el.parentNode?.removeChild(el)));
+    return [cleanText(copy.textContent), ...prompts].filter(Boolean).join(' ');
+}
+
+const mappedValues = (declaration: Element) =>
+    byTag(declaration, 'mapEntry').filter(e => Number(e.getAttribute('mappedValue')) > 0).map(e => e.getAttribute('mapKey') || '');
+
+// `withMapping` adds mapped entries worth credit to the declared correct response; text entries
+// list their accepted variants there
+function correctValues(doc: Document, responseId: string, withMapping = false): string[] {
+    const declaration = byTag(doc, 'responseDeclaration').find(d => d.getAttribute('identifier') === responseId);
+    if (!declaration) return [];
+    const correct = byTag(declaration, 'correctResponse')[0];
+    // Some tools only score through a mapping
+    if (!correct) return mappedValues(declaration);
+    const values = byTag(correct, 'value').map(v => cleanText(v.textContent));
+    return withMapping ? Array.from(new Set([...values, ...mappedValues(declaration)])) : values;
+}
+
+function mapItem(doc: Document): QuizQuestion | string {
+    const item = byTag(doc, 'assessmentItem')[0];
+    if (!item) return 'Not a QTI assessmentItem';
+    const body = byTag(item, 'itemBody')[0];
+    if (!body) return 'Item has no body';
+    const interactions = INTERACTIONS.flatMap(tag => byTag(body, tag));
+    if (interactions.length !== 1) return interactions.length ? 'Items with several interactions are not supported' : 'Item has no interaction';
+    const interaction = interactions[0];
+    const kind = interaction.localName;
+    const question = promptText(body);
+    if (!question) return 'Item has no question text';
+    const code = byTag(body, 'pre').map(p => p.textContent || '').join('\n').trim();
+    const correct = correctValues(doc, interaction.getAttribute('responseIdentifier') || 'RESPONSE', kind === 'textEntryInteraction').filter(Boolean);
+
+    if (kind === 'choiceInteraction') {
+        const choices = byTag(interaction, 'simpleChoice').map(c => ({ id: c.getAttribute('identifier') || '', text: cleanText(c.textContent) }));
+        const options = choices.map(c => c.text);
+        if (options.length < 2 || options.length > 6) return `Choice items need 2 to 6 options (found ${options.length})`;
+        if (options.some(o => !o) || new Set(options.map(o => o.toLowerCase())).size !== options.length) return 'Choice options are empty or repeated';
+        const keys = choices.filter(c => correct.includes(c.id)).map(c => c.text);
+        if (!keys.length) return 'No correct choice is declared';
+        // maxChoices defaults to 1 in QTI
+        const multi = (interaction.getAttribute('maxChoices') ?? '1') !== '1' || keys.length > 1;
+        if (multi) return { type: 'multi_select', question, options, correctAnswers: keys, correctAnswer: keys.join(', ') };
+        if (code) return { type: 'code_output', question, code, options, correctAnswer: keys[0] };
+        const trueFalse = options.length === 2 && options.every(o => ['true', 'false'].includes(o.toLowerCase()));
+        if (trueFalse) return { type: 'true_false', question, options: ['True', 'False'], correctAnswer: keys[0].toLowerCase() === 'false' ? 'False' : 'True' };
+        return { type: 'mcq', question, options, correctAnswer: keys[0] };
+    }
+
+    if (kind === 'textEntryInteraction') {
+        if (!correct.length) return 'No correct answer is declared';
+        const declaration = byTag(doc, 'responseDeclaration').find(d => d.getAttribute('identifier') === (interaction.getAttribute('responseIdentifier') || 'RESPONSE'));
+        const baseType = declaration?.getAttribute('baseType');
+        if (baseType === 'float' || baseType === 'integer') {
+            const tolerance = Number((byTag(item, 'equal')[0]?.getAttribute('tolerance') || '0').split(/\s+/)[0]) || 0;
+            return { type: 'numeric', question, options: [], correctAnswer: correct[0], tolerance };
+        }
+        const [correctAnswer, ...rest] = correct;
+        const accepted = rest.filter(a => a.toLowerCase() !== correctAnswer.toLowerCase());
+        if (code) return { type: 'code_output', question, code, options: [], correctAnswer, acceptedAnswers: accepted };
+        return { type: 'short_text', question, options: [], correctAnswer, acceptedAnswers: accepted };
+    }
+
+    return `${kind} is not supported`;
+}
+
+function parseXml(bytes: Uint8Array): Document | null {
+    const doc = new DOMParser().parseFromString(new TextDecoder().decode(bytes), 'application/xml');
+    return doc.getElementsByTagName('parsererror').length ? null : doc;
+}
+
+// Resolve a manifest href against the manifest's folder
+const resolvePath = (base: string, href: string) => {
+    const parts = (base ? `${base}/${href}` : href).split('/');
+    const out: string[] = [];
+    parts.forEach(p => { if (p === '..') out.pop(); else if (p && p !== '.') out.push(p); });
+    return out.join('/');
+};
+
+// Item files of a package: the item resources listed in the manifest, or every XML file without one
+function itemPaths(files: Map<string, Uint8Array>): string[] {
+    const manifestPath = [...files.keys()].find(p => p === 'imsmanifest.xml' || p.endsWith('/imsmanifest.xml'));
+    const manifest = manifestPath ? parseXml(files.get(manifestPath)!) : null;
+    if (!manifestPath || !manifest) return [...files.keys()].filter(p => p.toLowerCase().endsWith('.xml'));
+    const base = manifestPath.split('/').slice(0, -1).join('/');
+    return byTag(manifest, 'resource')
+        .filter(r => (r.getAttribute('type') || '').startsWith('imsqti_item_xmlv2p'))
+        .map(r => resolvePath(base, r.getAttribute('href') || ''));
+}
+
+// Reads a QTI 2.1 package (.zip) or a single item (.xml)
+export async function importQti(file: File): Promise<QtiImportResult> {
+    const buffer = await file.arrayBuffer();
+    const files = file.name.toLowerCase().endsWith('.xml')
+        ? new Map([[file.name, new Uint8Array(buffer)]])
+        : await readZip(buffer);
+    const result: QtiImportResult = { questions: [], unsupported: [] };
+    itemPaths(files).forEach(path => {
+        const bytes = files.get(path);
+        const doc = bytes ? parseXml(bytes) : null;
+        if (!doc) {
+            result.unsupported.push({ item: path, reason: bytes ? 'Invalid XML' : 'File missing from package' });
+            return;
+        }
+        // Packages may also contain tests and other XML; only items are imported
+        if (!byTag(doc, 'assessmentItem').length) {
+            if (!byTag(doc, 'assessmentTest').length && !byTag(doc, 'manifest').length) result.unsupported.push({ item: path, reason: 'Not a QTI assessmentItem' });
+            return;
+        }
+        const mapped = mapItem(doc);
+        const label = byTag(doc, 'assessmentItem')[0].getAttribute('title') || path;
+        if (typeof mapped === 'string') result.unsupported.push({ item: label, reason: mapped });
+        else result.questions.push(mapped);
+    });
+    return result;
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import type { QuizQuestion, QuizAnswer } from '../types';
+import { gradeQuestion, describeCorrectAnswer, normalizeQuestion, usesOptions, isAnswered } from './quizGrading';
+import * as server from '../server/grading.js';
+
+const mcq: QuizQuestion = { type: 'mcq', question: 'Capital of France?', options: ['Paris', 'Lyon', 'Nice'], correctAnswer: 'Paris' };
+const multi: QuizQuestion = {
+    type: 'multi_select',
+    question: 'Primes?',
+    options: ['2', '3', '4', '5'],
+    correctAnswer: '2, 3, 5',
+    correctAnswers: ['2', '3', '5'],
+};
+const numeric: QuizQuestion = { type: 'numeric', question: 'Pi?', options: [], correctAnswer: '3.14', tolerance: 0.01 };
+const shortText: QuizQuestion = { type: 'short_text', question: 'Largest planet?', options: [], correctAnswer: 'Jupiter', acceptedAnswers: ['planet jupiter'] };
+const codeOutput: QuizQuestion = { type: 'code_output', question: 'Output?', options: [], correctAnswer: 'a\nb', code: 'print("a"); print("b")' };
+
+describe('gradeQuestion', () => {
+    it('gives full credit only for the correct choice', () => {
+        expect(gradeQuestion(mcq, 'Paris')).toBe(1);
+        expect(gradeQuestion(mcq, 'Lyon')).toBe(0);
+        expect(gradeQuestion({ ...mcq, type: undefined }, 'Paris')).toBe(1);
+    });
+
+    it('gives no credit for blank answers', () => {
+        expect(gradeQuestion(mcq, null)).toBe(0);
+        expect(gradeQuestion(shortText, '   ')).toBe(0);
+        expect(gradeQuestion(multi, [])).toBe(0);
+        expect(isAnswered('  ')).toBe(false);
+    });
+
+    it('gives partial credit for multi-select, with wrong picks cancelling right ones', () => {
+        expect(gradeQuestion(multi, ['2', '3', '5'])).toBe(1);
+        expect(gradeQuestion(multi, ['2', '3'])).toBeCloseTo(2 / 3);
+        expect(gradeQuestion(multi, ['2', '4'])).toBe(0);
+        expect(gradeQuestion(multi, ['4'])).toBe(0);
+        expect(gradeQuestion(multi, ['2', '2'])).toBeCloseTo(1 / 3);
+        expect(gradeQuestion(multi, '2')).toBe(0);
+    });
+
+    it('accepts numeric answers within the tolerance', () => {
+        expect(gradeQuestion(numeric, '3.14')).toBe(1);
+        expect(gradeQuestion(numeric, ' 3.15 ')).toBe(1);
+        expect(gradeQuestion(numeric, '3.16')).toBe(0);
+        expect(gradeQuestion(numeric, 'pi')).toBe(0);
+        expect(gradeQuestion({ ...numeric, tolerance: undefined }, '3.14')).toBe(1);
+    });
+
+    it('matches short answers ignoring case and extra whitespace', () => {
+        expect(gradeQuestion(shortText, '  JUPITER ')).toBe(1);
+        expect(gradeQuestion(shortText, 'Planet   Jupiter')).toBe(1);
+        expect(gradeQuestion(shortText, 'Saturn')).toBe(0);
+    });
+
+    it('compares code output ignoring trailing whitespace and line endings', () => {
+        expect(gradeQuestion(codeOutput, 'a  \r\nb\n')).toBe(1);
+        expect(gradeQuestion(codeOutput, 'A\nb')).toBe(0);
+        expect(gradeQuestion(codeOutput, 'a\n  b')).toBe(0);
+        const choice = { ...codeOutput, options: ['a\nb', 'ab'] };
+        expect(usesOptions(choice)).toBe(true);
+        expect(gradeQuestion(choice, 'a\nb')).toBe(1);
+        expect(gradeQuestion(choice, 'a\nb ')).toBe(0);
+    });
+});
+
+describe('describeCorrectAnswer', () => {
+    it('lists multi-select answers and shows numeric tolerance', () => {
+        expect(describeCorrectAnswer(multi)).toBe('2, 3, 5');
+        expect(describeCorrectAnswer(numeric)).toBe('3.14 (± 0.01)');
+        expect(describeCorrectAnswer(mcq)).toBe('Paris');
+    });
+});
+
+describe('normalizeQuestion', () => {
+    it('falls back to multiple choice and trims and dedupes options', () => {
+        const q = normalizeQuestion({ type: 'essay' as QuizQuestion['type'], question: ' Q ', options: [' a ', 'a', '', 'b'], correctAnswer: ' a ' });
+        expect(q).toEqual({ type: 'mcq', question: 'Q', options: ['a', 'b'], correctAnswer: 'a' });
+    });
+
+    it('fixes true/false options and answer', () => {
+        expect(normalizeQuestion({ type: 'true_false', question: 'Q', options: ['yes', 'no'], correctAnswer: 'yes' }))
+            .toMatchObject({ options: ['True', 'False'], correctAnswer: 'True' });
+        expect(normalizeQuestion({ type: 'true_false', question: 'Q', correctAnswer: 'nope' }).correctAnswer).toBe('False');
+    });
+
+    it('keeps only multi-select answers that are options', () => {
+        const q = normalizeQuestion({ type: 'multi_select', question: 'Q', options: ['a', 'b', 'c'], correctAnswers: ['a', ' c ', 'z'] });
+        expect(q.correctAnswers).toEqual(['a', 'c']);
+        expect(q.correctAnswer).toBe('a, c');
+    });
+
+    it('drops options from typed questions and clamps tolerance', () => {
+        expect(normalizeQuestion({ type: 'numeric', question: 'Q', options: ['1'], correctAnswer: '1', tolerance: -2 }))
+            .toMatchObject({ options: [], tolerance: 0 });
+        expect(normalizeQuestion({ type: 'short_text', question: 'Q', options: ['x'], correctAnswer: 'x', acceptedAnswers: [' y ', ''] }))
+            .toMatchObject({ options: [], acceptedAnswers: ['y'] });
+    });
+});
+
+describe('server grading', () => {
+    const cases: [QuizQuestion, QuizAnswer | null][] = [
+        [mcq, 'Paris'], [mcq, 'Nice'], [mcq, null],
+        [multi, ['2', '3', '5']], [multi, ['2', '3']], [multi, ['3', '4']], [multi, []],
+        [numeric, '3.149'], [numeric, '3.2'], [numeric, 'x'],
+        [shortText, ' jupiter'], [shortText, 'mars'], [shortText, ''],
+        [codeOutput, 'a\r\nb  '], [codeOutput, 'a b'],
+    ];
+
+    it('agrees with client grading', () => {
+        for (const [q, answer] of cases) {
+            expect(server.gradeQuestion(q, answer), `${q.type}: ${JSON.stringify(answer)}`).toBe(gradeQuestion(q, answer));
+            expect(server.describeCorrectAnswer(q)).toBe(describeCorrectAnswer(q));
+        }
+    });
+
+    it('accepts option indexes and stores them as option text', () => {
+        expect(server.gradeQuestion(mcq, 0)).toBe(1);
+        expect(server.gradeQuestion(mcq, 7)).toBe(0);
+        expect(server.gradeQuestion(multi, [0, 1, 3])).toBe(1);
+        expect(server.storedAnswer(mcq, 0)).toBe('Paris');
+        expect(server.storedAnswer(multi, [0, 9, '5'])).toEqual(['2', '5']);
+        expect(server.storedAnswer(numeric, null)).toBeNull();
+    });
+});
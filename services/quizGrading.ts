@@ -0,0 +1,117 @@
+import type { QuizQuestion, QuizQuestionType, QuizAnswer } from '../types';
+
+// Client-side grading for lecture quizzes. Mirrors `gradeQuestion` in server/grading.js,
+// which stays authoritative for module quizzes.
+
+export const QUESTION_TYPE_LABELS: Record<QuizQuestionType, string> = {
+    mcq: 'Multiple choice',
+    true_false: 'True / False',
+    multi_select: 'Multi-select',
+    numeric: 'Numeric',
+    short_text: 'Short answer',
+    code_output: 'Code output',
+};
+
+export const questionType = (q: { type?: QuizQuestionType }): QuizQuestionType => q.type || 'mcq';
+
+// Choice-based questions render options; the others take typed input.
+export const usesOptions = (q: { type?: QuizQuestionType; options?: string[] }): boolean => {
+    const type = questionType(q);
+    if (type === 'numeric' || type === 'short_text') return false;
+    if (type === 'code_output') return (q.options || []).length > 0;
+    return true;
+};
+
+const normalizeText = (v: string) => v.trim().replace(/\s+/g, ' ').toLowerCase();
+
+// Program output is compared exactly except for trailing whitespace and line endings
+const normalizeOutput = (v: string) => v.replace(/\r\n/g, '\n').split('\n').map(l => l.trimEnd()).join('\n').trim();
+
+export const isAnswered = (answer: QuizAnswer | null | undefined): boolean =>
+    Array.isArray(answer) ? answer.length > 0 : typeof answer === 'string' && answer.trim() !== '';
+
+// Returns credit between 0 and 1 for a single answer.
+export function gradeQuestion(q: QuizQuestion, answer: QuizAnswer | null | undefined): number {
+    if (!isAnswered(answer)) return 0;
+    switch (questionType(q)) {
+        case 'multi_select': {
+            const correct = new Set(q.correctAnswers || []);
+            if (!correct.size || !Array.isArray(answer)) return 0;
+            let hits = 0;
+            let misses = 0;
+            new Set(answer).forEach(a => (correct.has(a) ? hits++ : misses++));
+            return Math.max(0, (hits - misses) / correct.size);
+        }
+        case 'numeric': {
+            const value = Number(String(answer).trim());
+            const target = Number(q.correctAnswer);
+            if (!Number.isFinite(value) || !Number.isFinite(target)) return 0;
+            return Math.abs(value - target) <= (Number(q.tolerance) || 0) + 1e-9 ? 1 : 0;
+        }
+        case 'short_text': {
+            const accepted = [q.correctAnswer, ...(q.acceptedAnswers || [])].map(normalizeText);
+            return accepted.includes(normalizeText(String(answer))) ? 1 : 0;
+        }
+        case 'code_output': {
+            if (usesOptions(q)) return answer === q.correctAnswer ? 1 : 0;
+            const accepted = [q.correctAnswer, ...(q.acceptedAnswers || [])].map(normalizeOutput);
+            return accepted.includes(normalizeOutput(String(answer))) ? 1 : 0;
+        }
+        default:
+            return answer === q.correctAnswer ? 1 : 0;
+    }
+}
+
+// Human-readable answer key, used in result views.
+export function describeCorrectAnswer(q: QuizQuestion): string {
+    switch (questionType(q)) {
+        case 'multi_select':
+            return (q.correctAnswers || []).join(', ');
+        case 'numeric':
+            return q.tolerance ? `${q.correctAnswer} (± ${q.tolerance})` : q.correctAnswer;
+        default:
+            return q.correctAnswer;
+    }
+}
+
+export const describeAnswer = (answer: QuizAnswer | null | undefined): string =>
+    Array.isArray(answer) ? answer.join(', ') : (answer || '');
+
+// Coerce AI output into a well-formed question so renderers and graders can rely on its shape.
+export function normalizeQuestion(raw: Partial<QuizQuestion>): QuizQuestion {
+    const known: QuizQuestionType[] = ['mcq', 'true_false', 'multi_select', 'numeric', 'short_text', 'code_output'];
+    const type = known.includes(raw.type as QuizQuestionType) ? (raw.type as QuizQuestionType) : 'mcq';
+    const options = Array.from(new Set((raw.options || []).map(o => String(o || '').trim()).filter(Boolean)));
+    const explanation = String(raw.explanation || '').trim();
+    const base: QuizQuestion = {
+        type,
+        question: String(raw.question || '').trim(),
+        options,
+        correctAnswer: String(raw.correctAnswer ?? '').trim(),
+        ...(explanation ? { explanation } : {}),
+        ...(raw.source ? { source: raw.source } : {}),
+    };
+    switch (type) {
+        case 'true_false': {
+            const truthy = /^(true|t|yes)$/i.test(base.correctAnswer);
+            return { ...base, options: ['True', 'False'], correctAnswer: truthy ? 'True' : 'False' };
+        }
+        case 'multi_select': {
+            const correctAnswers = (raw.correctAnswers || []).map(a => String(a).trim()).filter(a => options.includes(a));
+            return { ...base, correctAnswers, correctAnswer: correctAnswers.join(', ') };
+        }
+        case 'numeric':
+            return { ...base, options: [], tolerance: Math.max(0, Number(raw.tolerance) || 0) };
+        case 'short_text':
+            return { ...base, options: [], acceptedAnswers: (raw.acceptedAnswers || []).map(a => String(a).trim()).filter(Boolean) };
+        case 'code_output':
+            return {
+                ...base,
+                code: String(raw.code || ''),
+                codeLanguage: raw.codeLanguage ? String(raw.codeLanguage) : undefined,
+                acceptedAnswers: (raw.acceptedAnswers || []).map(a => String(a).trim()).filter(Boolean),
+            };
+        default:
+            return base;
+    }
+}
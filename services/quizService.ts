@@ -1,4 +1,5 @@
-import { getToken } from './authService';
+import { getToken, authFetch } from './authService';
+import type { QuizQuestion, PublicQuizQuestion, QuizAnswer, QuizReviewItem, QuizAttempt, ItemAnalysis, QuizMode, AdaptivePlan, BankQuestion, BankUpdate, BankAssemblyRules, BankShortfall } from '../types';
 
 const API_BASE = (import.meta as any).env?.VITE_API_BASE || 'http://localhost:8765';
 
@@ -7,30 +8,30 @@ function auth() {
   return t ? { Authorization: `Bearer ${t}` } : {};
 }
 
-export async function generateQuiz(courseId: string, moduleId: string): Promise<{ id: string; questions: Array<{ question: string; options: string[]; correctAnswer: string }> }> {
-  const res = await fetch(`${API_BASE}/api/quizzes/generate`, {
+export async function generateQuiz(courseId: string, moduleId: string, mode: QuizMode = 'standard'): Promise<{ id: string; questions: PublicQuizQuestion[]; durationSeconds: number; expiresAt: string; attempts: { used: number; max: number | null }; adaptive?: AdaptivePlan }> {
+  const res = await authFetch(`${API_BASE}/api/quizzes/generate`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...auth() },
-    body: JSON.stringify({ courseId, moduleId }),
+    body: JSON.stringify({ courseId, moduleId, mode }),
   });
   const data = await res.json().catch(() => ({}));
   if (!res.ok) throw new Error(data?.error || 'Failed to generate quiz');
-  return { id: data.quiz.id, questions: data.quiz.questions };
+  return { id: data.quiz.id, questions: data.quiz.questions, durationSeconds: data.quiz.durationSeconds, expiresAt: data.quiz.expiresAt, attempts: data.attempts, adaptive: data.quiz.adaptive };
 }
 
-export async function submitQuiz(params: { courseId: string; moduleId: string; quizId: string; questions: Array<{ question: string; options: string[]; correctAnswer: string }>; answers: Array<number|string>; }): Promise<{ score: number; total: number }> {
-  const res = await fetch(`${API_BASE}/api/quizzes/submit`, {
+export async function submitQuiz(params: { quizId: string; answers: Array<QuizAnswer|number>; }): Promise<{ score: number; total: number; late?: boolean; review?: QuizReviewItem[] }> {
+  const res = await authFetch(`${API_BASE}/api/quizzes/submit`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json', ...auth() },
     body: JSON.stringify(params),
   });
   const data = await res.json().catch(() => ({}));
   if (!res.ok) throw new Error(data?.error || 'Failed to submit quiz');
-  return data.result as { score: number; total: number };
+  return data.result as { score: number; total: number; late?: boolean; review?: QuizReviewItem[] };
 }
 
 export async function getAttemptsSummary(): Promise<Record<string, number>> {
-  const res = await fetch(`${API_BASE}/api/quizzes/attempts/summary`, { headers: { 'Content-Type': 'application/json', ...auth() } });
+  const res = await authFetch(`${API_BASE}/api/quizzes/attempts/summary`, { headers: { 'Content-Type': 'application/json', ...auth() } });
   const data = await res.json().catch(() => ({}));
   if (!res.ok) throw new Error(data?.error || 'Failed to load attempts');
   return data.attemptsByCourse || {};
@@ -38,8 +39,111 @@ export async function getAttemptsSummary(): Promise<Record<string, number>> {
 
 export async function getLastAttempt(courseId: string, moduleId: string): Promise<{ score: number; total: number; createdAt: string } | null> {
   const url = `${API_BASE}/api/quizzes/attempts/last?courseId=${encodeURIComponent(courseId)}&moduleId=${encodeURIComponent(moduleId)}`;
-  const res = await fetch(url, { headers: { 'Content-Type': 'application/json', ...auth() } });
+  const res = await authFetch(url, { headers: { 'Content-Type': 'application/json', ...auth() } });
   const data = await res.json().catch(() => ({}));
   if (!res.ok) throw new Error(data?.error || 'Failed to load last attempt');
   return data.last || null;
 }
+
+// Own attempt history for a course, oldest first; pass moduleId to narrow it to one module
+export async function getAttemptHistory(courseId: string, moduleId?: string): Promise<QuizAttempt[]> {
+  const params = new URLSearchParams({ courseId });
+  if (moduleId) params.set('moduleId', moduleId);
+  const res = await authFetch(`${API_BASE}/api/quizzes/attempts?${params.toString()}`, { headers: { 'Content-Type': 'application/json', ...auth() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load attempt history');
+  return data.attempts || [];
+}
+
+// -------- Teacher review & release ---------
+
+export interface ModuleQuizState {
+  draft: QuizQuestion[];
+  published: QuizQuestion[] | null;
+  draftUpdatedAt: string | null;
+  publishedAt: string | null;
+}
+
+function moduleQuizUrl(courseId: string, moduleId: string, suffix = '') {
+  return `${API_BASE}/api/courses/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/quiz${suffix}`;
+}
+
+async function moduleQuizRequest(url: string, init: RequestInit, fallbackError: string): Promise<ModuleQuizState> {
+  const res = await authFetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...auth() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || fallbackError);
+  return data.quiz as ModuleQuizState;
+}
+
+export async function getModuleQuiz(courseId: string, moduleId: string): Promise<ModuleQuizState> {
+  return moduleQuizRequest(moduleQuizUrl(courseId, moduleId), { method: 'GET' }, 'Failed to load module quiz');
+}
+
+export async function generateModuleQuizDraft(courseId: string, moduleId: string): Promise<ModuleQuizState> {
+  return moduleQuizRequest(moduleQuizUrl(courseId, moduleId, '/generate'), { method: 'POST' }, 'Failed to generate quiz draft');
+}
+
+export async function saveModuleQuizDraft(courseId: string, moduleId: string, questions: QuizQuestion[]): Promise<ModuleQuizState> {
+  return moduleQuizRequest(moduleQuizUrl(courseId, moduleId), { method: 'PUT', body: JSON.stringify({ questions }) }, 'Failed to save quiz draft');
+}
+
+export async function publishModuleQuiz(courseId: string, moduleId: string): Promise<ModuleQuizState> {
+  return moduleQuizRequest(moduleQuizUrl(courseId, moduleId, '/publish'), { method: 'POST' }, 'Failed to publish quiz');
+}
+
+export async function unpublishModuleQuiz(courseId: string, moduleId: string): Promise<ModuleQuizState> {
+  return moduleQuizRequest(moduleQuizUrl(courseId, moduleId, '/publish'), { method: 'DELETE' }, 'Failed to unpublish quiz');
+}
+
+export async function getItemAnalysis(courseId: string, moduleId: string, sectionId?: string): Promise<{ items: ItemAnalysis[]; minResponses: number }> {
+  const query = sectionId ? `?sectionId=${encodeURIComponent(sectionId)}` : '';
+  const res = await authFetch(moduleQuizUrl(courseId, moduleId, `/item-analysis${query}`), { headers: { 'Content-Type': 'application/json', ...auth() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || 'Failed to load item analysis');
+  return { items: data.items || [], minResponses: data.minResponses || 0 };
+}
+
+// -------- Question bank ---------
+
+function bankUrl(courseId: string, moduleId: string, suffix = '') {
+  return `${API_BASE}/api/courses/${encodeURIComponent(courseId)}/modules/${encodeURIComponent(moduleId)}/bank${suffix}`;
+}
+
+async function bankRequest<T>(url: string, init: RequestInit, fallbackError: string): Promise<T> {
+  const res = await authFetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...auth() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || fallbackError);
+  return data as T;
+}
+
+export async function getQuestionBank(courseId: string, moduleId: string): Promise<BankQuestion[]> {
+  const data = await bankRequest<{ questions?: BankQuestion[] }>(bankUrl(courseId, moduleId), { method: 'GET' }, 'Failed to load question bank');
+  return data.questions || [];
+}
+
+export async function addBankQuestions(courseId: string, moduleId: string, questions: QuizQuestion[]): Promise<BankUpdate> {
+  return bankRequest(bankUrl(courseId, moduleId), { method: 'POST', body: JSON.stringify({ questions }) }, 'Failed to add questions');
+}
+
+export async function generateBankQuestions(courseId: string, moduleId: string): Promise<BankUpdate> {
+  return bankRequest(bankUrl(courseId, moduleId, '/generate'), { method: 'POST' }, 'Failed to generate questions');
+}
+
+export async function importLectureQuestions(courseId: string, moduleId: string): Promise<BankUpdate & { skipped: number }> {
+  return bankRequest(bankUrl(courseId, moduleId, '/import-lectures'), { method: 'POST' }, 'Failed to import lecture questions');
+}
+
+export async function updateBankQuestion(courseId: string, moduleId: string, questionId: string, question: QuizQuestion): Promise<BankQuestion> {
+  const data = await bankRequest<{ question: BankQuestion }>(bankUrl(courseId, moduleId, `/${encodeURIComponent(questionId)}`), { method: 'PUT', body: JSON.stringify({ question }) }, 'Failed to update question');
+  return data.question;
+}
+
+export async function deleteBankQuestion(courseId: string, moduleId: string, questionId: string): Promise<void> {
+  await bankRequest<{ success: boolean }>(bankUrl(courseId, moduleId, `/${encodeURIComponent(questionId)}`), { method: 'DELETE' }, 'Failed to delete question');
+}
+
+// Samples the bank into the module quiz draft; shortfalls list topics without enough matching questions
+export async function assembleQuizFromBank(courseId: string, moduleId: string, rules: BankAssemblyRules): Promise<{ quiz: ModuleQuizState; shortfalls: BankShortfall[] }> {
+  const data = await bankRequest<{ quiz: ModuleQuizState; shortfalls?: BankShortfall[] }>(bankUrl(courseId, moduleId, '/assemble'), { method: 'POST', body: JSON.stringify(rules) }, 'Failed to assemble quiz');
+  return { quiz: data.quiz, shortfalls: data.shortfalls || [] };
+}
@@ -0,0 +1,51 @@
+import { getToken, authFetch } from './authService';
+import type { CourseSection, RosterStudent } from '../types';
+
+function authHeaders() {
+  const token = getToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+const courseUrl = (courseId: string, path: string) => `/api/courses/${encodeURIComponent(courseId)}/${path}`;
+
+async function send<T>(url: string, fallback: string, init: RequestInit = {}): Promise<T> {
+  const res = await authFetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...authHeaders() } });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data?.error || fallback);
+  return data as T;
+}
+
+// TAs only get their own sections back, and no unassigned count
+export async function listSections(courseId: string): Promise<{ sections: CourseSection[]; unassigned?: number }> {
+  return send(courseUrl(courseId, 'sections'), 'Failed to load sections');
+}
+
+export async function createSection(courseId: string, name: string): Promise<{ section: CourseSection }> {
+  return send(courseUrl(courseId, 'sections'), 'Failed to create section', { method: 'POST', body: JSON.stringify({ name }) });
+}
+
+export async function renameSection(courseId: string, sectionId: string, name: string): Promise<void> {
+  await send(courseUrl(courseId, `sections/${encodeURIComponent(sectionId)}`), 'Failed to rename section', { method: 'PATCH', body: JSON.stringify({ name }) });
+}
+
+// Students of the section stay enrolled but become unassigned; its join codes are revoked
+export async function deleteSection(courseId: string, sectionId: string): Promise<{ unassigned: number }> {
+  return send(courseUrl(courseId, `sections/${encodeURIComponent(sectionId)}`), 'Failed to delete section', { method: 'DELETE' });
+}
+
+export async function addSectionTa(courseId: string, sectionId: string, email: string): Promise<{ ta: CourseSection['tas'][number] }> {
+  return send(courseUrl(courseId, `sections/${encodeURIComponent(sectionId)}/tas`), 'Failed to assign TA', { method: 'POST', body: JSON.stringify({ email }) });
+}
+
+export async function removeSectionTa(courseId: string, sectionId: string, userId: string): Promise<void> {
+  await send(courseUrl(courseId, `sections/${encodeURIComponent(sectionId)}/tas/${encodeURIComponent(userId)}`), 'Failed to remove TA', { method: 'DELETE' });
+}
+
+export async function getRoster(courseId: string, sectionId?: string): Promise<{ students: RosterStudent[] }> {
+  return send(courseUrl(courseId, `roster${sectionId ? `?sectionId=${encodeURIComponent(sectionId)}` : ''}`), 'Failed to load roster');
+}
+
+// A null sectionId unassigns the student
+export async function moveStudent(courseId: string, userId: string, sectionId: string | null): Promise<void> {
+  await send(courseUrl(courseId, `enrollments/${encodeURIComponent(userId)}`), 'Failed to move student', { method: 'PATCH', body: JSON.stringify({ sectionId }) });
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'zlib';
+import { zipStored, readZip } from './zip';
+
+const text = (bytes: Uint8Array | undefined) => new TextDecoder().decode(bytes);
+
+// One-entry archive with the entry deflated, as most zip tools write them
+function zipDeflated(name: string, content: string): ArrayBuffer {
+    const stored = zipStored([{ name, content }]);
+    const nameLength = name.length;
+    const data = deflateRawSync(Buffer.from(content));
+    const local = stored.slice(0, 30 + nameLength);
+    const central = stored.slice(30 + nameLength + content.length, stored.length - 22);
+    const end = stored.slice(stored.length - 22);
+    const lv = new DataView(local.buffer);
+    const cv = new DataView(central.buffer);
+    const ev = new DataView(end.buffer);
+    lv.setUint16(8, 8, true);
+    lv.setUint32(18, data.length, true);
+    cv.setUint16(10, 8, true);
+    cv.setUint32(20, data.length, true);
+    ev.setUint32(16, local.length + data.length, true);
+    const out = new Uint8Array(local.length + data.length + central.length + end.length);
+    out.set(local, 0);
+    out.set(data, local.length);
+    out.set(central, local.length + data.length);
+    out.set(end, local.length + data.length + central.length);
+    return out.buffer;
+}
+
+describe('zip', () => {
+    it('reads back the files it writes', async () => {
+        const zip = zipStored([
+            { name: 'a.txt', content: 'hello' },
+            { name: 'dir/b.xml', content: '<b>ünïcode ✓</b>' },
+            { name: 'empty.txt', content: '' },
+        ]);
+        const files = await readZip(zip.buffer as ArrayBuffer);
+        expect([...files.keys()]).toEqual(['a.txt', 'dir/b.xml', 'empty.txt']);
+        expect(text(files.get('a.txt'))).toBe('hello');
+        expect(text(files.get('dir/b.xml'))).toBe('<b>ünïcode ✓</b>');
+        expect(files.get('empty.txt')?.length).toBe(0);
+    });
+
+    it('inflates deflated entries', async () => {
+        const content = 'repeated '.repeat(200);
+        const files = await readZip(zipDeflated('big.txt', content));
+        expect(text(files.get('big.txt'))).toBe(content);
+    });
+
+    it('rejects data that is not a zip archive', async () => {
+        await expect(readZip(new TextEncoder().encode('just some text').buffer as ArrayBuffer)).rejects.toThrow('Not a zip archive');
+    });
+});
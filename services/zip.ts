@@ -0,0 +1,116 @@
+// Minimal zip support for file exchange formats (XLSX, QTI packages). Archives are written with
+// every entry stored; reading also handles deflated entries through the browser's DecompressionStream.
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Entries carry a fixed 1980-01-01 timestamp; readers reject a zero date
+const DOS_DATE_1980 = (1 << 5) | 1;
+
+// Zip archive with every entry stored (no compression)
+export function zipStored(files: Array<{ name: string; content: string }>): Uint8Array {
+    const encoder = new TextEncoder();
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+    files.forEach(file => {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new Uint8Array(30 + name.length + data.length);
+        const lv = new DataView(local.buffer);
+        lv.setUint32(0, 0x04034b50, true);
+        lv.setUint16(4, 20, true);
+        lv.setUint16(12, DOS_DATE_1980, true);
+        lv.setUint32(14, crc, true);
+        lv.setUint32(18, data.length, true);
+        lv.setUint32(22, data.length, true);
+        lv.setUint16(26, name.length, true);
+        local.set(name, 30);
+        local.set(data, 30 + name.length);
+
+        const central = new Uint8Array(46 + name.length);
+        const cv = new DataView(central.buffer);
+        cv.setUint32(0, 0x02014b50, true);
+        cv.setUint16(4, 20, true);
+        cv.setUint16(6, 20, true);
+        cv.setUint16(14, DOS_DATE_1980, true);
+        cv.setUint32(16, crc, true);
+        cv.setUint32(20, data.length, true);
+        cv.setUint32(24, data.length, true);
+        cv.setUint16(28, name.length, true);
+        cv.setUint32(42, offset, true);
+        central.set(name, 46);
+
+        locals.push(local);
+        centrals.push(central);
+        offset += local.length;
+    });
+    const centralSize = centrals.reduce((s, c) => s + c.length, 0);
+    const end = new Uint8Array(22);
+    const ev = new DataView(end.buffer);
+    ev.setUint32(0, 0x06054b50, true);
+    ev.setUint16(8, files.length, true);
+    ev.setUint16(10, files.length, true);
+    ev.setUint32(12, centralSize, true);
+    ev.setUint32(16, offset, true);
+
+    const out = new Uint8Array(offset + centralSize + end.length);
+    let pos = 0;
+    [...locals, ...centrals, end].forEach(part => { out.set(part, pos); pos += part.length; });
+    return out;
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+// Files of a zip archive by path (directories are skipped). Throws on archives it cannot read.
+export async function readZip(buffer: ArrayBuffer): Promise<Map<string, Uint8Array>> {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    // The end-of-central-directory record sits at the end, before an optional comment of up to 64 KB
+    let end = -1;
+    for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+        if (view.getUint32(i, true) === 0x06054b50) { end = i; break; }
+    }
+    if (end < 0) throw new Error('Not a zip archive');
+
+    const decoder = new TextDecoder();
+    const files = new Map<string, Uint8Array>();
+    const count = view.getUint16(end + 10, true);
+    let pos = view.getUint32(end + 16, true);
+    for (let n = 0; n < count; n++) {
+        if (view.getUint32(pos, true) !== 0x02014b50) throw new Error('Corrupt zip archive');
+        const method = view.getUint16(pos + 10, true);
+        const size = view.getUint32(pos + 20, true);
+        const nameLength = view.getUint16(pos + 28, true);
+        const localOffset = view.getUint32(pos + 42, true);
+        const name = decoder.decode(bytes.subarray(pos + 46, pos + 46 + nameLength));
+        pos += 46 + nameLength + view.getUint16(pos + 30, true) + view.getUint16(pos + 32, true);
+        if (name.endsWith('/')) continue;
+
+        // Sizes come from the central directory; local headers may defer them to a data descriptor
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + size);
+        if (method === 0) files.set(name, data);
+        else if (method === 8) files.set(name, await inflateRaw(data));
+        else throw new Error(`Unsupported compression in ${name}`);
+    }
+    return files;
+}
@@ -2,12 +2,85 @@
 export enum Role {
     Student = 'student',
     Teacher = 'teacher',
+    Admin = 'admin',
 }
 
 export interface User {
     id: string;
     name: string;
     role: Role;
+    twoFactorEnabled?: boolean;
+    // Set for accounts created with a one-time password
+    mustChangePassword?: boolean;
+}
+
+// One admin action from the audit log. `target` identifies what was acted on (e.g. userId, email).
+export interface AuditEntry {
+    id: string;
+    action: string;
+    actorEmail: string | null;
+    target: Record<string, string>;
+    details: Record<string, unknown>;
+    createdAt: string;
+}
+
+// TOTP enrollment: the secret (for manual entry) and its otpauth:// URI rendered as a QR image
+export interface TotpSetup {
+    secret: string;
+    otpauthUrl: string;
+    qrDataUrl: string;
+}
+
+// Roles that must sign in with 2FA
+export interface SecuritySettings {
+    require2faRoles: Role[];
+}
+
+// A user account as shown in the admin console
+export interface AdminUser {
+    id: string;
+    name: string;
+    email: string;
+    role: Role;
+    suspended: boolean;
+    suspendedAt: string | null;
+    twoFactorEnabled: boolean;
+    // Set while repeated failed logins keep the account locked
+    lockedUntil: string | null;
+    createdAt: string | null;
+}
+
+// What deleting a user removes (or would remove, for a dry run), per collection
+export interface UserDeletionReport {
+    dryRun: boolean;
+    user: AdminUser;
+    counts: Record<string, number>;
+    courses: Array<{ id: string; title: string }>;
+}
+
+// Bulk CSV import: new users get either a one-time password or an invite link
+export type ImportCredentials = 'password' | 'invite';
+
+export interface UserImportRow {
+    // Line number in the CSV (the header is line 1)
+    row: number;
+    email: string;
+    name: string;
+    role?: Role;
+    status: 'created' | 'existing' | 'error';
+    userId?: string | null;
+    enrolled?: string[];
+    alreadyEnrolled?: string[];
+    oneTimePassword?: string;
+    inviteToken?: string;
+    error?: string;
+}
+
+export interface UserImportReport {
+    dryRun: boolean;
+    credentials: ImportCredentials;
+    summary: { rows: number; created: number; existing: number; errors: number; enrollments: number };
+    rows: UserImportRow[];
 }
 
 export type AppView =
@@ -18,14 +91,172 @@ export type AppView =
   | 'chatbot'
   | 'study_tools'
   | 'coding_game'
+  | 'student_progress'
   | 'teacher_dashboard'
+  | 'teacher_course_mgmt'
+  | 'teacher_gradebook'
   | 'video_generator'
-  | 'pdf_explainer';
+  | 'pdf_explainer'
+  | 'admin_console'
+  | 'account_security';
+
+export type QuizQuestionType = 'mcq' | 'true_false' | 'multi_select' | 'numeric' | 'short_text' | 'code_output';
 
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+// A quiz item. `type` defaults to 'mcq'; the optional fields only apply to some types:
+// - multi_select: `correctAnswers` lists every correct option (partial credit)
+// - numeric: `correctAnswer` holds the number, `tolerance` the allowed absolute error
+// - short_text / code_output: `acceptedAnswers` lists extra accepted variants
+// - code_output: `code` is the snippet to trace; with `options` it is graded like an MCQ
+// `explanation` and `source` power the post-quiz review; `topic` (one of the module's topics) and
+// `difficulty` drive adaptive quizzes.
 export interface QuizQuestion {
+    type?: QuizQuestionType;
     question: string;
     options: string[];
     correctAnswer: string;
+    correctAnswers?: string[];
+    acceptedAnswers?: string[];
+    tolerance?: number;
+    code?: string;
+    codeLanguage?: string;
+    explanation?: string;
+    source?: QuizSource;
+    topic?: string;
+    difficulty?: QuizDifficulty;
+}
+
+// Where a question came from. `slideIndex` is 0-based; without `lectureId` it refers to the
+// lecture that owns the quiz.
+export interface QuizSource {
+    lectureId?: string;
+    slideIndex?: number;
+    materialId?: string;
+    chunkIndex?: number;
+}
+
+// What students see before submitting: the question without any answer key.
+export type PublicQuizQuestion = Omit<QuizQuestion, 'correctAnswer' | 'correctAnswers' | 'acceptedAnswers' | 'tolerance' | 'explanation' | 'source' | 'topic' | 'difficulty'>;
+
+// A student's answer: option text or free text, or a list of option texts for multi_select.
+export type QuizAnswer = string | string[];
+
+// One graded question in a submitted module quiz.
+export interface QuizReviewItem {
+    question: PublicQuizQuestion;
+    answer: QuizAnswer | null;
+    credit: number;
+    correctAnswer: string;
+    explanation?: string;
+    source?: QuizSource;
+    sourceExcerpt?: string;
+}
+
+// A question stored in a module's question bank and where it came from.
+export type BankOrigin = 'ai' | 'manual' | 'lecture';
+
+export interface BankQuestion extends QuizQuestion {
+    id: string;
+    origin: BankOrigin;
+    lectureId?: string;
+    createdAt: string;
+}
+
+// Sampling rules for assembling a quiz from the bank, e.g. 2 per topic with mixed difficulty.
+export interface BankAssemblyRules {
+    perTopic: number;
+    difficulty: QuizDifficulty | 'mixed';
+    topics?: string[];
+}
+
+export interface BankShortfall {
+    topic: string;
+    wanted: number;
+    found: number;
+}
+
+// Bank routes that add questions answer with the whole bank, so the editor can replace its list.
+export interface BankUpdate {
+    added: number;
+    questions: BankQuestion[];
+}
+
+// 'adaptive' quizzes are generated from the student's per-topic history instead of the published quiz.
+export type QuizMode = 'standard' | 'adaptive';
+
+// What the server planned for an adaptive quiz. Mastery is the recent mean credit per topic (null if never asked).
+export interface AdaptivePlan {
+    difficulty: QuizDifficulty;
+    focusTopics: string[];
+    mastery: Array<{ topic: string; mastery: number | null }>;
+}
+
+// A submitted module quiz as it appears in the student's history.
+export interface QuizAttempt {
+    id: string;
+    courseId: string;
+    moduleId: string;
+    quizId: string | null;
+    score: number;
+    total: number;
+    late: boolean;
+    startedAt: string | null;
+    createdAt: string;
+    items: Array<{ question: string; credit: number; correct: boolean }>;
+}
+
+export type ItemFlag = 'too_hard' | 'too_easy' | 'low_discrimination' | 'negative_discrimination' | 'distractor_outdraws_key';
+
+// Item analysis for one quiz question, matched to quiz questions by text. `pValue` is the mean
+// credit (0-1); `discrimination` is null with fewer than two responses.
+export interface ItemAnalysis {
+    question: string;
+    type: QuizQuestionType;
+    responses: number;
+    pValue: number;
+    discrimination: number | null;
+    options: Array<{ option: string; count: number; correct: boolean }>;
+    flags: ItemFlag[];
+}
+
+// How several attempts on one module quiz become a single grade.
+export type GradePolicy = 'best' | 'latest' | 'average';
+
+// One student's row in the gradebook. Grades are keyed by module id; null means no attempt.
+export interface GradebookRow {
+    userId: string;
+    name: string;
+    email: string;
+    sectionId?: string;
+    grades: Record<string, { percent: number; attempts: number } | null>;
+    overall: number;
+}
+
+export interface Gradebook {
+    courseId: string;
+    courseTitle: string;
+    policy: GradePolicy;
+    // Every section of the course, and the ones the rows were filtered to (absent for the whole course)
+    sections?: Array<{ id: string; name: string }>;
+    sectionIds?: string[];
+    modules: Array<{ id: string; title: string }>;
+    rows: GradebookRow[];
+}
+
+// A spaced-repetition card built from a lecture slide or quiz item. `interval` is in days.
+export interface Flashcard {
+    id: string;
+    courseId: string;
+    moduleId: string;
+    lectureId: string;
+    lectureTitle: string;
+    front: string;
+    back: string;
+    source?: QuizSource;
+    dueAt: string;
+    interval: number;
+    repetitions: number;
 }
 
 // Represents a generated outline for a module, used during course creation.
@@ -60,6 +291,26 @@ export interface VideoDraft {
     pdfDocumentBase64?: string;
 }
 
+// Teacher-controlled limits for a module's quizzes. maxAttempts of 0 means unlimited; after dueAt
+// no quiz can be started and running ones end. Students receive the values for their own section.
+export interface QuizSettings {
+    durationMinutes: number;
+    maxAttempts: number;
+    dueAt?: string | null;
+    // Teachers only: section id -> the values that section overrides
+    sectionOverrides?: Record<string, QuizSettingsOverride>;
+}
+
+export type QuizSettingsOverride = Partial<Pick<QuizSettings, 'durationMinutes' | 'maxAttempts' | 'dueAt'>>;
+
+// Blank fields clear the deadline on the module, or inherit the module's value for a section
+export interface QuizSettingsUpdate {
+    durationMinutes?: number | null;
+    maxAttempts?: number | null;
+    dueAt?: string | null;
+    sectionId?: string;
+}
+
 // A module within a course, which contains lectures.
 export interface CourseModule {
     id: string;
@@ -67,23 +318,99 @@ export interface CourseModule {
     description: string;
     lectures: VideoDraft[];
     topics?: string[];
+    quizSettings?: QuizSettings;
 }
 
 // The top-level structure for a subject.
+// How students get into a course: from the catalog, with a join code, through an invite link
+// (unlisted), or by requesting a seat the teacher approves
+export type EnrollmentPolicy = 'open' | 'code' | 'invite' | 'approval';
+
+// A cohort taught in parallel with the course's other sections
+export interface CourseSectionRef {
+    id: string;
+    name: string;
+}
+
 export interface Course {
     id: string;
     title: string; // The subject
     description?: string;
     creatorId?: string;
+    enrollmentPolicy?: EnrollmentPolicy;
+    sections?: CourseSectionRef[];
+    // The signed-in student's section
+    mySectionId?: string;
+    // Set when the signed-in teacher is a TA of these sections rather than the owner
+    teachingSectionIds?: string[];
     modules: CourseModule[];
 }
 
+// Section details for the teacher: TAs and head count
+export interface CourseSection extends CourseSectionRef {
+    tas: Array<{ id: string; name: string; email: string }>;
+    students: number;
+}
+
+export interface RosterStudent {
+    userId: string;
+    name: string;
+    email: string;
+    sectionId?: string;
+}
+
+// A join code ('code') or invite link ('link') for a course; revoked ones stay listed for reference
+export interface EnrollmentCode {
+    id: string;
+    kind: 'code' | 'link';
+    code: string;
+    url?: string;
+    // Students joining with it are placed in this section
+    sectionId?: string;
+    uses: number;
+    createdAt: string;
+    revokedAt?: string;
+}
+
+export interface EnrollmentRequest {
+    id: string;
+    courseId: string;
+    courseTitle: string;
+    sectionId?: string;
+    sectionName?: string;
+    userId: string;
+    name: string;
+    email: string;
+    message?: string;
+    createdAt: string;
+}
+
 
+// Quiz results for one module, as shown on the teacher overview. Scores are percentages (0-100);
+// the distribution and hardest questions are only filled in by the per-module endpoint.
 export interface QuizAnalytics {
-    lectureId: string;
-    lectureTitle: string;
+    moduleId: string;
+    moduleTitle: string;
+    completions: number;
+    students: number;
+    averageScore: number;
+    medianScore: number;
+    scoreDistribution?: Array<{ range: string; count: number }>;
+    hardestQuestions?: Array<{ question: string; attempts: number; averageCredit: number }>;
+}
+
+// Course-wide numbers for the teacher overview. Active students attempted a quiz within the window.
+export interface CourseAnalytics {
+    courseId: string;
+    sectionIds?: string[];
+    enrolledStudents: number;
+    activeStudents: number;
+    activeWindowDays: number;
     completions: number;
+    students: number;
     averageScore: number;
+    medianScore: number;
+    modules: QuizAnalytics[];
 }
 
 export interface StudentQuestion {